@@ -8,10 +8,13 @@ import WalletPage from './pages/WalletPage';
 import TokenMarketplace from './pages/TokenMarketplace';
 import TokenHistory from './pages/TokenHistory';
 import TransactionExplorer from './pages/TransactionExplorer';
+import DisputesPage from './pages/DisputesPage';
+import ContributePage from './pages/ContributePage';
 import PaymentResult from './pages/PaymentResult';
 import LoaderDemo from './pages/LoaderDemo';
 import NavigationBar from './components/NavigationBar';
 import ErrorDashboard from './components/ErrorDashboard';
+import { RealtimeProvider } from './hooks/use-realtime';
 
 function App() {
   const { user, isLoading, error } = useUser();
@@ -55,30 +58,34 @@ function App() {
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <NavigationBar />
-      <div className="container mx-auto p-4">
-        <Switch>
-          <Route path="/" component={DashboardPage} />
-          <Route path="/tasks" component={TasksPage} />
-          <Route path="/wallet" component={WalletPage} />
-          <Route path="/marketplace" component={TokenMarketplace} />
-          <Route path="/history" component={TokenHistory} />
-          <Route path="/explorer" component={TransactionExplorer} />
-          <Route path="/loader-demo" component={LoaderDemo} />
-          <Route>
-            <div className="flex items-center justify-center min-h-[60vh]">
-              <p className="text-muted-foreground">404 - Page not found</p>
-            </div>
-          </Route>
-        </Switch>
+    <RealtimeProvider>
+      <div className="min-h-screen bg-background">
+        <NavigationBar />
+        <div className="container mx-auto p-4">
+          <Switch>
+            <Route path="/" component={DashboardPage} />
+            <Route path="/tasks" component={TasksPage} />
+            <Route path="/wallet" component={WalletPage} />
+            <Route path="/marketplace" component={TokenMarketplace} />
+            <Route path="/history" component={TokenHistory} />
+            <Route path="/explorer" component={TransactionExplorer} />
+            <Route path="/disputes" component={DisputesPage} />
+            <Route path="/contribute" component={ContributePage} />
+            <Route path="/loader-demo" component={LoaderDemo} />
+            <Route>
+              <div className="flex items-center justify-center min-h-[60vh]">
+                <p className="text-muted-foreground">404 - Page not found</p>
+              </div>
+            </Route>
+          </Switch>
 
-        {/* Error Dashboard positioned at the bottom of the viewport */}
-        <div className="fixed bottom-4 right-4 w-96 max-w-[90vw]">
-          <ErrorDashboard />
+          {/* Error Dashboard positioned at the bottom of the viewport */}
+          <div className="fixed bottom-4 right-4 w-96 max-w-[90vw]">
+            <ErrorDashboard />
+          </div>
         </div>
       </div>
-    </div>
+    </RealtimeProvider>
   );
 }
 
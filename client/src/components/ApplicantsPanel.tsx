@@ -0,0 +1,80 @@
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import ReputationBadge from './ReputationBadge';
+import { useTaskApplications } from '../hooks/use-task-applications';
+import { useToast } from '@/hooks/use-toast';
+import type { Task, TaskApplication } from '../types';
+
+interface ApplicantsPanelProps {
+  task: Task;
+}
+
+export default function ApplicantsPanel({ task }: ApplicantsPanelProps) {
+  const { applications, isLoading, reviewApplication } = useTaskApplications(task.id);
+  const { toast } = useToast();
+
+  const pending = applications.filter((application) => application.status === 'pending');
+
+  const handleReview = async (application: TaskApplication, action: 'accept' | 'reject') => {
+    try {
+      await reviewApplication({ applicationId: application.id, action });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to update application',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading applicants...</p>;
+  }
+
+  return (
+    <div className="space-y-2 rounded border p-2">
+      <h3 className="text-sm font-semibold">Applicants ({pending.length})</h3>
+
+      {pending.length === 0 && (
+        <p className="text-sm text-muted-foreground">No applications yet.</p>
+      )}
+
+      {pending.map((application) => (
+        <div key={application.id} className="space-y-2 border-t pt-2 first:border-t-0 first:pt-0">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">
+              {application.applicant?.username ?? `User #${application.applicantId}`}
+            </span>
+            {application.proposedReward !== null ? (
+              <Badge variant="outline">Counter-offer: {application.proposedReward} tokens</Badge>
+            ) : (
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(application.created_at), 'MMM d, HH:mm')}
+              </span>
+            )}
+          </div>
+          <ReputationBadge userId={application.applicantId} />
+          <p className="whitespace-pre-wrap text-sm text-gray-500">{application.pitch}</p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => handleReview(application, 'reject')}
+            >
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              className="flex-1"
+              onClick={() => handleReview(application, 'accept')}
+            >
+              Assign
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useTaskApplications } from '../hooks/use-task-applications';
+import { useToast } from '@/hooks/use-toast';
+import { useState } from 'react';
+import type { Task } from '../types';
+
+interface ApplicationModalProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ApplicationModal({
+  task,
+  open,
+  onOpenChange,
+}: ApplicationModalProps) {
+  const { apply, isApplying } = useTaskApplications(task.id, false);
+  const { toast } = useToast();
+  const [pitch, setPitch] = useState('');
+  const [counterOffer, setCounterOffer] = useState('');
+
+  // Milestone rewards are fixed, so those tasks only take the listed reward
+  const allowsCounterOffer = !task.milestones?.length;
+
+  const handleSubmit = async () => {
+    if (!pitch.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Please tell the creator why you are a good fit',
+      });
+      return;
+    }
+
+    const proposedReward = counterOffer ? Number(counterOffer) : undefined;
+    if (proposedReward !== undefined && (!Number.isInteger(proposedReward) || proposedReward < 1 || proposedReward > task.reward)) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: `Counter-offers must be between 1 and ${task.reward} tokens`,
+      });
+      return;
+    }
+
+    try {
+      await apply({ pitch, proposedReward });
+      onOpenChange(false);
+      setPitch('');
+      setCounterOffer('');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to submit application',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Apply for {task.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <h3 className="font-semibold">Your Pitch:</h3>
+            <Textarea
+              value={pitch}
+              onChange={(e) => setPitch(e.target.value)}
+              placeholder="Relevant experience, how you would approach the task..."
+              className="min-h-[100px]"
+            />
+          </div>
+
+          {allowsCounterOffer && (
+            <div className="space-y-2">
+              <h3 className="font-semibold">Counter-offer (optional):</h3>
+              <Input
+                type="number"
+                min={1}
+                max={task.reward}
+                value={counterOffer}
+                onChange={(e) => setCounterOffer(e.target.value)}
+                placeholder={`${task.reward} tokens`}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to accept the listed reward of {task.reward} tokens.
+              </p>
+            </div>
+          )}
+
+          <Button className="w-full" disabled={isApplying} onClick={handleSubmit}>
+            {isApplying ? 'Submitting...' : 'Submit Application'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
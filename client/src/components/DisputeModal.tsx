@@ -0,0 +1,134 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useDisputes } from '../hooks/use-disputes';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '../hooks/use-user';
+import { useState } from 'react';
+import type { Task } from '../types';
+
+interface DisputeModalProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function DisputeModal({
+  task,
+  open,
+  onOpenChange,
+}: DisputeModalProps) {
+  const { disputes, openDispute, submitStatement } = useDisputes();
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [statement, setStatement] = useState('');
+  const [evidence, setEvidence] = useState('');
+
+  const activeDispute = disputes.find(
+    (dispute) => dispute.taskId === task.id && dispute.status === 'open'
+  );
+  const isCreator = task.creatorId === user?.id;
+
+  const handleSubmit = async () => {
+    if (!statement.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Please explain your side of the dispute',
+      });
+      return;
+    }
+
+    // One piece of evidence (link or reference) per line
+    const evidenceList = evidence
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+    try {
+      if (activeDispute) {
+        await submitStatement({
+          disputeId: activeDispute.id,
+          statement,
+          evidence: evidenceList,
+        });
+      } else {
+        await openDispute({ taskId: task.id, statement, evidence: evidenceList });
+      }
+      onOpenChange(false);
+      setStatement('');
+      setEvidence('');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to submit dispute',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {activeDispute ? 'Dispute Statement' : 'Dispute Rejection'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {(activeDispute?.disputedProof || task.rejectedProof) && (
+            <div>
+              <h3 className="font-semibold">Rejected Proof:</h3>
+              <p className="text-sm">{activeDispute?.disputedProof || task.rejectedProof}</p>
+            </div>
+          )}
+
+          {activeDispute && (
+            <div>
+              <h3 className="font-semibold">
+                {isCreator ? "Worker's Statement:" : 'Your Statement:'}
+              </h3>
+              <p className="text-sm">{activeDispute.workerStatement}</p>
+            </div>
+          )}
+
+          {activeDispute?.creatorStatement && (
+            <div>
+              <h3 className="font-semibold">
+                {isCreator ? 'Your Statement:' : "Creator's Statement:"}
+              </h3>
+              <p className="text-sm">{activeDispute.creatorStatement}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">
+              {activeDispute ? 'Update Your Statement:' : 'Why should the proof be accepted?'}
+            </h3>
+            <Textarea
+              value={statement}
+              onChange={(e) => setStatement(e.target.value)}
+              placeholder="Explain your side to the arbiter..."
+              className="min-h-[100px]"
+            />
+            <Textarea
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+              placeholder="Evidence links, one per line (optional)"
+            />
+          </div>
+
+          <Button className="w-full" onClick={handleSubmit}>
+            {activeDispute ? 'Submit Statement' : 'Open Dispute'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -49,6 +49,11 @@ export default function NavigationBar() {
                 <Link href="/tasks">Tasks</Link>
               </NavigationMenuLink>
             </NavigationMenuItem>
+            <NavigationMenuItem>
+              <NavigationMenuLink asChild>
+                <Link href="/contribute">Contribute</Link>
+              </NavigationMenuLink>
+            </NavigationMenuItem>
             <NavigationMenuItem>
               <NavigationMenuLink asChild>
                 <Link href="/wallet">Wallet</Link>
@@ -59,6 +64,11 @@ export default function NavigationBar() {
                 <Link href="/explorer">Explorer</Link>
               </NavigationMenuLink>
             </NavigationMenuItem>
+            <NavigationMenuItem>
+              <NavigationMenuLink asChild>
+                <Link href="/disputes">Disputes</Link>
+              </NavigationMenuLink>
+            </NavigationMenuItem>
           </NavigationMenuList>
         </NavigationMenu>
 
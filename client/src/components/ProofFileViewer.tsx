@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from 'react';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github.css';
+import { FileCode, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getProofFileUrl } from '../hooks/use-proof-files';
+import type { ProofFile } from '../types';
+
+interface ProofFileViewerProps {
+  files: ProofFile[];
+  onRemove?: (fileId: number) => void;
+}
+
+function formatSize(size: number) {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function CodePreview({ file }: { file: ProofFile }) {
+  const [source, setSource] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(getProofFileUrl(file), { credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(await response.text());
+        return response.text();
+      })
+      .then((text) => !cancelled && setSource(text))
+      .catch((err) => !cancelled && setError(err.message || 'Failed to load file'));
+    return () => {
+      cancelled = true;
+    };
+  }, [file.id]);
+
+  const highlighted = useMemo(() => {
+    if (source === null) return null;
+    const extension = file.originalName.split('.').pop()?.toLowerCase();
+    // highlight.js escapes the source, so its output is safe to inject
+    return extension && hljs.getLanguage(extension)
+      ? hljs.highlight(source, { language: extension }).value
+      : hljs.highlightAuto(source).value;
+  }, [source, file.originalName]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (highlighted === null) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <pre className="max-h-80 overflow-auto rounded bg-muted/30 p-2 text-xs">
+      <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted }} />
+    </pre>
+  );
+}
+
+export default function ProofFileViewer({ files, onRemove }: ProofFileViewerProps) {
+  if (!files.length) {
+    return <p className="text-sm text-muted-foreground">No files uploaded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {files.map((file) => (
+        <div key={file.id} className="space-y-2 rounded border p-2">
+          <div className="flex items-center justify-between gap-2">
+            <a
+              href={getProofFileUrl(file)}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 truncate text-sm font-medium hover:underline"
+            >
+              <FileCode className="h-4 w-4 shrink-0" />
+              {file.originalName}
+            </a>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">{formatSize(file.size)}</span>
+              {onRemove && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(file.id)}
+                  aria-label={`Remove ${file.originalName}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {file.mimeType.startsWith('image/') ? (
+            <img
+              src={getProofFileUrl(file)}
+              alt={file.originalName}
+              className="max-h-80 w-full rounded object-contain"
+            />
+          ) : (
+            <CodePreview file={file} />
+          )}
+
+          <p className="truncate font-mono text-[10px] text-muted-foreground" title={file.sha256}>
+            sha256: {file.sha256}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Star } from 'lucide-react';
+import { useTaskRatings } from '../hooks/use-reputation';
+import { useToast } from '@/hooks/use-toast';
+import { useState } from 'react';
+import type { Task } from '../types';
+
+interface RatingModalProps {
+  task: Task;
+  ratees: Array<{ id: number; username: string }>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RatingModal({
+  task,
+  ratees,
+  open,
+  onOpenChange,
+}: RatingModalProps) {
+  const { rate, isRating } = useTaskRatings(task.id, false);
+  const { toast } = useToast();
+  const [rateeId, setRateeId] = useState<number | null>(null);
+  const [score, setScore] = useState(0);
+  const [comment, setComment] = useState('');
+
+  const selectedId = rateeId ?? ratees[0]?.id;
+
+  const handleSubmit = async () => {
+    if (!selectedId || score < 1) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Please choose a rating from 1 to 5 stars',
+      });
+      return;
+    }
+
+    try {
+      await rate({ rateeId: selectedId, score, comment: comment || undefined });
+      onOpenChange(false);
+      setRateeId(null);
+      setScore(0);
+      setComment('');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to submit rating',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate {task.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {ratees.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {ratees.map((ratee) => (
+                <Button
+                  key={ratee.id}
+                  size="sm"
+                  variant={ratee.id === selectedId ? 'default' : 'outline'}
+                  onClick={() => setRateeId(ratee.id)}
+                >
+                  {ratee.username}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {ratees.length === 1 && (
+            <p className="text-sm">How was working with <strong>{ratees[0].username}</strong>?</p>
+          )}
+
+          <div className="flex gap-1" role="radiogroup" aria-label="Rating">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={score === value}
+                aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                onClick={() => setScore(value)}
+              >
+                <Star
+                  className={`h-6 w-6 ${value <= score ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+                />
+              </button>
+            ))}
+          </div>
+
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Share details about your experience (optional)"
+          />
+
+          <Button className="w-full" disabled={isRating} onClick={handleSubmit}>
+            {isRating ? 'Submitting...' : 'Submit Rating'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { Star } from 'lucide-react';
+import { useUserProfile } from '../hooks/use-reputation';
+
+interface ReputationBadgeProps {
+  userId?: number | null;
+  label?: string;
+}
+
+function percent(value: number | null) {
+  return value === null ? '–' : `${Math.round(value * 100)}%`;
+}
+
+export default function ReputationBadge({ userId, label }: ReputationBadgeProps) {
+  const { profile } = useUserProfile(userId);
+
+  if (!profile) return null;
+
+  const { stats } = profile;
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground"
+      title={`Completion ${percent(stats.completionRate)} · On time ${percent(stats.onTimeRate)} · Disputes ${percent(stats.disputeRate)}`}
+    >
+      {label && <span>{label}:</span>}
+      <span className="font-medium text-foreground">{profile.username}</span>
+      <span className="flex items-center gap-0.5">
+        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+        {stats.averageRating === null ? 'New' : `${stats.averageRating.toFixed(1)} (${stats.ratingCount})`}
+      </span>
+      {stats.completionRate !== null && (
+        <span>{percent(stats.completionRate)} completed</span>
+      )}
+      {stats.onTimeRate !== null && (
+        <span>{percent(stats.onTimeRate)} on time</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useState } from 'react';
+import { useBlockchain } from '../hooks/use-blockchain';
+import { blockchainService } from '../lib/blockchain/BlockchainService';
+import type { TransferReceipt } from '../lib/blockchain/types';
+
+// Matches the server's memo limit
+const MAX_MEMO_LENGTH = 140;
+
+type Step = 'details' | 'confirm' | 'receipt';
+
+interface SendTokensModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ReceiptRow({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right break-all">{value}</span>
+    </div>
+  );
+}
+
+export default function SendTokensModal({ open, onOpenChange }: SendTokensModalProps) {
+  const { balance, transferLimits, createTransaction } = useBlockchain();
+  const [step, setStep] = useState<Step>('details');
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [memo, setMemo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  // One key per confirmed send, so retrying after a network error can't
+  // send twice
+  const [idempotencyKey, setIdempotencyKey] = useState('');
+  const [receipt, setReceipt] = useState<TransferReceipt | null>(null);
+
+  const isQueued = receipt?.status === 'queued';
+  const remainingToday = transferLimits?.remaining;
+  const maxAmount = Math.min(balance, remainingToday ?? balance);
+
+  const reset = () => {
+    setStep('details');
+    setRecipient('');
+    setAmount('');
+    setMemo('');
+    setError(null);
+    setReceipt(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isWorking) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleReview = async () => {
+    const tokens = Number(amount);
+    if (!Number.isInteger(tokens) || tokens < 1) {
+      setError('Enter a whole number of tokens');
+      return;
+    }
+    if (tokens > balance) {
+      setError(`You only have ${balance} tokens`);
+      return;
+    }
+    if (remainingToday !== undefined && tokens > remainingToday) {
+      setError(`You can send ${remainingToday} more tokens today`);
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      const found = await blockchainService.lookupUser(recipient.trim());
+      setRecipient(found.username);
+      setIdempotencyKey(crypto.randomUUID());
+      setStep('confirm');
+    } catch (error: any) {
+      setError(error.message || 'Recipient not found');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSend = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const result = await createTransaction({
+        to: recipient,
+        amount: Number(amount),
+        memo: memo.trim() || undefined,
+        idempotencyKey,
+      });
+      setReceipt(result);
+      setStep('receipt');
+    } catch (error: any) {
+      setError(error.message || 'Transfer failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {step === 'receipt' ? (isQueued ? 'Transfer Queued' : 'Tokens Sent') : step === 'confirm' ? 'Confirm Transfer' : 'Send Tokens'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'details' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h3 className="font-semibold">Recipient:</h3>
+              <Input
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="Username"
+                disabled={isWorking}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Amount:</h3>
+              <Input
+                type="number"
+                min={1}
+                max={maxAmount}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Tokens"
+                disabled={isWorking}
+              />
+              <p className="text-xs text-muted-foreground">
+                Balance: {balance} tokens
+                {transferLimits && ` · ${transferLimits.remaining} of ${transferLimits.limit} left to send today`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Memo (optional):</h3>
+              <Textarea
+                value={memo}
+                onChange={(e) => setMemo(e.target.value.slice(0, MAX_MEMO_LENGTH))}
+                placeholder="What is this for?"
+                disabled={isWorking}
+              />
+              <p className="text-xs text-muted-foreground text-right">
+                {memo.length}/{MAX_MEMO_LENGTH}
+              </p>
+            </div>
+
+            <Button
+              className="w-full"
+              disabled={isWorking || !recipient.trim() || !amount}
+              onClick={handleReview}
+            >
+              {isWorking ? 'Looking up recipient...' : 'Review'}
+            </Button>
+          </div>
+        )}
+
+        {step === 'confirm' && (
+          <div className="space-y-4">
+            <div className="rounded-md border p-4 space-y-2">
+              <ReceiptRow label="To" value={recipient} />
+              <ReceiptRow label="Amount" value={`${amount} tokens`} />
+              {memo.trim() && <ReceiptRow label="Memo" value={memo.trim()} />}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Transfers are final once recorded on the ledger.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                disabled={isWorking}
+                onClick={() => {
+                  setError(null);
+                  setStep('details');
+                }}
+              >
+                Back
+              </Button>
+              <Button className="flex-1" disabled={isWorking} onClick={handleSend}>
+                {isWorking ? 'Sending...' : 'Confirm & Send'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'receipt' && receipt && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-green-600">
+              <CheckCircle2 className="h-5 w-5" />
+              <span className="font-medium">
+                {receipt.amount} tokens {isQueued ? 'queued for' : 'sent to'} {receipt.to}
+              </span>
+            </div>
+            {isQueued && (
+              <p className="text-xs text-muted-foreground">
+                The transfer completes when it is confirmed in the next block.
+              </p>
+            )}
+            <div className="rounded-md border p-4 space-y-2">
+              <ReceiptRow label="Receipt" value={`#${receipt.id}`} />
+              <ReceiptRow label="From" value={receipt.from} />
+              <ReceiptRow label="To" value={receipt.to} />
+              <ReceiptRow label="Amount" value={`${receipt.amount} tokens`} />
+              {receipt.memo && <ReceiptRow label="Memo" value={receipt.memo} />}
+              <ReceiptRow label="Transaction" value={receipt.transactionId ?? 'Pending'} />
+              <ReceiptRow label="Block" value={receipt.blockHash ?? 'Not sealed yet'} />
+              <ReceiptRow
+                label={receipt.completedAt ? 'Completed' : 'Submitted'}
+                value={format(new Date(receipt.completedAt ?? receipt.created_at), 'MMM d, yyyy HH:mm:ss')}
+              />
+            </div>
+            <Button className="w-full" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useUserProfile } from '../hooks/use-reputation';
+import { useSkills } from '../hooks/use-discovery';
+import { useToast } from '@/hooks/use-toast';
+import { Sparkles } from 'lucide-react';
+
+interface SkillsCardProps {
+  userId: number;
+}
+
+// Skills use the same vocabulary as task tags and drive task recommendations
+export default function SkillsCard({ userId }: SkillsCardProps) {
+  const { profile } = useUserProfile(userId);
+  const { updateSkills, isUpdatingSkills } = useSkills(userId);
+  const { toast } = useToast();
+  const [skills, setSkills] = useState<string[]>([]);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    if (profile) setSkills(profile.skills);
+  }, [profile]);
+
+  const addSkill = () => {
+    const skill = draft.trim().toLowerCase();
+    if (skill && !skills.includes(skill)) {
+      setSkills([...skills, skill]);
+    }
+    setDraft('');
+  };
+
+  const handleSave = async () => {
+    try {
+      const result = await updateSkills(skills);
+      setSkills(result.skills);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to update skills',
+      });
+    }
+  };
+
+  const isDirty = !!profile && skills.join(',') !== profile.skills.join(',');
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          Skills
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {skills.map((skill) => (
+            <Badge key={skill} variant="secondary" className="gap-1">
+              {skill}
+              <button
+                type="button"
+                onClick={() => setSkills(skills.filter(s => s !== skill))}
+                aria-label={`Remove ${skill}`}
+              >
+                ✕
+              </button>
+            </Badge>
+          ))}
+          {skills.length === 0 && (
+            <span className="text-xs text-muted-foreground">
+              Add skills to get task recommendations
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addSkill();
+              }
+            }}
+            placeholder="e.g. python"
+            aria-label="Add a skill"
+          />
+          <Button variant="outline" onClick={addSkill} disabled={!draft.trim()}>
+            Add
+          </Button>
+          <Button onClick={handleSave} disabled={!isDirty || isUpdatingSkills}>
+            {isUpdatingSkills ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
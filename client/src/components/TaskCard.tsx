@@ -2,10 +2,25 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { format, formatDistanceStrict } from 'date-fns';
 import { useUser } from '../hooks/use-user';
-import { useTasks } from '../hooks/use-tasks';
+import { useTaskActions } from '../hooks/use-tasks';
+import { useTaskApplications } from '../hooks/use-task-applications';
 import { useToast } from '@/hooks/use-toast';
 import VerificationModal from './VerificationModal';
+import DisputeModal from './DisputeModal';
+import ApplicationModal from './ApplicationModal';
+import ApplicantsPanel from './ApplicantsPanel';
+import RatingModal from './RatingModal';
+import ReputationBadge from './ReputationBadge';
+import TaskProgressDashboard from './TaskProgressDashboard';
+import { useTaskRatings } from '../hooks/use-reputation';
 import type { Task } from '../types';
 
 interface TaskCardProps {
@@ -14,10 +29,42 @@ interface TaskCardProps {
 
 export default function TaskCard({ task }: TaskCardProps) {
   const { user } = useUser();
-  const { submitProof } = useTasks();
+  const { submitProof, cancelTask, respondToCancellation } = useTaskActions();
   const { toast } = useToast();
   const [proofText, setProofText] = useState('');
   const [verifyOpen, setVerifyOpen] = useState(false);
+  const [disputeOpen, setDisputeOpen] = useState(false);
+  const [applyOpen, setApplyOpen] = useState(false);
+  const [progressOpen, setProgressOpen] = useState(false);
+
+  const takesApplications = task.assignmentMode === 'application' && task.status === 'open';
+  const isCreator = task.creatorId === user?.id;
+  const { applications, reviewApplication } = useTaskApplications(
+    task.id,
+    takesApplications && !!user && !isCreator
+  );
+  const myApplication = applications.find((application) => application.status === 'pending');
+
+  const isMultiWorker = task.maxWorkers > 1;
+  const assignments = task.assignments ?? [];
+  const filledSlots = assignments.filter((assignment) => assignment.status !== 'expired').length;
+  const myAssignment = assignments.find(
+    (assignment) => assignment.workerId === user?.id && assignment.status !== 'expired'
+  );
+  const awaitingReview = assignments.filter((assignment) => assignment.status === 'pending_verification').length;
+
+  const [ratingOpen, setRatingOpen] = useState(false);
+  const isFinished = task.status === 'completed' || task.status === 'cancelled';
+  const workers = isMultiWorker
+    ? assignments
+        .map((assignment) => assignment.worker)
+        .filter((worker, index, all): worker is NonNullable<typeof worker> =>
+          !!worker && all.findIndex((other) => other?.id === worker.id) === index)
+    : task.worker ? [task.worker] : [];
+  const isWorker = workers.some((worker) => worker.id === user?.id);
+  const { ratings } = useTaskRatings(task.id, isFinished && (isCreator || isWorker));
+  const unratedParties = (isCreator ? workers : isWorker && task.creator ? [task.creator] : [])
+    .filter((party) => !ratings.some((r) => r.raterId === user?.id && r.rateeId === party.id));
 
   const handleSubmitProof = async () => {
     try {
@@ -35,6 +82,43 @@ export default function TaskCard({ task }: TaskCardProps) {
     }
   };
 
+  const handleCancel = async () => {
+    try {
+      await cancelTask(task.id);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to cancel task',
+      });
+    }
+  };
+
+  const handleCancellationResponse = async (consent: boolean) => {
+    try {
+      await respondToCancellation({ taskId: task.id, consent });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to respond to cancellation request',
+      });
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!myApplication) return;
+    try {
+      await reviewApplication({ applicationId: myApplication.id, action: 'withdraw' });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to withdraw application',
+      });
+    }
+  };
+
   const getStatusColor = (status: Task['status']) => {
     switch (status) {
       case 'open':
@@ -43,8 +127,12 @@ export default function TaskCard({ task }: TaskCardProps) {
         return 'bg-blue-500';
       case 'pending_verification':
         return 'bg-yellow-500';
+      case 'disputed':
+        return 'bg-orange-500';
       case 'completed':
         return 'bg-purple-500';
+      case 'cancelled':
+        return 'bg-red-500';
       default:
         return 'bg-gray-500';
     }
@@ -66,8 +154,50 @@ export default function TaskCard({ task }: TaskCardProps) {
           </span>
           <span className="text-sm">Type: {task.type}</span>
         </div>
+
+        {(task.category || task.tags?.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {task.category && (
+              <Badge variant="secondary">{task.category.name}</Badge>
+            )}
+            {task.tags?.map((tag) => (
+              <Badge key={tag} variant="outline" className="font-normal">
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {!isCreator && <ReputationBadge userId={task.creatorId} label="Creator" />}
+        {isCreator && !isMultiWorker && task.workerId && (
+          <ReputationBadge userId={task.workerId} label="Worker" />
+        )}
+
+        {(task.acceptBy || task.completeBy || !!task.completionWindow) && (
+          <div className="flex justify-between items-center text-xs text-muted-foreground">
+            {task.acceptBy && task.status === 'open' && (
+              <span>Accept by {format(new Date(task.acceptBy), 'MMM d, HH:mm')}</span>
+            )}
+            {task.completeBy ? (
+              <span>Due {format(new Date(task.completeBy), 'MMM d, HH:mm')}</span>
+            ) : task.completionWindow ? (
+              <span>Due {formatDistanceStrict(0, task.completionWindow * 1000)} after accepting</span>
+            ) : null}
+          </div>
+        )}
         
-        {task.status === 'open' && task.creatorId !== user?.id && (
+        {isMultiWorker && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm">
+              Slots: {filledSlots}/{task.maxWorkers} filled
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {task.reward / task.maxWorkers} tokens each
+            </span>
+          </div>
+        )}
+
+        {task.status === 'open' && !isCreator && !takesApplications && !myAssignment && (
           <Button
             className="w-full"
             onClick={() => setVerifyOpen(true)}
@@ -76,7 +206,50 @@ export default function TaskCard({ task }: TaskCardProps) {
           </Button>
         )}
 
-        {task.status === 'in_progress' && task.workerId === user?.id && (
+        {isFinished && unratedParties.length > 0 && (
+        <RatingModal
+          task={task}
+          ratees={unratedParties}
+          open={ratingOpen}
+          onOpenChange={setRatingOpen}
+        />
+      )}
+
+      {takesApplications && !isCreator && (
+          myApplication ? (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">
+                Application pending
+                {myApplication.proposedReward !== null && ` (${myApplication.proposedReward} tokens)`}
+              </span>
+              <Button variant="outline" size="sm" onClick={handleWithdraw}>
+                Withdraw
+              </Button>
+            </div>
+          ) : (
+            <Button
+              className="w-full"
+              onClick={() => setApplyOpen(true)}
+            >
+              Apply
+            </Button>
+          )
+        )}
+
+        {takesApplications && isCreator && <ApplicantsPanel task={task} />}
+
+        {task.milestones && task.milestones.length > 0 && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm">
+              Milestones: {task.milestones.filter((m) => m.status === 'verified').length}/{task.milestones.length} verified
+            </span>
+            <Button variant="link" className="h-auto p-0" onClick={() => setVerifyOpen(true)}>
+              View
+            </Button>
+          </div>
+        )}
+
+        {task.status === 'in_progress' && task.workerId === user?.id && !task.milestones?.length && (
           <div className="space-y-2">
             <textarea
               className="w-full p-2 border rounded"
@@ -93,6 +266,91 @@ export default function TaskCard({ task }: TaskCardProps) {
           </div>
         )}
 
+        {task.status === 'in_progress' && task.workerId === user?.id && task.rejectedProof && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setDisputeOpen(true)}
+          >
+            Dispute Rejection
+          </Button>
+        )}
+
+        {task.status === 'disputed' && (task.creatorId === user?.id || task.workerId === user?.id) && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setDisputeOpen(true)}
+          >
+            View Dispute
+          </Button>
+        )}
+
+        {task.status === 'in_progress' && task.workerId === user?.id && task.cancellationRequestedAt && (
+          <div className="space-y-2 rounded border border-yellow-300 bg-yellow-50 p-2">
+            <p className="text-sm">The creator has asked to cancel this task.</p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => handleCancellationResponse(false)}
+              >
+                Keep Working
+              </Button>
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={() => handleCancellationResponse(true)}
+              >
+                Agree to Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(task.status === 'open' || task.status === 'in_progress') && task.creatorId === user?.id && (
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={!!task.cancellationRequestedAt}
+            onClick={handleCancel}
+          >
+            {task.cancellationRequestedAt ? 'Awaiting Worker Consent' : 'Cancel Task'}
+          </Button>
+        )}
+
+        {isMultiWorker && (myAssignment || (isCreator && awaitingReview > 0)) && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setVerifyOpen(true)}
+          >
+            {isCreator
+              ? `Review Submissions (${awaitingReview})`
+              : `Your Slot: ${myAssignment!.status.replace('_', ' ')}`}
+          </Button>
+        )}
+
+        {isFinished && unratedParties.length > 0 && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setRatingOpen(true)}
+          >
+            {isCreator ? (isMultiWorker ? 'Rate Workers' : 'Rate Worker') : 'Rate Creator'}
+          </Button>
+        )}
+
+        {task.type === 'computational' && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setProgressOpen(true)}
+          >
+            View Progress
+          </Button>
+        )}
+
         {task.status === 'pending_verification' && task.creatorId === user?.id && (
           <Button
             className="w-full"
@@ -108,6 +366,31 @@ export default function TaskCard({ task }: TaskCardProps) {
         open={verifyOpen}
         onOpenChange={setVerifyOpen}
       />
+
+      <DisputeModal
+        task={task}
+        open={disputeOpen}
+        onOpenChange={setDisputeOpen}
+      />
+
+      {task.type === 'computational' && (
+        <Dialog open={progressOpen} onOpenChange={setProgressOpen}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{task.title}</DialogTitle>
+            </DialogHeader>
+            {progressOpen && <TaskProgressDashboard task={task} />}
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {takesApplications && !isCreator && (
+        <ApplicationModal
+          task={task}
+          open={applyOpen}
+          onOpenChange={setApplyOpen}
+        />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,190 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  Bar,
+  BarChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useTaskProgress } from '../hooks/use-task-progress';
+import type { Task, WorkUnitEvent } from '../types';
+
+const EVENT_STYLES: Record<WorkUnitEvent['event'], string> = {
+  queued: 'bg-purple-500',
+  claimed: 'bg-blue-500',
+  completed: 'bg-indigo-500',
+  verified: 'bg-green-500',
+  expired: 'bg-orange-500',
+};
+
+const THROUGHPUT_MINUTES = 60;
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+    </div>
+  );
+}
+
+interface TaskProgressDashboardProps {
+  task: Task;
+}
+
+export default function TaskProgressDashboard({ task }: TaskProgressDashboardProps) {
+  const { progress, activity, events, isLoading, isLive } = useTaskProgress(task.id);
+
+  // The endpoint skips idle minutes; the chart shows the whole hour
+  const throughput = useMemo(() => {
+    const counts = new Map(
+      (activity?.throughput ?? []).map(point => [new Date(point.minute).getTime(), point.completed])
+    );
+    const now = new Date();
+    now.setSeconds(0, 0);
+    return Array.from({ length: THROUGHPUT_MINUTES }, (_, index) => {
+      const minute = now.getTime() - (THROUGHPUT_MINUTES - 1 - index) * 60000;
+      return { minute: format(minute, 'HH:mm'), completed: counts.get(minute) ?? 0 };
+    });
+  }, [activity]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!progress) {
+    return <p className="text-sm text-muted-foreground">Work units haven't been created for this task yet.</p>;
+  }
+
+  // Every unclaimed or running replica still has to be computed; leased
+  // replicas approximate how many run side by side
+  const remaining = progress.pending + progress.inProgress;
+  const estimatedTimePerUnit = task.computationalMetadata?.estimatedTimePerUnit ?? 60;
+  const etaSeconds = Math.ceil(remaining / Math.max(progress.leased, 1)) * estimatedTimePerUnit;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>
+            {progress.verifiedUnits} of {progress.units} units verified
+          </span>
+          <Badge variant={isLive ? 'default' : 'secondary'}>{isLive ? 'Live' : 'Offline'}</Badge>
+        </div>
+        <Progress value={(progress.verifiedUnits / progress.units) * 100} />
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+        <Stat label="Pending" value={progress.pending} />
+        <Stat label="Running" value={progress.leased} />
+        <Stat label="Completed" value={progress.completed} />
+        <Stat label="Flagged" value={progress.flagged} />
+        <Stat label="Failed" value={progress.failed} />
+        <Stat label="ETA" value={remaining ? formatDuration(etaSeconds) : 'Done'} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Throughput (replicas per minute)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={160}>
+            <BarChart data={throughput}>
+              <XAxis dataKey="minute" fontSize={10} interval={9} />
+              <YAxis allowDecimals={false} fontSize={10} width={30} />
+              <Tooltip />
+              <Bar dataKey="completed" fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Top Workers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {activity?.leaderboard.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Worker</TableHead>
+                    <TableHead>Verified</TableHead>
+                    <TableHead>Flagged</TableHead>
+                    <TableHead>Avg. time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activity.leaderboard.map(worker => (
+                    <TableRow key={worker.workerId}>
+                      <TableCell className="font-medium">{worker.username}</TableCell>
+                      <TableCell>
+                        {worker.verified}/{worker.completed}
+                      </TableCell>
+                      <TableCell>{worker.flagged}</TableCell>
+                      <TableCell>
+                        {worker.averageDurationMs === null ? '-' : formatDuration(worker.averageDurationMs / 1000)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No units have been completed yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recent Activity</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {events.length ? (
+              events.map((event, index) => (
+                <div key={index} className="flex items-center justify-between text-sm">
+                  <span>
+                    Unit {event.unitIndex} · replica {event.replica}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{format(event.timestamp, 'HH:mm:ss')}</span>
+                    <Badge className={EVENT_STYLES[event.event]}>{event.event}</Badge>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">Waiting for unit updates...</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
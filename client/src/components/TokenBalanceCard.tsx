@@ -23,6 +23,7 @@ export function TokenBalanceCard() {
               tx.type === 'receive' ? tx.amount :
               tx.type === 'escrow' ? -tx.amount :
               tx.type === 'release' ? tx.amount :
+              tx.type === 'refund' ? tx.amount :
               tx.type === 'purchase' ? tx.amount : -tx.amount
     }));
 
@@ -31,6 +32,7 @@ export function TokenBalanceCard() {
       case 'purchase': return 'Token Purchase';
       case 'escrow': return 'Task Escrow Lock';
       case 'release': return 'Task Completion Release';
+      case 'refund': return 'Task Escrow Refund';
       case 'send': return 'Sent Tokens';
       case 'receive': return 'Received Tokens';
       default: return type.charAt(0).toUpperCase() + type.slice(1);
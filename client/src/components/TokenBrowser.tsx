@@ -28,6 +28,13 @@ import {
   DropdownMenuCheckboxItem,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "./ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import TokenDetail from './TokenDetail';
 
 interface TokenBrowserProps {
   tokens: Token[];
@@ -43,6 +50,7 @@ export function TokenBrowser({ tokens, isLoading }: TokenBrowserProps) {
   const [statusFilter, setStatusFilter] = useState<FilterStatus>('all');
   const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
   const [creatorSearch, setCreatorSearch] = useState('');
+  const [selectedTokenId, setSelectedTokenId] = useState<string | null>(null);
 
   const filteredAndSortedTokens = useMemo(() => {
     let result = [...tokens];
@@ -233,7 +241,10 @@ export function TokenBrowser({ tokens, isLoading }: TokenBrowserProps) {
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: index * 0.05 }}
                     >
-                      <Card className="hover:shadow-md transition-shadow cursor-help">
+                      <Card
+                        className="hover:shadow-md transition-shadow cursor-pointer"
+                        onClick={() => setSelectedTokenId(token.id)}
+                      >
                         <CardContent className="pt-6">
                           <div className="space-y-2">
                             <div className="flex items-center justify-between">
@@ -293,6 +304,7 @@ export function TokenBrowser({ tokens, isLoading }: TokenBrowserProps) {
                         <span className="text-muted-foreground">Previous Transfers:</span>{' '}
                         {token.metadata?.previousTransfers?.length || 0}
                       </p>
+                      <p className="text-xs text-muted-foreground">Click for the full history</p>
                     </div>
                   </TooltipContent>
                 </Tooltip>
@@ -314,6 +326,15 @@ export function TokenBrowser({ tokens, isLoading }: TokenBrowserProps) {
           )}
         </div>
       </CardContent>
+
+      <Dialog open={!!selectedTokenId} onOpenChange={(open) => !open && setSelectedTokenId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Token History</DialogTitle>
+          </DialogHeader>
+          {selectedTokenId && <TokenDetail tokenId={selectedTokenId} />}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { blockchainService } from '../lib/blockchain/BlockchainService';
+import type { TokenEventType, TokenHistory } from '../lib/blockchain/types';
+
+const EVENT_STYLES: Record<TokenEventType, string> = {
+  mint: 'bg-purple-500',
+  transfer: 'bg-blue-500',
+  escrow: 'bg-yellow-500',
+  release: 'bg-green-500',
+  refund: 'bg-orange-500',
+  burn: 'bg-gray-500',
+};
+
+function Field({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium break-all">{value}</p>
+    </div>
+  );
+}
+
+interface TokenDetailProps {
+  tokenId: string;
+}
+
+export default function TokenDetail({ tokenId }: TokenDetailProps) {
+  const { data: history, isLoading, error } = useQuery<TokenHistory>({
+    queryKey: ['/api/blockchain/tokens', tokenId, 'history'],
+    queryFn: () => blockchainService.getTokenHistory(tokenId),
+  });
+
+  // Work the token paid for, one entry per task
+  const paidFor = useMemo(() => {
+    const releases = (history?.events ?? []).filter(event => event.type === 'release' && event.task);
+    return releases.filter((event, index) =>
+      releases.findIndex(other => other.task!.id === event.task!.id) === index
+    );
+  }, [history]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !history) {
+    return <p className="text-sm text-muted-foreground">This token's history couldn't be loaded.</p>;
+  }
+
+  const { token, events } = history;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <Field label="Token ID" value={token.id} />
+        <Field label="Status" value={token.status.charAt(0).toUpperCase() + token.status.slice(1)} />
+        <Field label="Creator" value={token.creator} />
+        <Field label="Owner" value={token.owner} />
+        <Field label="Minted in block" value={token.mintedInBlock} />
+        <Field label="Created" value={format(token.createdAt, 'PPpp')} />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Paid For</h3>
+        {paidFor.length ? (
+          paidFor.map(event => (
+            <div key={event.task!.id} className="flex justify-between text-sm">
+              <span>{event.task!.title}</span>
+              <span className="text-muted-foreground">
+                Task #{event.task!.id}
+                {event.unitId !== null && ` · unit ${event.unitId}`}
+              </span>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">This token hasn't paid for any work yet.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Ownership Chain</h3>
+        {events.length ? (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {events.map(event => (
+              <div key={event.id} className="rounded-md border p-3 space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <span>{event.from ?? 'SYSTEM'}</span>
+                    <ArrowRight className="h-3 w-3" />
+                    <span>{event.to ?? '-'}</span>
+                  </div>
+                  <Badge className={EVENT_STYLES[event.type]}>{event.type}</Badge>
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    Transaction #{event.transactionId}
+                    {event.task && ` · ${event.task.title}`}
+                  </span>
+                  <span>{format(event.timestamp, 'MMM d, yyyy HH:mm')}</span>
+                </div>
+                <p className="text-xs font-mono text-muted-foreground truncate">
+                  {event.blockHash ? `Block ${event.blockHash}` : 'Not sealed yet'}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No transfers have been recorded for this token.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,12 +7,248 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { useTasks } from '../hooks/use-tasks';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import ProofFileViewer from './ProofFileViewer';
+import { useProofFiles } from '../hooks/use-proof-files';
+import { useTaskActions } from '../hooks/use-tasks';
 import { useToast } from '@/hooks/use-toast';
 import { useUser } from '../hooks/use-user';
 import { useState } from 'react';
 import type { Task } from '../types';
 
+interface MilestoneProgressProps {
+  task: Task;
+  isWorker: boolean;
+  isCreator: boolean;
+}
+
+function MilestoneProgress({ task, isWorker, isCreator }: MilestoneProgressProps) {
+  const { submitMilestoneProof, verifyMilestone } = useTaskActions();
+  const { toast } = useToast();
+  const [proofs, setProofs] = useState<Record<number, string>>({});
+  const milestones = task.milestones ?? [];
+  const verifiedCount = milestones.filter((m) => m.status === 'verified').length;
+  const inProgress = task.status === 'in_progress';
+
+  const handleSubmit = async (milestoneId: number) => {
+    const proof = proofs[milestoneId];
+    if (!proof) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Please provide proof for this milestone',
+      });
+      return;
+    }
+    try {
+      await submitMilestoneProof({ taskId: task.id, milestoneId, proof });
+      setProofs((current) => ({ ...current, [milestoneId]: '' }));
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to submit milestone proof',
+      });
+    }
+  };
+
+  const handleVerify = async (milestoneId: number, verified: boolean) => {
+    try {
+      await verifyMilestone({ taskId: task.id, milestoneId, verified });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to verify milestone',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Milestones:</h3>
+        <span className="text-sm text-muted-foreground">
+          {verifiedCount} of {milestones.length} verified
+        </span>
+      </div>
+      <Progress value={(verifiedCount / milestones.length) * 100} />
+
+      {milestones.map((milestone) => (
+        <div key={milestone.id} className="space-y-2 rounded border p-3">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium">
+              {milestone.position + 1}. {milestone.title}
+            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-xs">{milestone.reward} tokens</span>
+              <Badge variant={milestone.status === 'verified' ? 'default' : 'secondary'}>
+                {milestone.status}
+              </Badge>
+            </div>
+          </div>
+          {milestone.description && (
+            <p className="text-xs text-muted-foreground">{milestone.description}</p>
+          )}
+          {milestone.proofSubmitted && (
+            <p className="text-sm">Proof: {milestone.proofSubmitted}</p>
+          )}
+
+          {inProgress && isWorker && milestone.status === 'pending' && (
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                value={proofs[milestone.id] ?? ''}
+                onChange={(e) =>
+                  setProofs((current) => ({ ...current, [milestone.id]: e.target.value }))
+                }
+                placeholder="Enter proof for this milestone..."
+              />
+              <Button onClick={() => handleSubmit(milestone.id)}>Submit</Button>
+            </div>
+          )}
+
+          {inProgress && isCreator && milestone.status === 'submitted' && (
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={() => handleVerify(milestone.id, false)}
+              >
+                Reject
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => handleVerify(milestone.id, true)}
+              >
+                Approve & Pay
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AssignmentProgressProps {
+  task: Task;
+  userId?: number;
+  isCreator: boolean;
+}
+
+function AssignmentProgress({ task, userId, isCreator }: AssignmentProgressProps) {
+  const { submitAssignmentProof, verifyAssignment } = useTaskActions();
+  const { toast } = useToast();
+  const [proof, setProof] = useState('');
+  const assignments = (task.assignments ?? []).filter(
+    (assignment) => isCreator || assignment.workerId === userId
+  );
+  const completedCount = (task.assignments ?? []).filter((a) => a.status === 'completed').length;
+  const active = task.status === 'open' || task.status === 'in_progress';
+  const slotReward = task.reward / task.maxWorkers;
+
+  const handleSubmit = async (assignmentId: number) => {
+    if (!proof) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Please provide proof of completion',
+      });
+      return;
+    }
+    try {
+      await submitAssignmentProof({ taskId: task.id, assignmentId, proof });
+      setProof('');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to submit proof',
+      });
+    }
+  };
+
+  const handleVerify = async (assignmentId: number, verified: boolean) => {
+    try {
+      await verifyAssignment({ taskId: task.id, assignmentId, verified });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to verify submission',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Completions:</h3>
+        <span className="text-sm text-muted-foreground">
+          {completedCount} of {task.maxWorkers} verified · {slotReward} tokens each
+        </span>
+      </div>
+      <Progress value={(completedCount / task.maxWorkers) * 100} />
+
+      {assignments.map((assignment) => (
+        <div key={assignment.id} className="space-y-2 rounded border p-3">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium">
+              {assignment.workerId === userId
+                ? 'Your slot'
+                : assignment.worker?.username ?? `Worker #${assignment.workerId}`}
+            </span>
+            <Badge variant={assignment.status === 'completed' ? 'default' : 'secondary'}>
+              {assignment.status.replace('_', ' ')}
+            </Badge>
+          </div>
+          {assignment.proofSubmitted && (
+            <p className="text-sm">Proof: {assignment.proofSubmitted}</p>
+          )}
+          {assignment.rejectedProof && assignment.status === 'in_progress' && (
+            <p className="text-xs text-muted-foreground">
+              Rejected proof: {assignment.rejectedProof}
+            </p>
+          )}
+
+          {active && assignment.workerId === userId && assignment.status === 'in_progress' && (
+            <div className="space-y-2">
+              <Textarea
+                value={proof}
+                onChange={(e) => setProof(e.target.value)}
+                placeholder={task.proofRequired}
+              />
+              <Button className="w-full" onClick={() => handleSubmit(assignment.id)}>
+                Submit Proof
+              </Button>
+            </div>
+          )}
+
+          {active && isCreator && assignment.status === 'pending_verification' && (
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={() => handleVerify(assignment.id, false)}
+              >
+                Reject
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => handleVerify(assignment.id, true)}
+              >
+                Approve & Pay
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface VerificationModalProps {
   task: Task;
   open: boolean;
@@ -24,11 +260,29 @@ export default function VerificationModal({
   open,
   onOpenChange,
 }: VerificationModalProps) {
-  const { acceptTask, submitProof, verifyTask } = useTasks();
+  const { acceptTask, submitProof, verifyTask } = useTaskActions();
   const { user } = useUser();
   const { toast } = useToast();
   const [proof, setProof] = useState('');
 
+  const hasMilestones = !!task.milestones?.length;
+  const isMultiWorker = task.maxWorkers > 1;
+  const holdsSlot = !!task.assignments?.some(
+    (assignment) => assignment.workerId === user?.id && assignment.status !== 'expired'
+  );
+  const usesProofFiles = task.proofType === 'image_upload' || task.proofType === 'code_submission';
+  const isParticipant = task.creatorId === user?.id || task.workerId === user?.id || user?.role === 'arbiter';
+  const canAccept = task.status === 'open' && task.creatorId !== user?.id && !holdsSlot;
+  const canSubmitProof = task.status === 'in_progress' && task.workerId === user?.id && !hasMilestones;
+  const canVerify = task.status === 'pending_verification' && task.creatorId === user?.id;
+
+  const { files, uploadFiles, isUploading, removeFile } = useProofFiles(
+    task.id,
+    open && usesProofFiles && isParticipant && !!task.workerId
+  );
+  // Files left behind by a previous worker are not part of this submission
+  const myFiles = files.filter((file) => file.uploaderId === task.workerId);
+
   const handleAccept = async () => {
     try {
       await acceptTask(task.id);
@@ -42,13 +296,42 @@ export default function VerificationModal({
     }
   };
 
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (!selected.length) return;
+    try {
+      await uploadFiles(selected);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to upload files',
+      });
+    }
+  };
+
+  const handleRemoveFile = async (fileId: number) => {
+    try {
+      await removeFile(fileId);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to remove file',
+      });
+    }
+  };
+
   const handleSubmitProof = async () => {
     try {
-      if (!proof) {
+      if (usesProofFiles ? !myFiles.length : !proof) {
         toast({
           variant: 'destructive',
           title: 'Error',
-          description: 'Please provide proof of completion',
+          description: usesProofFiles
+            ? 'Please upload at least one file'
+            : 'Please provide proof of completion',
         });
         return;
       }
@@ -77,9 +360,6 @@ export default function VerificationModal({
     }
   };
 
-  const canAccept = task.status === 'open' && task.creatorId !== user?.id;
-  const canSubmitProof = task.status === 'in_progress' && task.workerId === user?.id;
-  const canVerify = task.status === 'pending_verification' && task.creatorId === user?.id;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -103,9 +383,29 @@ export default function VerificationModal({
 
           <div>
             <h3 className="font-semibold">Reward:</h3>
-            <p className="text-sm">{task.reward} tokens</p>
+            <p className="text-sm">
+              {isMultiWorker
+                ? `${task.reward / task.maxWorkers} tokens per worker (${task.maxWorkers} workers)`
+                : `${task.reward} tokens`}
+            </p>
           </div>
 
+          {hasMilestones && (
+            <MilestoneProgress
+              task={task}
+              isWorker={task.workerId === user?.id}
+              isCreator={task.creatorId === user?.id}
+            />
+          )}
+
+          {isMultiWorker && (task.creatorId === user?.id || holdsSlot) && (
+            <AssignmentProgress
+              task={task}
+              userId={user?.id}
+              isCreator={task.creatorId === user?.id}
+            />
+          )}
+
           {task.proofSubmitted && (
             <div>
               <h3 className="font-semibold">Submitted Proof:</h3>
@@ -113,10 +413,31 @@ export default function VerificationModal({
             </div>
           )}
 
+          {usesProofFiles && task.proofSubmitted && !canSubmitProof && isParticipant && (
+            <ProofFileViewer files={myFiles} />
+          )}
+
           {canSubmitProof && (
             <div className="space-y-2">
               <h3 className="font-semibold">Submit Proof:</h3>
-              {task.proofType === 'text_submission' ? (
+              {usesProofFiles ? (
+                <div className="space-y-2">
+                  <Input
+                    type="file"
+                    multiple
+                    disabled={isUploading}
+                    accept={task.proofType === 'image_upload' ? 'image/png,image/jpeg,image/gif,image/webp' : undefined}
+                    onChange={handleUpload}
+                    aria-label="Upload proof files"
+                  />
+                  <ProofFileViewer files={myFiles} onRemove={handleRemoveFile} />
+                  <Textarea
+                    value={proof}
+                    onChange={(e) => setProof(e.target.value)}
+                    placeholder="Add a note for the reviewer (optional)..."
+                  />
+                </div>
+              ) : task.proofType === 'text_submission' ? (
                 <Textarea
                   value={proof}
                   onChange={(e) => setProof(e.target.value)}
@@ -1,8 +1,11 @@
+import { useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Transaction, Token } from '../lib/blockchain/types';
 import { blockchainService } from '../lib/blockchain/BlockchainService';
 import { useToast } from './use-toast';
 import { useUser } from './use-user';
+import { useRealtime } from './use-realtime';
+import type { WebSocketMessage } from './use-websocket';
 
 export function useBlockchain() {
   const queryClient = useQueryClient();
@@ -13,12 +16,14 @@ export function useBlockchain() {
     queryKey: ['/api/blockchain/transactions'],
     queryFn: () => blockchainService.getAllTransactions(),
     staleTime: 10000, // Consider data fresh for 10 seconds
+    refetchInterval: 30000, // Confirmation counts grow as blocks are sealed
   });
 
   const { data: pendingTransactions = [] } = useQuery<Transaction[]>({
     queryKey: ['/api/blockchain/pending'],
     queryFn: () => blockchainService.getPendingTransactions(),
     staleTime: 5000, // Consider data fresh for 5 seconds
+    refetchInterval: 15000,
   });
 
   const { data: tokens = [], isLoading: tokensLoading } = useQuery<Token[]>({
@@ -58,12 +63,40 @@ export function useBlockchain() {
     staleTime: 5000,
   });
 
+  const { data: transferLimits } = useQuery({
+    queryKey: ['/api/transfers/limits'],
+    queryFn: () => blockchainService.getTransferLimits(),
+    enabled: !!user,
+  });
+
+  const invalidateWallet = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/blockchain/transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/blockchain/pending'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/blockchain/balance'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/blockchain/tokens'] });
+  }, [queryClient]);
+
+  // Incoming and rejected transfers refresh the wallet without a reload
+  useRealtime(useCallback((message: WebSocketMessage) => {
+    if (message.type === 'tokens_received') invalidateWallet();
+    if (message.type === 'transfer_rejected') {
+      invalidateWallet();
+      // Rejected sends no longer count towards the daily limit
+      queryClient.invalidateQueries({ queryKey: ['/api/transfers/limits'] });
+    }
+  }, [invalidateWallet, queryClient]));
+
   const createTransactionMutation = useMutation({
-    mutationFn: async ({ to, amount }: { to: string; amount: number }) => {
+    mutationFn: async ({ to, amount, memo, idempotencyKey }: {
+      to: string;
+      amount: number;
+      memo?: string;
+      idempotencyKey?: string;
+    }) => {
       if (!user) throw new Error("Must be logged in");
       console.log('[Blockchain] Creating transaction:', { to, amount });
       try {
-        const result = await blockchainService.createTransaction(to, amount);
+        const result = await blockchainService.createTransaction(to, amount, { memo, idempotencyKey });
         console.log('[Blockchain] Transaction created:', result);
         return result;
       } catch (error: any) {
@@ -77,10 +110,8 @@ export function useBlockchain() {
       }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/blockchain/transactions'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/blockchain/pending'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/blockchain/balance'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/blockchain/tokens'] });
+      invalidateWallet();
+      queryClient.invalidateQueries({ queryKey: ['/api/transfers/limits'] });
       toast({
         title: 'Success',
         description: 'Transaction created successfully',
@@ -93,6 +124,7 @@ export function useBlockchain() {
     pendingTransactions,
     tokens,
     balance,
+    transferLimits,
     isLoading: transactionsLoading || balanceLoading || tokensLoading,
     createTransaction: createTransactionMutation.mutateAsync,
   };
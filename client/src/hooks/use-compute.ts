@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { LEASE_DURATION } from '../../../server/services/workProtocol';
+import type { AvailableWork, ClaimedWorkUnit, SubmissionOutcome, WorkerEarnings, WorkUnitInput } from '../types';
+import { KernelSandbox } from '@/lib/computeKernel';
+
+export type ComputeStatus = 'idle' | 'running' | 'pausing' | 'paused' | 'finished';
+
+export interface ComputeStats {
+  completed: number;
+  verified: number;
+  flagged: number;
+  rejected: number;
+  errors: number;
+  computeMs: number;
+}
+
+export interface ComputeLogEntry {
+  unitIndex: number;
+  outcome: SubmissionOutcome | 'error';
+  durationMs: number;
+  message?: string;
+}
+
+const EMPTY_STATS: ComputeStats = { completed: 0, verified: 0, flagged: 0, rejected: 0, errors: 0, computeMs: 0 };
+const MAX_LOG_ENTRIES = 20;
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return response.json();
+}
+
+async function postJson<T>(url: string, method: string, body?: unknown): Promise<{ status: number; data: T }> {
+  const response = await fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok && response.status !== 422) {
+    throw Object.assign(new Error(data.message || response.statusText), { status: response.status, code: data.code });
+  }
+  return { status: response.status, data };
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Only tasks that ship a browser kernel can be worked on from the page
+export function useAvailableWork() {
+  const { data: work = [], isLoading } = useQuery<AvailableWork[]>({
+    queryKey: ['/api/workers/me/work'],
+    queryFn: () => fetchJson('/api/workers/me/work'),
+    refetchInterval: 15000,
+  });
+
+  return { work: work.filter(entry => entry.computationalMetadata?.kernel), isLoading };
+}
+
+export function useTaskEarnings(taskId?: number) {
+  const { data: earnings, isLoading } = useQuery<WorkerEarnings>({
+    queryKey: ['/api/tasks', taskId, 'earnings'],
+    queryFn: () => fetchJson(`/api/tasks/${taskId}/earnings`),
+    enabled: !!taskId,
+    refetchInterval: 10000,
+  });
+
+  return { earnings, isLoading };
+}
+
+// Claims, computes and submits units one at a time for the selected task.
+// Throttle is the share of wall time spent computing: after a unit that took
+// t ms the loop idles t * (100 / throttle - 1) ms. Pausing lets the current
+// unit finish.
+export function useComputeSession(work: AvailableWork | null, throttle: number) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ComputeStatus>('idle');
+  const [stats, setStats] = useState<ComputeStats>(EMPTY_STATS);
+  const [log, setLog] = useState<ComputeLogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const runningRef = useRef(false);
+  const throttleRef = useRef(throttle);
+  const sandboxRef = useRef<KernelSandbox | null>(null);
+  const loopRef = useRef<Promise<void> | null>(null);
+  const loopTaskRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    throttleRef.current = throttle;
+  }, [throttle]);
+
+  useEffect(() => () => {
+    runningRef.current = false;
+    sandboxRef.current?.dispose();
+    sandboxRef.current = null;
+  }, []);
+
+  // Switching tasks starts a fresh session
+  useEffect(() => {
+    runningRef.current = false;
+    setStatus('idle');
+    setStats(EMPTY_STATS);
+    setLog([]);
+    setError(null);
+  }, [work?.taskId, work?.tokenId]);
+
+  const record = useCallback((entry: ComputeLogEntry) => {
+    setLog(current => [entry, ...current].slice(0, MAX_LOG_ENTRIES));
+    setStats(current => ({
+      ...current,
+      completed: current.completed + (entry.outcome === 'error' || entry.outcome === 'rejected' ? 0 : 1),
+      verified: current.verified + (entry.outcome === 'verified' ? 1 : 0),
+      flagged: current.flagged + (entry.outcome === 'flagged' ? 1 : 0),
+      rejected: current.rejected + (entry.outcome === 'rejected' ? 1 : 0),
+      errors: current.errors + (entry.outcome === 'error' ? 1 : 0),
+      computeMs: current.computeMs + entry.durationMs,
+    }));
+  }, []);
+
+  const processUnit = useCallback(async (task: AvailableWork, unit: ClaimedWorkUnit) => {
+    const heartbeat = setInterval(() => {
+      postJson(`/api/tasks/${task.taskId}/units/${unit.id}/heartbeat`, 'POST').catch(error => {
+        console.warn('[Compute] Heartbeat failed:', error);
+      });
+    }, LEASE_DURATION / 3);
+
+    const startedAt = performance.now();
+    try {
+      const input = unit.input as WorkUnitInput | null;
+      let shard: string | null = null;
+      if (input?.shard) {
+        const response = await fetch(input.shard.url, { credentials: 'include' });
+        if (!response.ok) throw new Error(await response.text());
+        shard = await response.text();
+        if (await sha256(shard) !== input.shard.sha256) {
+          throw new Error('Shard failed its checksum');
+        }
+      }
+
+      if (!sandboxRef.current) {
+        sandboxRef.current = new KernelSandbox();
+      }
+      const result = await sandboxRef.current.run(task.computationalMetadata!.kernel!, input, shard, LEASE_DURATION);
+      const durationMs = Math.round(performance.now() - startedAt);
+
+      const { data } = await postJson<{ outcome: SubmissionOutcome }>(
+        `/api/tasks/${task.taskId}/units/${unit.id}/submit`,
+        'POST',
+        { result }
+      );
+      record({ unitIndex: unit.unitIndex, outcome: data.outcome ?? 'rejected', durationMs });
+      return durationMs;
+    } catch (error: any) {
+      // The unit's lease runs out and it goes back to the queue
+      const durationMs = Math.round(performance.now() - startedAt);
+      record({ unitIndex: unit.unitIndex, outcome: 'error', durationMs, message: error.message });
+      return durationMs;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }, [record]);
+
+  const loop = useCallback(async (task: AvailableWork) => {
+    while (runningRef.current) {
+      let unit: ClaimedWorkUnit;
+      try {
+        ({ data: unit } = await postJson<ClaimedWorkUnit>(`/api/tasks/${task.taskId}/claim`, 'POST', { tokenId: task.tokenId }));
+      } catch (error: any) {
+        runningRef.current = false;
+        if (error.code === 'NO_WORK_AVAILABLE') {
+          setStatus('finished');
+        } else {
+          setError(error.message);
+          setStatus('paused');
+        }
+        queryClient.invalidateQueries({ queryKey: ['/api/workers/me/work'] });
+        return;
+      }
+
+      const durationMs = await processUnit(task, unit);
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks', task.taskId, 'earnings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/blockchain/balance'] });
+
+      const share = Math.min(Math.max(throttleRef.current, 10), 100);
+      if (share < 100) {
+        await sleep(durationMs * (100 / share - 1));
+      }
+    }
+    setStatus(current => current === 'pausing' ? 'paused' : current);
+  }, [processUnit, queryClient]);
+
+  const start = useCallback(async () => {
+    if (!work || runningRef.current) return;
+
+    // Resuming before the current unit finished keeps the same loop going;
+    // a loop still finishing another task's unit is waited out
+    if (loopRef.current && loopTaskRef.current === work.taskId) {
+      runningRef.current = true;
+      setStatus('running');
+      return;
+    }
+    await loopRef.current;
+    setError(null);
+
+    try {
+      // Browsers report memory in (rounded) gigabytes, and not all of them do
+      const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+      await postJson('/api/workers/me/profile', 'PUT', {
+        memoryMb: Math.round(deviceMemory * 1024),
+        cpuCores: navigator.hardwareConcurrency || 1,
+        gpuCount: 0,
+        status: 'active'
+      });
+    } catch (error: any) {
+      setError(error.message);
+      return;
+    }
+
+    runningRef.current = true;
+    setStatus('running');
+    loopTaskRef.current = work.taskId;
+    loopRef.current = loop(work).finally(() => {
+      loopRef.current = null;
+    });
+  }, [work, loop]);
+
+  const pause = useCallback(() => {
+    if (!runningRef.current) return;
+    runningRef.current = false;
+    setStatus('pausing');
+  }, []);
+
+  return { status, stats, log, error, start, pause };
+}
@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Category, PopularTag, RecommendedTask } from '../types';
+import { useToast } from '@/hooks/use-toast';
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return response.json();
+}
+
+export function useCategories() {
+  const { data: categories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+    queryFn: () => fetchJson('/api/categories'),
+    staleTime: Infinity,
+  });
+
+  // Flattened for selects; subcategories are labelled with their parent
+  const options = categories.flatMap(parent => [
+    { id: parent.id, label: parent.name },
+    ...(parent.children ?? []).map(child => ({ id: child.id, label: `${parent.name} / ${child.name}` }))
+  ]);
+
+  return { categories, options, isLoading };
+}
+
+export function usePopularTags() {
+  const { data: tags = [], isLoading } = useQuery<PopularTag[]>({
+    queryKey: ['/api/tags'],
+    queryFn: () => fetchJson('/api/tags'),
+    staleTime: 60000,
+  });
+
+  return { tags, isLoading };
+}
+
+export function useRecommendedTasks(enabled = true) {
+  const { data: recommended = [], isLoading } = useQuery<RecommendedTask[]>({
+    queryKey: ['/api/tasks/recommended'],
+    queryFn: () => fetchJson('/api/tasks/recommended'),
+    enabled,
+  });
+
+  return { recommended, isLoading };
+}
+
+export function useSkills(userId?: number) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const updateSkillsMutation = useMutation({
+    mutationFn: async (skills: string[]) => {
+      console.log('[Skills] Updating skills:', skills);
+      const response = await fetch('/api/users/me/skills', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ skills }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Skills] Update failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json() as Promise<{ skills: string[] }>;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Skills updated'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'profile'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks/recommended'] });
+    },
+  });
+
+  return {
+    updateSkills: updateSkillsMutation.mutateAsync,
+    isUpdatingSkills: updateSkillsMutation.isPending,
+  };
+}
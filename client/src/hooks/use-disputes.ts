@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Dispute } from '../types';
+import { useToast } from '@/hooks/use-toast';
+
+export function useDisputes() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: disputes = [], isLoading } = useQuery<Dispute[]>({
+    queryKey: ['/api/disputes'],
+    queryFn: async () => {
+      const response = await fetch('/api/disputes', {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const openDisputeMutation = useMutation({
+    mutationFn: async ({ taskId, statement, evidence }: { taskId: number; statement: string; evidence: string[] }) => {
+      console.log('[Disputes] Opening dispute:', { taskId });
+      const response = await fetch(`/api/tasks/${taskId}/dispute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ statement, evidence }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Disputes] Opening dispute failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Dispute submitted for arbitration'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/disputes'] });
+    },
+  });
+
+  const submitStatementMutation = useMutation({
+    mutationFn: async ({ disputeId, statement, evidence }: { disputeId: number; statement: string; evidence: string[] }) => {
+      console.log('[Disputes] Submitting statement:', { disputeId });
+      const response = await fetch(`/api/disputes/${disputeId}/statement`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ statement, evidence }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Disputes] Statement submission failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Statement submitted'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/disputes'] });
+    },
+  });
+
+  const resolveDisputeMutation = useMutation({
+    mutationFn: async ({ disputeId, workerShare, notes }: { disputeId: number; workerShare: number; notes?: string }) => {
+      console.log('[Disputes] Resolving dispute:', { disputeId, workerShare });
+      const response = await fetch(`/api/disputes/${disputeId}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ workerShare, notes }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Disputes] Resolution failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Dispute resolved'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+    },
+  });
+
+  return {
+    disputes,
+    isLoading,
+    openDispute: openDisputeMutation.mutateAsync,
+    submitStatement: submitStatementMutation.mutateAsync,
+    resolveDispute: resolveDisputeMutation.mutateAsync,
+  };
+}
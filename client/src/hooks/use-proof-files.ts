@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ProofFile } from '../types';
+import { useToast } from '@/hooks/use-toast';
+
+export function useProofFiles(taskId: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ['/api/tasks', taskId, 'proof/files'];
+
+  const { data: files = [], isLoading } = useQuery<ProofFile[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/tasks/${taskId}/proof/files`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (selected: File[]) => {
+      console.log('[ProofFiles] Uploading files:', {
+        taskId,
+        files: selected.map((file) => ({ name: file.name, size: file.size }))
+      });
+      const formData = new FormData();
+      selected.forEach((file) => formData.append('files', file));
+
+      // Let the browser set the multipart boundary
+      const response = await fetch(`/api/tasks/${taskId}/proof/files`, {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[ProofFiles] Upload failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json() as Promise<ProofFile[]>;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Proof files uploaded'
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await fetch(`/api/tasks/${taskId}/proof/files/${fileId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[ProofFiles] Removal failed:', error);
+        throw new Error(error);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    files,
+    isLoading,
+    uploadFiles: uploadMutation.mutateAsync,
+    isUploading: uploadMutation.isPending,
+    removeFile: removeMutation.mutateAsync,
+  };
+}
+
+export function getProofFileUrl(file: ProofFile) {
+  return `/api/tasks/${file.taskId}/proof/files/${file.id}`;
+}
@@ -0,0 +1,52 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import { useWebSocket, type WebSocketMessage } from './use-websocket';
+
+type MessageListener = (message: WebSocketMessage) => void;
+
+interface RealtimeState {
+  isConnected: boolean;
+  send: (message: WebSocketMessage) => void;
+  addListener: (listener: MessageListener) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeState | null>(null);
+
+// One WebSocket per tab, shared by every feature, so a user's open tabs
+// don't multiply into one connection per hook
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const listenersRef = useRef<MessageListener[]>([]);
+
+  const dispatch = useCallback((message: WebSocketMessage) => {
+    listenersRef.current.forEach(listener => listener(message));
+  }, []);
+
+  const { isConnected, send } = useWebSocket(dispatch);
+
+  const addListener = useCallback((listener: MessageListener) => {
+    listenersRef.current = [...listenersRef.current, listener];
+    return () => {
+      listenersRef.current = listenersRef.current.filter(current => current !== listener);
+    };
+  }, []);
+
+  const value = useMemo(() => ({ isConnected, send, addListener }), [isConnected, send, addListener]);
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+}
+
+export function useRealtime(onMessage?: MessageListener) {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  const { addListener } = context;
+  useEffect(() => addListener(message => onMessageRef.current?.(message)), [addListener]);
+
+  return { isConnected: context.isConnected, send: context.send };
+}
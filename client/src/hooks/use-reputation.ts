@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TaskRating, UserProfile } from '../types';
+import { useToast } from '@/hooks/use-toast';
+
+export function useUserProfile(userId?: number | null) {
+  const { data: profile, isLoading } = useQuery<UserProfile>({
+    queryKey: ['/api/users', userId, 'profile'],
+    queryFn: async () => {
+      const response = await fetch(`/api/users/${userId}/profile`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled: !!userId,
+    staleTime: 60000,
+  });
+
+  return { profile, isLoading };
+}
+
+export function useTaskRatings(taskId: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: ratings = [], isLoading } = useQuery<TaskRating[]>({
+    queryKey: ['/api/tasks', taskId, 'ratings'],
+    queryFn: async () => {
+      const response = await fetch(`/api/tasks/${taskId}/ratings`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled,
+  });
+
+  const rateMutation = useMutation({
+    mutationFn: async ({ rateeId, score, comment }: { rateeId: number; score: number; comment?: string }) => {
+      console.log('[Ratings] Rating user:', { taskId, rateeId, score });
+      const response = await fetch(`/api/tasks/${taskId}/ratings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ rateeId, score, comment }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Ratings] Rating failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { rateeId }) => {
+      toast({
+        title: 'Success',
+        description: 'Thanks for your feedback'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks', taskId, 'ratings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users', rateeId, 'profile'] });
+    },
+  });
+
+  return {
+    ratings,
+    isLoading,
+    rate: rateMutation.mutateAsync,
+    isRating: rateMutation.isPending,
+  };
+}
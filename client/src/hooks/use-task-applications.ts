@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TaskApplication } from '../types';
+import { useToast } from '@/hooks/use-toast';
+
+type ApplicationAction = 'accept' | 'reject' | 'withdraw';
+
+export function useTaskApplications(taskId: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ['/api/tasks', taskId, 'applications'];
+
+  const { data: applications = [], isLoading } = useQuery<TaskApplication[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/tasks/${taskId}/applications`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled,
+    staleTime: 0,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async ({ pitch, proposedReward }: { pitch: string; proposedReward?: number }) => {
+      console.log('[Applications] Applying to task:', { taskId, proposedReward });
+      const response = await fetch(`/api/tasks/${taskId}/applications`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ pitch, proposedReward }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Applications] Application failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Application sent to the task creator'
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ applicationId, action }: { applicationId: number; action: ApplicationAction }) => {
+      console.log('[Applications] Updating application:', { taskId, applicationId, action });
+      const response = await fetch(`/api/tasks/${taskId}/applications/${applicationId}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Applications] Update failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: 'Success',
+        description: action === 'accept'
+          ? 'Applicant assigned to the task'
+          : action === 'reject' ? 'Application rejected' : 'Application withdrawn'
+      });
+      queryClient.invalidateQueries({ queryKey });
+      if (action === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+      }
+    },
+  });
+
+  return {
+    applications,
+    isLoading,
+    apply: applyMutation.mutateAsync,
+    isApplying: applyMutation.isPending,
+    reviewApplication: reviewMutation.mutateAsync,
+  };
+}
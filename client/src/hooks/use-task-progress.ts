@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRealtime } from './use-realtime';
+import type { WebSocketMessage } from './use-websocket';
+import type { TaskActivity, WorkProgress, WorkUnitEvent } from '../types';
+
+const MAX_EVENTS = 30;
+// Unit events can arrive in bursts; counts are refetched at most this often
+const REFETCH_THROTTLE = 2000;
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return response.json();
+}
+
+// Follows a computational task's task:<id> channel while mounted. Counts come
+// from the progress endpoints and are refreshed as unit events arrive.
+export function useTaskProgress(taskId: number) {
+  const queryClient = useQueryClient();
+  const [events, setEvents] = useState<WorkUnitEvent[]>([]);
+  const refetchTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const { data: progress, isLoading } = useQuery<WorkProgress>({
+    queryKey: ['/api/tasks', taskId, 'progress'],
+    queryFn: () => fetchJson(`/api/tasks/${taskId}/progress`),
+    refetchInterval: 60000,
+  });
+
+  const { data: activity } = useQuery<TaskActivity>({
+    queryKey: ['/api/tasks', taskId, 'progress', 'activity'],
+    queryFn: () => fetchJson(`/api/tasks/${taskId}/progress/activity`),
+    refetchInterval: 60000,
+  });
+
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    if (message.type !== 'work_unit_progress' || message.data?.taskId !== taskId) return;
+
+    setEvents(current => [message.data as WorkUnitEvent, ...current].slice(0, MAX_EVENTS));
+    if (!refetchTimeoutRef.current) {
+      refetchTimeoutRef.current = setTimeout(() => {
+        refetchTimeoutRef.current = undefined;
+        // Prefix match covers the activity query too
+        queryClient.invalidateQueries({ queryKey: ['/api/tasks', taskId, 'progress'] });
+      }, REFETCH_THROTTLE);
+    }
+  }, [queryClient, taskId]);
+
+  const { isConnected, send } = useRealtime(handleMessage);
+
+  // Subscriptions live on the connection, so every reconnect subscribes again
+  useEffect(() => {
+    if (!isConnected) return;
+    const channel = `task:${taskId}`;
+    send({ type: 'subscribe', data: { channel } });
+    return () => send({ type: 'unsubscribe', data: { channel } });
+  }, [isConnected, send, taskId]);
+
+  useEffect(() => () => clearTimeout(refetchTimeoutRef.current), []);
+
+  return { progress, activity, events, isLoading, isLive: isConnected };
+}
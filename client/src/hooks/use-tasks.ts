@@ -1,16 +1,60 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import type { Task } from '../types';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ProofType, Task, TaskStatus, TaskType } from '../types';
 import { useToast } from '@/hooks/use-toast';
 
-export function useTasks() {
-  const queryClient = useQueryClient();
+type CreateTaskInput = Omit<Partial<Task>, 'milestones'> & {
+  milestones?: Array<{ title: string; description?: string; reward: number }>;
+};
+
+export type TaskSort = 'newest' | 'oldest' | 'reward_desc' | 'reward_asc';
+
+export interface TaskFilters {
+  status?: TaskStatus[];
+  type?: TaskType;
+  proofType?: ProofType;
+  minReward?: number;
+  maxReward?: number;
+  creatorId?: number;
+  excludeCreatorId?: number;
+  assigneeId?: number;
+  participantId?: number;
+  categoryId?: number;
+  tags?: string[];
+  q?: string;
+  sort?: TaskSort;
+  limit?: number;
+}
+
+interface TaskPage {
+  tasks: Task[];
+  nextCursor: string | null;
+}
+
+function buildTaskQuery(filters: TaskFilters, cursor: string | null): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === '' || (Array.isArray(value) && !value.length)) return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
+export function useTasks(filters: TaskFilters = {}, options: { enabled?: boolean } = {}) {
   const { toast } = useToast();
+  const actions = useTaskActions();
 
-  const { data: tasks = [], isLoading } = useQuery<Task[]>({
-    queryKey: ['/api/tasks'],
-    queryFn: async () => {
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/tasks', filters],
+    queryFn: async ({ pageParam }): Promise<TaskPage> => {
       try {
-        const response = await fetch('/api/tasks', {
+        const response = await fetch(`/api/tasks?${buildTaskQuery(filters, pageParam)}`, {
           credentials: 'include'
         });
 
@@ -18,17 +62,13 @@ export function useTasks() {
           throw new Error(await response.text());
         }
 
-        const data = await response.json();
+        const page: TaskPage = await response.json();
         console.log('[Tasks] Fetched tasks:', {
-          count: data.length,
-          tasks: data.map((t: Task) => ({
-            id: t.id,
-            title: t.title,
-            status: t.status,
-            creatorId: t.creatorId
-          }))
+          filters,
+          count: page.tasks.length,
+          hasMore: !!page.nextCursor
         });
-        return data;
+        return page;
       } catch (error) {
         console.error('[Tasks] Fetch error:', error);
         toast({
@@ -36,14 +76,32 @@ export function useTasks() {
           title: 'Error',
           description: 'Failed to fetch tasks'
         });
-        return [];
+        return { tasks: [], nextCursor: null };
       }
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: options.enabled ?? true,
     staleTime: 0, // Always fetch fresh data
   });
 
+  return {
+    tasks: data?.pages.flatMap((page) => page.tasks) ?? [],
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    ...actions,
+  };
+}
+
+// Task mutations without a list query, for components that act on a single task
+export function useTaskActions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
   const createTaskMutation = useMutation({
-    mutationFn: async (task: Partial<Task>) => {
+    mutationFn: async (task: CreateTaskInput) => {
       console.log('[Tasks] Creating task:', task);
       const response = await fetch('/api/tasks', {
         method: 'POST',
@@ -159,12 +217,187 @@ export function useTasks() {
     },
   });
 
+  const submitMilestoneProofMutation = useMutation({
+    mutationFn: async ({ taskId, milestoneId, proof }: { taskId: number; milestoneId: number; proof: string }) => {
+      console.log('[Tasks] Submitting milestone proof:', { taskId, milestoneId });
+      const response = await fetch(`/api/tasks/${taskId}/milestones/${milestoneId}/proof`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ proof }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Tasks] Milestone proof submission failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Milestone proof submitted'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+    },
+  });
+
+  const verifyMilestoneMutation = useMutation({
+    mutationFn: async ({ taskId, milestoneId, verified }: { taskId: number; milestoneId: number; verified: boolean }) => {
+      console.log('[Tasks] Verifying milestone:', { taskId, milestoneId, verified });
+      const response = await fetch(`/api/tasks/${taskId}/milestones/${milestoneId}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ verified }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Tasks] Milestone verification failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { verified }) => {
+      toast({
+        title: 'Success',
+        description: verified ? 'Milestone verified and paid out' : 'Milestone proof rejected'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+    },
+  });
+
+  const submitAssignmentProofMutation = useMutation({
+    mutationFn: async ({ taskId, assignmentId, proof }: { taskId: number; assignmentId: number; proof: string }) => {
+      console.log('[Tasks] Submitting assignment proof:', { taskId, assignmentId });
+      const response = await fetch(`/api/tasks/${taskId}/assignments/${assignmentId}/proof`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ proof }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Tasks] Assignment proof submission failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Proof submitted successfully'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+    },
+  });
+
+  const verifyAssignmentMutation = useMutation({
+    mutationFn: async ({ taskId, assignmentId, verified }: { taskId: number; assignmentId: number; verified: boolean }) => {
+      console.log('[Tasks] Verifying assignment:', { taskId, assignmentId, verified });
+      const response = await fetch(`/api/tasks/${taskId}/assignments/${assignmentId}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ verified }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Tasks] Assignment verification failed:', error);
+        throw new Error(error);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { verified }) => {
+      toast({
+        title: 'Success',
+        description: verified ? 'Submission verified and paid out' : 'Submission rejected'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+    },
+  });
+
+  const cancelTaskMutation = useMutation({
+    mutationFn: async (taskId: number) => {
+      console.log('[Tasks] Cancelling task:', taskId);
+      const response = await fetch(`/api/tasks/${taskId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Tasks] Cancellation failed:', error);
+        throw new Error(error);
+      }
+
+      const data: Task = await response.json();
+      console.log('[Tasks] Task cancellation result:', data);
+      return data;
+    },
+    onSuccess: (task) => {
+      toast({
+        title: 'Success',
+        description: task.status === 'cancelled'
+          ? 'Task cancelled and escrow refunded'
+          : 'Cancellation requested - waiting for worker consent'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+    },
+  });
+
+  const respondToCancellationMutation = useMutation({
+    mutationFn: async ({ taskId, consent }: { taskId: number; consent: boolean }) => {
+      console.log('[Tasks] Responding to cancellation:', { taskId, consent });
+      const response = await fetch(`/api/tasks/${taskId}/cancel/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ consent }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('[Tasks] Cancellation response failed:', error);
+        throw new Error(error);
+      }
+
+      const data = await response.json();
+      console.log('[Tasks] Cancellation response recorded:', data);
+      return data;
+    },
+    onSuccess: (_data, { consent }) => {
+      toast({
+        title: 'Success',
+        description: consent ? 'Task cancelled' : 'Cancellation request declined'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+    },
+  });
+
   return {
-    tasks,
-    isLoading,
     createTask: createTaskMutation.mutateAsync,
     acceptTask: acceptTaskMutation.mutateAsync,
     submitProof: submitProofMutation.mutateAsync,
     verifyTask: verifyTaskMutation.mutateAsync,
+    submitMilestoneProof: submitMilestoneProofMutation.mutateAsync,
+    verifyMilestone: verifyMilestoneMutation.mutateAsync,
+    submitAssignmentProof: submitAssignmentProofMutation.mutateAsync,
+    verifyAssignment: verifyAssignmentMutation.mutateAsync,
+    cancelTask: cancelTaskMutation.mutateAsync,
+    respondToCancellation: respondToCancellationMutation.mutateAsync,
   };
 }
\ No newline at end of file
@@ -3,18 +3,28 @@ import { useToast } from '@/hooks/use-toast';
 
 type WebSocketStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
 
-interface WebSocketMessage {
+// Close code the server uses when it drops a tab's connection for good
+const EVICTED_CLOSE_CODE = 4001;
+
+export interface WebSocketMessage {
   type: string;
   data?: any;
 }
 
-export function useWebSocket() {
+// onMessage sees every message before the built-in handling, so pages can
+// react to events (e.g. task channel updates) without a second connection
+export function useWebSocket(onMessage?: (message: WebSocketMessage) => void) {
   const [status, setStatus] = useState<WebSocketStatus>('disconnected');
   const [sessionId, setSessionId] = useState<string | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const reconnectAttemptRef = useRef(0);
   const { toast } = useToast();
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
 
   const getWebSocketUrl = useCallback(() => {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -39,8 +49,9 @@ export function useWebSocket() {
 
       // Clean up existing connection
       if (wsRef.current) {
-        wsRef.current.close(1000, 'Reconnecting');
+        const previous = wsRef.current;
         wsRef.current = null;
+        previous.close(1000, 'Reconnecting');
       }
 
       const wsUrl = getWebSocketUrl();
@@ -71,6 +82,7 @@ export function useWebSocket() {
       ws.onmessage = (event) => {
         try {
           const message = JSON.parse(event.data) as WebSocketMessage;
+          onMessageRef.current?.(message);
 
           switch (message.type) {
             case 'connection_established':
@@ -83,6 +95,147 @@ export function useWebSocket() {
             case 'balance_update':
               console.log('[WebSocket] Balance update:', message.data);
               break;
+            case 'task_cancelled':
+              toast({
+                title: 'Task Cancelled',
+                description: `"${message.data.title}" was cancelled`
+              });
+              break;
+            case 'task_cancellation_requested':
+              toast({
+                title: 'Cancellation Requested',
+                description: `The creator of "${message.data.title}" wants to cancel it`
+              });
+              break;
+            case 'task_cancellation_declined':
+              toast({
+                title: 'Cancellation Declined',
+                description: `The worker on "${message.data.title}" declined to cancel`
+              });
+              break;
+            case 'task_reopened':
+              toast({
+                title: 'Task Deadline Missed',
+                description: `"${message.data.title}" was not completed in time and has been reopened`
+              });
+              break;
+            case 'task_disputed':
+              toast({
+                title: 'Task Disputed',
+                description: `The worker on "${message.data.title}" disputed your rejection`
+              });
+              break;
+            case 'dispute_resolved':
+              toast({
+                title: 'Dispute Resolved',
+                description: `"${message.data.title}": ${message.data.workerShare} tokens to the worker, ${message.data.creatorShare} refunded`
+              });
+              break;
+            case 'milestone_submitted':
+              toast({
+                title: 'Milestone Submitted',
+                description: `"${message.data.milestoneTitle}" on "${message.data.title}" is ready for review`
+              });
+              break;
+            case 'milestone_verified':
+              toast({
+                title: 'Milestone Verified',
+                description: `You earned ${message.data.reward} tokens for "${message.data.milestoneTitle}"`
+              });
+              break;
+            case 'task_application_received':
+              toast({
+                title: 'New Application',
+                description: `Someone applied to "${message.data.title}"`
+              });
+              break;
+            case 'task_application_accepted':
+              toast({
+                title: 'Application Accepted',
+                description: `You have been assigned "${message.data.title}" for ${message.data.reward} tokens`
+              });
+              break;
+            case 'task_application_rejected':
+              toast({
+                title: 'Application Declined',
+                description: `Your application for "${message.data.title}" was not selected`
+              });
+              break;
+            case 'task_slot_claimed':
+              toast({
+                title: 'Worker Joined',
+                description: `A worker claimed a slot on "${message.data.title}"`
+              });
+              break;
+            case 'assignment_submitted':
+              toast({
+                title: 'Submission Received',
+                description: `A worker submitted proof for "${message.data.title}"`
+              });
+              break;
+            case 'assignment_verified':
+              toast({
+                title: 'Submission Verified',
+                description: `You earned ${message.data.reward} tokens for "${message.data.title}"`
+              });
+              break;
+            case 'assignment_rejected':
+              toast({
+                variant: 'destructive',
+                title: 'Submission Rejected',
+                description: `Your proof for "${message.data.title}" was rejected. You can resubmit.`
+              });
+              break;
+            case 'assignment_expired':
+              toast({
+                variant: 'destructive',
+                title: 'Slot Expired',
+                description: `The deadline for "${message.data.title}" passed before you submitted`
+              });
+              break;
+            case 'work_unit_flagged':
+              toast({
+                variant: 'destructive',
+                title: 'Result Flagged',
+                description: `Your result for unit ${message.data.unitIndex} of "${message.data.title}" disagreed with other workers`
+              });
+              break;
+            case 'work_unit_rejected':
+              toast({
+                variant: 'destructive',
+                title: 'Result Rejected',
+                description: `Your result for unit ${message.data.unitIndex} of "${message.data.title}" failed validation`
+              });
+              break;
+            case 'work_unit_paid':
+              toast({
+                title: 'Tokens Earned',
+                description: `You earned ${message.data.amount} token${message.data.amount === 1 ? '' : 's'} for verified work on "${message.data.title}"`
+              });
+              break;
+            case 'tokens_received':
+              toast({
+                title: 'Tokens Received',
+                description: `${message.data.from} sent you ${message.data.amount} token${message.data.amount === 1 ? '' : 's'}${message.data.memo ? `: "${message.data.memo}"` : ''}`
+              });
+              break;
+            case 'transfer_rejected':
+              toast({
+                variant: 'destructive',
+                title: 'Transfer Rejected',
+                description: `Your transfer of ${message.data.amount} token${message.data.amount === 1 ? '' : 's'} to ${message.data.to} was not confirmed: ${message.data.reason}`
+              });
+              break;
+            case 'rating_received':
+              toast({
+                title: 'New Rating',
+                description: `You received ${message.data.score} star${message.data.score === 1 ? '' : 's'} for "${message.data.title}"`
+              });
+              break;
+            case 'subscribed':
+            case 'work_unit_progress':
+              // Handled by the subscriber's onMessage
+              break;
             case 'error':
               console.error('[WebSocket] Server error:', message.data);
               toast({
@@ -107,10 +260,15 @@ export function useWebSocket() {
           wasClean: event.wasClean
         });
 
+        // Sockets the hook replaced or closed on unmount are no longer
+        // current. Any other close, including a clean one from a server
+        // restart, is retried unless the server dropped this tab for good.
+        if (wsRef.current !== ws) return;
+
         setStatus('disconnected');
         wsRef.current = null;
 
-        if (!event.wasClean && reconnectAttemptRef.current < 5) {
+        if (event.code !== EVICTED_CLOSE_CODE && reconnectAttemptRef.current < 5) {
           const backoff = Math.min(1000 * Math.pow(2, reconnectAttemptRef.current), 30000);
           console.log(`[WebSocket] Reconnecting in ${backoff}ms (attempt ${reconnectAttemptRef.current + 1})`);
 
@@ -137,7 +295,9 @@ export function useWebSocket() {
     connect();
     return () => {
       if (wsRef.current) {
-        wsRef.current.close(1000, 'Component unmounted');
+        const ws = wsRef.current;
+        wsRef.current = null;
+        ws.close(1000, 'Component unmounted');
       }
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
@@ -1,4 +1,4 @@
-import { Transaction, Token } from './types';
+import { Transaction, Token, TokenHistory, TransferLimits, TransferReceipt } from './types';
 
 class BlockchainService {
   private async fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
@@ -53,12 +53,23 @@ class BlockchainService {
     }
   }
 
-  async createTransaction(to: string, amount: number): Promise<Transaction> {
+  async getTokenHistory(tokenId: string): Promise<TokenHistory> {
+    return this.fetchApi<TokenHistory>(`/api/blockchain/tokens/${encodeURIComponent(tokenId)}/history`);
+  }
+
+  // Reusing an idempotency key for a retry returns the original receipt
+  // instead of sending twice
+  async createTransaction(
+    to: string,
+    amount: number,
+    options: { memo?: string; idempotencyKey?: string } = {}
+  ): Promise<TransferReceipt> {
     console.log('[BlockchainService] Creating transaction:', { to, amount });
     try {
-      const response = await this.fetchApi<Transaction>('/api/blockchain/transaction', {
+      const response = await this.fetchApi<TransferReceipt>('/api/blockchain/transaction', {
         method: 'POST',
-        body: JSON.stringify({ to, amount })
+        headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+        body: JSON.stringify({ to, amount, memo: options.memo })
       });
       console.log('[BlockchainService] Transaction created:', response);
       return response;
@@ -68,6 +79,14 @@ class BlockchainService {
     }
   }
 
+  async lookupUser(username: string): Promise<{ id: number; username: string }> {
+    return this.fetchApi(`/api/users/lookup?username=${encodeURIComponent(username)}`);
+  }
+
+  async getTransferLimits(): Promise<TransferLimits> {
+    return this.fetchApi<TransferLimits>('/api/transfers/limits');
+  }
+
   async getBalance(address: string): Promise<number> {
     try {
       const response = await this.fetchApi<{ balance: number }>(`/api/blockchain/balance/${address}`);
@@ -84,4 +103,4 @@ class BlockchainService {
 }
 
 export const blockchainService = new BlockchainService();
-export type { Transaction, Token };
\ No newline at end of file
+export type { Transaction, Token, TokenHistory, TransferLimits, TransferReceipt };
\ No newline at end of file
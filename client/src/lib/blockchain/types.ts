@@ -7,6 +7,7 @@ export interface TokenMetadata {
     to: string;
     timestamp: number;
     transactionId: string;
+    type: TokenEventType;
   }>;
   purchaseInfo?: {
     paymentId?: string;
@@ -22,21 +23,59 @@ export interface Token {
   metadata: TokenMetadata;
 }
 
+export type TokenEventType = 'mint' | 'transfer' | 'escrow' | 'release' | 'refund' | 'burn';
+
+// One step in a token's ownership chain
+export interface TokenEvent {
+  id: number;
+  type: TokenEventType;
+  from: string | null;
+  to: string | null;
+  transactionId: number;
+  blockHash: string | null;
+  timestamp: number;
+  // The task the token was escrowed for, paid out or refunded from
+  task: { id: number; title: string } | null;
+  unitId: number | null;
+}
+
+export interface TokenHistory {
+  token: {
+    id: string;
+    creator: string;
+    owner: string;
+    status: 'active' | 'escrow' | 'burned';
+    mintedInBlock: string;
+    createdAt: number;
+  };
+  events: TokenEvent[];
+}
+
 export interface Transaction {
   id: string;
   from: string;
   to: string;
   amount: number;
   timestamp: number;
-  type: 'mint' | 'transfer' | 'escrow' | 'release';
+  type: 'mint' | 'transfer' | 'escrow' | 'release' | 'refund';
   tokenIds: string[];
   blockHash?: string;
+  blockHeight?: number;
+  // pending: waiting in the mempool or not sealed into a block yet
+  status?: 'pending' | 'confirmed';
+  // Blocks sealed on top of this transaction's block, counting its own
+  confirmations?: number;
   metadata?: {
     paymentId?: string;
     price?: number;
     reason?: string;
     escrowTransactionId?: string;
     releaseTimestamp?: string;
+    originalEscrowId?: number;
+    taskId?: number;
+    unitId?: number;
+    memo?: string;
+    transferId?: number;
   };
 }
 
@@ -48,8 +87,30 @@ export interface BlockMetadata {
   difficulty: number;
 }
 
+// Receipt for a user-to-user send
+export interface TransferReceipt {
+  id: number;
+  status: 'pending' | 'queued' | 'completed' | 'rejected';
+  from: string;
+  to: string;
+  amount: number;
+  memo: string | null;
+  transactionId: string | null;
+  blockHash: string | null;
+  created_at: string;
+  completedAt: string | null;
+}
+
+export interface TransferLimits {
+  limit: number;
+  sent: number;
+  remaining: number;
+}
+
 export interface TransactionResult {
   id: string;
   tokenIds: string[];
   blockHash: string;
+  // Set when the transfer went to the mempool; id is then the mempool entry's
+  queued?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+// Runs creator-supplied kernels in a Web Worker. The worker is started from
+// a sandboxed iframe without allow-same-origin, so the kernel runs in an
+// opaque origin: it can't read the page, its storage or send requests with
+// the contributor's session cookie.
+
+export interface ComputeKernel {
+  source: string;
+  wasm?: string;
+}
+
+interface KernelReply {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+const WORKER_SOURCE = `
+self.onmessage = async (event) => {
+  const { id, source, wasm, input, shard } = event.data;
+  try {
+    let exports = null;
+    if (wasm) {
+      const bytes = Uint8Array.from(atob(wasm), c => c.charCodeAt(0));
+      exports = (await WebAssembly.instantiate(bytes, {})).instance.exports;
+    }
+    const kernel = new Function('input', 'shard', 'wasm', source);
+    const result = await kernel(input, shard, exports);
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, error: String((error && error.message) || error) });
+  }
+};
+`;
+
+// The frame relays messages between the page and its worker. A worker that
+// errors outside a run (e.g. runs out of memory) is replaced on the next run.
+const FRAME_SOURCE = `<!doctype html><script>
+const workerUrl = URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' }));
+let worker = null;
+let current = null;
+function start() {
+  worker = new Worker(workerUrl);
+  worker.onmessage = (event) => { current = null; parent.postMessage(event.data, '*'); };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    parent.postMessage({ id: current, error: event.message || 'Kernel crashed' }, '*');
+    worker.terminate();
+    worker = null;
+    current = null;
+  };
+}
+window.addEventListener('message', (event) => {
+  if (event.source !== parent) return;
+  if (event.data.type === 'terminate') {
+    if (worker) worker.terminate();
+    worker = null;
+    current = null;
+    return;
+  }
+  if (!worker) start();
+  current = event.data.id;
+  worker.postMessage(event.data);
+});
+parent.postMessage({ type: 'ready' }, '*');
+</script>`;
+
+export class KernelSandbox {
+  private frame: HTMLIFrameElement;
+  private ready: Promise<void>;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+  constructor() {
+    this.frame = document.createElement('iframe');
+    this.frame.setAttribute('sandbox', 'allow-scripts');
+    this.frame.style.display = 'none';
+    this.frame.srcdoc = FRAME_SOURCE;
+
+    this.ready = new Promise(resolve => {
+      const onReady = (event: MessageEvent) => {
+        if (event.source === this.frame.contentWindow && event.data?.type === 'ready') {
+          window.removeEventListener('message', onReady);
+          resolve();
+        }
+      };
+      window.addEventListener('message', onReady);
+    });
+
+    window.addEventListener('message', this.handleMessage);
+    document.body.appendChild(this.frame);
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.source !== this.frame.contentWindow) return;
+    const reply = event.data as KernelReply;
+    const waiting = this.pending.get(reply.id);
+    if (!waiting) return;
+
+    this.pending.delete(reply.id);
+    if (reply.error !== undefined) {
+      waiting.reject(new Error(reply.error));
+    } else {
+      waiting.resolve(reply.result);
+    }
+  };
+
+  // A run that outlives the timeout has its worker terminated
+  async run(kernel: ComputeKernel, input: unknown, shard: string | null, timeoutMs: number): Promise<unknown> {
+    await this.ready;
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.frame.contentWindow?.postMessage({ type: 'terminate' }, '*');
+        reject(new Error('Kernel timed out'));
+      }, timeoutMs);
+
+      this.pending.set(id, {
+        resolve: value => { clearTimeout(timer); resolve(value); },
+        reject: error => { clearTimeout(timer); reject(error); }
+      });
+
+      this.frame.contentWindow?.postMessage({
+        id,
+        source: kernel.source,
+        wasm: kernel.wasm,
+        input,
+        shard
+      }, '*');
+    });
+  }
+
+  dispose() {
+    window.removeEventListener('message', this.handleMessage);
+    this.pending.forEach(waiting => waiting.reject(new Error('Kernel sandbox closed')));
+    this.pending.clear();
+    this.frame.remove();
+  }
+}
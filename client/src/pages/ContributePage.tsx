@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Cpu, Pause, Play } from 'lucide-react';
+import { useAvailableWork, useComputeSession, useTaskEarnings, type ComputeLogEntry } from '../hooks/use-compute';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import type { AvailableWork } from '../types';
+
+const OUTCOME_STYLES: Record<ComputeLogEntry['outcome'], string> = {
+  verified: 'bg-green-500',
+  completed: 'bg-blue-500',
+  flagged: 'bg-orange-500',
+  rejected: 'bg-red-500',
+  error: 'bg-red-500',
+};
+
+const STATUS_LABELS = {
+  idle: 'Ready',
+  running: 'Computing',
+  pausing: 'Finishing current unit...',
+  paused: 'Paused',
+  finished: 'No units left',
+};
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{value}</p>
+    </div>
+  );
+}
+
+export default function ContributePage() {
+  const { work, isLoading } = useAvailableWork();
+  // Kept apart from the work list, which drops the task once its last unit is claimed
+  const [current, setCurrent] = useState<AvailableWork | null>(null);
+  const [throttle, setThrottle] = useState(50);
+
+  const { status, stats, log, error, start, pause } = useComputeSession(current, throttle);
+  const { earnings } = useTaskEarnings(current?.taskId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const isRunning = status === 'running' || status === 'pausing';
+  const perToken = earnings?.workUnitsPerToken ?? current?.workUnitsPerToken ?? 1;
+  const towardsNext = earnings?.unitsTowardsNextToken ?? 0;
+  const averageMs = stats.completed + stats.rejected + stats.errors
+    ? Math.round(stats.computeMs / (stats.completed + stats.rejected + stats.errors))
+    : 0;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Contribute Compute</h1>
+        <p className="text-sm text-muted-foreground">
+          Run work units in your browser for tasks your tokens are assigned to. Kernels run in an
+          isolated Web Worker and are paid per verified unit.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Task</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {work.length === 0 && !current ? (
+            <p className="text-muted-foreground">
+              No browser-ready work is queued for your tokens right now.
+            </p>
+          ) : (
+            <Select
+              value={current ? `${current.taskId}:${current.tokenId}` : ''}
+              onValueChange={(value) => setCurrent(work.find(entry => `${entry.taskId}:${entry.tokenId}` === value) ?? null)}
+              disabled={isRunning}
+            >
+              <SelectTrigger aria-label="Select a task to work on">
+                <SelectValue placeholder="Select a task" />
+              </SelectTrigger>
+              <SelectContent>
+                {work.map(entry => (
+                  <SelectItem key={`${entry.taskId}:${entry.tokenId}`} value={`${entry.taskId}:${entry.tokenId}`}>
+                    {entry.title} · {entry.pendingUnits} units left
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="flex items-center gap-1">
+                <Cpu className="h-4 w-4" /> CPU usage
+              </span>
+              <span className="font-medium">{throttle}%</span>
+            </div>
+            <Slider
+              min={10}
+              max={100}
+              step={10}
+              value={[throttle]}
+              onValueChange={([value]) => setThrottle(value)}
+              aria-label="Share of time spent computing"
+            />
+          </div>
+
+          <div className="flex items-center gap-4">
+            {isRunning ? (
+              <Button variant="outline" onClick={pause} disabled={status === 'pausing'}>
+                <Pause className="h-4 w-4 mr-2" /> Pause
+              </Button>
+            ) : (
+              <Button onClick={start} disabled={!current}>
+                <Play className="h-4 w-4 mr-2" /> {status === 'paused' ? 'Resume' : 'Start'}
+              </Button>
+            )}
+            <span className="text-sm text-muted-foreground">{STATUS_LABELS[status]}</span>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {current && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Earnings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <Stat label="Tokens earned on this task" value={earnings?.paidTokens ?? 0} />
+                <Stat label="Verified units credited" value={earnings?.creditedUnits ?? 0} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {towardsNext} of {perToken} units towards your next token
+                </p>
+                <Progress value={(towardsNext / perToken) * 100} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">This Session</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-3 gap-4">
+              <Stat label="Submitted" value={stats.completed} />
+              <Stat label="Verified" value={stats.verified} />
+              <Stat label="Avg. time" value={`${(averageMs / 1000).toFixed(1)}s`} />
+              <Stat label="Flagged" value={stats.flagged} />
+              <Stat label="Rejected" value={stats.rejected} />
+              <Stat label="Errors" value={stats.errors} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent Units</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {log.map((entry, index) => (
+              <div key={index} className="flex items-center justify-between text-sm">
+                <span>Unit {entry.unitIndex}</span>
+                <span className="text-muted-foreground truncate mx-4">{entry.message}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{(entry.durationMs / 1000).toFixed(1)}s</span>
+                  <Badge className={OUTCOME_STYLES[entry.outcome]}>{entry.outcome}</Badge>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
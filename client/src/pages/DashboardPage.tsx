@@ -3,18 +3,20 @@ import { useTasks } from '../hooks/use-tasks';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TokenBalanceCard } from '../components/TokenBalanceCard';
 import TaskCard from '../components/TaskCard';
+import SkillsCard from '../components/SkillsCard';
 import { LayoutDashboard, CheckCircle } from 'lucide-react';
 
 export default function DashboardPage() {
   const { user } = useUser();
-  const { tasks } = useTasks();
-
-  const myTasks = tasks.filter(task => 
-    task.creatorId === user?.id || task.workerId === user?.id
+  const { tasks: myTasks } = useTasks({ participantId: user?.id, limit: 4 }, { enabled: !!user });
+  const { tasks: activeTasks, hasNextPage: moreActive } = useTasks(
+    { participantId: user?.id, status: ['open', 'in_progress', 'pending_verification', 'disputed'], limit: 100 },
+    { enabled: !!user }
+  );
+  const { tasks: completedTasks, hasNextPage: moreCompleted } = useTasks(
+    { participantId: user?.id, status: ['completed'], limit: 100 },
+    { enabled: !!user }
   );
-
-  const activeTasks = myTasks.filter(t => t.status !== 'completed');
-  const completedTasks = myTasks.filter(t => t.status === 'completed');
 
   return (
     <div className="container mx-auto py-6 space-y-6">
@@ -38,7 +40,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="flex flex-col">
-                <span className="text-2xl font-bold">{activeTasks.length}</span>
+                <span className="text-2xl font-bold">{activeTasks.length}{moreActive && '+'}</span>
                 <span className="text-xs text-muted-foreground">In progress</span>
               </div>
             </CardContent>
@@ -53,7 +55,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="flex flex-col">
-                <span className="text-2xl font-bold">{completedTasks.length}</span>
+                <span className="text-2xl font-bold">{completedTasks.length}{moreCompleted && '+'}</span>
                 <span className="text-xs text-muted-foreground">Total completed</span>
               </div>
             </CardContent>
@@ -61,11 +63,13 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {user && <SkillsCard userId={user.id} />}
+
       {/* Recent Tasks Section */}
       <div className="space-y-4">
         <h2 className="text-lg font-semibold">Recent Tasks</h2>
         <div className="grid gap-4 md:grid-cols-2">
-          {myTasks.slice(0, 4).map(task => (
+          {myTasks.map(task => (
             <TaskCard key={task.id} task={task} />
           ))}
           {myTasks.length === 0 && (
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useDisputes } from '../hooks/use-disputes';
+import { useUser } from '../hooks/use-user';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import type { Dispute } from '../types';
+
+function EvidenceList({ evidence }: { evidence: string[] }) {
+  if (!evidence.length) return null;
+  return (
+    <ul className="list-disc pl-5 text-sm text-muted-foreground">
+      {evidence.map((item, index) => (
+        <li key={index} className="break-all">{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+function DisputeCard({ dispute, canResolve }: { dispute: Dispute; canResolve: boolean }) {
+  const { resolveDispute } = useDisputes();
+  const { toast } = useToast();
+  const reward = dispute.task?.reward ?? 0;
+  const [workerShare, setWorkerShare] = useState(Math.floor(reward / 2));
+  const [notes, setNotes] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async () => {
+    try {
+      setIsResolving(true);
+      await resolveDispute({ disputeId: dispute.id, workerShare, notes });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to resolve dispute',
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-bold">
+          {dispute.task?.title ?? `Task #${dispute.taskId}`}
+        </CardTitle>
+        <Badge className={dispute.status === 'open' ? 'bg-orange-500' : 'bg-purple-500'}>
+          {dispute.status === 'open' ? 'open' : `ruled: ${dispute.ruling}`}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Opened {format(new Date(dispute.created_at), 'MMM d, yyyy HH:mm')} ·
+          Creator: {dispute.creator?.username} · Worker: {dispute.worker?.username} ·
+          Reward: {reward} tokens
+        </p>
+
+        {dispute.disputedProof && (
+          <div>
+            <h3 className="font-semibold">Rejected Proof:</h3>
+            <p className="text-sm">{dispute.disputedProof}</p>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-1">
+            <h3 className="font-semibold">Worker's Statement:</h3>
+            <p className="text-sm">{dispute.workerStatement}</p>
+            <EvidenceList evidence={dispute.workerEvidence} />
+          </div>
+          <div className="space-y-1">
+            <h3 className="font-semibold">Creator's Statement:</h3>
+            <p className="text-sm">
+              {dispute.creatorStatement ?? 'The creator has not responded yet.'}
+            </p>
+            <EvidenceList evidence={dispute.creatorEvidence} />
+          </div>
+        </div>
+
+        {dispute.status === 'resolved' && (
+          <div>
+            <h3 className="font-semibold">Ruling:</h3>
+            <p className="text-sm">
+              {dispute.workerShare} tokens to the worker, {reward - (dispute.workerShare ?? 0)} refunded to the creator
+            </p>
+            {dispute.rulingNotes && (
+              <p className="text-sm text-muted-foreground">{dispute.rulingNotes}</p>
+            )}
+          </div>
+        )}
+
+        {canResolve && dispute.status === 'open' && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex justify-between text-sm">
+              <span>Worker: <strong>{workerShare}</strong> tokens</span>
+              <span>Creator: <strong>{reward - workerShare}</strong> tokens</span>
+            </div>
+            <Slider
+              min={0}
+              max={reward}
+              step={1}
+              value={[workerShare]}
+              onValueChange={([value]) => setWorkerShare(value)}
+              aria-label="Worker share of the escrowed reward"
+            />
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Reasoning for the ruling (shared with both parties)"
+            />
+            <Button
+              className="w-full"
+              disabled={isResolving}
+              onClick={handleResolve}
+            >
+              {isResolving ? 'Resolving...' : 'Issue Ruling'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DisputesPage() {
+  const { disputes, isLoading } = useDisputes();
+  const { user } = useUser();
+  const isArbiter = user?.role === 'arbiter';
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const openDisputes = disputes.filter((dispute) => dispute.status === 'open');
+  const resolvedDisputes = disputes.filter((dispute) => dispute.status === 'resolved');
+
+  return (
+    <div className="container mx-auto py-6 space-y-8">
+      <h1 className="text-2xl font-bold">
+        {isArbiter ? 'Arbitration Queue' : 'My Disputes'}
+      </h1>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Open Disputes</h2>
+        <div className="grid gap-4 lg:grid-cols-2">
+          {openDisputes.map((dispute) => (
+            <DisputeCard
+              key={dispute.id}
+              dispute={dispute}
+              canResolve={
+                isArbiter &&
+                dispute.creatorId !== user?.id &&
+                dispute.workerId !== user?.id
+              }
+            />
+          ))}
+          {openDisputes.length === 0 && (
+            <p className="text-muted-foreground col-span-full text-center py-4">
+              No open disputes.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Resolved Disputes</h2>
+        <div className="grid gap-4 lg:grid-cols-2">
+          {resolvedDisputes.map((dispute) => (
+            <DisputeCard key={dispute.id} dispute={dispute} canResolve={false} />
+          ))}
+          {resolvedDisputes.length === 0 && (
+            <p className="text-muted-foreground col-span-full text-center py-4">
+              No resolved disputes yet.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
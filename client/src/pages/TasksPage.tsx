@@ -1,6 +1,7 @@
-import { useState } from 'react';
-import { useTasks } from '../hooks/use-tasks';
+import { useEffect, useState } from 'react';
+import { useTaskActions, useTasks, type TaskFilters, type TaskSort } from '../hooks/use-tasks';
 import { useUser } from '../hooks/use-user';
+import { useCategories, usePopularTags, useRecommendedTasks } from '../hooks/use-discovery';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -11,6 +12,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -28,27 +30,156 @@ import {
 } from '@/components/ui/form';
 import TaskCard from '../components/TaskCard';
 import { useToast } from '@/hooks/use-toast';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import type { Task } from '../types';
 
+// Tags are entered as a comma-separated list; the server normalises case
+function parseTags(value: string): string[] {
+  return value.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
 const taskSchema = z.object({
   title: z.string().min(1, 'Title is required').max(100, 'Title is too long'),
   description: z.string().min(1, 'Description is required').max(500, 'Description is too long'),
   type: z.enum(['manual', 'computational'] as const),
   reward: z.number().min(1, 'Reward must be at least 1 token').max(1000, 'Reward cannot exceed 1000 tokens'),
   proofType: z.enum(['confirmation_approval', 'image_upload', 'code_submission', 'text_submission'] as const),
-});
+  assignmentMode: z.enum(['first_come', 'application'] as const),
+  maxWorkers: z.number().int().min(1, 'At least 1 worker').max(100, 'At most 100 workers'),
+  categoryId: z.string(),
+  tags: z.string().refine(
+    (value) => parseTags(value).length <= 10,
+    'At most 10 tags'
+  ),
+  acceptBy: z.string().optional(),
+  completeBy: z.string().optional(),
+  milestones: z.array(z.object({
+    title: z.string().min(1, 'Milestone title is required'),
+    reward: z.number().int().min(1, 'At least 1 token'),
+  })),
+}).refine(
+  (data) => !data.acceptBy || !data.completeBy || new Date(data.completeBy) > new Date(data.acceptBy),
+  { message: 'Completion deadline must be after the acceptance deadline', path: ['completeBy'] }
+).refine(
+  (data) => data.reward % data.maxWorkers === 0,
+  { message: 'The reward must split evenly between workers', path: ['maxWorkers'] }
+).refine(
+  (data) => data.maxWorkers === 1 ||
+    (data.proofType === 'confirmation_approval' || data.proofType === 'text_submission'),
+  { message: 'Multi-worker tasks support confirmation and text proofs only', path: ['maxWorkers'] }
+).refine(
+  (data) => data.maxWorkers === 1 || (data.assignmentMode === 'first_come' && !data.milestones.length),
+  { message: 'Multi-worker tasks cannot use applications or milestones', path: ['maxWorkers'] }
+).refine(
+  (data) => data.milestones.length !== 1,
+  { message: 'Add at least two milestones, or none', path: ['milestones'] }
+).refine(
+  (data) => !data.milestones.length ||
+    data.milestones.reduce((sum, milestone) => sum + milestone.reward, 0) === data.reward,
+  { message: 'Milestone rewards must add up to the task reward', path: ['milestones'] }
+);
 
 type TaskFormData = z.infer<typeof taskSchema>;
 
+const ALL = 'all';
+
+interface TaskSectionProps {
+  title: string;
+  filters: TaskFilters;
+  emptyMessage: string;
+  enabled: boolean;
+  children?: React.ReactNode;
+}
+
+function RecommendedSection({ enabled }: { enabled: boolean }) {
+  const { recommended, isLoading } = useRecommendedTasks(enabled);
+
+  if (isLoading || !recommended.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">Recommended for You</h2>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {recommended.slice(0, 6).map((task) => (
+          <div key={task.id} className="space-y-1">
+            <TaskCard task={task} />
+            {task.matchedSkills.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Matches your skills: {task.matchedSkills.join(', ')}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TaskSection({ title, filters, emptyMessage, enabled, children }: TaskSectionProps) {
+  const { tasks, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useTasks(filters, { enabled });
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">{title}</h2>
+      {children}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {tasks.map((task) => (
+          <TaskCard key={task.id} task={task} />
+        ))}
+        {!isLoading && tasks.length === 0 && (
+          <p className="text-muted-foreground col-span-full text-center py-4">
+            {emptyMessage}
+          </p>
+        )}
+      </div>
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            disabled={isFetchingNextPage}
+            onClick={() => fetchNextPage()}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function TasksPage() {
-  const { tasks, createTask } = useTasks();
+  const { createTask } = useTaskActions();
   const { user } = useUser();
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [proofTypeFilter, setProofTypeFilter] = useState(ALL);
+  const [minReward, setMinReward] = useState('');
+  const [maxReward, setMaxReward] = useState('');
+  const [sort, setSort] = useState<TaskSort>('newest');
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const { options: categoryOptions } = useCategories();
+  const { tags: popularTags } = usePopularTags();
+
+  const toggleTag = (tag: string) => {
+    setTagFilter(current => current.includes(tag)
+      ? current.filter(t => t !== tag)
+      : [...current, tag]);
+  };
+
+  // Avoid a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
 
   const form = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
@@ -58,9 +189,21 @@ export default function TasksPage() {
       type: 'manual',
       reward: 1,
       proofType: 'confirmation_approval',
+      assignmentMode: 'first_come',
+      maxWorkers: 1,
+      categoryId: ALL,
+      tags: '',
+      acceptBy: '',
+      completeBy: '',
+      milestones: [],
     },
   });
 
+  const milestoneFields = useFieldArray({
+    control: form.control,
+    name: 'milestones',
+  });
+
   const handleCreateTask = async (data: TaskFormData) => {
     if (!user) {
       toast({
@@ -75,6 +218,11 @@ export default function TasksPage() {
       setIsSubmitting(true);
       await createTask({
         ...data,
+        acceptBy: data.acceptBy ? new Date(data.acceptBy).toISOString() : null,
+        completeBy: data.completeBy ? new Date(data.completeBy).toISOString() : null,
+        milestones: data.milestones.length ? data.milestones : undefined,
+        categoryId: data.categoryId === ALL ? null : Number(data.categoryId),
+        tags: parseTags(data.tags),
         proofRequired: data.proofType === 'confirmation_approval' 
           ? 'Task completion needs to be confirmed by the creator'
           : `Submit ${data.proofType.replace('_', ' ')} as proof of completion`
@@ -96,16 +244,18 @@ export default function TasksPage() {
     }
   };
 
-  // Filter tasks into categories
-  const availableTasks = tasks.filter(
-    (task) => task.status === 'open' && task.creatorId !== user?.id
-  );
-  const myCreatedTasks = tasks.filter(
-    (task) => task.creatorId === user?.id
-  );
-  const myAssignedTasks = tasks.filter(
-    (task) => task.workerId === user?.id
-  );
+  const availableFilters: TaskFilters = {
+    status: ['open'],
+    excludeCreatorId: user?.id,
+    q: debouncedSearch || undefined,
+    type: typeFilter === ALL ? undefined : typeFilter as TaskFilters['type'],
+    proofType: proofTypeFilter === ALL ? undefined : proofTypeFilter as TaskFilters['proofType'],
+    minReward: minReward ? Number(minReward) : undefined,
+    maxReward: maxReward ? Number(maxReward) : undefined,
+    categoryId: categoryFilter === ALL ? undefined : Number(categoryFilter),
+    tags: tagFilter,
+    sort,
+  };
 
   return (
     <div className="container mx-auto py-6 space-y-8">
@@ -205,6 +355,75 @@ export default function TasksPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <FormControl>
+                        <Select
+                          defaultValue={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <SelectTrigger aria-label="Select category">
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL}>Uncategorized</SelectItem>
+                            {categoryOptions.map((option) => (
+                              <SelectItem key={option.id} value={String(option.id)}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g. python, data-cleaning"
+                          {...field}
+                          aria-label="Task tags, comma separated"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="assignmentMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Assignment</FormLabel>
+                      <FormControl>
+                        <Select
+                          defaultValue={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <SelectTrigger aria-label="Select assignment mode">
+                            <SelectValue placeholder="Select assignment mode" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="first_come">First worker to accept</SelectItem>
+                            <SelectItem value="application">Review applications</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="reward"
@@ -226,6 +445,127 @@ export default function TasksPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="maxWorkers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Workers Needed</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          {...field}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                          aria-label="Number of independent completions"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="acceptBy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Accept By (optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            {...field}
+                            aria-label="Acceptance deadline"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="completeBy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Complete By (optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            {...field}
+                            aria-label="Completion deadline"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <FormLabel>Milestones (optional)</FormLabel>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => milestoneFields.append({ title: '', reward: 1 })}
+                    >
+                      Add Milestone
+                    </Button>
+                  </div>
+                  {milestoneFields.fields.map((milestone, index) => (
+                    <div key={milestone.id} className="flex gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`milestones.${index}.title`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input
+                                placeholder={`Milestone ${index + 1}`}
+                                {...field}
+                                aria-label={`Milestone ${index + 1} title`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`milestones.${index}.reward`}
+                        render={({ field }) => (
+                          <FormItem className="w-24">
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                {...field}
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                                aria-label={`Milestone ${index + 1} reward`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => milestoneFields.remove(index)}
+                        aria-label={`Remove milestone ${index + 1}`}
+                      >
+                        ✕
+                      </Button>
+                    </div>
+                  ))}
+                  {form.formState.errors.milestones?.root?.message || form.formState.errors.milestones?.message ? (
+                    <p className="text-sm font-medium text-destructive">
+                      {form.formState.errors.milestones?.root?.message ?? form.formState.errors.milestones?.message}
+                    </p>
+                  ) : null}
+                </div>
                 <Button 
                   type="submit" 
                   className="w-full" 
@@ -240,50 +580,119 @@ export default function TasksPage() {
         </Dialog>
       </div>
 
+      <RecommendedSection enabled={!!user} />
+
       {/* My Assigned Tasks Section */}
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">My Assigned Tasks</h2>
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {myAssignedTasks.map((task) => (
-            <TaskCard key={task.id} task={task} />
-          ))}
-          {myAssignedTasks.length === 0 && (
-            <p className="text-muted-foreground col-span-full text-center py-4">
-              You haven't accepted any tasks yet.
-            </p>
-          )}
-        </div>
-      </div>
+      <TaskSection
+        title="My Assigned Tasks"
+        filters={{ assigneeId: user?.id }}
+        enabled={!!user}
+        emptyMessage="You haven't accepted any tasks yet."
+      />
 
       {/* Available Tasks Section */}
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">Available Tasks</h2>
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {availableTasks.map((task) => (
-            <TaskCard key={task.id} task={task} />
-          ))}
-          {availableTasks.length === 0 && (
-            <p className="text-muted-foreground col-span-full text-center py-4">
-              No tasks available at the moment.
-            </p>
-          )}
+      <TaskSection
+        title="Available Tasks"
+        filters={availableFilters}
+        enabled={!!user}
+        emptyMessage="No tasks match your filters."
+      >
+        <div className="grid gap-2 md:grid-cols-3 lg:grid-cols-6">
+          <Input
+            className="md:col-span-3 lg:col-span-2"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search title and description..."
+            aria-label="Search tasks"
+          />
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger aria-label="Filter by type">
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              <SelectItem value="manual">Manual</SelectItem>
+              <SelectItem value="computational">Computational</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={proofTypeFilter} onValueChange={setProofTypeFilter}>
+            <SelectTrigger aria-label="Filter by proof type">
+              <SelectValue placeholder="Proof type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All proof types</SelectItem>
+              <SelectItem value="confirmation_approval">Confirmation Approval</SelectItem>
+              <SelectItem value="image_upload">Image Upload</SelectItem>
+              <SelectItem value="code_submission">Code Submission</SelectItem>
+              <SelectItem value="text_submission">Text Submission</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={minReward}
+              onChange={(e) => setMinReward(e.target.value)}
+              placeholder="Min"
+              aria-label="Minimum reward"
+            />
+            <Input
+              type="number"
+              min={0}
+              value={maxReward}
+              onChange={(e) => setMaxReward(e.target.value)}
+              placeholder="Max"
+              aria-label="Maximum reward"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as TaskSort)}>
+            <SelectTrigger aria-label="Sort tasks">
+              <SelectValue placeholder="Sort" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="oldest">Oldest first</SelectItem>
+              <SelectItem value="reward_desc">Highest reward</SelectItem>
+              <SelectItem value="reward_asc">Lowest reward</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="md:col-span-3 lg:col-span-2" aria-label="Filter by category">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {categoryOptions.map((option) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-      </div>
+        {popularTags.length > 0 && (
+          <div className="flex flex-wrap gap-2" aria-label="Filter by tag">
+            {popularTags.map(({ tag, count }) => (
+              <Badge
+                key={tag}
+                variant={tagFilter.includes(tag) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleTag(tag)}
+              >
+                {tag} ({count})
+              </Badge>
+            ))}
+          </div>
+        )}
+      </TaskSection>
 
       {/* My Created Tasks Section */}
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">My Created Tasks</h2>
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {myCreatedTasks.map((task) => (
-            <TaskCard key={task.id} task={task} />
-          ))}
-          {myCreatedTasks.length === 0 && (
-            <p className="text-muted-foreground col-span-full text-center py-4">
-              You haven't created any tasks yet.
-            </p>
-          )}
-        </div>
-      </div>
+      <TaskSection
+        title="My Created Tasks"
+        filters={{ creatorId: user?.id }}
+        enabled={!!user}
+        emptyMessage="You haven't created any tasks yet."
+      />
     </div>
   );
 }
\ No newline at end of file
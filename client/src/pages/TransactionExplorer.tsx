@@ -1,14 +1,34 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useBlockchain } from '../hooks/use-blockchain';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import { Transaction } from '../lib/blockchain/Block';
+import { Badge } from '@/components/ui/badge';
+import { Transaction } from '../lib/blockchain/types';
+
+function StatusBadge({ tx }: { tx: Transaction }) {
+  if (tx.status !== 'confirmed') {
+    return <Badge variant="outline">Pending</Badge>;
+  }
+  const confirmations = tx.confirmations ?? 0;
+  return (
+    <Badge variant="secondary">
+      {confirmations} confirmation{confirmations === 1 ? '' : 's'}
+    </Badge>
+  );
+}
 
 export default function TransactionExplorer() {
-  const { transactions, isLoading } = useBlockchain();
+  const { transactions: confirmedTransactions, pendingTransactions, isLoading } = useBlockchain();
   const [animatingTx, setAnimatingTx] = useState<Transaction | null>(null);
 
+  // Mempool entries are newer than anything on the chain, so they go last
+  const transactions = useMemo(
+    () => [...confirmedTransactions, ...pendingTransactions],
+    [confirmedTransactions, pendingTransactions]
+  );
+  const pendingCount = transactions.filter(tx => tx.status !== 'confirmed').length;
+
   // Watch for new transactions to trigger animations
   useEffect(() => {
     if (transactions.length > 0) {
@@ -32,6 +52,9 @@ export default function TransactionExplorer() {
       <Card>
         <CardHeader>
           <CardTitle>Transaction Explorer</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {pendingCount} pending · {transactions.length - pendingCount} confirmed
+          </p>
         </CardHeader>
         <CardContent>
           {/* Transaction Flow Visualization */}
@@ -99,6 +122,7 @@ export default function TransactionExplorer() {
                     <p className="text-sm font-medium">
                       To: {tx.to}
                     </p>
+                    <StatusBadge tx={tx} />
                   </div>
                   <div className="text-right">
                     <p className="text-lg font-bold">{tx.amount} tokens</p>
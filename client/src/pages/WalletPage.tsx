@@ -3,7 +3,6 @@ import { useUser } from '../hooks/use-user';
 import { useBlockchain } from '../hooks/use-blockchain';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import {
   Table,
   TableBody,
@@ -13,13 +12,13 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertTriangle, History } from "lucide-react";
+import { History, Send } from "lucide-react";
 import { format } from 'date-fns';
 import { Transaction } from '../lib/blockchain/types';
 import { motion } from 'framer-motion';
 import { TokenBalanceCard } from '@/components/TokenBalanceCard';
 import { TokenBrowser } from '@/components/TokenBrowser';
+import SendTokensModal from '@/components/SendTokensModal';
 import {
   Tabs,
   TabsContent,
@@ -35,13 +34,10 @@ interface GroupedTransactions {
 export default function WalletPage() {
   // Hooks
   const { user } = useUser();
-  const { transactions = [], tokens = [], createTransaction, isLoading, balance } = useBlockchain();
+  const { transactions = [], tokens = [], isLoading, balance, transferLimits } = useBlockchain();
 
   // State
-  const [amount, setAmount] = useState<number>(0);
-  const [recipient, setRecipient] = useState<string>('');
-  const [error, setError] = useState<string | null>(null);
-  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [sendOpen, setSendOpen] = useState(false);
 
   // Debug logging
   useEffect(() => {
@@ -71,37 +67,6 @@ export default function WalletPage() {
     }, { purchases: [], mining: [] });
   }, [transactions, user?.username]);
 
-  const handleTransaction = useCallback(async () => {
-    if (!user) {
-      setError("Please login first");
-      return;
-    }
-
-    if (amount <= 0) {
-      setError("Please enter a valid amount");
-      return;
-    }
-
-    if (!recipient) {
-      setError("Please enter a recipient address");
-      return;
-    }
-
-    try {
-      setError(null);
-      setIsProcessing(true);
-      console.log('[WalletPage] Creating transaction:', { recipient, amount });
-      await createTransaction({ to: recipient, amount });
-      setAmount(0);
-      setRecipient('');
-    } catch (error: any) {
-      console.error('[WalletPage] Transaction failed:', error);
-      setError(error.message);
-    } finally {
-      setIsProcessing(false);
-    }
-  }, [user, amount, recipient, createTransaction]);
-
   const { purchases, mining } = groupTransactions();
 
   return (
@@ -116,51 +81,29 @@ export default function WalletPage() {
             <CardTitle>Send Tokens</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {error && (
-              <Alert variant="destructive">
-                <AlertTriangle className="h-4 w-4" />
-                <AlertTitle>Error</AlertTitle>
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
+            <p className="text-sm text-muted-foreground">
+              Send tokens to another user by username, with an optional memo. You'll get a
+              receipt once the transfer is recorded.
+            </p>
+            {transferLimits && (
+              <p className="text-sm">
+                {transferLimits.remaining} of {transferLimits.limit} tokens left to send today
+              </p>
             )}
-            <Input
-              placeholder="Recipient Address"
-              value={recipient}
-              onChange={(e) => {
-                setError(null);
-                setRecipient(e.target.value);
-              }}
-              disabled={isProcessing}
-            />
-            <Input
-              type="number"
-              placeholder="Amount"
-              value={amount}
-              onChange={(e) => {
-                setError(null);
-                setAmount(Number(e.target.value));
-              }}
-              disabled={isProcessing}
-              min="0"
-            />
             <Button
-              onClick={handleTransaction}
+              onClick={() => setSendOpen(true)}
               className="w-full"
-              disabled={isProcessing || amount <= 0 || !recipient || !user}
+              disabled={!user || balance <= 0}
             >
-              {isProcessing ? (
-                <>
-                  <LoadingSpinner size="sm" className="mr-2" />
-                  Processing Transaction...
-                </>
-              ) : (
-                'Send Tokens'
-              )}
+              <Send className="h-4 w-4 mr-2" />
+              Send Tokens
             </Button>
           </CardContent>
         </Card>
       </div>
 
+      <SendTokensModal open={sendOpen} onOpenChange={setSendOpen} />
+
       {/* Tabs for Transaction History and Token Browser */}
       <Tabs defaultValue="transactions" className="mt-8">
         <TabsList className="grid w-full grid-cols-2">
@@ -1,5 +1,14 @@
-export type TaskStatus = 'open' | 'in_progress' | 'pending_verification' | 'completed' | 'cancelled';
+import type { ComputationalMetadata } from '../../../server/services/workProtocol';
+
+export type TaskStatus = 'open' | 'in_progress' | 'pending_verification' | 'disputed' | 'completed' | 'cancelled';
 export type TaskType = 'computational' | 'manual';
+export type ProofType =
+  | 'confirmation_approval'
+  | 'image_upload'
+  | 'code_submission'
+  | 'text_submission'
+  | 'computational_result';
+export type AssignmentMode = 'first_come' | 'application';
 
 export interface Task {
   id: number;
@@ -10,17 +19,151 @@ export interface Task {
   status: TaskStatus;
   creatorId: number;
   workerId?: number;
+  proofType: ProofType;
   proofRequired: string;
   proofSubmitted?: string;
+  rejectedProof?: string | null;
+  escrowTransactionId?: string;
+  cancellationRequestedAt?: string | null;
+  acceptBy?: string | null;
+  completeBy?: string | null;
+  // Seconds a worker gets from accepting a reopened task
+  completionWindow?: number | null;
+  acceptedAt?: string | null;
+  assignmentMode: AssignmentMode;
+  maxWorkers: number;
+  submittedAt?: string | null;
+  categoryId?: number | null;
+  tags: string[];
+  computationalMetadata?: ComputationalMetadata | null;
+  category?: Category | null;
+  creator?: Pick<User, 'id' | 'username'>;
+  worker?: Pick<User, 'id' | 'username'> | null;
+  milestones?: TaskMilestone[];
+  assignments?: TaskAssignment[];
   created_at: string;
   updated_at: string;
 }
 
+export interface Category {
+  id: number;
+  slug: string;
+  name: string;
+  parentId: number | null;
+  position: number;
+  children?: Category[];
+}
+
+export interface PopularTag {
+  tag: string;
+  count: number;
+}
+
+// Recommendations carry the ranking score and which of the viewer's skills matched
+export interface RecommendedTask extends Task {
+  score: number;
+  matchedSkills: string[];
+}
+
+export interface TaskMilestone {
+  id: number;
+  taskId: number;
+  position: number;
+  title: string;
+  description: string | null;
+  reward: number;
+  status: 'pending' | 'submitted' | 'verified';
+  proofSubmitted: string | null;
+  releaseTransactionId: string | null;
+  submittedAt: string | null;
+  verifiedAt: string | null;
+}
+
+export interface TaskRating {
+  id: number;
+  taskId: number;
+  raterId: number;
+  rateeId: number;
+  rateeRole: 'creator' | 'worker';
+  score: number;
+  comment: string | null;
+  created_at: string;
+  rater?: {
+    id: number;
+    username: string;
+  };
+}
+
+export interface ReputationStats {
+  tasksCreated: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  completionRate: number | null;
+  onTimeRate: number | null;
+  disputeRate: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+export interface UserProfile {
+  id: number;
+  username: string;
+  role: 'user' | 'arbiter' | 'admin';
+  skills: string[];
+  created_at: string;
+  stats: ReputationStats;
+  recentRatings: TaskRating[];
+}
+
+export interface TaskAssignment {
+  id: number;
+  taskId: number;
+  workerId: number;
+  status: 'in_progress' | 'pending_verification' | 'completed' | 'expired';
+  proofSubmitted: string | null;
+  rejectedProof: string | null;
+  releaseTransactionId: string | null;
+  submittedAt: string | null;
+  verifiedAt: string | null;
+  created_at: string;
+  worker?: {
+    id: number;
+    username: string;
+  };
+}
+
+export interface TaskApplication {
+  id: number;
+  taskId: number;
+  applicantId: number;
+  pitch: string;
+  proposedReward: number | null;
+  status: 'pending' | 'accepted' | 'rejected' | 'withdrawn';
+  reviewedAt: string | null;
+  created_at: string;
+  applicant?: {
+    id: number;
+    username: string;
+    created_at: string;
+  };
+}
+
+export interface ProofFile {
+  id: number;
+  taskId: number;
+  uploaderId: number;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  created_at: string;
+}
+
 export interface TokenTransaction {
   id: number;
   userId: number;
   amount: number;
-  type: 'reward' | 'purchase' | 'escrow' | 'release';
+  type: 'reward' | 'purchase' | 'escrow' | 'release' | 'refund';
   taskId?: number;
   timestamp: string;
 }
@@ -29,4 +172,41 @@ export interface User {
   id: number;
   username: string;
   tokenBalance: number;
+  role: 'user' | 'arbiter' | 'admin';
+}
+
+export interface Dispute {
+  id: number;
+  taskId: number;
+  creatorId: number;
+  workerId: number;
+  status: 'open' | 'resolved';
+  disputedProof: string | null;
+  workerStatement: string;
+  workerEvidence: string[];
+  creatorStatement: string | null;
+  creatorEvidence: string[];
+  ruling: 'worker' | 'creator' | 'split' | null;
+  workerShare: number | null;
+  rulingNotes: string | null;
+  arbiterId: number | null;
+  resolvedAt: string | null;
+  created_at: string;
+  task?: Task;
+  creator?: Pick<User, 'id' | 'username'>;
+  worker?: Pick<User, 'id' | 'username'>;
 }
+
+// Work unit protocol, shared with the server and the worker CLI
+export type {
+  AvailableWork,
+  ClaimedWorkUnit,
+  ComputationalMetadata,
+  SubmissionOutcome,
+  TaskActivity,
+  WorkerActivity,
+  WorkerEarnings,
+  WorkProgress,
+  WorkUnitEvent,
+  WorkUnitInput
+} from '../../../server/services/workProtocol';
@@ -0,0 +1,22 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@db/schema";
+
+// An in-memory Postgres with the current schema, standing in for @db when the
+// tests run (see tsconfig.test.json). Each test file gets its own, empty.
+// Transactions on it run one at a time, so tests exercise the locking logic
+// but not real contention.
+
+// drizzle-kit's ESM build can't load its own dependencies
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const client = new PGlite();
+
+const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+for (const statement of statements) {
+  await client.exec(statement);
+}
+
+export const db = drizzle({ client, schema });
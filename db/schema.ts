@@ -1,12 +1,14 @@
-import { pgTable, text, serial, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").unique().notNull(),
   password: text("password").notNull(),
   tokenBalance: integer("token_balance").notNull().default(0),
+  role: text("role", { enum: ["user", "arbiter", "admin"] }).notNull().default("user"),
+  skills: text("skills").array().notNull().default(sql`'{}'::text[]`),
   created_at: timestamp("created_at").notNull().defaultNow(),
   updated_at: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -18,7 +20,7 @@ export const tasks = pgTable("tasks", {
   type: text("type", { enum: ["manual", "computational"] }).notNull(),
   reward: integer("reward").notNull(),
   status: text("status", {
-    enum: ["open", "in_progress", "pending_verification", "completed", "cancelled"]
+    enum: ["open", "in_progress", "pending_verification", "disputed", "completed", "cancelled"]
   }).notNull().default("open"),
   creatorId: integer("creator_id").notNull(),
   workerId: integer("worker_id"),
@@ -27,27 +29,28 @@ export const tasks = pgTable("tasks", {
   }).notNull().default("confirmation_approval"),
   proofRequired: text("proof_required").notNull(),
   proofSubmitted: text("proof_submitted"),
+  rejectedProof: text("rejected_proof"),
   escrowTransactionId: text("escrow_transaction_id"),
+  cancellationRequestedAt: timestamp("cancellation_requested_at"),
+  acceptBy: timestamp("accept_by"),
+  completeBy: timestamp("complete_by"),
+  // Seconds the first worker had to complete the task. A worker taking over
+  // a reopened task gets the same amount of time from when they accept.
+  completionWindow: integer("completion_window"),
+  acceptedAt: timestamp("accepted_at"),
+  submittedAt: timestamp("submitted_at"),
+  assignmentMode: text("assignment_mode", {
+    enum: ["first_come", "application"]
+  }).notNull().default("first_come"),
+  maxWorkers: integer("max_workers").notNull().default(1),
+  categoryId: integer("category_id"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
   workUnitsTotal: integer("work_units_total"),
   workUnitsPerToken: integer("work_units_per_token"),
-  workUnitResults: jsonb("work_unit_results").$type<{
-    units: Array<{
-      id: number;
-      tokenId: string;
-      workerId: number;
-      status: 'pending' | 'in_progress' | 'completed' | 'verified';
-      input: any;
-      result?: any;
-      startedAt?: string;
-      completedAt?: string;
-      verifiedAt?: string;
-    }>;
-    progress: {
-      total: number;
-      completed: number;
-      verified: number;
-    };
-  }>(),
+  // Where work units were kept before the work_units table. Moved into it at
+  // startup and cleared; nothing else reads it.
+  workUnitResults: jsonb("work_unit_results"),
+  replicationFactor: integer("replication_factor").notNull().default(1),
   computationalMetadata: jsonb("computational_metadata").$type<{
     framework?: 'tensorflow' | 'pytorch' | 'custom';
     inputFormat: string;
@@ -59,10 +62,244 @@ export const tasks = pgTable("tasks", {
       gpuRequired: boolean;
     };
     validationScript?: string;
+    // Browser kernel: the body of a function (input, shard, wasm) run in a
+    // Web Worker, with an optional base64 WebAssembly module instantiated
+    // for it
+    kernel?: {
+      source: string;
+      wasm?: string;
+    };
     distributionStrategy: 'sequential' | 'random' | 'priority';
+    consensus?: {
+      comparator: 'exact' | 'hash' | 'tolerance';
+      tolerance?: number;
+    };
   }>(),
   created_at: timestamp("created_at").notNull().defaultNow(),
   updated_at: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  // Keyset pagination orders by (sort column, id)
+  statusIdx: index("tasks_status_id_idx").on(table.status, table.id),
+  rewardIdx: index("tasks_reward_id_idx").on(table.reward, table.id),
+  creatorIdx: index("tasks_creator_id_idx").on(table.creatorId, table.id),
+  workerIdx: index("tasks_worker_id_idx").on(table.workerId, table.id),
+  categoryIdx: index("tasks_category_id_idx").on(table.categoryId, table.id),
+  tagsIdx: index("tasks_tags_idx").using("gin", table.tags),
+  searchIdx: index("tasks_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.title} || ' ' || ${table.description})`
+  ),
+}));
+
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").unique().notNull(),
+  name: text("name").notNull(),
+  parentId: integer("parent_id"),
+  position: integer("position").notNull().default(0),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const taskMilestones = pgTable("task_milestones", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  reward: integer("reward").notNull(),
+  status: text("status", {
+    enum: ["pending", "submitted", "verified"]
+  }).notNull().default("pending"),
+  proofSubmitted: text("proof_submitted"),
+  releaseTransactionId: text("release_transaction_id"),
+  submittedAt: timestamp("submitted_at"),
+  verifiedAt: timestamp("verified_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const taskAssignments = pgTable("task_assignments", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  workerId: integer("worker_id").notNull(),
+  status: text("status", {
+    enum: ["in_progress", "pending_verification", "completed", "expired"]
+  }).notNull().default("in_progress"),
+  proofSubmitted: text("proof_submitted"),
+  rejectedProof: text("rejected_proof"),
+  releaseTransactionId: text("release_transaction_id"),
+  submittedAt: timestamp("submitted_at"),
+  verifiedAt: timestamp("verified_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  workerIdx: index("task_assignments_worker_id_idx").on(table.workerId),
+  taskIdx: index("task_assignments_task_id_idx").on(table.taskId),
+}));
+
+// One row per unit of computational work. Claims lock rows individually
+// (FOR UPDATE SKIP LOCKED) so concurrent workers never share a unit.
+export const workUnits = pgTable("work_units", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  unitIndex: integer("unit_index").notNull(),
+  // Each unit is computed by replicationFactor distinct workers
+  replica: integer("replica").notNull().default(0),
+  tokenId: text("token_id").notNull(),
+  workerId: integer("worker_id"),
+  status: text("status", {
+    enum: ["pending", "in_progress", "completed", "verified", "failed"]
+  }).notNull().default("pending"),
+  input: jsonb("input"),
+  result: jsonb("result"),
+  resultHash: text("result_hash"),
+  // Set when this replica's result disagrees with the consensus
+  flaggedAt: timestamp("flagged_at"),
+  attempts: integer("attempts").notNull().default(0),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  lastHeartbeatAt: timestamp("last_heartbeat_at"),
+  lastExpiredAt: timestamp("last_expired_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  verifiedAt: timestamp("verified_at"),
+  // Set once a verified result has counted towards the worker's payout
+  creditedAt: timestamp("credited_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  taskUnitUnique: unique("work_units_task_unit_replica_unique").on(table.taskId, table.unitIndex, table.replica),
+  claimIdx: index("work_units_claim_idx").on(table.taskId, table.tokenId, table.status, table.unitIndex),
+  workerIdx: index("work_units_worker_id_idx").on(table.workerId),
+  leaseIdx: index("work_units_lease_idx").on(table.status, table.leaseExpiresAt),
+}));
+
+// Verified units a worker has been credited with on a task and the escrow
+// tokens paid out for them; the remainder of creditedUnits / workUnitsPerToken
+// carries over until it adds up to a whole token
+export const workCredits = pgTable("work_credits", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  workerId: integer("worker_id").notNull(),
+  creditedUnits: integer("credited_units").notNull().default(0),
+  paidTokens: integer("paid_tokens").notNull().default(0),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  taskWorkerUnique: unique("work_credits_task_worker_unique").on(table.taskId, table.workerId),
+}));
+
+// Hardware a worker offers for computational tasks. Only workers with an
+// active profile are given work units.
+export const workerProfiles = pgTable("worker_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").unique().notNull(),
+  memoryMb: integer("memory_mb").notNull(),
+  cpuCores: integer("cpu_cores").notNull(),
+  gpuCount: integer("gpu_count").notNull().default(0),
+  status: text("status", { enum: ["active", "paused"] }).notNull().default("active"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Input data for a computational task, split into one shard per work unit
+export const taskDatasets = pgTable("task_datasets", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").unique().notNull(),
+  format: text("format", { enum: ["jsonl", "csv", "ranges"] }).notNull(),
+  originalName: text("original_name").notNull(),
+  storageKey: text("storage_key").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  recordCount: integer("record_count").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const datasetShards = pgTable("dataset_shards", {
+  id: serial("id").primaryKey(),
+  datasetId: integer("dataset_id").notNull(),
+  taskId: integer("task_id").notNull(),
+  unitIndex: integer("unit_index").notNull(),
+  storageKey: text("storage_key").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  recordCount: integer("record_count").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  taskUnitUnique: unique("dataset_shards_task_unit_unique").on(table.taskId, table.unitIndex),
+}));
+
+// Outcome of running the creator's validationScript against a submitted result
+export const validationRuns = pgTable("validation_runs", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  workUnitId: integer("work_unit_id").notNull(),
+  workerId: integer("worker_id").notNull(),
+  status: text("status", { enum: ["passed", "failed"] }).notNull(),
+  logs: text("logs").array().notNull().default(sql`'{}'::text[]`),
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  taskIdx: index("validation_runs_task_id_idx").on(table.taskId, table.id),
+}));
+
+export const taskRatings = pgTable("task_ratings", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  raterId: integer("rater_id").notNull(),
+  rateeId: integer("ratee_id").notNull(),
+  rateeRole: text("ratee_role", { enum: ["creator", "worker"] }).notNull(),
+  score: integer("score").notNull(),
+  comment: text("comment"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  oneRatingPerPair: unique("task_ratings_task_rater_ratee").on(table.taskId, table.raterId, table.rateeId),
+}));
+
+export const taskApplications = pgTable("task_applications", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  applicantId: integer("applicant_id").notNull(),
+  pitch: text("pitch").notNull(),
+  proposedReward: integer("proposed_reward"),
+  status: text("status", {
+    enum: ["pending", "accepted", "rejected", "withdrawn"]
+  }).notNull().default("pending"),
+  reviewedAt: timestamp("reviewed_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const proofFiles = pgTable("proof_files", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  uploaderId: integer("uploader_id").notNull(),
+  storageKey: text("storage_key").notNull(),
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  creatorId: integer("creator_id").notNull(),
+  workerId: integer("worker_id").notNull(),
+  status: text("status", { enum: ["open", "resolved"] }).notNull().default("open"),
+  disputedProof: text("disputed_proof"),
+  workerStatement: text("worker_statement").notNull(),
+  workerEvidence: jsonb("worker_evidence").$type<string[]>().notNull().default([]),
+  creatorStatement: text("creator_statement"),
+  creatorEvidence: jsonb("creator_evidence").$type<string[]>().notNull().default([]),
+  ruling: text("ruling", { enum: ["worker", "creator", "split"] }),
+  workerShare: integer("worker_share"),
+  rulingNotes: text("ruling_notes"),
+  arbiterId: integer("arbiter_id"),
+  resolvedAt: timestamp("resolved_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const tokens = pgTable("tokens", {
@@ -81,7 +318,7 @@ export const tokens = pgTable("tokens", {
       to: string;
       timestamp: number;
       transactionId: string;
-      type: 'transfer' | 'escrow' | 'release' | 'burn';
+      type: 'transfer' | 'escrow' | 'release' | 'refund' | 'burn';
       taskId?: number;
     }>;
     purchaseInfo?: {
@@ -107,7 +344,7 @@ export const tokenTransactions = pgTable("token_transactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   type: text("type", {
-    enum: ["mint", "transfer", "escrow", "release", "burn"]
+    enum: ["mint", "transfer", "escrow", "release", "refund", "burn"]
   }).notNull(),
   status: text("status", {
     enum: ["pending", "completed", "failed"]
@@ -124,8 +361,122 @@ export const tokenTransactions = pgTable("token_transactions", {
     timestamp?: string;
     escrowTransactionId?: string;
     releaseTimestamp?: string;
+    originalEscrowId?: number;
+    taskId?: number;
+    unitId?: number;
+    memo?: string;
+    transferId?: number;
   }>(),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Set once the transaction is sealed into a block
+  blockId: integer("block_id"),
+}, (table) => ({
+  blockIdx: index("token_transactions_block_idx").on(table.blockId),
+}));
+
+// Sealed groups of ledger transactions. Each block's hash covers the previous
+// block's hash and the Merkle root of its transactions, so editing, removing
+// or moving a sealed transaction breaks the chain from that block on.
+export const blocks = pgTable("blocks", {
+  id: serial("id").primaryKey(),
+  height: integer("height").unique().notNull(),
+  hash: text("hash").unique().notNull(),
+  previousHash: text("previous_hash").notNull(),
+  merkleRoot: text("merkle_root").notNull(),
+  transactionCount: integer("transaction_count").notNull(),
+  nonce: integer("nonce").notNull(),
+  difficulty: integer("difficulty").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per token per ledger transaction that moved it: the token's
+// ownership chain. Escrow, release and refund events carry the escrow
+// transaction, which ties them to the task the token paid for.
+export const tokenEvents = pgTable("token_events", {
+  id: serial("id").primaryKey(),
+  tokenId: text("token_id").notNull(),
+  type: text("type", {
+    enum: ["mint", "transfer", "escrow", "release", "refund", "burn"]
+  }).notNull(),
+  fromAddress: text("from_address"),
+  toAddress: text("to_address"),
+  transactionId: integer("transaction_id").notNull(),
+  escrowTransactionId: integer("escrow_transaction_id"),
+  // The work unit a release paid for
+  unitId: integer("unit_id"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tokenIdx: index("token_events_token_idx").on(table.tokenId, table.id),
+  transactionIdx: index("token_events_transaction_idx").on(table.transactionId),
+}));
+
+// Transfers waiting for the block producer when the mempool is enabled. A
+// pending entry reserves its tokens, so later transfers can't spend them.
+export const mempoolTransactions = pgTable("mempool_transactions", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull(),
+  recipientId: integer("recipient_id").notNull(),
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  tokenIds: text("token_ids").array().notNull(),
+  metadata: jsonb("metadata").$type<{
+    baseTokens: number;
+    bonusTokens: number;
+    timestamp: string;
+    memo?: string;
+    transferId?: number;
+  }>().notNull(),
+  status: text("status", {
+    enum: ["pending", "confirmed", "rejected"]
+  }).notNull().default("pending"),
+  // The ledger transaction written when the entry is confirmed
+  transactionId: integer("transaction_id"),
+  rejectionReason: text("rejection_reason"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => ({
+  statusFromIdx: index("mempool_transactions_status_from_idx").on(table.status, table.fromAddress),
+}));
+
+// User-to-user sends. The row is written before the ledger transaction so
+// retries with the same idempotency key and the daily limit see sends still
+// in flight.
+export const tokenTransfers = pgTable("token_transfers", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull(),
+  recipientId: integer("recipient_id").notNull(),
+  amount: integer("amount").notNull(),
+  memo: text("memo"),
+  idempotencyKey: text("idempotency_key").notNull(),
+  // queued: accepted into the mempool, waiting for a block
+  status: text("status", {
+    enum: ["pending", "queued", "completed", "rejected"]
+  }).notNull().default("pending"),
+  transactionId: integer("transaction_id"),
+  blockHash: text("block_hash"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  senderKeyUnique: unique("token_transfers_sender_key_unique").on(table.senderId, table.idempotencyKey),
+  senderCreatedIdx: index("token_transfers_sender_created_idx").on(table.senderId, table.created_at),
+}));
+
+// Results of replaying the ledger against token and balance state. Repairs
+// are only applied once an admin approves a report.
+export const ledgerAudits = pgTable("ledger_audits", {
+  id: serial("id").primaryKey(),
+  status: text("status", {
+    enum: ["clean", "discrepancies", "repaired"]
+  }).notNull(),
+  discrepancyCount: integer("discrepancy_count").notNull(),
+  report: jsonb("report").notNull(),
+  // Null for audits run by the scheduled job
+  requestedBy: integer("requested_by"),
+  repairedBy: integer("repaired_by"),
+  repairedAt: timestamp("repaired_at"),
+  repairs: jsonb("repairs"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
@@ -134,9 +485,15 @@ export const usersRelations = relations(users, ({ many }) => ({
   createdTokens: many(tokens, { relationName: "creation" }),
   createdTasks: many(tasks, { relationName: "taskCreation" }),
   workedTasks: many(tasks, { relationName: "taskWork" }),
+  createdDisputes: many(disputes, { relationName: "disputeCreator" }),
+  workedDisputes: many(disputes, { relationName: "disputeWorker" }),
+  applications: many(taskApplications),
+  assignments: many(taskAssignments),
+  givenRatings: many(taskRatings, { relationName: "ratingRater" }),
+  receivedRatings: many(taskRatings, { relationName: "ratingRatee" }),
 }));
 
-export const tasksRelations = relations(tasks, ({ one }) => ({
+export const tasksRelations = relations(tasks, ({ one, many }) => ({
   creator: one(users, {
     fields: [tasks.creatorId],
     references: [users.id],
@@ -147,6 +504,152 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
     references: [users.id],
     relationName: "taskWork",
   }),
+  disputes: many(disputes),
+  category: one(categories, {
+    fields: [tasks.categoryId],
+    references: [categories.id],
+  }),
+  milestones: many(taskMilestones),
+  proofFiles: many(proofFiles),
+  applications: many(taskApplications),
+  assignments: many(taskAssignments),
+  ratings: many(taskRatings),
+  workUnits: many(workUnits),
+}));
+
+export const workCreditsRelations = relations(workCredits, ({ one }) => ({
+  task: one(tasks, {
+    fields: [workCredits.taskId],
+    references: [tasks.id],
+  }),
+  worker: one(users, {
+    fields: [workCredits.workerId],
+    references: [users.id],
+  }),
+}));
+
+export const workerProfilesRelations = relations(workerProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [workerProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const taskDatasetsRelations = relations(taskDatasets, ({ one, many }) => ({
+  task: one(tasks, {
+    fields: [taskDatasets.taskId],
+    references: [tasks.id],
+  }),
+  shards: many(datasetShards),
+}));
+
+export const datasetShardsRelations = relations(datasetShards, ({ one }) => ({
+  dataset: one(taskDatasets, {
+    fields: [datasetShards.datasetId],
+    references: [taskDatasets.id],
+  }),
+}));
+
+export const validationRunsRelations = relations(validationRuns, ({ one }) => ({
+  task: one(tasks, {
+    fields: [validationRuns.taskId],
+    references: [tasks.id],
+  }),
+  workUnit: one(workUnits, {
+    fields: [validationRuns.workUnitId],
+    references: [workUnits.id],
+  }),
+}));
+
+export const workUnitsRelations = relations(workUnits, ({ one }) => ({
+  task: one(tasks, {
+    fields: [workUnits.taskId],
+    references: [tasks.id],
+  }),
+  worker: one(users, {
+    fields: [workUnits.workerId],
+    references: [users.id],
+  }),
+}));
+
+export const taskRatingsRelations = relations(taskRatings, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskRatings.taskId],
+    references: [tasks.id],
+  }),
+  rater: one(users, {
+    fields: [taskRatings.raterId],
+    references: [users.id],
+    relationName: "ratingRater",
+  }),
+  ratee: one(users, {
+    fields: [taskRatings.rateeId],
+    references: [users.id],
+    relationName: "ratingRatee",
+  }),
+}));
+
+export const taskAssignmentsRelations = relations(taskAssignments, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskAssignments.taskId],
+    references: [tasks.id],
+  }),
+  worker: one(users, {
+    fields: [taskAssignments.workerId],
+    references: [users.id],
+  }),
+}));
+
+export const taskApplicationsRelations = relations(taskApplications, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskApplications.taskId],
+    references: [tasks.id],
+  }),
+  applicant: one(users, {
+    fields: [taskApplications.applicantId],
+    references: [users.id],
+  }),
+}));
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "categoryTree",
+  }),
+  children: many(categories, { relationName: "categoryTree" }),
+  tasks: many(tasks),
+}));
+
+export const proofFilesRelations = relations(proofFiles, ({ one }) => ({
+  task: one(tasks, {
+    fields: [proofFiles.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const taskMilestonesRelations = relations(taskMilestones, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskMilestones.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const disputesRelations = relations(disputes, ({ one }) => ({
+  task: one(tasks, {
+    fields: [disputes.taskId],
+    references: [tasks.id],
+  }),
+  creator: one(users, {
+    fields: [disputes.creatorId],
+    references: [users.id],
+    relationName: "disputeCreator",
+  }),
+  worker: one(users, {
+    fields: [disputes.workerId],
+    references: [users.id],
+    relationName: "disputeWorker",
+  }),
 }));
 
 export const tokensRelations = relations(tokens, ({ one }) => ({
@@ -171,23 +674,155 @@ export const tokenTransactionsRelations = relations(tokenTransactions, ({ one, m
     fields: [tokenTransactions.userId],
     references: [users.id],
   }),
+  block: one(blocks, {
+    fields: [tokenTransactions.blockId],
+    references: [blocks.id],
+  }),
   tokens: many(tokens),
 }));
 
+export const blocksRelations = relations(blocks, ({ many }) => ({
+  transactions: many(tokenTransactions),
+}));
+
+export const tokenEventsRelations = relations(tokenEvents, ({ one }) => ({
+  token: one(tokens, {
+    fields: [tokenEvents.tokenId],
+    references: [tokens.id],
+  }),
+  transaction: one(tokenTransactions, {
+    fields: [tokenEvents.transactionId],
+    references: [tokenTransactions.id],
+  }),
+}));
+
+export const mempoolTransactionsRelations = relations(mempoolTransactions, ({ one }) => ({
+  sender: one(users, {
+    fields: [mempoolTransactions.senderId],
+    references: [users.id],
+  }),
+  recipient: one(users, {
+    fields: [mempoolTransactions.recipientId],
+    references: [users.id],
+  }),
+  transaction: one(tokenTransactions, {
+    fields: [mempoolTransactions.transactionId],
+    references: [tokenTransactions.id],
+  }),
+}));
+
+export const tokenTransfersRelations = relations(tokenTransfers, ({ one }) => ({
+  sender: one(users, {
+    fields: [tokenTransfers.senderId],
+    references: [users.id],
+  }),
+  recipient: one(users, {
+    fields: [tokenTransfers.recipientId],
+    references: [users.id],
+  }),
+  transaction: one(tokenTransactions, {
+    fields: [tokenTransfers.transactionId],
+    references: [tokenTransactions.id],
+  }),
+}));
+
+export const ledgerAuditsRelations = relations(ledgerAudits, ({ one }) => ({
+  requester: one(users, {
+    fields: [ledgerAudits.requestedBy],
+    references: [users.id],
+  }),
+  repairer: one(users, {
+    fields: [ledgerAudits.repairedBy],
+    references: [users.id],
+  }),
+}));
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = typeof tasks.$inferInsert;
 export type Token = typeof tokens.$inferSelect;
 export type InsertToken = typeof tokens.$inferInsert;
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = typeof categories.$inferInsert;
+export type TaskMilestone = typeof taskMilestones.$inferSelect;
+export type InsertTaskMilestone = typeof taskMilestones.$inferInsert;
+export type TaskRating = typeof taskRatings.$inferSelect;
+export type InsertTaskRating = typeof taskRatings.$inferInsert;
+export type TaskAssignment = typeof taskAssignments.$inferSelect;
+export type InsertTaskAssignment = typeof taskAssignments.$inferInsert;
+export type WorkUnit = typeof workUnits.$inferSelect;
+export type InsertWorkUnit = typeof workUnits.$inferInsert;
+export type WorkCredit = typeof workCredits.$inferSelect;
+export type InsertWorkCredit = typeof workCredits.$inferInsert;
+export type WorkerProfile = typeof workerProfiles.$inferSelect;
+export type InsertWorkerProfile = typeof workerProfiles.$inferInsert;
+export type TaskDataset = typeof taskDatasets.$inferSelect;
+export type InsertTaskDataset = typeof taskDatasets.$inferInsert;
+export type DatasetShard = typeof datasetShards.$inferSelect;
+export type InsertDatasetShard = typeof datasetShards.$inferInsert;
+export type ValidationRun = typeof validationRuns.$inferSelect;
+export type InsertValidationRun = typeof validationRuns.$inferInsert;
+export type TaskApplication = typeof taskApplications.$inferSelect;
+export type InsertTaskApplication = typeof taskApplications.$inferInsert;
+export type ProofFile = typeof proofFiles.$inferSelect;
+export type InsertProofFile = typeof proofFiles.$inferInsert;
+export type Dispute = typeof disputes.$inferSelect;
+export type InsertDispute = typeof disputes.$inferInsert;
 export type TokenTransaction = typeof tokenTransactions.$inferSelect;
 export type InsertTokenTransaction = typeof tokenTransactions.$inferInsert;
+export type Block = typeof blocks.$inferSelect;
+export type InsertBlock = typeof blocks.$inferInsert;
+export type TokenEvent = typeof tokenEvents.$inferSelect;
+export type InsertTokenEvent = typeof tokenEvents.$inferInsert;
+export type MempoolTransaction = typeof mempoolTransactions.$inferSelect;
+export type InsertMempoolTransaction = typeof mempoolTransactions.$inferInsert;
+export type TokenTransfer = typeof tokenTransfers.$inferSelect;
+export type InsertTokenTransfer = typeof tokenTransfers.$inferInsert;
+export type LedgerAudit = typeof ledgerAudits.$inferSelect;
+export type InsertLedgerAudit = typeof ledgerAudits.$inferInsert;
 
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
 export const insertTaskSchema = createInsertSchema(tasks);
 export const selectTaskSchema = createSelectSchema(tasks);
+export const insertCategorySchema = createInsertSchema(categories);
+export const selectCategorySchema = createSelectSchema(categories);
+export const insertTaskMilestoneSchema = createInsertSchema(taskMilestones);
+export const selectTaskMilestoneSchema = createSelectSchema(taskMilestones);
+export const insertTaskRatingSchema = createInsertSchema(taskRatings);
+export const selectTaskRatingSchema = createSelectSchema(taskRatings);
+export const insertTaskAssignmentSchema = createInsertSchema(taskAssignments);
+export const selectTaskAssignmentSchema = createSelectSchema(taskAssignments);
+export const insertWorkUnitSchema = createInsertSchema(workUnits);
+export const selectWorkUnitSchema = createSelectSchema(workUnits);
+export const insertWorkCreditSchema = createInsertSchema(workCredits);
+export const selectWorkCreditSchema = createSelectSchema(workCredits);
+export const insertWorkerProfileSchema = createInsertSchema(workerProfiles);
+export const selectWorkerProfileSchema = createSelectSchema(workerProfiles);
+export const insertTaskDatasetSchema = createInsertSchema(taskDatasets);
+export const selectTaskDatasetSchema = createSelectSchema(taskDatasets);
+export const insertDatasetShardSchema = createInsertSchema(datasetShards);
+export const selectDatasetShardSchema = createSelectSchema(datasetShards);
+export const insertValidationRunSchema = createInsertSchema(validationRuns);
+export const selectValidationRunSchema = createSelectSchema(validationRuns);
+export const insertTaskApplicationSchema = createInsertSchema(taskApplications);
+export const selectTaskApplicationSchema = createSelectSchema(taskApplications);
+export const insertProofFileSchema = createInsertSchema(proofFiles);
+export const selectProofFileSchema = createSelectSchema(proofFiles);
+export const insertDisputeSchema = createInsertSchema(disputes);
+export const selectDisputeSchema = createSelectSchema(disputes);
 export const insertTokenSchema = createInsertSchema(tokens);
 export const selectTokenSchema = createSelectSchema(tokens);
 export const insertTokenTransactionSchema = createInsertSchema(tokenTransactions);
-export const selectTokenTransactionSchema = createSelectSchema(tokenTransactions);
\ No newline at end of file
+export const selectTokenTransactionSchema = createSelectSchema(tokenTransactions);
+export const insertBlockSchema = createInsertSchema(blocks);
+export const selectBlockSchema = createSelectSchema(blocks);
+export const insertTokenEventSchema = createInsertSchema(tokenEvents);
+export const selectTokenEventSchema = createSelectSchema(tokenEvents);
+export const insertMempoolTransactionSchema = createInsertSchema(mempoolTransactions);
+export const selectMempoolTransactionSchema = createSelectSchema(mempoolTransactions);
+export const insertTokenTransferSchema = createInsertSchema(tokenTransfers);
+export const selectTokenTransferSchema = createSelectSchema(tokenTransfers);
+export const insertLedgerAuditSchema = createInsertSchema(ledgerAudits);
+export const selectLedgerAuditSchema = createSelectSchema(ledgerAudits);
\ No newline at end of file
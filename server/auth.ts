@@ -1,6 +1,6 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { type Express } from "express";
+import { type Express, type RequestHandler } from "express";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
@@ -34,13 +34,16 @@ declare global {
       id: number;
       username: string;
       tokenBalance: number;
+      role: "user" | "arbiter" | "admin";
       created_at: Date;
       updated_at: Date;
     }
   }
 }
 
-export function setupAuth(app: Express) {
+// Returns the session middleware so WebSocket upgrades can be tied to the
+// logged-in user as well
+export function setupAuth(app: Express): RequestHandler {
   const MemoryStore = createMemoryStore(session);
   const sessionSettings: session.SessionOptions = {
     secret: process.env.REPL_ID || "distributed-task-platform",
@@ -59,7 +62,8 @@ export function setupAuth(app: Express) {
     sessionSettings.cookie!.secure = true;
   }
 
-  app.use(session(sessionSettings));
+  const sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -85,6 +89,7 @@ export function setupAuth(app: Express) {
           id: user.id,
           username: user.username,
           tokenBalance: user.token_balance,
+          role: user.role,
           created_at: user.created_at,
           updated_at: user.updated_at
         });
@@ -114,6 +119,7 @@ export function setupAuth(app: Express) {
         id: user.id,
         username: user.username,
         tokenBalance: user.token_balance,
+        role: user.role,
         created_at: user.created_at,
         updated_at: user.updated_at
       });
@@ -155,6 +161,7 @@ export function setupAuth(app: Express) {
         id: newUser.id,
         username: newUser.username,
         tokenBalance: newUser.token_balance,
+        role: newUser.role,
         created_at: newUser.created_at,
         updated_at: newUser.updated_at
       }, (err) => {
@@ -165,6 +172,7 @@ export function setupAuth(app: Express) {
           id: newUser.id,
           username: newUser.username,
           tokenBalance: newUser.token_balance,
+          role: newUser.role,
           created_at: newUser.created_at,
           updated_at: newUser.updated_at
         });
@@ -206,4 +214,6 @@ export function setupAuth(app: Express) {
     }
     res.status(401).send("Not authenticated");
   });
+
+  return sessionMiddleware;
 }
\ No newline at end of file
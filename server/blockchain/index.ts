@@ -1,24 +1,94 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Transaction, Token, TransactionResult } from '../../client/src/lib/blockchain/types';
+import type { Transaction, Token, TokenHistory, TransactionResult } from '../../client/src/lib/blockchain/types';
 import { db } from "@db";
-import { tokens, users, tokenTransactions } from "@db/schema";
-import { sql, eq, and, inArray } from 'drizzle-orm';
+import {
+  tokens,
+  users,
+  tokenTransactions,
+  blocks,
+  mempoolTransactions,
+  tokenTransfers,
+  tokenEvents,
+  tasks,
+  type MempoolTransaction,
+  type TokenTransaction
+} from "@db/schema";
+import { sql, eq, and, asc, desc, gt, inArray, isNull, notInArray } from 'drizzle-orm';
 import { balanceTracker } from '../services/balanceTracker';
+import { broadcastToUser } from '../ws';
+import {
+  GENESIS_HASH,
+  MAX_BLOCK_TRANSACTIONS,
+  MEMPOOL_BLOCK_SIZE,
+  MEMPOOL_ENABLED,
+  computeMerkleRoot,
+  hashBlock,
+  meetsDifficulty,
+  mineBlock,
+  type ChainVerification,
+  type LedgerTransaction
+} from './ledger';
+
+// A db.transaction handle, for ledger writes that must commit together with
+// the caller's own
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Recorded with a purchase of tokens
+export interface PaymentDetails {
+  paymentId: string;
+  price?: number;
+  pricePerToken: number;
+  bonusTokens: number;
+}
+
+// Recorded with a peer-to-peer transfer
+export interface TransferDetails {
+  memo?: string;
+  transferId?: number;
+}
+
+export type TransactionDetails = PaymentDetails | TransferDetails;
+
+// Key for the advisory lock that keeps block sealing to one writer
+const SEAL_LOCK_ID = 724101;
+const VERIFY_PAGE_SIZE = 100;
+
+const ledgerColumns = {
+  id: tokenTransactions.id,
+  userId: tokenTransactions.userId,
+  type: tokenTransactions.type,
+  status: tokenTransactions.status,
+  paymentId: tokenTransactions.paymentId,
+  fromAddress: tokenTransactions.fromAddress,
+  toAddress: tokenTransactions.toAddress,
+  tokenIds: tokenTransactions.tokenIds,
+  metadata: tokenTransactions.metadata,
+  timestamp: tokenTransactions.timestamp,
+};
 
 class Blockchain {
   private chain: Transaction[];
-  private pendingTransactions: Transaction[];
+  // Height of the newest block, -1 before the first is sealed
+  private tipHeight: number;
+  private isProducing: boolean;
 
   constructor() {
-    console.log('[Blockchain] Initializing blockchain service');
+    console.log('[Blockchain] Initializing blockchain service', { mempool: MEMPOOL_ENABLED });
     this.chain = [];
-    this.pendingTransactions = [];
+    this.tipHeight = -1;
+    this.isProducing = false;
     this.initializeChain();
   }
 
   private async initializeChain() {
     try {
       console.log('[Blockchain] Starting chain initialization');
+
+      // Transactions written before blocks existed, or whose sealing failed,
+      // are sealed first
+      await this.sealPendingTransactions();
+      await this.backfillTokenEvents();
+
       const existingTransactions = await db
         .select({
           id: tokenTransactions.id,
@@ -28,10 +98,20 @@ class Blockchain {
           type: tokenTransactions.type,
           timestamp: tokenTransactions.timestamp,
           metadata: tokenTransactions.metadata,
+          blockHash: blocks.hash,
+          blockHeight: blocks.height,
         })
         .from(tokenTransactions)
+        .leftJoin(blocks, eq(tokenTransactions.blockId, blocks.id))
         .orderBy(tokenTransactions.timestamp);
 
+      const [tip] = await db
+        .select({ height: blocks.height })
+        .from(blocks)
+        .orderBy(desc(blocks.height))
+        .limit(1);
+      this.tipHeight = Math.max(this.tipHeight, tip?.height ?? -1);
+
       this.chain = existingTransactions.map(tx => ({
         id: tx.id.toString(),
         from: tx.fromAddress || 'SYSTEM',
@@ -40,6 +120,8 @@ class Blockchain {
         timestamp: tx.timestamp.getTime(),
         type: tx.type as 'transfer' | 'mint',
         tokenIds: tx.tokenIds || [],
+        blockHash: tx.blockHash ?? undefined,
+        blockHeight: tx.blockHeight ?? undefined,
         metadata: tx.metadata
       }));
 
@@ -72,11 +154,68 @@ class Blockchain {
     return user;
   }
 
-  async releaseEscrow(escrowTransactionId: string, toAddress: string): Promise<TransactionResult> {
-    console.log('[Blockchain] Releasing escrow:', { escrowTransactionId, toAddress });
+  // Releases escrowed tokens to the worker. Without a tokenCount every token
+  // still held in escrow is released. The task and work unit a payout is for
+  // are recorded on the release transaction.
+  //
+  // Given a transaction handle, the release commits or rolls back with the
+  // caller's other writes; the caller passes the result to
+  // finalizeSettlements once it has committed.
+  async releaseEscrow(
+    escrowTransactionId: string,
+    toAddress: string,
+    tokenCount?: number,
+    reference?: { taskId?: number; unitId?: number },
+    tx?: DbTransaction
+  ): Promise<TransactionResult> {
+    console.log('[Blockchain] Releasing escrow:', { escrowTransactionId, toAddress, tokenCount, ...reference });
+    return this.settleEscrow(escrowTransactionId, toAddress, 'release', tokenCount, reference, tx);
+  }
+
+  // Returns escrowed tokens to the task creator, e.g. when a task is
+  // cancelled. A transaction handle works as for releaseEscrow.
+  async refundEscrow(
+    escrowTransactionId: string,
+    toAddress: string,
+    tokenCount?: number,
+    tx?: DbTransaction
+  ): Promise<TransactionResult> {
+    console.log('[Blockchain] Refunding escrow:', { escrowTransactionId, toAddress, tokenCount });
+    return this.settleEscrow(escrowTransactionId, toAddress, 'refund', tokenCount, undefined, tx);
+  }
+
+  async getRemainingEscrow(escrowTransactionId: string, tx: DbTransaction | typeof db = db): Promise<number> {
+    const escrowTx = await tx
+      .select({ tokenIds: tokenTransactions.tokenIds })
+      .from(tokenTransactions)
+      .where(eq(tokenTransactions.id, parseInt(escrowTransactionId)))
+      .limit(1)
+      .then(rows => rows[0]);
+
+    if (!escrowTx?.tokenIds?.length) return 0;
 
+    const result = await tx
+      .select({ count: sql<number>`count(*)` })
+      .from(tokens)
+      .where(and(
+        inArray(tokens.id, escrowTx.tokenIds),
+        eq(tokens.status, 'escrow'),
+        eq(tokens.owner, 'ESCROW')
+      ));
+
+    return Number(result[0]?.count || 0);
+  }
+
+  private async settleEscrow(
+    escrowTransactionId: string,
+    toAddress: string,
+    type: 'release' | 'refund',
+    tokenCount?: number,
+    reference?: { taskId?: number; unitId?: number },
+    outerTx?: DbTransaction
+  ): Promise<TransactionResult> {
     try {
-      return await db.transaction(async (tx) => {
+      const settle = async (tx: DbTransaction): Promise<Transaction> => {
         // Get the escrow transaction
         const escrowTx = await tx
           .select()
@@ -102,11 +241,11 @@ class Blockchain {
             type: escrowTx.type,
             expected: 'escrow'
           });
-          throw new Error('Invalid transaction type for escrow release');
+          throw new Error(`Invalid transaction type for escrow ${type}`);
         }
 
-        const tokenIds = escrowTx.tokenIds || [];
-        if (!tokenIds.length) {
+        const escrowTokenIds = escrowTx.tokenIds || [];
+        if (!escrowTokenIds.length) {
           console.error('[Blockchain] No tokens in escrow');
           throw new Error('No tokens found in escrow');
         }
@@ -118,36 +257,44 @@ class Blockchain {
           username: recipientUser.username
         });
 
-        console.log('[Blockchain] Found escrow tokens:', {
-          count: tokenIds.length,
-          tokenIds
-        });
-
-        // Verify tokens are in escrow
+        // Earlier partial settlements may already have moved some of the tokens.
+        // The rows are locked so concurrent partial settlements of the same
+        // escrow pick different tokens.
         const escrowedTokens = await tx
-          .select()
+          .select({ id: tokens.id })
           .from(tokens)
           .where(
             and(
-              inArray(tokens.id, tokenIds),
+              inArray(tokens.id, escrowTokenIds),
               eq(tokens.status, 'escrow'),
               eq(tokens.owner, 'ESCROW')
             )
-          );
+          )
+          .orderBy(tokens.id)
+          .for('update');
 
-        console.log('[Blockchain] Verified escrowed tokens:', {
-          expected: tokenIds.length,
-          found: escrowedTokens.length
+        console.log('[Blockchain] Found escrow tokens:', {
+          escrowed: escrowTokenIds.length,
+          remaining: escrowedTokens.length,
+          requested: tokenCount ?? escrowedTokens.length
         });
 
-        if (escrowedTokens.length !== tokenIds.length) {
-          console.error('[Blockchain] Not all tokens are in escrow:', {
-            expected: tokenIds.length,
-            inEscrow: escrowedTokens.length
+        if (!escrowedTokens.length) {
+          throw new Error('No tokens remaining in escrow');
+        }
+
+        if (tokenCount !== undefined && (tokenCount < 1 || tokenCount > escrowedTokens.length)) {
+          console.error('[Blockchain] Invalid escrow token count:', {
+            requested: tokenCount,
+            remaining: escrowedTokens.length
           });
-          throw new Error('Some tokens are not in escrow state');
+          throw new Error(`Cannot ${type} ${tokenCount} tokens: ${escrowedTokens.length} remaining in escrow`);
         }
 
+        const tokenIds = escrowedTokens
+          .slice(0, tokenCount ?? escrowedTokens.length)
+          .map(token => token.id);
+
         // Update token ownership and status - no bonus tokens on release
         const updateResult = await tx
           .update(tokens)
@@ -170,12 +317,12 @@ class Blockchain {
           tokens: updateResult.map(t => ({ id: t.id, owner: t.owner, status: t.status }))
         });
 
-        // Create release transaction record - no bonus tokens in metadata
+        // Create release/refund transaction record - no bonus tokens in metadata
         const [releaseTx] = await tx
           .insert(tokenTransactions)
           .values({
             userId: recipientUser.id,
-            type: 'release',
+            type,
             status: 'completed',
             fromAddress: 'ESCROW',
             toAddress: recipientUser.username,
@@ -183,12 +330,15 @@ class Blockchain {
             metadata: {
               escrowTransactionId,
               releaseTimestamp: new Date().toISOString(),
-              originalEscrowId: escrowTx.id
+              originalEscrowId: escrowTx.id,
+              ...reference
             },
             timestamp: new Date()
           })
           .returning();
 
+        await this.recordTokenEvents(tx, releaseTx);
+
         // Add to chain - using exact token count
         const chainTransaction: Transaction = {
           id: releaseTx.id.toString(),
@@ -196,48 +346,110 @@ class Blockchain {
           to: recipientUser.username,
           amount: tokenIds.length,
           timestamp: Date.now(),
-          type: 'release',
+          type,
           tokenIds,
           metadata: {
             escrowTransactionId,
             releaseTimestamp: new Date().toISOString(),
-            originalEscrowId: escrowTx.id
+            originalEscrowId: escrowTx.id,
+            ...reference
           }
         };
 
-        this.chain.push(chainTransaction);
-
-        // Update balances
-        await balanceTracker.invalidateCache(recipientUser.username);
-        await balanceTracker.forceSyncBalance(recipientUser.username);
-
-        console.log('[Blockchain] Escrow released successfully:', {
+        console.log('[Blockchain] Escrow settled successfully:', {
+          type,
           transactionId: releaseTx.id,
           tokenCount: tokenIds.length,
           recipient: recipientUser.username,
           timestamp: new Date().toISOString()
         });
 
-        return {
-          id: releaseTx.id.toString(),
-          tokenIds,
-          blockHash: 'immediate'
-        };
-      });
+        return chainTransaction;
+      };
+
+      if (outerTx) {
+        const settled = await settle(outerTx);
+        return { id: settled.id, tokenIds: settled.tokenIds, blockHash: 'pending' };
+      }
+
+      const settled = await db.transaction(settle);
+
+      this.chain.push(settled);
+
+      // Update balances
+      await balanceTracker.invalidateCache(settled.to);
+      await balanceTracker.forceSyncBalance(settled.to);
+
+      return await this.seal(settled);
     } catch (error) {
-      console.error('[Blockchain] Escrow release failed:', error);
+      console.error(`[Blockchain] Escrow ${type} failed:`, error);
       throw error;
     }
   }
+
+  // Adds escrow settlements and transfers made inside a caller's transaction
+  // to the chain, syncs the balances they touched and seals them. Call it
+  // after the caller has committed; settlements that were rolled back are
+  // skipped. Transfers queued in the mempool are left to the block producer.
+  async finalizeSettlements(settlements: TransactionResult[]): Promise<void> {
+    if (settlements.some(settlement => settlement.queued)) {
+      void this.produceIfFull();
+    }
+
+    const ids = settlements.filter(settlement => !settlement.queued).map(settlement => parseInt(settlement.id));
+    if (!ids.length) return;
+
+    const committed = await db
+      .select(ledgerColumns)
+      .from(tokenTransactions)
+      .where(inArray(tokenTransactions.id, ids))
+      .orderBy(asc(tokenTransactions.id));
+
+    committed.forEach(transaction => {
+      if (this.chain.some(existing => existing.id === transaction.id.toString())) return;
+      this.chain.push({
+        id: transaction.id.toString(),
+        from: transaction.fromAddress || 'ESCROW',
+        to: transaction.toAddress || '',
+        amount: transaction.tokenIds?.length || 0,
+        timestamp: transaction.timestamp.getTime(),
+        type: transaction.type as Transaction['type'],
+        tokenIds: transaction.tokenIds || [],
+        metadata: transaction.metadata ?? undefined
+      });
+    });
+
+    const holders = Array.from(new Set(
+      committed
+        .flatMap(transaction => [transaction.fromAddress, transaction.toAddress])
+        .filter(address => address && address !== 'ESCROW')
+    )) as string[];
+    for (const holder of holders) {
+      try {
+        await balanceTracker.invalidateCache(holder);
+        await balanceTracker.forceSyncBalance(holder);
+      } catch (error) {
+        console.error('[Blockchain] Balance sync after settlement failed:', { holder, error });
+      }
+    }
+
+    await this.sealPendingTransactions();
+  }
+
+  // details are recorded in the transaction's metadata, e.g. a transfer's memo.
+  // Given outerTx, the transfer commits with the caller's transaction and the
+  // caller passes the result to finalizeSettlements once it has committed.
   async createTransaction(
     from: string,
     to: string,
-    amount: number
+    amount: number,
+    details?: TransactionDetails,
+    outerTx?: DbTransaction
   ): Promise<TransactionResult> {
-    console.log('[Blockchain] Creating new transaction:', { from, to, amount });
+    console.log('[Blockchain] Creating new transaction:', { from, to, amount, ...details });
 
     try {
-      return await db.transaction(async (tx) => {
+      const create = async (tx: DbTransaction) => {
         // For system transactions (minting), throw error as it's not allowed here
         // Allow transactions from SYSTEM and to ESCROW
         if (from === 'SYSTEM' && to !== 'ESCROW') {
@@ -251,6 +463,18 @@ class Blockchain {
         // Get sender's user ID
         const fromUser = await this.getUserById(tx, from);
 
+        // Serializes the sender's spends so two of them can't pick, or
+        // reserve, the same tokens
+        await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(eq(users.id, fromUser.id))
+          .for('update');
+
+        // Tokens reserved by the sender's transfers still in the mempool
+        // can't be spent again
+        const reserved = await this.getReservedTokenIds(tx, from);
+
         // Get tokens owned by sender
         const senderTokens = await tx
           .select({
@@ -260,17 +484,47 @@ class Blockchain {
           .where(
             and(
               eq(tokens.owner, from),
-              eq(tokens.status, 'active')
+              eq(tokens.status, 'active'),
+              reserved.length ? notInArray(tokens.id, reserved) : undefined
             )
           )
           .limit(amount);
 
         if (senderTokens.length < amount) {
-          throw new Error(`Insufficient tokens: have ${senderTokens.length}, need ${amount}`);
+          throw new Error(
+            `Insufficient tokens: have ${senderTokens.length}, need ${amount}` +
+            (reserved.length ? ` (${reserved.length} reserved by pending transfers)` : '')
+          );
         }
 
         const tokenIds = senderTokens.map(token => token.id);
 
+        if (MEMPOOL_ENABLED && to !== 'ESCROW') {
+          const [entry] = await tx
+            .insert(mempoolTransactions)
+            .values({
+              senderId: fromUser.id,
+              recipientId: toUser.id,
+              fromAddress: from,
+              toAddress: to,
+              tokenIds,
+              metadata: {
+                baseTokens: amount,
+                bonusTokens: 0,
+                timestamp: new Date().toISOString(),
+                ...details
+              }
+            })
+            .returning();
+
+          console.log('[Blockchain] Transfer queued in mempool:', {
+            entryId: entry.id,
+            tokenCount: tokenIds.length
+          });
+
+          return { queued: true as const, transaction: this.toPendingTransaction(entry) };
+        }
+
         console.log('[Blockchain] Transferring tokens:', {
           from,
           to,
@@ -313,12 +567,15 @@ class Blockchain {
             metadata: {
               baseTokens: amount,
               bonusTokens: 0,
-              timestamp: new Date().toISOString()
+              timestamp: new Date().toISOString(),
+              ...details
             },
             timestamp: new Date()
           })
           .returning();
 
+        await this.recordTokenEvents(tx, transaction);
+
         // Add to chain
         const chainTransaction: Transaction = {
           id: transaction.id.toString(),
@@ -327,19 +584,10 @@ class Blockchain {
           amount: tokenIds.length,
           timestamp: Date.now(),
           type: to === 'ESCROW' ? 'escrow' : 'transfer',
-          tokenIds
+          tokenIds,
+          metadata: details
         };
 
-        this.chain.push(chainTransaction);
-
-        // Invalidate caches
-        await balanceTracker.invalidateCache(to);
-        await balanceTracker.invalidateCache(from);
-
-        // Force sync balances
-        await balanceTracker.forceSyncBalance(to);
-        await balanceTracker.forceSyncBalance(from);
-
         console.log('[Blockchain] Transaction completed:', {
           transactionId: transaction.id,
           tokenCount: tokenIds.length,
@@ -347,24 +595,485 @@ class Blockchain {
           status: transaction.status
         });
 
+        return { queued: false as const, transaction: chainTransaction };
+      };
+
+      if (outerTx) {
+        const created = await create(outerTx);
         return {
-          id: transaction.id.toString(),
-          tokenIds,
-          blockHash: 'immediate'
+          id: created.transaction.id,
+          tokenIds: created.transaction.tokenIds,
+          blockHash: 'pending',
+          ...(created.queued ? { queued: true } : {})
         };
-      });
+      }
+
+      const created = await db.transaction(create);
+
+      if (created.queued) {
+        void this.produceIfFull();
+        return {
+          id: created.transaction.id,
+          tokenIds: created.transaction.tokenIds,
+          blockHash: 'pending',
+          queued: true
+        };
+      }
+
+      this.chain.push(created.transaction);
+
+      // Invalidate caches
+      await balanceTracker.invalidateCache(to);
+      await balanceTracker.invalidateCache(from);
+
+      // Force sync balances
+      await balanceTracker.forceSyncBalance(to);
+      await balanceTracker.forceSyncBalance(from);
+
+      return await this.seal(created.transaction);
     } catch (error) {
       console.error('[Blockchain] Transaction failed:', error);
       throw error;
     }
   }
 
+  // Seals a committed transaction (and anything else waiting) into a block.
+  // The transaction stands even if sealing fails; it is picked up by the
+  // next seal and reported as pending until then.
+  private async seal(transaction: Transaction): Promise<TransactionResult> {
+    await this.sealPendingTransactions();
+
+    const [sealed] = await db
+      .select({ hash: blocks.hash })
+      .from(tokenTransactions)
+      .innerJoin(blocks, eq(tokenTransactions.blockId, blocks.id))
+      .where(eq(tokenTransactions.id, parseInt(transaction.id)))
+      .limit(1);
+
+    return {
+      id: transaction.id,
+      tokenIds: transaction.tokenIds,
+      blockHash: sealed?.hash ?? 'pending'
+    };
+  }
+
+  // Seals every unsealed transaction, oldest first, into blocks of up to
+  // MAX_BLOCK_TRANSACTIONS. Returns the number of blocks sealed.
+  async sealPendingTransactions(): Promise<number> {
+    let sealed = 0;
+
+    try {
+      while (await this.sealBlock()) {
+        sealed++;
+      }
+    } catch (error) {
+      console.error('[Blockchain] Block sealing failed:', error);
+    }
+
+    return sealed;
+  }
+
+  private async sealBlock(): Promise<boolean> {
+    const sealed = await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${SEAL_LOCK_ID})`);
+
+      const pending: LedgerTransaction[] = await tx
+        .select(ledgerColumns)
+        .from(tokenTransactions)
+        .where(isNull(tokenTransactions.blockId))
+        .orderBy(asc(tokenTransactions.id))
+        .limit(MAX_BLOCK_TRANSACTIONS);
+
+      if (!pending.length) return null;
+
+      const [tip] = await tx
+        .select({ height: blocks.height, hash: blocks.hash })
+        .from(blocks)
+        .orderBy(desc(blocks.height))
+        .limit(1);
+
+      const header = mineBlock({
+        height: tip ? tip.height + 1 : 0,
+        previousHash: tip?.hash ?? GENESIS_HASH,
+        merkleRoot: computeMerkleRoot(pending),
+        timestamp: Date.now()
+      });
+
+      const [block] = await tx
+        .insert(blocks)
+        .values({
+          height: header.height,
+          hash: header.hash,
+          previousHash: header.previousHash,
+          merkleRoot: header.merkleRoot,
+          transactionCount: pending.length,
+          nonce: header.nonce,
+          difficulty: header.difficulty,
+          timestamp: new Date(header.timestamp)
+        })
+        .returning();
+
+      await tx
+        .update(tokenTransactions)
+        .set({ blockId: block.id })
+        .where(inArray(tokenTransactions.id, pending.map(transaction => transaction.id)));
+
+      console.log('[Blockchain] Block sealed:', {
+        height: block.height,
+        hash: block.hash,
+        transactions: pending.length
+      });
+
+      return { block, transactionIds: pending.map(transaction => transaction.id.toString()) };
+    });
+
+    if (!sealed) return false;
+
+    this.tipHeight = Math.max(this.tipHeight, sealed.block.height);
+    this.chain.forEach(transaction => {
+      if (sealed.transactionIds.includes(transaction.id)) {
+        transaction.blockHash = sealed.block.hash;
+        transaction.blockHeight = sealed.block.height;
+      }
+    });
+
+    return true;
+  }
+
+  private async getReservedTokenIds(tx: any, address: string): Promise<string[]> {
+    const entries: Array<{ tokenIds: string[] }> = await tx
+      .select({ tokenIds: mempoolTransactions.tokenIds })
+      .from(mempoolTransactions)
+      .where(and(
+        eq(mempoolTransactions.status, 'pending'),
+        eq(mempoolTransactions.fromAddress, address)
+      ));
+
+    return entries.flatMap(entry => entry.tokenIds);
+  }
+
+  // Appends a transaction to the history of every token it moved
+  private async recordTokenEvents(tx: any, transaction: TokenTransaction): Promise<void> {
+    const tokenIds = transaction.tokenIds ?? [];
+    if (!tokenIds.length) return;
+
+    const escrowTransactionId = transaction.type === 'escrow'
+      ? transaction.id
+      : transaction.metadata?.originalEscrowId ?? null;
+
+    await tx.insert(tokenEvents).values(tokenIds.map(tokenId => ({
+      tokenId,
+      type: transaction.type,
+      fromAddress: transaction.fromAddress,
+      toAddress: transaction.toAddress,
+      transactionId: transaction.id,
+      escrowTransactionId,
+      unitId: transaction.metadata?.unitId ?? null,
+      created_at: transaction.timestamp
+    })));
+  }
+
+  // Transactions written before token events existed get their events from
+  // the ledger. Safe to run repeatedly.
+  private async backfillTokenEvents(): Promise<void> {
+    try {
+      const result = await db.execute(sql`
+        insert into ${tokenEvents}
+          (token_id, type, from_address, to_address, transaction_id, escrow_transaction_id, unit_id, created_at)
+        select
+          moved.token_id,
+          t.type,
+          t.from_address,
+          t.to_address,
+          t.id,
+          case when t.type = 'escrow' then t.id else (t.metadata->>'originalEscrowId')::int end,
+          (t.metadata->>'unitId')::int,
+          t.timestamp
+        from ${tokenTransactions} t
+        cross join lateral unnest(t.token_ids) as moved(token_id)
+        where not exists (
+          select 1 from ${tokenEvents} e where e.transaction_id = t.id
+        )
+        order by t.id
+      `);
+
+      if (result.rowCount) {
+        console.log('[Blockchain] Backfilled token events:', { events: result.rowCount });
+      }
+    } catch (error) {
+      console.error('[Blockchain] Token event backfill failed:', error);
+    }
+  }
+
+  private toPendingTransaction(entry: MempoolTransaction): Transaction {
+    return {
+      id: entry.id.toString(),
+      from: entry.fromAddress,
+      to: entry.toAddress,
+      amount: entry.tokenIds.length,
+      timestamp: entry.created_at.getTime(),
+      type: 'transfer',
+      tokenIds: entry.tokenIds,
+      status: 'pending',
+      confirmations: 0,
+      metadata: entry.metadata
+    };
+  }
+
+  private async produceIfFull(): Promise<void> {
+    try {
+      const [{ waiting }] = await db
+        .select({ waiting: sql<number>`count(*)` })
+        .from(mempoolTransactions)
+        .where(eq(mempoolTransactions.status, 'pending'));
+
+      if (Number(waiting) >= MEMPOOL_BLOCK_SIZE) {
+        await this.produceBlock();
+      }
+    } catch (error) {
+      console.error('[Blockchain] Mempool size check failed:', error);
+    }
+  }
+
+  // Confirms waiting transfers oldest first and seals them into a block. An
+  // entry whose tokens left the sender since it was queued is rejected.
+  // Returns the number of transfers confirmed.
+  async produceBlock(): Promise<number> {
+    if (this.isProducing) return 0;
+    this.isProducing = true;
+
+    try {
+      const { confirmed, rejected } = await db.transaction(async (tx) => {
+        await tx.execute(sql`select pg_advisory_xact_lock(${SEAL_LOCK_ID})`);
+
+        const entries = await tx
+          .select()
+          .from(mempoolTransactions)
+          .where(eq(mempoolTransactions.status, 'pending'))
+          .orderBy(asc(mempoolTransactions.id))
+          .limit(MAX_BLOCK_TRANSACTIONS);
+
+        const confirmed: Array<{ entry: MempoolTransaction; transaction: Transaction }> = [];
+        const rejected: Array<{ entry: MempoolTransaction; reason: string }> = [];
+
+        for (const entry of entries) {
+          const held = await tx
+            .select({ id: tokens.id })
+            .from(tokens)
+            .where(and(
+              inArray(tokens.id, entry.tokenIds),
+              eq(tokens.owner, entry.fromAddress),
+              eq(tokens.status, 'active')
+            ))
+            .for('update');
+
+          if (held.length !== entry.tokenIds.length) {
+            const reason = `${entry.tokenIds.length - held.length} of ${entry.tokenIds.length} tokens are no longer held by the sender`;
+            await tx
+              .update(mempoolTransactions)
+              .set({ status: 'rejected', rejectionReason: reason, processedAt: new Date() })
+              .where(eq(mempoolTransactions.id, entry.id));
+            if (entry.metadata.transferId) {
+              await tx
+                .update(tokenTransfers)
+                .set({ status: 'rejected' })
+                .where(eq(tokenTransfers.id, entry.metadata.transferId));
+            }
+            rejected.push({ entry, reason });
+            continue;
+          }
+
+          await tx
+            .update(tokens)
+            .set({
+              owner: entry.toAddress,
+              status: 'active',
+              updated_at: new Date()
+            })
+            .where(inArray(tokens.id, entry.tokenIds));
+
+          const [transaction] = await tx
+            .insert(tokenTransactions)
+            .values({
+              userId: entry.recipientId,
+              type: 'transfer',
+              status: 'completed',
+              fromAddress: entry.fromAddress,
+              toAddress: entry.toAddress,
+              tokenIds: entry.tokenIds,
+              metadata: entry.metadata,
+              timestamp: new Date()
+            })
+            .returning();
+
+          await this.recordTokenEvents(tx, transaction);
+
+          await tx
+            .update(mempoolTransactions)
+            .set({ status: 'confirmed', transactionId: transaction.id, processedAt: new Date() })
+            .where(eq(mempoolTransactions.id, entry.id));
+          if (entry.metadata.transferId) {
+            await tx
+              .update(tokenTransfers)
+              .set({ status: 'completed', transactionId: transaction.id, completedAt: new Date() })
+              .where(eq(tokenTransfers.id, entry.metadata.transferId));
+          }
+
+          confirmed.push({
+            entry,
+            transaction: {
+              id: transaction.id.toString(),
+              from: entry.fromAddress,
+              to: entry.toAddress,
+              amount: entry.tokenIds.length,
+              timestamp: transaction.timestamp.getTime(),
+              type: 'transfer',
+              tokenIds: entry.tokenIds,
+              metadata: entry.metadata
+            }
+          });
+        }
+
+        return { confirmed, rejected };
+      });
+
+      if (!confirmed.length && !rejected.length) return 0;
+
+      confirmed.forEach(({ transaction }) => this.chain.push(transaction));
+
+      const addresses = Array.from(new Set(confirmed.flatMap(({ entry }) => [entry.fromAddress, entry.toAddress])));
+      for (const address of addresses) {
+        await balanceTracker.invalidateCache(address);
+        await balanceTracker.forceSyncBalance(address);
+      }
+
+      await this.sealPendingTransactions();
+
+      confirmed.forEach(({ entry }) => {
+        broadcastToUser(entry.recipientId.toString(), 'tokens_received', {
+          transferId: entry.metadata.transferId,
+          from: entry.fromAddress,
+          amount: entry.tokenIds.length,
+          memo: entry.metadata.memo ?? null,
+          timestamp: Date.now()
+        });
+      });
+      rejected.forEach(({ entry, reason }) => {
+        broadcastToUser(entry.senderId.toString(), 'transfer_rejected', {
+          transferId: entry.metadata.transferId,
+          to: entry.toAddress,
+          amount: entry.tokenIds.length,
+          reason,
+          timestamp: Date.now()
+        });
+      });
+
+      console.log('[Blockchain] Block produced from mempool:', {
+        confirmed: confirmed.length,
+        rejected: rejected.length,
+        tipHeight: this.tipHeight
+      });
+
+      return confirmed.length;
+    } catch (error) {
+      console.error('[Blockchain] Block production failed:', error);
+      return 0;
+    } finally {
+      this.isProducing = false;
+    }
+  }
+
+  // Re-walks the chain from the first block, recomputing every Merkle root
+  // and hash, and stops at the first block that doesn't check out
+  async verifyChain(): Promise<ChainVerification> {
+    let previousHash = GENESIS_HASH;
+    let expectedHeight = 0;
+    let checkedTransactions = 0;
+
+    const [{ unsealed }] = await db
+      .select({ unsealed: sql<number>`count(*)` })
+      .from(tokenTransactions)
+      .where(isNull(tokenTransactions.blockId));
+
+    const result = (brokenAt?: ChainVerification['brokenAt']): ChainVerification => ({
+      valid: !brokenAt,
+      blocks: expectedHeight,
+      transactions: checkedTransactions,
+      unsealedTransactions: Number(unsealed),
+      tipHash: expectedHeight ? previousHash : null,
+      brokenAt
+    });
+
+    while (true) {
+      const page = await db
+        .select()
+        .from(blocks)
+        .where(gt(blocks.height, expectedHeight - 1))
+        .orderBy(asc(blocks.height))
+        .limit(VERIFY_PAGE_SIZE);
+
+      if (!page.length) return result();
+
+      const sealed = await db
+        .select({ ...ledgerColumns, blockId: tokenTransactions.blockId })
+        .from(tokenTransactions)
+        .where(inArray(tokenTransactions.blockId, page.map(block => block.id)))
+        .orderBy(asc(tokenTransactions.id));
+
+      for (const block of page) {
+        const broken = (reason: string) => result({ height: block.height, hash: block.hash, reason });
+
+        if (block.height !== expectedHeight) {
+          return broken(`Expected block at height ${expectedHeight}`);
+        }
+        if (block.previousHash !== previousHash) {
+          return broken('previousHash does not match the preceding block');
+        }
+
+        const transactions = sealed.filter(transaction => transaction.blockId === block.id);
+        if (transactions.length !== block.transactionCount) {
+          return broken(`Block holds ${transactions.length} transactions, ${block.transactionCount} were sealed`);
+        }
+        if (computeMerkleRoot(transactions) !== block.merkleRoot) {
+          return broken('Merkle root does not match the block\'s transactions');
+        }
+
+        const hash = hashBlock({
+          height: block.height,
+          previousHash: block.previousHash,
+          merkleRoot: block.merkleRoot,
+          timestamp: block.timestamp.getTime(),
+          nonce: block.nonce,
+          difficulty: block.difficulty
+        });
+        if (hash !== block.hash || !meetsDifficulty(hash, block.difficulty)) {
+          return broken('Block hash does not match its contents');
+        }
+
+        previousHash = block.hash;
+        expectedHeight++;
+        checkedTransactions += transactions.length;
+      }
+    }
+  }
+
   getAllTransactions(): Transaction[] {
-    return [...this.chain];
+    return this.chain.map(transaction => ({
+      ...transaction,
+      status: transaction.blockHash ? 'confirmed' : 'pending',
+      confirmations: transaction.blockHeight === undefined ? 0 : this.tipHeight - transaction.blockHeight + 1
+    }));
   }
 
-  getPendingTransactions(): Transaction[] {
-    return [...this.pendingTransactions];
+  // Transfers waiting in the mempool, oldest first
+  async getPendingTransactions(): Promise<Transaction[]> {
+    const entries = await db
+      .select()
+      .from(mempoolTransactions)
+      .where(eq(mempoolTransactions.status, 'pending'))
+      .orderBy(asc(mempoolTransactions.id));
+
+    return entries.map(entry => this.toPendingTransaction(entry));
   }
 
   async getBalance(username: string): Promise<number> {
@@ -408,13 +1117,35 @@ class Blockchain {
           eq(tokens.status, 'active')
         ));
 
+      const events = userTokens.length
+        ? await db
+          .select()
+          .from(tokenEvents)
+          .where(inArray(tokenEvents.tokenId, userTokens.map(token => token.id)))
+          .orderBy(asc(tokenEvents.id))
+        : [];
+
+      const history = new Map<string, Token['metadata']['previousTransfers']>();
+      events.forEach(event => {
+        const transfers = history.get(event.tokenId) ?? [];
+        transfers.push({
+          id: event.id.toString(),
+          from: event.fromAddress || 'SYSTEM',
+          to: event.toAddress || '',
+          timestamp: event.created_at.getTime(),
+          transactionId: event.transactionId.toString(),
+          type: event.type
+        });
+        history.set(event.tokenId, transfers);
+      });
+
       return userTokens.map(token => ({
         id: token.id,
         status: token.status,
         metadata: {
           mintedInBlock: token.mintedInBlock,
           createdAt: token.createdAt,
-          previousTransfers: []
+          previousTransfers: history.get(token.id) ?? []
         },
         creator: token.creator,
         owner: token.owner
@@ -424,6 +1155,60 @@ class Blockchain {
       throw error;
     }
   }
+
+  // The token's full ownership chain, oldest first, with the block each
+  // step was sealed in and the task it paid for
+  async getTokenHistory(tokenId: string): Promise<TokenHistory | null> {
+    const [token] = await db
+      .select()
+      .from(tokens)
+      .where(eq(tokens.id, tokenId))
+      .limit(1);
+
+    if (!token) return null;
+
+    const events = await db
+      .select({
+        id: tokenEvents.id,
+        type: tokenEvents.type,
+        from: tokenEvents.fromAddress,
+        to: tokenEvents.toAddress,
+        transactionId: tokenEvents.transactionId,
+        unitId: tokenEvents.unitId,
+        created_at: tokenEvents.created_at,
+        blockHash: blocks.hash,
+        taskId: tasks.id,
+        taskTitle: tasks.title,
+      })
+      .from(tokenEvents)
+      .leftJoin(tokenTransactions, eq(tokenEvents.transactionId, tokenTransactions.id))
+      .leftJoin(blocks, eq(tokenTransactions.blockId, blocks.id))
+      .leftJoin(tasks, eq(tasks.escrowTransactionId, sql`${tokenEvents.escrowTransactionId}::text`))
+      .where(eq(tokenEvents.tokenId, tokenId))
+      .orderBy(asc(tokenEvents.id));
+
+    return {
+      token: {
+        id: token.id,
+        creator: token.creator,
+        owner: token.owner,
+        status: token.status,
+        mintedInBlock: token.mintedInBlock,
+        createdAt: token.created_at.getTime()
+      },
+      events: events.map(event => ({
+        id: event.id,
+        type: event.type,
+        from: event.from,
+        to: event.to,
+        transactionId: event.transactionId,
+        blockHash: event.blockHash,
+        timestamp: event.created_at.getTime(),
+        task: event.taskId === null ? null : { id: event.taskId, title: event.taskTitle! },
+        unitId: event.unitId
+      }))
+    };
+  }
 }
 
 // Initialize blockchain service
@@ -436,6 +1221,13 @@ export const blockchainService = {
   getPendingTransactions: blockchain.getPendingTransactions.bind(blockchain),
   getBalance: blockchain.getBalance.bind(blockchain),
   getTokens: blockchain.getTokens.bind(blockchain),
+  getTokenHistory: blockchain.getTokenHistory.bind(blockchain),
   releaseEscrow: blockchain.releaseEscrow.bind(blockchain),
-  getUserById: blockchain.getUserById.bind(blockchain)
+  refundEscrow: blockchain.refundEscrow.bind(blockchain),
+  getRemainingEscrow: blockchain.getRemainingEscrow.bind(blockchain),
+  finalizeSettlements: blockchain.finalizeSettlements.bind(blockchain),
+  getUserById: blockchain.getUserById.bind(blockchain),
+  sealPendingTransactions: blockchain.sealPendingTransactions.bind(blockchain),
+  produceBlock: blockchain.produceBlock.bind(blockchain),
+  verifyChain: blockchain.verifyChain.bind(blockchain)
 } as const;
\ No newline at end of file
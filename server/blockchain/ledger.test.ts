@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BLOCK_DIFFICULTY,
+  GENESIS_HASH,
+  computeMerkleRoot,
+  hashBlock,
+  hashTransaction,
+  meetsDifficulty,
+  mineBlock,
+  type LedgerTransaction,
+} from './ledger';
+
+function transaction(id: number, overrides: Partial<LedgerTransaction> = {}): LedgerTransaction {
+  return {
+    id,
+    userId: 1,
+    type: 'transfer',
+    status: 'completed',
+    paymentId: null,
+    fromAddress: 'alice',
+    toAddress: 'bob',
+    tokenIds: [`token-${id}`],
+    metadata: { baseTokens: 1, memo: 'thanks' },
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, id)),
+    ...overrides,
+  };
+}
+
+describe('hashTransaction', () => {
+  it('hashes the same transaction the same way after a jsonb round trip', () => {
+    const original = transaction(1, { metadata: { baseTokens: 1, memo: 'thanks' } });
+    const reloaded = transaction(1, { metadata: { memo: 'thanks', baseTokens: 1 } });
+
+    assert.equal(hashTransaction(reloaded), hashTransaction(original));
+  });
+
+  it('changes when any recorded field is edited', () => {
+    const original = hashTransaction(transaction(1));
+
+    assert.notEqual(hashTransaction(transaction(1, { toAddress: 'mallory' })), original);
+    assert.notEqual(hashTransaction(transaction(1, { tokenIds: ['token-2'] })), original);
+    assert.notEqual(hashTransaction(transaction(1, { metadata: { baseTokens: 2, memo: 'thanks' } })), original);
+    assert.notEqual(hashTransaction(transaction(1, { timestamp: new Date(0) })), original);
+  });
+});
+
+describe('computeMerkleRoot', () => {
+  it('takes transactions in id order', () => {
+    const transactions = [transaction(1), transaction(2), transaction(3)];
+
+    assert.equal(computeMerkleRoot([...transactions].reverse()), computeMerkleRoot(transactions));
+  });
+
+  it('pairs an odd transaction with itself', () => {
+    const root = computeMerkleRoot([transaction(1), transaction(2), transaction(3)]);
+
+    assert.equal(
+      computeMerkleRoot([transaction(1), transaction(2), transaction(3), transaction(3)]),
+      root
+    );
+    assert.notEqual(computeMerkleRoot([transaction(1), transaction(2)]), root);
+  });
+
+  it('changes when a transaction is removed or edited', () => {
+    const root = computeMerkleRoot([transaction(1), transaction(2), transaction(3)]);
+
+    assert.notEqual(computeMerkleRoot([transaction(1), transaction(3)]), root);
+    assert.notEqual(computeMerkleRoot([transaction(1), transaction(2, { fromAddress: 'eve' }), transaction(3)]), root);
+  });
+
+  it('has a fixed root for an empty block', () => {
+    assert.equal(computeMerkleRoot([]), computeMerkleRoot([]));
+    assert.match(computeMerkleRoot([]), /^[0-9a-f]{64}$/);
+  });
+});
+
+describe('mineBlock', () => {
+  const header = {
+    height: 0,
+    previousHash: GENESIS_HASH,
+    merkleRoot: computeMerkleRoot([transaction(1)]),
+    timestamp: Date.UTC(2024, 0, 1),
+  };
+
+  it('finds a nonce whose hash meets the difficulty', () => {
+    const block = mineBlock(header);
+
+    assert.equal(block.difficulty, BLOCK_DIFFICULTY);
+    assert.equal(block.hash, hashBlock(block));
+    assert.ok(meetsDifficulty(block.hash, BLOCK_DIFFICULTY));
+  });
+
+  it('commits to the previous block and the transactions', () => {
+    const block = mineBlock(header);
+
+    assert.notEqual(hashBlock({ ...block, previousHash: '1'.repeat(64) }), block.hash);
+    assert.notEqual(hashBlock({ ...block, merkleRoot: computeMerkleRoot([transaction(2)]) }), block.hash);
+  });
+});
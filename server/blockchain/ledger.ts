@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import type { BlockMetadata } from '../../client/src/lib/blockchain/types';
+import type { TokenTransaction } from '@db/schema';
+
+// previousHash of the first block
+export const GENESIS_HASH = '0'.repeat(64);
+// Leading zero hex digits a block hash needs. Sealing is meant to be cheap;
+// the work only makes rewriting history a little more expensive.
+export const BLOCK_DIFFICULTY = 2;
+export const MAX_BLOCK_TRANSACTIONS = 500;
+
+// With MEMPOOL_MODE=true transfers wait in the mempool and are confirmed by
+// the block producer instead of committing at once. Escrow, releases and
+// refunds always commit at once.
+export const MEMPOOL_ENABLED = process.env.MEMPOOL_MODE === 'true';
+export const BLOCK_INTERVAL = 30 * 1000; // 30 seconds
+// A block is produced early once this many transfers are waiting
+export const MEMPOOL_BLOCK_SIZE = 50;
+
+export interface BlockHeader extends BlockMetadata {
+  height: number;
+  merkleRoot: string;
+}
+
+export type LedgerTransaction = Pick<
+  TokenTransaction,
+  'id' | 'userId' | 'type' | 'status' | 'paymentId' | 'fromAddress' | 'toAddress' | 'tokenIds' | 'metadata' | 'timestamp'
+>;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// JSON with object keys sorted, so jsonb round trips hash the same
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Leaves commit to the whole transaction, not only its id, so edits to a
+// sealed row are caught as well as removals
+export function hashTransaction(transaction: LedgerTransaction): string {
+  return sha256(canonicalize({
+    id: transaction.id,
+    userId: transaction.userId,
+    type: transaction.type,
+    status: transaction.status,
+    paymentId: transaction.paymentId,
+    fromAddress: transaction.fromAddress,
+    toAddress: transaction.toAddress,
+    tokenIds: transaction.tokenIds,
+    metadata: transaction.metadata,
+    timestamp: transaction.timestamp.getTime()
+  }));
+}
+
+// Transactions are taken in id order; an odd node is paired with itself
+export function computeMerkleRoot(transactions: LedgerTransaction[]): string {
+  if (!transactions.length) return sha256('');
+
+  let level = [...transactions]
+    .sort((a, b) => a.id - b.id)
+    .map(hashTransaction);
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(sha256(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+
+  return level[0];
+}
+
+export function hashBlock(header: Omit<BlockHeader, 'hash'>): string {
+  return sha256(canonicalize({
+    height: header.height,
+    previousHash: header.previousHash,
+    merkleRoot: header.merkleRoot,
+    timestamp: header.timestamp,
+    nonce: header.nonce,
+    difficulty: header.difficulty
+  }));
+}
+
+export function meetsDifficulty(hash: string, difficulty: number): boolean {
+  return hash.startsWith('0'.repeat(difficulty));
+}
+
+export function mineBlock(header: Omit<BlockHeader, 'hash' | 'nonce' | 'difficulty'>): BlockHeader {
+  const difficulty = BLOCK_DIFFICULTY;
+  let nonce = 0;
+  let hash = hashBlock({ ...header, nonce, difficulty });
+  while (!meetsDifficulty(hash, difficulty)) {
+    nonce++;
+    hash = hashBlock({ ...header, nonce, difficulty });
+  }
+  return { ...header, nonce, difficulty, hash };
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  blocks: number;
+  transactions: number;
+  // Written but not sealed yet; they are not covered by any hash
+  unsealedTransactions: number;
+  tipHash: string | null;
+  // The first block that doesn't check out; every block after it is suspect
+  brokenAt?: {
+    height: number;
+    hash: string;
+    reason: string;
+  };
+}
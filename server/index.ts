@@ -4,8 +4,17 @@ import { setupVite, serveStatic, log } from "./vite";
 import { setupAuth } from "./auth";
 import { db } from "@db";
 import { setupWebSocket } from "./ws";
+import { taskDeadlineScheduler } from "./services/taskDeadlineScheduler";
+import { taskCatalog } from "./services/taskCatalog";
+import { computationalTaskAgent } from "./services/ComputationalTaskAgent";
+import { ledgerAuditor } from "./services/ledgerAuditor";
+import { blockProducer } from "./services/blockProducer";
+import { MEMPOOL_ENABLED } from "./blockchain/ledger";
 
 const app = express();
+// Computational tasks can carry a browser kernel with a WebAssembly module,
+// which doesn't fit the default 100kb body limit
+app.post('/api/tasks', express.json({ limit: '6mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -53,9 +62,13 @@ app.use((req, res, next) => {
       throw new Error(`Database connection failed: ${error.message}`);
     }
 
+    // Make sure the curated task categories exist
+    await taskCatalog.seedCategories();
+    log("Task categories seeded");
+
     // Set up auth first
     log("Setting up authentication...");
-    setupAuth(app);
+    const sessionMiddleware = setupAuth(app);
     log("Authentication setup complete");
 
     // Register API routes before Vite middleware
@@ -65,9 +78,31 @@ app.use((req, res, next) => {
 
     // Setup WebSocket server
     log("Setting up WebSocket server...");
-    setupWebSocket(server);
+    setupWebSocket(server, sessionMiddleware);
     log("WebSocket setup complete");
 
+    // Start background expiry of overdue tasks
+    taskDeadlineScheduler.start();
+    log("Task deadline scheduler started");
+
+    // Move work units out of the legacy tasks column before anything claims them
+    await computationalTaskAgent.migrateLegacyWorkUnits();
+    log("Legacy work units migrated");
+
+    // Requeue computational work units whose workers stopped heartbeating
+    computationalTaskAgent.startLeaseSweeper();
+    log("Work unit lease sweeper started");
+
+    // Periodically replay the ledger against token and balance state
+    ledgerAuditor.start();
+    log("Ledger auditor started");
+
+    // Transfers wait in the mempool until a block is produced
+    if (MEMPOOL_ENABLED) {
+      blockProducer.start();
+      log("Block producer started");
+    }
+
     // Global error handler with detailed logging
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
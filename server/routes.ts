@@ -2,14 +2,45 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { log } from "./vite";
 import { db } from "@db";
-import { tasks, users } from "@db/schema";
-import { eq } from "drizzle-orm";
+import { disputes, ledgerAudits, taskApplications, taskMilestones, tasks, tokens, users } from "@db/schema";
+import { and, desc, eq, or } from "drizzle-orm";
 import express from "express";
+import multer from "multer";
 import { blockchainService } from './blockchain';
+import type { TransactionResult } from '../client/src/lib/blockchain/types';
 import { balanceTracker } from './services/balanceTracker';
 import { createStripeSession, handleStripeWebhook, verifyStripePayment } from './payments';
 import type { Request, Response, NextFunction } from "express";
-import { computationalTaskAgent } from './services/ComputationalTaskAgent';
+import {
+  computationalTaskAgent,
+  validateComputationalConfig,
+  type ComputationalConfig
+} from './services/ComputationalTaskAgent';
+import { acceptanceDeadline, taskLifecycle } from './services/taskLifecycle';
+import { disputeArbitration } from './services/disputeArbitration';
+import { milestoneTracker, validateMilestones, type MilestoneSpec } from './services/milestoneTracker';
+import { applicationReview, validateApplication } from './services/applicationReview';
+import { assignmentTracker, validateMaxWorkers } from './services/assignmentTracker';
+import { reputationTracker, validateRating } from './services/reputationTracker';
+import { parseTaskSearch, taskSearch } from './services/taskSearch';
+import { MAX_SKILLS, MAX_TASK_TAGS, normalizeTags, taskCatalog } from './services/taskCatalog';
+import { meetsRequirements, validateWorkerProfile, workerRegistry } from './services/workerRegistry';
+import { unitPayouts } from './services/unitPayouts';
+import { ledgerAuditor } from './services/ledgerAuditor';
+import { peerTransfers, validateIdempotencyKey, validateTransfer } from './services/peerTransfers';
+import {
+  datasetStore,
+  getFormatContentType,
+  DATASET_FORMATS,
+  MAX_DATASET_SIZE,
+  type DatasetFormat
+} from './services/datasetStore';
+import {
+  proofFileStore,
+  acceptsProofFiles,
+  MAX_PROOF_FILES,
+  MAX_PROOF_FILE_SIZE
+} from './services/proofFileStore';
 
 // Auth request type
 interface AuthRequest extends Request {
@@ -17,11 +48,32 @@ interface AuthRequest extends Request {
     id: number;
     username: string;
     tokenBalance: number;
+    role: 'user' | 'arbiter' | 'admin';
     created_at: Date;
     updated_at: Date;
   };
 }
 
+// Statements may reference up to 10 pieces of evidence (links, file references)
+function parseEvidence(evidence: unknown): string[] | null {
+  if (evidence === undefined) return [];
+  if (!Array.isArray(evidence) || evidence.length > 10) return null;
+  if (!evidence.every(item => typeof item === 'string' && item.length <= 2000)) return null;
+  return evidence;
+}
+
+// Proof files are validated against their content before being stored, so keep them in memory
+const proofUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PROOF_FILE_SIZE, files: MAX_PROOF_FILES }
+}).array('files', MAX_PROOF_FILES);
+
+// Datasets are sharded in memory before anything is stored
+const datasetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DATASET_SIZE, files: 1 }
+}).single('file');
+
 export function registerRoutes(app: Express): Server {
   // Create HTTP server
   const httpServer = createServer(app);
@@ -36,7 +88,24 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
-      const { title, description, type, reward, proofType } = req.body;
+      const {
+        title,
+        description,
+        type,
+        reward,
+        proofType,
+        acceptBy,
+        completeBy,
+        milestones,
+        assignmentMode = 'first_come',
+        maxWorkers,
+        categoryId,
+        tags,
+        workUnitsTotal,
+        workUnitsPerToken,
+        replicationFactor,
+        computationalMetadata
+      } = req.body;
 
       // Validate required fields
       if (!title || !description || !type || !reward || !proofType) {
@@ -54,6 +123,100 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
+      if (assignmentMode !== 'first_come' && assignmentMode !== 'application') {
+        return res.status(400).json({
+          message: 'Assignment mode must be first_come or application',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      // Validate optional milestone breakdown of the reward
+      let milestoneSpecs: MilestoneSpec[] = [];
+      if (milestones !== undefined && milestones !== null) {
+        const validation = validateMilestones(milestones, reward);
+        if ('error' in validation) {
+          return res.status(400).json({
+            message: validation.error,
+            code: 'INVALID_MILESTONES'
+          });
+        }
+        milestoneSpecs = validation.milestones;
+      }
+
+      // Validate optional worker slots; each slot is paid reward / maxWorkers
+      const workerValidation = validateMaxWorkers(maxWorkers, reward, proofType);
+      if ('error' in workerValidation) {
+        return res.status(400).json({
+          message: workerValidation.error,
+          code: 'INVALID_MAX_WORKERS'
+        });
+      }
+
+      if (workerValidation.maxWorkers > 1 && (milestoneSpecs.length || assignmentMode === 'application')) {
+        return res.status(400).json({
+          message: 'Multi-worker tasks cannot use milestones or applications',
+          code: 'INVALID_MAX_WORKERS'
+        });
+      }
+
+      // Computational tasks are split into work units that workers claim
+      let computationalConfig: Partial<ComputationalConfig> = {};
+      if (type === 'computational' && workUnitsTotal !== undefined) {
+        const validation = validateComputationalConfig({
+          workUnitsTotal,
+          workUnitsPerToken,
+          replicationFactor,
+          computationalMetadata
+        });
+        if ('error' in validation) {
+          return res.status(400).json({
+            message: validation.error,
+            code: 'INVALID_COMPUTATIONAL_CONFIG'
+          });
+        }
+        computationalConfig = validation;
+      }
+
+      // Validate optional category and tags
+      if (categoryId !== undefined && categoryId !== null) {
+        if (!Number.isInteger(categoryId) || !(await taskCatalog.getCategory(categoryId))) {
+          return res.status(400).json({
+            message: 'Unknown category',
+            code: 'INVALID_CATEGORY'
+          });
+        }
+      }
+
+      const tagValidation = normalizeTags(tags, MAX_TASK_TAGS);
+      if ('error' in tagValidation) {
+        return res.status(400).json({
+          message: tagValidation.error,
+          code: 'INVALID_TAGS'
+        });
+      }
+
+      // Validate optional deadlines
+      const acceptByDate = acceptBy ? new Date(acceptBy) : null;
+      const completeByDate = completeBy ? new Date(completeBy) : null;
+      const now = Date.now();
+
+      if (
+        (acceptByDate && (isNaN(acceptByDate.getTime()) || acceptByDate.getTime() <= now)) ||
+        (completeByDate && (isNaN(completeByDate.getTime()) || completeByDate.getTime() <= now))
+      ) {
+        return res.status(400).json({
+          message: 'Deadlines must be valid dates in the future',
+          code: 'INVALID_DEADLINE'
+        });
+      }
+
+      if (acceptByDate && completeByDate && completeByDate <= acceptByDate) {
+        return res.status(400).json({
+          message: 'Completion deadline must be after the acceptance deadline',
+          code: 'INVALID_DEADLINE'
+        });
+      }
+
       // Check user's token balance
       const userBalance = await blockchainService.getBalance(req.user.username);
       console.log('[API] User balance check:', {
@@ -104,14 +267,34 @@ export function registerRoutes(app: Express): Server {
               proofType,
               proofRequired: "none",
               escrowTransactionId: escrowResult.id,
+              acceptBy: acceptByDate,
+              completeBy: completeByDate,
+              assignmentMode,
+              maxWorkers: workerValidation.maxWorkers,
+              categoryId: categoryId ?? null,
+              tags: tagValidation.tags,
+              ...computationalConfig,
               created_at: new Date(),
               updated_at: new Date()
             })
             .returning();
 
+          if (milestoneSpecs.length) {
+            await tx
+              .insert(taskMilestones)
+              .values(milestoneSpecs.map((milestone, index) => ({
+                taskId: newTask.id,
+                position: index,
+                title: milestone.title,
+                description: milestone.description,
+                reward: milestone.reward
+              })));
+          }
+
           console.log('[API] Created new task:', {
             taskId: newTask.id,
             escrowTx: escrowResult.id,
+            milestones: milestoneSpecs.length,
             timestamp: new Date().toISOString()
           });
 
@@ -136,28 +319,26 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get('/api/tasks', async (_req: Request, res) => {
+  // Filtered, cursor-paginated task listing; see parseTaskSearch for the query parameters
+  app.get('/api/tasks', async (req: Request, res) => {
     try {
-      console.log('[API] Fetching tasks');
-      const allTasks = await db.query.tasks.findMany({
-        orderBy: (tasks, { desc }) => [desc(tasks.created_at)],
-        with: {
-          creator: true,
-          worker: true
-        }
-      });
+      const parsed = parseTaskSearch(req.query as Record<string, unknown>);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          message: parsed.error,
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const result = await taskSearch.search(parsed.params);
 
       console.log('[API] Tasks fetched:', {
-        count: allTasks.length,
-        tasks: allTasks.map(t => ({
-          id: t.id,
-          title: t.title,
-          status: t.status,
-          creatorId: t.creatorId
-        }))
+        params: parsed.params,
+        count: result.tasks.length,
+        hasMore: !!result.nextCursor
       });
 
-      res.json(allTasks);
+      res.json(result);
     } catch (error: any) {
       console.error('[API] Task fetch error:', error);
       res.status(500).json({
@@ -167,6 +348,155 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Ranked open tasks for the current user based on their skills
+  app.get('/api/tasks/recommended', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const recommended = await taskCatalog.getRecommendations(req.user.id, 20);
+      res.json(recommended);
+    } catch (error: any) {
+      console.error('[API] Recommendation fetch error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch recommendations',
+        code: 'RECOMMENDATION_FETCH_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/categories', async (_req: Request, res: Response) => {
+    try {
+      res.json(await taskCatalog.getCategoryTree());
+    } catch (error: any) {
+      console.error('[API] Category fetch error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch categories',
+        code: 'CATEGORY_FETCH_ERROR'
+      });
+    }
+  });
+
+  // Most used tags across open tasks, for filter suggestions
+  app.get('/api/tags', async (_req: Request, res: Response) => {
+    try {
+      res.json(await taskCatalog.getPopularTags(30));
+    } catch (error: any) {
+      console.error('[API] Tag fetch error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch tags',
+        code: 'TAG_FETCH_ERROR'
+      });
+    }
+  });
+
+  app.put('/api/users/me/skills', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const validation = normalizeTags(req.body.skills, MAX_SKILLS, 'skills');
+      if ('error' in validation) {
+        return res.status(400).json({
+          message: validation.error,
+          code: 'INVALID_SKILLS'
+        });
+      }
+
+      const skills = await taskCatalog.updateSkills(req.user.id, validation.tags);
+      res.json({ skills });
+    } catch (error: any) {
+      console.error('[API] Skill update failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to update skills',
+        code: 'SKILL_UPDATE_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/workers/me/profile', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const profile = await workerRegistry.getProfile(req.user.id);
+      if (!profile) {
+        return res.status(404).json({
+          message: 'No worker profile registered',
+          code: 'PROFILE_NOT_FOUND'
+        });
+      }
+
+      res.json(profile);
+    } catch (error: any) {
+      console.error('[API] Worker profile fetch error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch worker profile',
+        code: 'PROFILE_FETCH_ERROR'
+      });
+    }
+  });
+
+  // Registers or updates the hardware the worker offers; a paused profile
+  // opts the worker out of new computational work
+  app.put('/api/workers/me/profile', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const validation = validateWorkerProfile(req.body);
+      if ('error' in validation) {
+        return res.status(400).json({
+          message: validation.error,
+          code: 'INVALID_PROFILE'
+        });
+      }
+
+      res.json(await workerRegistry.saveProfile(req.user.id, validation));
+    } catch (error: any) {
+      console.error('[API] Worker profile update failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to update worker profile',
+        code: 'PROFILE_UPDATE_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/workers/me/work', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      res.json(await computationalTaskAgent.getAvailableWork(req.user.username));
+    } catch (error: any) {
+      console.error('[API] Available work fetch error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch available work',
+        code: 'WORK_FETCH_ERROR'
+      });
+    }
+  });
+
   // Add task acceptance endpoint
   app.post('/api/tasks/:taskId/accept', async (req: AuthRequest, res: Response) => {
     try {
@@ -213,17 +543,62 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
+      if (task.assignmentMode === 'application') {
+        return res.status(400).json({
+          message: 'This task requires an application',
+          code: 'APPLICATION_REQUIRED'
+        });
+      }
+
+      if (task.acceptBy && task.acceptBy < new Date()) {
+        return res.status(400).json({
+          message: 'The acceptance deadline for this task has passed',
+          code: 'TASK_EXPIRED'
+        });
+      }
+
+      const acceptedAt = new Date();
+      const deadline = acceptanceDeadline(task, acceptedAt);
+      if ('error' in deadline) {
+        return res.status(400).json({
+          message: deadline.error,
+          code: 'TASK_EXPIRED'
+        });
+      }
+
+      // Multi-worker tasks hand out a slot instead of assigning the task itself
+      if (task.maxWorkers > 1) {
+        const claim = await assignmentTracker.claimSlot(task, req.user.id);
+        if ('error' in claim) {
+          return res.status(409).json({
+            message: claim.error,
+            code: 'TASK_NOT_AVAILABLE'
+          });
+        }
+        return res.json(claim.task);
+      }
+
       // Update task status and assign worker
       const [updatedTask] = await db
         .update(tasks)
         .set({
           status: 'in_progress',
           workerId: req.user.id,
-          updated_at: new Date()
+          acceptedAt,
+          completeBy: deadline.completeBy,
+          completionWindow: deadline.completionWindow,
+          updated_at: acceptedAt
         })
-        .where(eq(tasks.id, taskId))
+        .where(and(eq(tasks.id, taskId), eq(tasks.status, 'open')))
         .returning();
 
+      if (!updatedTask) {
+        return res.status(409).json({
+          message: 'Task was accepted by another worker',
+          code: 'TASK_NOT_AVAILABLE'
+        });
+      }
+
       console.log('[API] Task accepted:', {
         taskId,
         workerId: req.user.id,
@@ -240,224 +615,2419 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Token and Payment Routes
-  app.post('/api/tokens/calculate-price', (req: AuthRequest, res: Response) => {
+  // Applications for tasks where the creator picks the worker
+  app.post('/api/tasks/:taskId/applications', async (req: AuthRequest, res: Response) => {
     try {
-      const { amount } = req.body;
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
 
-      if (!amount || isNaN(amount) || amount < 1 || amount > 10000) {
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
         return res.status(400).json({
-          message: 'Token amount must be between 1 and 10,000',
-          code: 'INVALID_AMOUNT'
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
         });
       }
 
-      // Calculate price based on amount
-      let bonusPercentage = 0;
-      let tier = 'standard';
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
 
-      if (amount >= 1000) {
-        bonusPercentage = 20;
-        tier = 'premium';
-      } else if (amount >= 500) {
-        bonusPercentage = 10;
-        tier = 'plus';
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
       }
 
-      const basePrice = amount * 1.00; // $1 per token
-      const bonusTokens = Math.floor(amount * (bonusPercentage / 100));
-
-      const pricing = {
-        basePrice: Math.round(basePrice * 100) / 100,
-        bonusTokens,
-        bonusPercentage,
-        finalPrice: Math.round(basePrice * 100) / 100,
-        tier,
-        pricePerToken: 1.00
-      };
-
-      console.log('[API] Price calculation:', {
-        amount,
-        pricing,
-        timestamp: new Date().toISOString()
-      });
-
-      res.json({ pricing });
-    } catch (error: any) {
-      console.error('[API] Price calculation error:', error);
-      res.status(500).json({
-        message: error.message || 'Failed to calculate price',
-        code: 'CALCULATION_ERROR'
-      });
-    }
-  });
-
-  // New Transaction Creation Endpoint
-  app.post('/api/blockchain/transaction', async (req: AuthRequest, res: Response) => {
-    try {
-      if (!req.user) {
-        return res.status(401).json({ 
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
+      if (task.assignmentMode !== 'application') {
+        return res.status(400).json({
+          message: 'This task does not take applications',
+          code: 'INVALID_OPERATION'
         });
       }
 
-      const { to, amount } = req.body;
-      console.log('[API] Creating transaction:', { 
-        from: req.user.username,
-        to, 
-        amount,
-        timestamp: new Date().toISOString()
-      });
-
-      if (!to || !amount) {
+      if (task.status !== 'open') {
         return res.status(400).json({
-          message: 'Missing required fields: to and amount',
-          code: 'INVALID_PARAMETERS'
+          message: 'Task is not available',
+          code: 'TASK_NOT_AVAILABLE'
         });
       }
 
-      if (isNaN(amount) || amount <= 0) {
+      if (task.creatorId === req.user.id) {
         return res.status(400).json({
-          message: 'Amount must be a positive number',
-          code: 'INVALID_AMOUNT'
+          message: 'Cannot apply to your own task',
+          code: 'INVALID_OPERATION'
         });
       }
 
-      const transaction = await blockchainService.createTransaction(
-        req.user.username,
-        to,
-        amount
-      );
+      if (task.acceptBy && task.acceptBy < new Date()) {
+        return res.status(400).json({
+          message: 'The acceptance deadline for this task has passed',
+          code: 'TASK_EXPIRED'
+        });
+      }
 
-      console.log('[API] Transaction created:', {
-        id: transaction.id,
-        timestamp: new Date().toISOString()
-      });
+      const validation = validateApplication(task, req.body.pitch, req.body.proposedReward);
+      if ('error' in validation) {
+        return res.status(400).json({
+          message: validation.error,
+          code: 'INVALID_APPLICATION'
+        });
+      }
 
-      res.json(transaction);
+      // Milestone rewards are fixed at creation and must add up to the task reward
+      if (validation.proposedReward !== null) {
+        const milestones = await milestoneTracker.getMilestones(task.id);
+        if (milestones.length) {
+          return res.status(400).json({
+            message: 'Milestone tasks do not accept counter-offers',
+            code: 'INVALID_APPLICATION'
+          });
+        }
+      }
+
+      const existing = await applicationReview.findPendingApplication(task.id, req.user.id);
+      if (existing) {
+        return res.status(409).json({
+          message: 'You have already applied to this task',
+          code: 'ALREADY_APPLIED'
+        });
+      }
+
+      const application = await applicationReview.apply(
+        task,
+        req.user.id,
+        validation.pitch,
+        validation.proposedReward
+      );
+      res.status(201).json(application);
     } catch (error: any) {
-      console.error('[API] Transaction creation failed:', error);
+      console.error('[API] Task application failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to create transaction',
-        code: 'TRANSACTION_ERROR'
+        message: error.message || 'Failed to apply to task',
+        code: 'APPLICATION_ERROR'
       });
     }
   });
 
-  app.post('/api/tokens/purchase', (req: AuthRequest, res: Response) => {
-    if (!req.user) {
-      return res.status(401).json({ message: 'Authentication required' });
+  // Creators see every application, applicants only their own
+  app.get('/api/tasks/:taskId/applications', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      const applications = await db.query.taskApplications.findMany({
+        where: task.creatorId === req.user.id
+          ? eq(taskApplications.taskId, taskId)
+          : and(eq(taskApplications.taskId, taskId), eq(taskApplications.applicantId, req.user.id)),
+        orderBy: [desc(taskApplications.created_at)],
+        with: {
+          applicant: { columns: { id: true, username: true, created_at: true } }
+        }
+      });
+
+      res.json(applications);
+    } catch (error: any) {
+      console.error('[API] Application fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch applications',
+        code: 'APPLICATION_FETCH_ERROR'
+      });
     }
-    createStripeSession(req, res);
   });
 
-  app.post('/api/webhook/stripe', express.raw({ type: 'application/json' }), handleStripeWebhook);
-
-  app.get('/api/tokens/verify-payment', async (req: AuthRequest, res: Response) => {
+  app.post('/api/tasks/:taskId/applications/:applicationId/:action', async (req: AuthRequest, res: Response) => {
     try {
-      console.log('[API] Verifying payment for session:', req.query.session_id);
-
       if (!req.user) {
         return res.status(401).json({
-          success: false,
           message: 'Authentication required',
           code: 'AUTH_REQUIRED'
         });
       }
 
-      const result = await verifyStripePayment(req.query.session_id as string);
+      const taskId = parseInt(req.params.taskId);
+      const applicationId = parseInt(req.params.applicationId);
+      const { action } = req.params;
 
-      if (result.success) {
-        // Force sync user's balance
-        await balanceTracker.forceSyncBalance(req.user.username);
-        res.json({
-          success: true,
-          message: 'Payment verified and tokens created successfully',
-          transaction: result.transaction
+      if (isNaN(taskId) || isNaN(applicationId) || !['accept', 'reject', 'withdraw'].includes(action)) {
+        return res.status(400).json({
+          message: 'Invalid task ID, application ID or action',
+          code: 'INVALID_PARAMETERS'
         });
-      } else {
-        res.json({
-          success: false,
-          message: result.message || 'Payment verification pending',
-          code: result.code || 'VERIFICATION_PENDING'
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      const application = await applicationReview.getApplication(taskId, applicationId);
+      if (!application) {
+        return res.status(404).json({
+          message: 'Application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        });
+      }
+
+      const isApplicant = application.applicantId === req.user.id;
+      if (action === 'withdraw' ? !isApplicant : task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: action === 'withdraw'
+            ? 'Only the applicant can withdraw an application'
+            : 'Only the task creator can review applications',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (application.status !== 'pending') {
+        return res.status(400).json({
+          message: 'Application is no longer pending',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      if (action === 'withdraw') {
+        return res.json(await applicationReview.withdrawApplication(application));
+      }
+
+      if (action === 'reject') {
+        return res.json(await applicationReview.rejectApplication(task, application));
+      }
+
+      if (task.status !== 'open') {
+        return res.status(400).json({
+          message: 'Task is not available',
+          code: 'TASK_NOT_AVAILABLE'
+        });
+      }
+
+      const deadline = acceptanceDeadline(task, new Date());
+      if ('error' in deadline) {
+        return res.status(400).json({
+          message: deadline.error,
+          code: 'TASK_EXPIRED'
         });
       }
+
+      const updatedTask = await applicationReview.acceptApplication(task, application);
+      res.json(updatedTask);
     } catch (error: any) {
-      console.error('[API] Payment verification error:', error);
-      res.json({
-        success: false,
-        message: 'Payment verification in progress',
-        code: 'VERIFICATION_IN_PROGRESS'
+      console.error('[API] Application review failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to update application',
+        code: 'APPLICATION_ERROR'
       });
     }
   });
 
-  // Blockchain Routes
-  app.get('/api/blockchain/transactions', (req: Request, res: Response) => {
+  // Task cancellation endpoint - open tasks are cancelled immediately,
+  // in-progress tasks need the assigned worker's consent
+  app.post('/api/tasks/:taskId/cancel', async (req: AuthRequest, res: Response) => {
     try {
-      const transactions = blockchainService.getAllTransactions();
-      res.json(transactions);
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the task creator can cancel a task',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      // Multi-worker tasks can be cancelled once nobody is working on or awaiting review
+      // for a slot; verified slots have already been paid
+      if (task.maxWorkers > 1 && (task.status === 'open' || task.status === 'in_progress')) {
+        if (await assignmentTracker.countActive(taskId) > 0) {
+          return res.status(400).json({
+            message: 'Workers are still assigned to this task',
+            code: 'ASSIGNMENTS_ACTIVE'
+          });
+        }
+
+        const cancelledTask = await taskLifecycle.cancelTask(task, 'creator_cancelled');
+        return res.json(cancelledTask);
+      }
+
+      if (task.status === 'open') {
+        const cancelledTask = await taskLifecycle.cancelTask(task, 'creator_cancelled');
+        return res.json(cancelledTask);
+      }
+
+      if (task.status === 'in_progress') {
+        if (task.cancellationRequestedAt) {
+          return res.status(400).json({
+            message: 'Cancellation is already awaiting worker consent',
+            code: 'CANCELLATION_PENDING'
+          });
+        }
+
+        const updatedTask = await taskLifecycle.requestCancellation(task);
+        return res.status(202).json(updatedTask);
+      }
+
+      res.status(400).json({
+        message: 'Task can only be cancelled while open or in progress',
+        code: 'INVALID_STATUS'
+      });
     } catch (error: any) {
-      console.error('[API] Transaction fetch error:', error);
+      console.error('[API] Task cancellation failed:', error);
       res.status(500).json({
-        message: 'Failed to fetch transactions',
-        error: error.message
+        message: error.message || 'Failed to cancel task',
+        code: 'TASK_CANCEL_ERROR'
       });
     }
   });
 
-  app.get('/api/blockchain/pending', (req: Request, res: Response) => {
+  // Worker response to a creator's cancellation request
+  app.post('/api/tasks/:taskId/cancel/respond', async (req: AuthRequest, res: Response) => {
     try {
-      const transactions = blockchainService.getPendingTransactions();
-      res.json(transactions);
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const { consent } = req.body;
+
+      if (isNaN(taskId) || typeof consent !== 'boolean') {
+        return res.status(400).json({
+          message: 'Invalid task ID or missing consent',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.workerId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the assigned worker can respond to a cancellation request',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'in_progress' || !task.cancellationRequestedAt) {
+        return res.status(400).json({
+          message: 'No cancellation request is pending for this task',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const updatedTask = consent
+        ? await taskLifecycle.cancelTask(task, 'mutual_agreement')
+        : await taskLifecycle.declineCancellation(task);
+
+      res.json(updatedTask);
     } catch (error: any) {
-      console.error('[API] Pending transaction fetch error:', error);
+      console.error('[API] Cancellation response failed:', error);
       res.status(500).json({
-        message: 'Failed to fetch pending transactions',
-        error: error.message
+        message: error.message || 'Failed to respond to cancellation request',
+        code: 'TASK_CANCEL_ERROR'
       });
     }
   });
 
-  app.get('/api/blockchain/balance/:address', async (req: Request, res: Response) => {
+  // Token and Payment Routes
+  app.post('/api/tokens/calculate-price', (req: AuthRequest, res: Response) => {
     try {
-      const { address } = req.params;
-      console.log('[API] Fetching balance for:', address);
+      const { amount } = req.body;
+
+      if (!amount || isNaN(amount) || amount < 1 || amount > 10000) {
+        return res.status(400).json({
+          message: 'Token amount must be between 1 and 10,000',
+          code: 'INVALID_AMOUNT'
+        });
+      }
+
+      // Calculate price based on amount
+      let bonusPercentage = 0;
+      let tier = 'standard';
+
+      if (amount >= 1000) {
+        bonusPercentage = 20;
+        tier = 'premium';
+      } else if (amount >= 500) {
+        bonusPercentage = 10;
+        tier = 'plus';
+      }
+
+      const basePrice = amount * 1.00; // $1 per token
+      const bonusTokens = Math.floor(amount * (bonusPercentage / 100));
+
+      const pricing = {
+        basePrice: Math.round(basePrice * 100) / 100,
+        bonusTokens,
+        bonusPercentage,
+        finalPrice: Math.round(basePrice * 100) / 100,
+        tier,
+        pricePerToken: 1.00
+      };
+
+      console.log('[API] Price calculation:', {
+        amount,
+        pricing,
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ pricing });
+    } catch (error: any) {
+      console.error('[API] Price calculation error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to calculate price',
+        code: 'CALCULATION_ERROR'
+      });
+    }
+  });
+
+  // Sends tokens to another user by username. An Idempotency-Key header makes
+  // retries safe; the response is the transfer's receipt.
+  app.post('/api/blockchain/transaction', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ 
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const transfer = validateTransfer(req.body);
+      if ('error' in transfer) {
+        return res.status(400).json({
+          message: transfer.error,
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const keyHeader = req.get('Idempotency-Key');
+      const idempotencyKey = keyHeader === undefined ? null : validateIdempotencyKey(keyHeader);
+      if (idempotencyKey !== null && typeof idempotencyKey !== 'string') {
+        return res.status(400).json({
+          message: idempotencyKey.error,
+          code: 'INVALID_IDEMPOTENCY_KEY'
+        });
+      }
+
+      const recipient = await peerTransfers.findRecipient(transfer.recipient);
+      if (!recipient) {
+        return res.status(404).json({
+          message: `No user named ${transfer.recipient}`,
+          code: 'RECIPIENT_NOT_FOUND'
+        });
+      }
+
+      if (recipient.id === req.user.id) {
+        return res.status(400).json({
+          message: 'You cannot send tokens to yourself',
+          code: 'INVALID_RECIPIENT'
+        });
+      }
+
+      console.log('[API] Creating transfer:', { 
+        from: req.user.username,
+        to: recipient.username,
+        amount: transfer.amount,
+        timestamp: new Date().toISOString()
+      });
+
+      const result = await peerTransfers.send(req.user, recipient, transfer, idempotencyKey);
+      if ('error' in result) {
+        return res.status(result.code === 'TRANSFER_LIMIT_EXCEEDED' ? 429 : 409).json({
+          message: result.error,
+          code: result.code
+        });
+      }
+
+      console.log('[API] Transfer created:', {
+        id: result.receipt.id,
+        transactionId: result.receipt.transactionId,
+        replayed: result.replayed,
+        timestamp: new Date().toISOString()
+      });
+
+      // 202 while the transfer waits in the mempool for a block
+      const status = result.replayed ? 200 : result.receipt.status === 'queued' ? 202 : 201;
+      res.status(status).json(result.receipt);
+    } catch (error: any) {
+      console.error('[API] Transaction creation failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to create transaction',
+        code: 'TRANSACTION_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/transfers/limits', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      res.json(await peerTransfers.getUsage(req.user.id));
+    } catch (error: any) {
+      console.error('[API] Transfer limit fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch transfer limits',
+        code: 'TRANSFER_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/transfers/:transferId', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const transferId = parseInt(req.params.transferId);
+      if (isNaN(transferId)) {
+        return res.status(400).json({
+          message: 'Invalid transfer ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const receipt = await peerTransfers.getReceipt(transferId, req.user.id);
+      if (!receipt) {
+        return res.status(404).json({
+          message: 'Transfer not found',
+          code: 'TRANSFER_NOT_FOUND'
+        });
+      }
+
+      res.json(receipt);
+    } catch (error: any) {
+      console.error('[API] Transfer receipt fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch transfer',
+        code: 'TRANSFER_ERROR'
+      });
+    }
+  });
+
+  // Exact username match, for confirming a transfer's recipient
+  app.get('/api/users/lookup', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const username = typeof req.query.username === 'string' ? req.query.username.trim() : '';
+      if (!username) {
+        return res.status(400).json({
+          message: 'Username is required',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const user = await peerTransfers.findRecipient(username);
+      if (!user) {
+        return res.status(404).json({
+          message: `No user named ${username}`,
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      res.json(user);
+    } catch (error: any) {
+      console.error('[API] User lookup failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to look up user',
+        code: 'LOOKUP_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/tokens/purchase', (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    createStripeSession(req, res);
+  });
+
+  app.post('/api/webhook/stripe', express.raw({ type: 'application/json' }), handleStripeWebhook);
+
+  app.get('/api/tokens/verify-payment', async (req: AuthRequest, res: Response) => {
+    try {
+      console.log('[API] Verifying payment for session:', req.query.session_id);
+
+      if (!req.user) {
+        return res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const result = await verifyStripePayment(req.query.session_id as string);
+
+      if (result.success) {
+        // Force sync user's balance
+        await balanceTracker.forceSyncBalance(req.user.username);
+        res.json({
+          success: true,
+          message: 'Payment verified and tokens created successfully',
+          transaction: result.transaction
+        });
+      } else {
+        res.json({
+          success: false,
+          message: result.message || 'Payment verification pending',
+          code: result.code || 'VERIFICATION_PENDING'
+        });
+      }
+    } catch (error: any) {
+      console.error('[API] Payment verification error:', error);
+      res.json({
+        success: false,
+        message: 'Payment verification in progress',
+        code: 'VERIFICATION_IN_PROGRESS'
+      });
+    }
+  });
+
+  // Blockchain Routes
+  app.get('/api/blockchain/transactions', (req: Request, res: Response) => {
+    try {
+      const transactions = blockchainService.getAllTransactions();
+      res.json(transactions);
+    } catch (error: any) {
+      console.error('[API] Transaction fetch error:', error);
+      res.status(500).json({
+        message: 'Failed to fetch transactions',
+        error: error.message
+      });
+    }
+  });
+
+  app.get('/api/blockchain/pending', async (req: Request, res: Response) => {
+    try {
+      const transactions = await blockchainService.getPendingTransactions();
+      res.json(transactions);
+    } catch (error: any) {
+      console.error('[API] Pending transaction fetch error:', error);
+      res.status(500).json({
+        message: 'Failed to fetch pending transactions',
+        error: error.message
+      });
+    }
+  });
+
+  // Ledger audits replay every transaction against token rows, stored
+  // balances and escrow. Only admins may run them or approve repairs.
+  app.post('/api/admin/ledger/audits', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({
+          message: 'Only admins can audit the ledger',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const audit = await ledgerAuditor.audit(req.user.id);
+      res.status(201).json(audit);
+    } catch (error: any) {
+      console.error('[API] Ledger audit failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to audit ledger',
+        code: 'AUDIT_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/admin/ledger/audits', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({
+          message: 'Only admins can view ledger audits',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const audits = await ledgerAuditor.getAudits(20);
+      res.json(audits);
+    } catch (error: any) {
+      console.error('[API] Ledger audit fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch ledger audits',
+        code: 'AUDIT_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/admin/ledger/audits/:auditId/repair', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({
+          message: 'Only admins can approve ledger repairs',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const auditId = parseInt(req.params.auditId);
+      if (isNaN(auditId)) {
+        return res.status(400).json({
+          message: 'Invalid audit ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [audit] = await db
+        .select()
+        .from(ledgerAudits)
+        .where(eq(ledgerAudits.id, auditId))
+        .limit(1);
+
+      if (!audit) {
+        return res.status(404).json({
+          message: 'Audit not found',
+          code: 'AUDIT_NOT_FOUND'
+        });
+      }
+
+      if (audit.status !== 'discrepancies') {
+        return res.status(409).json({
+          message: audit.status === 'repaired' ? 'Audit has already been repaired' : 'Audit found nothing to repair',
+          code: 'INVALID_AUDIT_STATE'
+        });
+      }
+
+      const repaired = await ledgerAuditor.repair(audit, req.user.id);
+      res.json(repaired);
+    } catch (error: any) {
+      console.error('[API] Ledger repair failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to repair ledger',
+        code: 'AUDIT_ERROR'
+      });
+    }
+  });
+
+  // Re-walks the sealed chain; a broken link means history was changed after
+  // it was sealed
+  app.get('/api/blockchain/verify', async (req: Request, res: Response) => {
+    try {
+      const verification = await blockchainService.verifyChain();
+
+      if (!verification.valid) {
+        console.warn('[API] Chain verification failed:', verification.brokenAt);
+      }
+
+      res.json(verification);
+    } catch (error: any) {
+      console.error('[API] Chain verification error:', error);
+      res.status(500).json({
+        message: 'Failed to verify chain',
+        error: error.message
+      });
+    }
+  });
+
+  app.get('/api/blockchain/balance/:address', async (req: Request, res: Response) => {
+    try {
+      const { address } = req.params;
+      console.log('[API] Fetching balance for:', address);
+
+      const balance = await balanceTracker.getBalance(address);
+      console.log('[API] Balance result:', { address, balance });
+
+      res.json({ balance });
+    } catch (error: any) {
+      console.error('[API] Balance fetch error:', error);
+      res.status(500).json({
+        message: 'Failed to fetch balance',
+        error: error.message
+      });
+    }
+  });
+
+  app.get('/api/blockchain/tokens/:id/history', async (req: Request, res: Response) => {
+    try {
+      const history = await blockchainService.getTokenHistory(req.params.id);
+
+      if (!history) {
+        return res.status(404).json({
+          message: 'Token not found',
+          code: 'TOKEN_NOT_FOUND'
+        });
+      }
+
+      res.json(history);
+    } catch (error: any) {
+      console.error('[API] Token history fetch error:', error);
+      res.status(500).json({
+        message: 'Failed to fetch token history',
+        error: error.message
+      });
+    }
+  });
+
+  app.get('/api/blockchain/tokens/:username', async (req: Request, res: Response) => {
+    try {
+      const { username } = req.params;
+      console.log('[API] Fetching tokens for:', username);
+
+      const tokens = await blockchainService.getTokens(username);
+      console.log('[API] Tokens result:', { username, count: tokens.length });
+
+      res.json(tokens);
+    } catch (error: any) {
+      console.error('[API] Tokens fetch error:', error);
+      res.status(500).json({
+        message: 'Failed to fetch tokens',
+        error: error.message
+      });
+    }
+  });
+
+  // Add proof submission endpoint
+  app.post('/api/tasks/:taskId/proof', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const { proof } = req.body;
+
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      // Get the task and verify the user can submit proof
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.workerId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the assigned worker can submit proof',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'in_progress') {
+        return res.status(400).json({
+          message: 'Task is not in progress',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      if ((await milestoneTracker.getMilestones(taskId)).length) {
+        return res.status(400).json({
+          message: 'Submit proof for each milestone instead',
+          code: 'MILESTONE_TASK'
+        });
+      }
+
+      // Image and code proofs must come with uploaded files; the text is an optional note
+      const attachedFiles = acceptsProofFiles(task.proofType)
+        ? (await proofFileStore.listFiles(taskId)).filter(file => file.uploaderId === req.user!.id)
+        : [];
+
+      if (acceptsProofFiles(task.proofType) ? !attachedFiles.length : !proof) {
+        return res.status(400).json({
+          message: acceptsProofFiles(task.proofType)
+            ? 'Upload at least one proof file before submitting'
+            : 'Missing proof',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      // Update task with proof and change status
+      const [updatedTask] = await db
+        .update(tasks)
+        .set({
+          status: 'pending_verification',
+          proofSubmitted: proof || `${attachedFiles.length} file(s) attached`,
+          rejectedProof: null,
+          submittedAt: new Date(),
+          cancellationRequestedAt: null,
+          updated_at: new Date()
+        })
+        .where(eq(tasks.id, taskId))
+        .returning();
+
+      console.log('[API] Proof submitted:', {
+        taskId,
+        workerId: req.user.id,
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(updatedTask);
+    } catch (error: any) {
+      console.error('[API] Proof submission failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to submit proof',
+        code: 'PROOF_SUBMISSION_ERROR'
+      });
+    }
+  });
+
+  // Proof file routes
+  app.post('/api/tasks/:taskId/proof/files', (req: AuthRequest, res: Response) => {
+    // Checked before multer so anonymous uploads are never buffered
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({
+        message: 'Authentication required',
+        code: 'AUTH_REQUIRED'
+      });
+    }
+
+    proofUpload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError) {
+          return res.status(400).json({
+            message: uploadError instanceof multer.MulterError
+              ? `Upload rejected: ${uploadError.message}`
+              : 'Invalid upload',
+            code: 'INVALID_UPLOAD'
+          });
+        }
+
+        const taskId = parseInt(req.params.taskId);
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+        if (isNaN(taskId) || !files.length) {
+          return res.status(400).json({
+            message: 'Invalid task ID or no files uploaded',
+            code: 'INVALID_PARAMETERS'
+          });
+        }
+
+        const [task] = await db
+          .select()
+          .from(tasks)
+          .where(eq(tasks.id, taskId))
+          .limit(1);
+
+        if (!task) {
+          return res.status(404).json({
+            message: 'Task not found',
+            code: 'TASK_NOT_FOUND'
+          });
+        }
+
+        if (task.workerId !== user.id) {
+          return res.status(403).json({
+            message: 'Only the assigned worker can upload proof',
+            code: 'UNAUTHORIZED'
+          });
+        }
+
+        if (task.status !== 'in_progress') {
+          return res.status(400).json({
+            message: 'Task is not in progress',
+            code: 'INVALID_STATUS'
+          });
+        }
+
+        const result = await proofFileStore.saveFiles(task, user.id, files);
+        if ('error' in result) {
+          return res.status(400).json({
+            message: result.error,
+            code: 'INVALID_UPLOAD'
+          });
+        }
+
+        res.status(201).json(result.files);
+      } catch (error: any) {
+        console.error('[API] Proof upload failed:', error);
+        res.status(500).json({
+          message: error.message || 'Failed to upload proof files',
+          code: 'PROOF_UPLOAD_ERROR'
+        });
+      }
+    });
+  });
+
+  app.get('/api/tasks/:taskId/proof/files', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id && task.workerId !== req.user.id && req.user.role !== 'arbiter') {
+        return res.status(403).json({
+          message: 'Only task participants can view proof files',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const files = await proofFileStore.listFiles(taskId);
+      res.json(files);
+    } catch (error: any) {
+      console.error('[API] Proof file fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch proof files',
+        code: 'PROOF_FETCH_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/tasks/:taskId/proof/files/:fileId', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const fileId = parseInt(req.params.fileId);
+      if (isNaN(taskId) || isNaN(fileId)) {
+        return res.status(400).json({
+          message: 'Invalid task or file ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id && task.workerId !== req.user.id && req.user.role !== 'arbiter') {
+        return res.status(403).json({
+          message: 'Only task participants can view proof files',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const file = await proofFileStore.getFile(taskId, fileId);
+      if (!file) {
+        return res.status(404).json({
+          message: 'Proof file not found',
+          code: 'FILE_NOT_FOUND'
+        });
+      }
+
+      const content = await proofFileStore.readContent(file);
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Length', content.length.toString());
+      res.setHeader('ETag', `"${file.sha256}"`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(file.originalName)}"`);
+      res.send(content);
+    } catch (error: any) {
+      console.error('[API] Proof file download failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to read proof file',
+        code: 'PROOF_FETCH_ERROR'
+      });
+    }
+  });
+
+  app.delete('/api/tasks/:taskId/proof/files/:fileId', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const fileId = parseInt(req.params.fileId);
+      if (isNaN(taskId) || isNaN(fileId)) {
+        return res.status(400).json({
+          message: 'Invalid task or file ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.workerId !== req.user.id || task.status !== 'in_progress') {
+        return res.status(403).json({
+          message: 'Only the assigned worker can remove proof files while the task is in progress',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const file = await proofFileStore.getFile(taskId, fileId);
+      if (!file || file.uploaderId !== req.user.id) {
+        return res.status(404).json({
+          message: 'Proof file not found',
+          code: 'FILE_NOT_FOUND'
+        });
+      }
+
+      await proofFileStore.deleteFile(file);
+      res.json({ message: 'Proof file removed' });
+    } catch (error: any) {
+      console.error('[API] Proof file removal failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to remove proof file',
+        code: 'PROOF_DELETE_ERROR'
+      });
+    }
+  });
+
+  // Add task verification endpoint
+  app.post('/api/tasks/:taskId/verify', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const { verified } = req.body;
+
+      if (isNaN(taskId) || verified === undefined) {
+        return res.status(400).json({
+          message: 'Invalid parameters',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      // Get the task and verify the user can verify it
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the task creator can verify completion',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'pending_verification') {
+        return res.status(400).json({
+          message: 'Task is not pending verification',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      try {
+        // Handle task verification and escrow release in a transaction
+        const settlements: TransactionResult[] = [];
+        const result = await db.transaction(async (tx) => {
+          // Update task status based on verification. A rejected proof is kept
+          // so the worker can dispute it.
+          const [updatedTask] = await tx
+            .update(tasks)
+            .set({
+              status: verified ? 'completed' : 'in_progress',
+              proofSubmitted: verified ? task.proofSubmitted : null,
+              rejectedProof: verified ? null : task.proofSubmitted,
+              updated_at: new Date()
+            })
+            .where(eq(tasks.id, taskId))
+            .returning();
+
+          // If task is completed and has escrow, release it
+          if (verified && task.escrowTransactionId && task.workerId) {
+            console.log('[API] Releasing escrow for task:', {
+              taskId,
+              escrowTx: task.escrowTransactionId,
+              workerId: task.workerId
+            });
+
+            // The payout commits with the verification
+            const escrowResult = await blockchainService.releaseEscrow(
+              task.escrowTransactionId,
+              task.workerId.toString(),
+              undefined,
+              undefined,
+              tx
+            );
+            settlements.push(escrowResult);
+
+            console.log('[API] Escrow released successfully:', {
+              taskId,
+              result: escrowResult,
+              timestamp: new Date().toISOString()
+            });
+          }
+
+          return updatedTask;
+        });
+
+        await blockchainService.finalizeSettlements(settlements);
+
+        console.log('[API] Task verification:', {
+          taskId,
+          verified,
+          timestamp: new Date().toISOString()
+        });
+
+        res.json(result);
+      } catch (error: any) {
+        console.error('[API] Task verification transaction failed:', error);
+        // Rollback transaction and return error
+        res.status(500).json({
+          message: error.message || 'Failed to verify task',
+          code: 'VERIFICATION_ERROR'
+        });
+      }
+    } catch (error: any) {
+      console.error('[API] Task verification failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to verify task',
+        code: 'VERIFICATION_ERROR'
+      });
+    }
+  });
+
+  // Milestone Routes
+  app.post('/api/tasks/:taskId/milestones/:milestoneId/proof', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const milestoneId = parseInt(req.params.milestoneId);
+      const { proof } = req.body;
+
+      if (isNaN(taskId) || isNaN(milestoneId) || !proof) {
+        return res.status(400).json({
+          message: 'Invalid milestone or missing proof',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.workerId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the assigned worker can submit proof',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'in_progress') {
+        return res.status(400).json({
+          message: 'Task is not in progress',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const [milestone] = await db
+        .select()
+        .from(taskMilestones)
+        .where(and(eq(taskMilestones.id, milestoneId), eq(taskMilestones.taskId, taskId)))
+        .limit(1);
+
+      if (!milestone) {
+        return res.status(404).json({
+          message: 'Milestone not found',
+          code: 'MILESTONE_NOT_FOUND'
+        });
+      }
+
+      if (milestone.status !== 'pending') {
+        return res.status(400).json({
+          message: 'Milestone is not awaiting proof',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const updatedMilestone = await milestoneTracker.submitProof(task, milestone, proof);
+      res.json(updatedMilestone);
+    } catch (error: any) {
+      console.error('[API] Milestone proof submission failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to submit milestone proof',
+        code: 'PROOF_SUBMISSION_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/tasks/:taskId/milestones/:milestoneId/verify', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const milestoneId = parseInt(req.params.milestoneId);
+      const { verified } = req.body;
+
+      if (isNaN(taskId) || isNaN(milestoneId) || typeof verified !== 'boolean') {
+        return res.status(400).json({
+          message: 'Invalid parameters',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the task creator can verify milestones',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'in_progress') {
+        return res.status(400).json({
+          message: 'Task is not in progress',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const [milestone] = await db
+        .select()
+        .from(taskMilestones)
+        .where(and(eq(taskMilestones.id, milestoneId), eq(taskMilestones.taskId, taskId)))
+        .limit(1);
+
+      if (!milestone) {
+        return res.status(404).json({
+          message: 'Milestone not found',
+          code: 'MILESTONE_NOT_FOUND'
+        });
+      }
+
+      if (milestone.status !== 'submitted') {
+        return res.status(400).json({
+          message: 'Milestone is not pending verification',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const result = await milestoneTracker.verifyMilestone(task, milestone, verified);
+      res.json(result);
+    } catch (error: any) {
+      console.error('[API] Milestone verification failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to verify milestone',
+        code: 'VERIFICATION_ERROR'
+      });
+    }
+  });
+
+  // Assignment Routes for multi-worker tasks
+  app.post('/api/tasks/:taskId/assignments/:assignmentId/proof', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const assignmentId = parseInt(req.params.assignmentId);
+      const { proof } = req.body;
+
+      if (isNaN(taskId) || isNaN(assignmentId) || !proof || typeof proof !== 'string') {
+        return res.status(400).json({
+          message: 'Invalid task ID, assignment ID or proof',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      const assignment = await assignmentTracker.getAssignment(taskId, assignmentId);
+      if (!assignment) {
+        return res.status(404).json({
+          message: 'Assignment not found',
+          code: 'ASSIGNMENT_NOT_FOUND'
+        });
+      }
+
+      if (assignment.workerId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the assigned worker can submit proof',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (assignment.status !== 'in_progress' || (task.status !== 'open' && task.status !== 'in_progress')) {
+        return res.status(400).json({
+          message: 'Assignment is not in progress',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const updatedAssignment = await assignmentTracker.submitProof(task, assignment, proof);
+      res.json(updatedAssignment);
+    } catch (error: any) {
+      console.error('[API] Assignment proof submission failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to submit proof',
+        code: 'PROOF_SUBMISSION_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/tasks/:taskId/assignments/:assignmentId/verify', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const assignmentId = parseInt(req.params.assignmentId);
+      const { verified } = req.body;
+
+      if (isNaN(taskId) || isNaN(assignmentId) || typeof verified !== 'boolean') {
+        return res.status(400).json({
+          message: 'Invalid parameters',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the task creator can verify submissions',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'open' && task.status !== 'in_progress') {
+        return res.status(400).json({
+          message: 'Task is no longer active',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const assignment = await assignmentTracker.getAssignment(taskId, assignmentId);
+      if (!assignment) {
+        return res.status(404).json({
+          message: 'Assignment not found',
+          code: 'ASSIGNMENT_NOT_FOUND'
+        });
+      }
+
+      if (assignment.status !== 'pending_verification') {
+        return res.status(400).json({
+          message: 'Assignment is not pending verification',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const result = await assignmentTracker.verifyAssignment(task, assignment, verified);
+      res.json(result);
+    } catch (error: any) {
+      console.error('[API] Assignment verification failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to verify submission',
+        code: 'VERIFICATION_ERROR'
+      });
+    }
+  });
+
+  // Rating Routes
+  app.post('/api/tasks/:taskId/ratings', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const { rateeId } = req.body;
+
+      if (isNaN(taskId) || (rateeId !== undefined && !Number.isInteger(rateeId))) {
+        return res.status(400).json({
+          message: 'Invalid task ID or user ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const validation = validateRating(req.body.score, req.body.comment);
+      if ('error' in validation) {
+        return res.status(400).json({
+          message: validation.error,
+          code: 'INVALID_RATING'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.status !== 'completed' && task.status !== 'cancelled') {
+        return res.status(400).json({
+          message: 'Tasks can only be rated once they have finished',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      // The ratee can be omitted when there is only one party to rate
+      const parties = await reputationTracker.getRateableParties(task, req.user.id);
+      const ratee = rateeId === undefined && parties.length === 1
+        ? parties[0]
+        : parties.find(party => party.userId === rateeId);
+
+      if (!ratee) {
+        return res.status(403).json({
+          message: 'You did not work with this user on this task',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const rating = await reputationTracker.rate(
+        task,
+        req.user.id,
+        ratee,
+        validation.score,
+        validation.comment
+      );
+
+      if (!rating) {
+        return res.status(409).json({
+          message: 'You have already rated this user for this task',
+          code: 'ALREADY_RATED'
+        });
+      }
+
+      res.status(201).json(rating);
+    } catch (error: any) {
+      console.error('[API] Rating failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to submit rating',
+        code: 'RATING_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/tasks/:taskId/ratings', async (req: AuthRequest, res: Response) => {
+    try {
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const ratings = await reputationTracker.getTaskRatings(taskId);
+      res.json(ratings);
+    } catch (error: any) {
+      console.error('[API] Rating fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch ratings',
+        code: 'RATING_FETCH_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/users/:id/profile', async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          message: 'Invalid user ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const profile = await reputationTracker.getProfile(userId);
+      if (!profile) {
+        return res.status(404).json({
+          message: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      res.json(profile);
+    } catch (error: any) {
+      console.error('[API] Profile fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch profile',
+        code: 'PROFILE_FETCH_ERROR'
+      });
+    }
+  });
+
+  // Dispute Routes
+  app.post('/api/tasks/:taskId/dispute', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const { statement } = req.body;
+      const evidence = parseEvidence(req.body.evidence);
+
+      if (isNaN(taskId) || !statement || typeof statement !== 'string' || !evidence) {
+        return res.status(400).json({
+          message: 'Invalid task ID, statement or evidence',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.workerId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the assigned worker can dispute a rejection',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (task.status !== 'in_progress' || !task.rejectedProof) {
+        return res.status(400).json({
+          message: 'Only a rejected proof can be disputed',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const dispute = await disputeArbitration.openDispute(task, statement, evidence);
+      res.status(201).json(dispute);
+    } catch (error: any) {
+      console.error('[API] Dispute creation failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to open dispute',
+        code: 'DISPUTE_ERROR'
+      });
+    }
+  });
+
+  app.get('/api/disputes', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      // Arbiters see every dispute, everyone else only the ones they are party to
+      const userDisputes = await db.query.disputes.findMany({
+        where: req.user.role === 'arbiter'
+          ? undefined
+          : or(eq(disputes.creatorId, req.user.id), eq(disputes.workerId, req.user.id)),
+        orderBy: [desc(disputes.created_at)],
+        with: {
+          task: true,
+          creator: { columns: { id: true, username: true } },
+          worker: { columns: { id: true, username: true } }
+        }
+      });
+
+      res.json(userDisputes);
+    } catch (error: any) {
+      console.error('[API] Dispute fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch disputes',
+        code: 'DISPUTE_FETCH_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/disputes/:disputeId/statement', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const disputeId = parseInt(req.params.disputeId);
+      const { statement } = req.body;
+      const evidence = parseEvidence(req.body.evidence);
+
+      if (isNaN(disputeId) || !statement || typeof statement !== 'string' || !evidence) {
+        return res.status(400).json({
+          message: 'Invalid dispute ID, statement or evidence',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [dispute] = await db
+        .select()
+        .from(disputes)
+        .where(eq(disputes.id, disputeId))
+        .limit(1);
+
+      if (!dispute) {
+        return res.status(404).json({
+          message: 'Dispute not found',
+          code: 'DISPUTE_NOT_FOUND'
+        });
+      }
+
+      const party = dispute.creatorId === req.user.id
+        ? 'creator'
+        : dispute.workerId === req.user.id ? 'worker' : null;
+
+      if (!party) {
+        return res.status(403).json({
+          message: 'Only parties to the dispute can submit statements',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      if (dispute.status !== 'open') {
+        return res.status(400).json({
+          message: 'Dispute has already been resolved',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const updatedDispute = await disputeArbitration.addStatement(dispute, party, statement, evidence);
+      res.json(updatedDispute);
+    } catch (error: any) {
+      console.error('[API] Dispute statement failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to submit statement',
+        code: 'DISPUTE_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/disputes/:disputeId/resolve', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      if (req.user.role !== 'arbiter') {
+        return res.status(403).json({
+          message: 'Only arbiters can resolve disputes',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const disputeId = parseInt(req.params.disputeId);
+      const { workerShare, notes } = req.body;
+
+      if (isNaN(disputeId) || !Number.isInteger(workerShare) || workerShare < 0) {
+        return res.status(400).json({
+          message: 'Invalid dispute ID or worker share',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [dispute] = await db
+        .select()
+        .from(disputes)
+        .where(eq(disputes.id, disputeId))
+        .limit(1);
+
+      if (!dispute) {
+        return res.status(404).json({
+          message: 'Dispute not found',
+          code: 'DISPUTE_NOT_FOUND'
+        });
+      }
+
+      if (dispute.status !== 'open') {
+        return res.status(400).json({
+          message: 'Dispute has already been resolved',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      if (dispute.creatorId === req.user.id || dispute.workerId === req.user.id) {
+        return res.status(403).json({
+          message: 'Arbiters cannot rule on their own disputes',
+          code: 'INVALID_OPERATION'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, dispute.taskId))
+        .limit(1);
+
+      if (!task || task.status !== 'disputed') {
+        return res.status(400).json({
+          message: 'Disputed task not found',
+          code: 'INVALID_STATUS'
+        });
+      }
+
+      const resolvedDispute = await disputeArbitration.resolveDispute(
+        dispute,
+        task,
+        req.user.id,
+        workerShare,
+        typeof notes === 'string' ? notes : undefined
+      );
+
+      res.json(resolvedDispute);
+    } catch (error: any) {
+      console.error('[API] Dispute resolution failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to resolve dispute',
+        code: 'DISPUTE_RESOLUTION_ERROR'
+      });
+    }
+  });
+
+  // Add computational task endpoints
+  app.post('/api/tasks/:taskId/distribute', async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      // Get the task and verify ownership
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only task creator can distribute work',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      const success = await computationalTaskAgent.distributeWork(taskId);
+      if (!success) {
+        return res.status(400).json({
+          message: 'Failed to distribute work units',
+          code: 'DISTRIBUTION_FAILED'
+        });
+      }
+
+      res.json({ message: 'Work units distributed successfully' });
+    } catch (error: any) {
+      console.error('[API] Work distribution failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to distribute work units',
+        code: 'DISTRIBUTION_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/tasks/:taskId/claim', async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const { tokenId } = req.body;
+
+      if (isNaN(taskId) || !tokenId) {
+        return res.status(400).json({
+          message: 'Invalid parameters',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      const [token] = await db
+        .select({ owner: tokens.owner })
+        .from(tokens)
+        .where(eq(tokens.id, tokenId))
+        .limit(1);
+
+      if (!token || token.owner !== req.user.username) {
+        return res.status(403).json({
+          message: 'You can only claim work with your own tokens',
+          code: 'TOKEN_NOT_OWNED'
+        });
+      }
+
+      const profile = await workerRegistry.getProfile(req.user.id);
+      if (!meetsRequirements(profile, task.computationalMetadata?.resourceRequirements)) {
+        return res.status(403).json({
+          message: profile
+            ? 'Your worker profile does not meet the resource requirements of this task'
+            : 'Register an active worker profile before claiming work',
+          code: 'WORKER_NOT_ELIGIBLE'
+        });
+      }
+
+      const workUnit = await computationalTaskAgent.claimWorkUnit(
+        taskId,
+        tokenId,
+        req.user.id
+      );
+
+      if (!workUnit) {
+        return res.status(400).json({
+          message: 'No available work units for this token',
+          code: 'NO_WORK_AVAILABLE'
+        });
+      }
+
+      res.json(workUnit);
+    } catch (error: any) {
+      console.error('[API] Work unit claim failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to claim work unit',
+        code: 'CLAIM_ERROR'
+      });
+    }
+  });
+
+  app.post('/api/tasks/:taskId/units/:unitId/submit', async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const unitId = parseInt(req.params.unitId);
+      const { result } = req.body;
+
+      if (isNaN(taskId) || isNaN(unitId) || result === undefined) {
+        return res.status(400).json({
+          message: 'Invalid parameters',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const submission = await computationalTaskAgent.submitWorkResult(
+        taskId,
+        unitId,
+        req.user.id,
+        result
+      );
+
+      if (!submission) {
+        return res.status(400).json({
+          message: 'Failed to submit work result',
+          code: 'SUBMISSION_FAILED'
+        });
+      }
+
+      if (submission.outcome === 'rejected') {
+        return res.status(422).json({
+          message: 'Work result failed validation',
+          code: 'VALIDATION_FAILED',
+          unit: submission.unit
+        });
+      }
+
+      res.json({
+        message: 'Work result submitted successfully',
+        outcome: submission.outcome,
+        unit: submission.unit
+      });
+    } catch (error: any) {
+      console.error('[API] Work result submission failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to submit work result',
+        code: 'SUBMISSION_ERROR'
+      });
+    }
+  });
+
+  // Workers renew their claim on a unit while they compute it
+  app.post('/api/tasks/:taskId/units/:unitId/heartbeat', async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      const unitId = parseInt(req.params.unitId);
+
+      if (isNaN(taskId) || isNaN(unitId)) {
+        return res.status(400).json({
+          message: 'Invalid parameters',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const unit = await computationalTaskAgent.heartbeat(taskId, unitId, req.user.id);
+      if (!unit) {
+        return res.status(409).json({
+          message: 'You no longer hold a lease on this work unit',
+          code: 'LEASE_EXPIRED'
+        });
+      }
+
+      res.json({ unitId: unit.id, leaseExpiresAt: unit.leaseExpiresAt });
+    } catch (error: any) {
+      console.error('[API] Work unit heartbeat failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to renew work unit lease',
+        code: 'HEARTBEAT_ERROR'
+      });
+    }
+  });
+
+  // Results that disagreed with the replica consensus; creator only
+  app.get('/api/tasks/:taskId/units/flagged', async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
+        return res.status(404).json({
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
+        });
+      }
+
+      if (task.creatorId !== req.user.id) {
+        return res.status(403).json({
+          message: 'Only the task creator can review flagged results',
+          code: 'UNAUTHORIZED'
+        });
+      }
+
+      res.json(await computationalTaskAgent.getFlaggedResults(taskId));
+    } catch (error: any) {
+      console.error('[API] Flagged result fetch failed:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to fetch flagged results',
+        code: 'FLAGGED_FETCH_ERROR'
+      });
+    }
+  });
+
+  // Dataset upload for computational tasks; split into one shard per work unit
+  app.post('/api/tasks/:taskId/dataset', (req: AuthRequest, res: Response) => {
+    // Checked before multer so anonymous uploads are never buffered
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({
+        message: 'Authentication required',
+        code: 'AUTH_REQUIRED'
+      });
+    }
+
+    datasetUpload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError) {
+          return res.status(400).json({
+            message: uploadError instanceof multer.MulterError
+              ? `Upload rejected: ${uploadError.message}`
+              : 'Invalid upload',
+            code: 'INVALID_UPLOAD'
+          });
+        }
+
+        const taskId = parseInt(req.params.taskId);
+        const file = req.file;
+        if (isNaN(taskId) || !file) {
+          return res.status(400).json({
+            message: 'Invalid task ID or no file uploaded',
+            code: 'INVALID_PARAMETERS'
+          });
+        }
+
+        // The format defaults to the file extension
+        const extension = /\.([a-z]+)$/i.exec(file.originalname)?.[1]?.toLowerCase();
+        const format = req.body.format || (extension === 'json' ? 'ranges' : extension);
+        if (!(DATASET_FORMATS as readonly string[]).includes(format)) {
+          return res.status(400).json({
+            message: `Dataset format must be one of ${DATASET_FORMATS.join(', ')}`,
+            code: 'INVALID_PARAMETERS'
+          });
+        }
+
+        const [task] = await db
+          .select()
+          .from(tasks)
+          .where(eq(tasks.id, taskId))
+          .limit(1);
+
+        if (!task) {
+          return res.status(404).json({
+            message: 'Task not found',
+            code: 'TASK_NOT_FOUND'
+          });
+        }
+
+        if (task.creatorId !== user.id) {
+          return res.status(403).json({
+            message: 'Only the task creator can upload a dataset',
+            code: 'UNAUTHORIZED'
+          });
+        }
+
+        if (await datasetStore.getDataset(taskId)) {
+          return res.status(409).json({
+            message: 'This task already has a dataset',
+            code: 'DATASET_EXISTS'
+          });
+        }
 
-      const balance = await balanceTracker.getBalance(address);
-      console.log('[API] Balance result:', { address, balance });
+        const result = await datasetStore.saveDataset(task, format as DatasetFormat, file.originalname, file.buffer);
+        if ('error' in result) {
+          return res.status(400).json({
+            message: result.error,
+            code: 'INVALID_DATASET'
+          });
+        }
 
-      res.json({ balance });
-    } catch (error: any) {
-      console.error('[API] Balance fetch error:', error);
-      res.status(500).json({
-        message: 'Failed to fetch balance',
-        error: error.message
-      });
-    }
+        res.status(201).json(result.dataset);
+      } catch (error: any) {
+        console.error('[API] Dataset upload failed:', error);
+        res.status(500).json({
+          message: error.message || 'Failed to upload dataset',
+          code: 'DATASET_UPLOAD_ERROR'
+        });
+      }
+    });
   });
 
-  app.get('/api/blockchain/tokens/:username', async (req: Request, res: Response) => {
+  app.get('/api/tasks/:taskId/dataset', async (req: AuthRequest, res: Response) => {
     try {
-      const { username } = req.params;
-      console.log('[API] Fetching tokens for:', username);
+      if (!req.user) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
 
-      const tokens = await blockchainService.getTokens(username);
-      console.log('[API] Tokens result:', { username, count: tokens.length });
+      const taskId = parseInt(req.params.taskId);
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          message: 'Invalid task ID',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
 
-      res.json(tokens);
+      const dataset = await datasetStore.getDataset(taskId);
+      if (!dataset) {
+        return res.status(404).json({
+          message: 'This task has no dataset',
+          code: 'DATASET_NOT_FOUND'
+        });
+      }
+
+      const shards = await datasetStore.getShards(taskId);
+      res.json({
+        ...dataset,
+        storageKey: undefined,
+        shards: shards.map(shard => ({
+          unitIndex: shard.unitIndex,
+          sha256: shard.sha256,
+          size: shard.size,
+          records: shard.recordCount
+        }))
+      });
     } catch (error: any) {
-      console.error('[API] Tokens fetch error:', error);
+      console.error('[API] Dataset fetch failed:', error);
       res.status(500).json({
-        message: 'Failed to fetch tokens',
-        error: error.message
+        message: error.message || 'Failed to fetch dataset',
+        code: 'DATASET_FETCH_ERROR'
       });
     }
   });
 
-  // Add proof submission endpoint
-  app.post('/api/tasks/:taskId/proof', async (req: AuthRequest, res: Response) => {
+  app.get('/api/tasks/:taskId/shards/:unitIndex', async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({
@@ -467,72 +3037,57 @@ export function registerRoutes(app: Express): Server {
       }
 
       const taskId = parseInt(req.params.taskId);
-      const { proof } = req.body;
-
-      if (isNaN(taskId) || !proof) {
+      const unitIndex = parseInt(req.params.unitIndex);
+      if (isNaN(taskId) || isNaN(unitIndex)) {
         return res.status(400).json({
-          message: 'Invalid task ID or missing proof',
+          message: 'Invalid task ID or unit index',
           code: 'INVALID_PARAMETERS'
         });
       }
 
-      // Get the task and verify the user can submit proof
       const [task] = await db
         .select()
         .from(tasks)
         .where(eq(tasks.id, taskId))
         .limit(1);
 
-      if (!task) {
+      const [dataset, shard] = await Promise.all([
+        datasetStore.getDataset(taskId),
+        datasetStore.getShard(taskId, unitIndex)
+      ]);
+
+      if (!task || !dataset || !shard) {
         return res.status(404).json({
-          message: 'Task not found',
-          code: 'TASK_NOT_FOUND'
+          message: 'Shard not found',
+          code: 'SHARD_NOT_FOUND'
         });
       }
 
-      if (task.workerId !== req.user.id) {
+      if (!(await datasetStore.canReadShard(task, unitIndex, req.user.id))) {
         return res.status(403).json({
-          message: 'Only the assigned worker can submit proof',
+          message: 'Claim this work unit before downloading its input',
           code: 'UNAUTHORIZED'
         });
       }
 
-      if (task.status !== 'in_progress') {
-        return res.status(400).json({
-          message: 'Task is not in progress',
-          code: 'INVALID_STATUS'
-        });
-      }
-
-      // Update task with proof and change status
-      const [updatedTask] = await db
-        .update(tasks)
-        .set({
-          status: 'pending_verification',
-          proofSubmitted: proof,
-          updated_at: new Date()
-        })
-        .where(eq(tasks.id, taskId))
-        .returning();
-
-      console.log('[API] Proof submitted:', {
-        taskId,
-        workerId: req.user.id,
-        timestamp: new Date().toISOString()
-      });
-
-      res.json(updatedTask);
+      const content = await datasetStore.readShard(shard);
+      res.setHeader('Content-Type', getFormatContentType(dataset.format));
+      res.setHeader('Content-Length', content.length.toString());
+      res.setHeader('ETag', `"${shard.sha256}"`);
+      res.setHeader('X-Content-SHA256', shard.sha256);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(content);
     } catch (error: any) {
-      console.error('[API] Proof submission failed:', error);
+      console.error('[API] Shard download failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to submit proof',
-        code: 'PROOF_SUBMISSION_ERROR'
+        message: error.message || 'Failed to read shard',
+        code: 'SHARD_FETCH_ERROR'
       });
     }
   });
 
-  // Add task verification endpoint
-  app.post('/api/tasks/:taskId/verify', async (req: AuthRequest, res: Response) => {
+  // Verified unit results merged into the task's declared output format; creator only
+  app.get('/api/tasks/:taskId/output', async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({
@@ -542,16 +3097,13 @@ export function registerRoutes(app: Express): Server {
       }
 
       const taskId = parseInt(req.params.taskId);
-      const { verified } = req.body;
-
-      if (isNaN(taskId) || verified === undefined) {
+      if (isNaN(taskId)) {
         return res.status(400).json({
-          message: 'Invalid parameters',
+          message: 'Invalid task ID',
           code: 'INVALID_PARAMETERS'
         });
       }
 
-      // Get the task and verify the user can verify it
       const [task] = await db
         .select()
         .from(tasks)
@@ -567,81 +3119,34 @@ export function registerRoutes(app: Express): Server {
 
       if (task.creatorId !== req.user.id) {
         return res.status(403).json({
-          message: 'Only the task creator can verify completion',
+          message: 'Only the task creator can download the output',
           code: 'UNAUTHORIZED'
         });
       }
 
-      if (task.status !== 'pending_verification') {
-        return res.status(400).json({
-          message: 'Task is not pending verification',
-          code: 'INVALID_STATUS'
+      const output = await datasetStore.buildOutput(task);
+      if ('error' in output) {
+        return res.status(409).json({
+          message: output.error,
+          code: 'OUTPUT_INCOMPLETE'
         });
       }
 
-      try {
-        // Handle task verification and escrow release in a transaction
-        const result = await db.transaction(async (tx) => {
-          // Update task status based on verification
-          const [updatedTask] = await tx
-            .update(tasks)
-            .set({
-              status: verified ? 'completed' : 'in_progress',
-              proofSubmitted: verified ? task.proofSubmitted : null,
-              updated_at: new Date()
-            })
-            .where(eq(tasks.id, taskId))
-            .returning();
-
-          // If task is completed and has escrow, release it
-          if (verified && task.escrowTransactionId && task.workerId) {
-            console.log('[API] Releasing escrow for task:', {
-              taskId,
-              escrowTx: task.escrowTransactionId,
-              workerId: task.workerId
-            });
-
-            const escrowResult = await blockchainService.releaseEscrow(
-              task.escrowTransactionId,
-              task.workerId.toString()
-            );
-
-            console.log('[API] Escrow released successfully:', {
-              taskId,
-              result: escrowResult,
-              timestamp: new Date().toISOString()
-            });
-          }
-
-          return updatedTask;
-        });
-
-        console.log('[API] Task verification:', {
-          taskId,
-          verified,
-          timestamp: new Date().toISOString()
-        });
-
-        res.json(result);
-      } catch (error: any) {
-        console.error('[API] Task verification transaction failed:', error);
-        // Rollback transaction and return error
-        res.status(500).json({
-          message: error.message || 'Failed to verify task',
-          code: 'VERIFICATION_ERROR'
-        });
-      }
+      res.setHeader('Content-Type', getFormatContentType(output.format));
+      res.setHeader('Content-Length', output.content.length.toString());
+      res.setHeader('Content-Disposition', `attachment; filename="task-${taskId}-output.${output.format}"`);
+      res.send(output.content);
     } catch (error: any) {
-      console.error('[API] Task verification failed:', error);
+      console.error('[API] Output build failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to verify task',
-        code: 'VERIFICATION_ERROR'
+        message: error.message || 'Failed to build output',
+        code: 'OUTPUT_ERROR'
       });
     }
   });
 
-  // Add computational task endpoints
-  app.post('/api/tasks/:taskId/distribute', async (req: AuthRequest, res) => {
+  // Validation script output for each submitted result; creator only
+  app.get('/api/tasks/:taskId/validation-runs', async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({
@@ -651,14 +3156,14 @@ export function registerRoutes(app: Express): Server {
       }
 
       const taskId = parseInt(req.params.taskId);
-      if (isNaN(taskId)) {
+      const unitId = req.query.unitId ? parseInt(req.query.unitId as string) : undefined;
+      if (isNaN(taskId) || (unitId !== undefined && isNaN(unitId))) {
         return res.status(400).json({
-          message: 'Invalid task ID',
+          message: 'Invalid parameters',
           code: 'INVALID_PARAMETERS'
         });
       }
 
-      // Get the task and verify ownership
       const [task] = await db
         .select()
         .from(tasks)
@@ -674,30 +3179,24 @@ export function registerRoutes(app: Express): Server {
 
       if (task.creatorId !== req.user.id) {
         return res.status(403).json({
-          message: 'Only task creator can distribute work',
+          message: 'Only the task creator can view validation logs',
           code: 'UNAUTHORIZED'
         });
       }
 
-      const success = await computationalTaskAgent.distributeWork(taskId);
-      if (!success) {
-        return res.status(400).json({
-          message: 'Failed to distribute work units',
-          code: 'DISTRIBUTION_FAILED'
-        });
-      }
-
-      res.json({ message: 'Work units distributed successfully' });
+      res.json(await computationalTaskAgent.getValidationRuns(taskId, unitId));
     } catch (error: any) {
-      console.error('[API] Work distribution failed:', error);
+      console.error('[API] Validation run fetch failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to distribute work units',
-        code: 'DISTRIBUTION_ERROR'
+        message: error.message || 'Failed to fetch validation runs',
+        code: 'VALIDATION_FETCH_ERROR'
       });
     }
   });
 
-  app.post('/api/tasks/:taskId/claim', async (req: AuthRequest, res) => {
+  // The creator sees every worker's credit; workers see their own, including
+  // the units carried towards their next token
+  app.get('/api/tasks/:taskId/earnings', async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({
@@ -707,83 +3206,80 @@ export function registerRoutes(app: Express): Server {
       }
 
       const taskId = parseInt(req.params.taskId);
-      const { tokenId } = req.body;
-
-      if (isNaN(taskId) || !tokenId) {
+      if (isNaN(taskId)) {
         return res.status(400).json({
-          message: 'Invalid parameters',
-          code: 'INVALID_PARAMETERS'
+          message: 'Invalid task ID',
+          code: 'INVALID_TASK_ID'
         });
       }
 
-      const workUnit = await computationalTaskAgent.claimWorkUnit(
-        taskId,
-        tokenId,
-        req.user.id
-      );
+      const [task] = await db
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
 
-      if (!workUnit) {
-        return res.status(400).json({
-          message: 'No available work units for this token',
-          code: 'NO_WORK_AVAILABLE'
+      if (!task || task.type !== 'computational') {
+        return res.status(404).json({
+          message: 'Computational task not found',
+          code: 'TASK_NOT_FOUND'
         });
       }
 
-      res.json(workUnit);
+      const perToken = task.workUnitsPerToken ?? 1;
+      if (task.creatorId === req.user.id) {
+        return res.json({
+          workUnitsPerToken: perToken,
+          credits: await unitPayouts.getCredits(taskId)
+        });
+      }
+
+      const credit = await unitPayouts.getCredit(taskId, req.user.id);
+      const creditedUnits = credit?.creditedUnits ?? 0;
+      res.json({
+        workUnitsPerToken: perToken,
+        creditedUnits,
+        paidTokens: credit?.paidTokens ?? 0,
+        unitsTowardsNextToken: creditedUnits % perToken
+      });
     } catch (error: any) {
-      console.error('[API] Work unit claim failed:', error);
+      console.error('[API] Earnings fetch failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to claim work unit',
-        code: 'CLAIM_ERROR'
+        message: error.message || 'Failed to fetch earnings',
+        code: 'EARNINGS_FETCH_ERROR'
       });
     }
   });
 
-  app.post('/api/tasks/:taskId/units/:unitId/submit', async (req: AuthRequest, res) => {
+  app.get('/api/tasks/:taskId/progress', async (req: Request, res: Response) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        });
-      }
-
       const taskId = parseInt(req.params.taskId);
-      const unitId = parseInt(req.params.unitId);
-      const { result } = req.body;
-
-      if (isNaN(taskId) || isNaN(unitId) || !result) {
+      if (isNaN(taskId)) {
         return res.status(400).json({
-          message: 'Invalid parameters',
+          message: 'Invalid task ID',
           code: 'INVALID_PARAMETERS'
         });
       }
 
-      const success = await computationalTaskAgent.submitWorkResult(
-        taskId,
-        unitId,
-        req.user.id,
-        result
-      );
-
-      if (!success) {
-        return res.status(400).json({
-          message: 'Failed to submit work result',
-          code: 'SUBMISSION_FAILED'
+      const progress = await computationalTaskAgent.getTaskProgress(taskId);
+      if (!progress) {
+        return res.status(404).json({
+          message: 'Task progress not found',
+          code: 'PROGRESS_NOT_FOUND'
         });
       }
 
-      res.json({ message: 'Work result submitted successfully' });
+      res.json(progress);
     } catch (error: any) {
-      console.error('[API] Work result submission failed:', error);
+      console.error('[API] Progress fetch failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to submit work result',
-        code: 'SUBMISSION_ERROR'
+        message: error.message || 'Failed to fetch progress',
+        code: 'PROGRESS_ERROR'
       });
     }
   });
 
-  app.get('/api/tasks/:taskId/progress', async (req: Request, res: Response) => {
+  app.get('/api/tasks/:taskId/progress/activity', async (req: Request, res: Response) => {
     try {
       const taskId = parseInt(req.params.taskId);
       if (isNaN(taskId)) {
@@ -793,19 +3289,24 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
-      const progress = await computationalTaskAgent.getTaskProgress(taskId);
-      if (!progress) {
+      const [task] = await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(eq(tasks.id, taskId))
+        .limit(1);
+
+      if (!task) {
         return res.status(404).json({
-          message: 'Task progress not found',
-          code: 'PROGRESS_NOT_FOUND'
+          message: 'Task not found',
+          code: 'TASK_NOT_FOUND'
         });
       }
 
-      res.json(progress);
+      res.json(await computationalTaskAgent.getTaskActivity(taskId));
     } catch (error: any) {
-      console.error('[API] Progress fetch failed:', error);
+      console.error('[API] Activity fetch failed:', error);
       res.status(500).json({
-        message: error.message || 'Failed to fetch progress',
+        message: error.message || 'Failed to fetch activity',
         code: 'PROGRESS_ERROR'
       });
     }
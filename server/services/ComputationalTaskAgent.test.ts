@@ -0,0 +1,128 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@db';
+import * as schema from '@db/schema';
+import { computationalTaskAgent as agent } from './ComputationalTaskAgent';
+
+describe('ComputationalTaskAgent.claimWorkUnit', () => {
+  let creatorId: number;
+
+  // Each test's workers have more memory than the earlier tests' and its task
+  // requires that much, so only its own workers' tokens receive the units
+  async function createWorker(name: string, tokenCount: number, memoryMb: number) {
+    const { users, workerProfiles, tokens } = schema;
+    const [worker] = await db
+      .insert(users)
+      .values({ username: `claim-test-${name}`, password: 'x' })
+      .returning();
+
+    await db.insert(workerProfiles).values({ userId: worker.id, memoryMb, cpuCores: 1 });
+
+    const ids = Array.from({ length: tokenCount }, (_, i) => `claim-test-${name}-${i}`);
+    await db.insert(tokens).values(ids.map(id => ({
+      id,
+      creator: worker.username,
+      owner: worker.username,
+      mintedInBlock: 'claim-test',
+    })));
+
+    return { id: worker.id, tokenIds: ids };
+  }
+
+  async function createTask(
+    workUnitsTotal: number,
+    workUnitsPerToken: number,
+    replicationFactor: number,
+    minMemory: number
+  ) {
+    const [task] = await db
+      .insert(schema.tasks)
+      .values({
+        title: 'Claim test',
+        description: 'Concurrency test task',
+        type: 'computational',
+        reward: 1,
+        creatorId,
+        proofRequired: 'none',
+        workUnitsTotal,
+        workUnitsPerToken,
+        replicationFactor,
+        computationalMetadata: {
+          inputFormat: 'json',
+          outputFormat: 'json',
+          estimatedTimePerUnit: 60,
+          distributionStrategy: 'sequential',
+          resourceRequirements: { minMemory, minCpu: 1, gpuRequired: false },
+        },
+      })
+      .returning();
+
+    assert.equal(await agent.distributeWork(task.id), true);
+    return task;
+  }
+
+  before(async () => {
+    const [creator] = await db
+      .insert(schema.users)
+      .values({ username: 'claim-test-creator', password: 'x' })
+      .returning();
+    creatorId = creator.id;
+  });
+
+  it('hands every unit of a token out exactly once under parallel claims', async () => {
+    const worker = await createWorker('single', 1, 1_000);
+    const task = await createTask(25, 25, 1, 1_000);
+
+    const claims = await Promise.all(
+      Array.from({ length: 40 }, () => agent.claimWorkUnit(task.id, worker.tokenIds[0], worker.id))
+    );
+    const claimed = claims.filter(unit => unit !== null);
+
+    assert.equal(claimed.length, 25);
+    assert.equal(new Set(claimed.map(unit => unit!.id)).size, 25);
+    assert.equal(new Set(claimed.map(unit => unit!.unitIndex)).size, 25);
+  });
+
+  it('gives each replica of a unit to a different worker', async () => {
+    const workers = await Promise.all(['a', 'b', 'c'].map(name => createWorker(`replica-${name}`, 1, 2_000)));
+    const task = await createTask(6, 2, 3, 2_000);
+
+    const claims = await Promise.all(workers.flatMap(worker =>
+      Array.from({ length: 10 }, () => agent.claimWorkUnit(task.id, worker.tokenIds[0], worker.id))
+    ));
+    const claimed = claims.filter(unit => unit !== null);
+
+    assert.equal(claimed.length, 18);
+    for (let unitIndex = 0; unitIndex < 6; unitIndex++) {
+      const holders = claimed
+        .filter(unit => unit!.unitIndex === unitIndex)
+        .map(unit => unit!.workerId);
+      assert.equal(new Set(holders).size, 3, `unit ${unitIndex} was held by ${holders.join(', ')}`);
+    }
+  });
+
+  it('never lets two claims take the same unit across many workers', async () => {
+    const workers = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => createWorker(`crowd-${i}`, 2, 3_000))
+    );
+    const task = await createTask(50, 5, 1, 3_000);
+
+    const claims = await Promise.all(workers.flatMap(worker =>
+      worker.tokenIds.flatMap(tokenId =>
+        Array.from({ length: 8 }, () => agent.claimWorkUnit(task.id, tokenId, worker.id))
+      )
+    ));
+    const claimed = claims.filter(unit => unit !== null);
+
+    assert.equal(claimed.length, 50);
+    assert.equal(new Set(claimed.map(unit => unit!.id)).size, 50);
+
+    const { workUnits } = schema;
+    const pending = await db
+      .select({ id: workUnits.id })
+      .from(workUnits)
+      .where(and(eq(workUnits.taskId, task.id), eq(workUnits.status, 'pending')));
+    assert.equal(pending.length, 0);
+  });
+});
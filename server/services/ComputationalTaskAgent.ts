@@ -1,28 +1,143 @@
 import { db } from '@db';
-import { tasks, tokens } from '@db/schema';
-import { eq } from 'drizzle-orm';
+import {
+  tasks,
+  tokens,
+  users,
+  validationRuns,
+  workUnits,
+  type DatasetShard,
+  type Task,
+  type WorkUnit
+} from '@db/schema';
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, lt, notExists, notInArray, or, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import type { DbTransaction } from '../blockchain';
 import { log } from '../vite';
+import { broadcastToChannel, broadcastToUser } from '../ws';
+import {
+  DEFAULT_CONSENSUS,
+  findConsensus,
+  getQuorum,
+  hashResult,
+  resultsAgree,
+  validateConsensusConfig
+} from './resultConsensus';
+import { validationSandbox } from './validationSandbox';
+import { datasetStore, OUTPUT_FORMATS } from './datasetStore';
+import { validateResourceRequirements, workerRegistry } from './workerRegistry';
+import { unitPayouts } from './unitPayouts';
+import {
+  LEASE_DURATION,
+  MAX_ATTEMPTS,
+  type AvailableWork,
+  type ComputationalMetadata,
+  type SubmissionOutcome,
+  type TaskActivity,
+  type WorkProgress,
+  type WorkUnitEventType,
+  type WorkUnitInput
+} from './workProtocol';
 
-interface WorkUnit {
-  id: number;
-  tokenId: string;
-  workerId: number;
-  status: 'pending' | 'in_progress' | 'completed' | 'verified';
-  input: any;
-  result?: any;
-  startedAt?: string;
-  completedAt?: string;
-  verifiedAt?: string;
+const LEASE_SWEEP_INTERVAL = 30000; // 30 seconds
+
+const MAX_WORK_UNITS = 10000;
+const MAX_VALIDATION_SCRIPT_LENGTH = 20000;
+const MAX_KERNEL_SOURCE_LENGTH = 100000;
+const MAX_KERNEL_WASM_LENGTH = 4 * 1024 * 1024; // base64 characters
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+const DISTRIBUTION_STRATEGIES = ['sequential', 'random', 'priority'];
+
+// Status for a unit going back to the queue: failed once its attempts are used up
+const requeueStatus = sql`case when ${workUnits.attempts} >= ${MAX_ATTEMPTS} then 'failed' else 'pending' end`;
+
+export interface ComputationalConfig {
+  workUnitsTotal: number;
+  workUnitsPerToken: number;
+  replicationFactor: number;
+  computationalMetadata: ComputationalMetadata;
 }
 
-interface WorkProgress {
-  total: number;
-  completed: number;
-  verified: number;
+// Work configuration supplied when a computational task is created
+export function validateComputationalConfig(body: {
+  workUnitsTotal?: unknown;
+  workUnitsPerToken?: unknown;
+  replicationFactor?: unknown;
+  computationalMetadata?: unknown;
+}): ComputationalConfig | { error: string } {
+  const { workUnitsTotal, workUnitsPerToken } = body;
+  if (!Number.isInteger(workUnitsTotal) || (workUnitsTotal as number) < 1 || (workUnitsTotal as number) > MAX_WORK_UNITS) {
+    return { error: `Computational tasks need between 1 and ${MAX_WORK_UNITS} work units` };
+  }
+  if (!Number.isInteger(workUnitsPerToken) || (workUnitsPerToken as number) < 1) {
+    return { error: 'Work units per token must be a positive whole number' };
+  }
+
+  const metadata = (body.computationalMetadata ?? {}) as Partial<ComputationalMetadata>;
+  if (typeof metadata !== 'object') {
+    return { error: 'Computational metadata must be an object' };
+  }
+
+  const distributionStrategy = metadata.distributionStrategy ?? 'sequential';
+  if (!DISTRIBUTION_STRATEGIES.includes(distributionStrategy)) {
+    return { error: `Distribution strategy must be one of ${DISTRIBUTION_STRATEGIES.join(', ')}` };
+  }
+  const outputFormat = metadata.outputFormat ?? 'json';
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(outputFormat)) {
+    return { error: `Output format must be one of ${OUTPUT_FORMATS.join(', ')}` };
+  }
+  if (metadata.estimatedTimePerUnit !== undefined &&
+    (typeof metadata.estimatedTimePerUnit !== 'number' || metadata.estimatedTimePerUnit <= 0)) {
+    return { error: 'Estimated time per unit must be a positive number of seconds' };
+  }
+  if (metadata.validationScript !== undefined &&
+    (typeof metadata.validationScript !== 'string' || metadata.validationScript.length > MAX_VALIDATION_SCRIPT_LENGTH)) {
+    return { error: `Validation scripts must be text of at most ${MAX_VALIDATION_SCRIPT_LENGTH} characters` };
+  }
+
+  const { kernel } = metadata;
+  if (kernel !== undefined) {
+    if (!kernel || typeof kernel !== 'object' || typeof kernel.source !== 'string' || !kernel.source.trim() ||
+      kernel.source.length > MAX_KERNEL_SOURCE_LENGTH) {
+      return { error: `Kernels need source text of at most ${MAX_KERNEL_SOURCE_LENGTH} characters` };
+    }
+    if (kernel.wasm !== undefined && (typeof kernel.wasm !== 'string' ||
+      kernel.wasm.length > MAX_KERNEL_WASM_LENGTH || !BASE64_PATTERN.test(kernel.wasm))) {
+      return { error: 'Kernel WebAssembly must be a base64 module of at most 4 MB' };
+    }
+  }
+
+  const resourceRequirements = validateResourceRequirements(metadata.resourceRequirements);
+  if (resourceRequirements && 'error' in resourceRequirements) {
+    return resourceRequirements;
+  }
+
+  const consensus = validateConsensusConfig(body.replicationFactor, metadata.consensus);
+  if ('error' in consensus) {
+    return consensus;
+  }
+
+  return {
+    workUnitsTotal: workUnitsTotal as number,
+    workUnitsPerToken: workUnitsPerToken as number,
+    replicationFactor: consensus.replicationFactor,
+    computationalMetadata: {
+      framework: metadata.framework,
+      inputFormat: typeof metadata.inputFormat === 'string' ? metadata.inputFormat : 'json',
+      outputFormat,
+      estimatedTimePerUnit: metadata.estimatedTimePerUnit ?? 60,
+      resourceRequirements,
+      validationScript: metadata.validationScript,
+      kernel: kernel && { source: kernel.source, wasm: kernel.wasm },
+      distributionStrategy,
+      consensus: consensus.consensus,
+    },
+  };
 }
 
 export class ComputationalTaskAgent {
   private static instance: ComputationalTaskAgent;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private isSweeping = false;
 
   private constructor() {
     log('[ComputationalTaskAgent] Initializing agent');
@@ -35,6 +150,125 @@ export class ComputationalTaskAgent {
     return ComputationalTaskAgent.instance;
   }
 
+  startLeaseSweeper() {
+    if (this.sweepInterval) return;
+    this.sweepInterval = setInterval(() => this.sweepExpiredLeases(), LEASE_SWEEP_INTERVAL);
+    console.log('[ComputationalTaskAgent] Lease sweeper started:', {
+      leaseDuration: LEASE_DURATION,
+      maxAttempts: MAX_ATTEMPTS,
+      interval: LEASE_SWEEP_INTERVAL
+    });
+  }
+
+  stopLeaseSweeper() {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  // Copies units still stored in the legacy tasks.work_unit_results column
+  // into work_units and clears the column. In-progress units come over
+  // without a lease, so the sweeper requeues them. Safe to run repeatedly.
+  async migrateLegacyWorkUnits(): Promise<void> {
+    const migrated = await db.transaction(async (tx) => {
+      const inserted = await tx.execute(sql`
+        insert into ${workUnits}
+          (task_id, unit_index, replica, token_id, worker_id, status, input, result, started_at, completed_at, verified_at)
+        select
+          t.id,
+          u.id,
+          0,
+          u."tokenId",
+          nullif(u."workerId", 0),
+          u.status,
+          u.input,
+          u.result,
+          u."startedAt" at time zone 'UTC',
+          u."completedAt" at time zone 'UTC',
+          u."verifiedAt" at time zone 'UTC'
+        from ${tasks} t
+        cross join lateral jsonb_to_recordset(t.work_unit_results->'units') as u(
+          id int, "tokenId" text, "workerId" int, status text, input jsonb, result jsonb,
+          "startedAt" timestamptz, "completedAt" timestamptz, "verifiedAt" timestamptz
+        )
+        where t.work_unit_results is not null
+        on conflict do nothing
+      `);
+
+      const cleared = await tx
+        .update(tasks)
+        .set({ workUnitResults: null })
+        .where(isNotNull(tasks.workUnitResults))
+        .returning({ id: tasks.id });
+
+      return { units: inserted.rowCount ?? 0, tasks: cleared.map(task => task.id) };
+    });
+
+    if (migrated.tasks.length) {
+      console.log('[ComputationalTaskAgent] Legacy work units migrated:', migrated);
+    }
+  }
+
+  // Returns units with a lapsed lease to the queue, or fails them once they
+  // have used up their attempts. Units claimed before leases existed have no
+  // expiry and are treated as lapsed.
+  async sweepExpiredLeases(): Promise<void> {
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      const now = new Date();
+
+      const swept = await db
+        .update(workUnits)
+        .set({
+          status: requeueStatus,
+          workerId: null,
+          leaseExpiresAt: null,
+          startedAt: null,
+          lastExpiredAt: now,
+          updated_at: now,
+        })
+        .where(and(
+          eq(workUnits.status, 'in_progress'),
+          or(isNull(workUnits.leaseExpiresAt), lt(workUnits.leaseExpiresAt, now))
+        ))
+        .returning({
+          id: workUnits.id,
+          taskId: workUnits.taskId,
+          unitIndex: workUnits.unitIndex,
+          replica: workUnits.replica,
+          workerId: workUnits.workerId,
+          status: workUnits.status
+        });
+
+      const taskIds = swept
+        .map(unit => unit.taskId)
+        .filter((id, index, all) => all.indexOf(id) === index);
+      for (const taskId of taskIds) {
+        await this.publishUnitEvents(taskId, 'expired', swept.filter(unit => unit.taskId === taskId));
+      }
+
+      if (swept.length) {
+        console.log('[ComputationalTaskAgent] Expired leases swept:', {
+          requeued: swept.filter(unit => unit.status === 'pending').map(unit => unit.id),
+          failed: swept.filter(unit => unit.status === 'failed').map(unit => unit.id),
+          timestamp: now.toISOString()
+        });
+      }
+    } catch (error) {
+      console.error('[ComputationalTaskAgent] Lease sweep failed:', error);
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  // Work only goes to tokens owned by opted-in workers whose profile meets
+  // the task's resource requirements. The strategy decides which tokens are
+  // filled first when there are more than the work needs: sequential in token
+  // order, random shuffled, and priority to the most capable machines first
+  // (CPU cores, then memory, then GPUs).
   async distributeWork(taskId: number): Promise<boolean> {
     try {
       const [task] = await db
@@ -54,110 +288,283 @@ export class ComputationalTaskAgent {
         return false;
       }
 
-      // Get all active tokens for the task
-      const availableTokens = await db
+      // Tasks with an uploaded dataset hand each unit its own shard
+      const shards = await datasetStore.getShards(taskId);
+      if (shards.length && shards.length !== workUnitsTotal) {
+        log(`[ComputationalTaskAgent] Dataset for task ${taskId} does not match its work units`);
+        return false;
+      }
+
+      const strategy = task.computationalMetadata?.distributionStrategy ?? 'sequential';
+      const workers = await workerRegistry.getEligibleWorkers(task.computationalMetadata?.resourceRequirements);
+      if (!workers.length) {
+        log(`[ComputationalTaskAgent] No opted-in workers meet the requirements of task ${taskId}`);
+        return false;
+      }
+
+      const eligibleTokens = await db
         .select()
         .from(tokens)
-        .where(eq(tokens.status, 'active'));
+        .where(and(
+          eq(tokens.status, 'active'),
+          inArray(tokens.owner, workers.map(worker => worker.username))
+        ))
+        .orderBy(asc(tokens.id));
+
+      const availableTokens = this.orderTokens(eligibleTokens, workers, strategy);
+
+      // A worker may only hold one replica of a unit, so each replica is
+      // queued on a token of a different worker
+      const owners = availableTokens
+        .map(token => token.owner)
+        .filter((owner, index, all) => all.indexOf(owner) === index);
+      if (owners.length < task.replicationFactor) {
+        log(`[ComputationalTaskAgent] Task ${taskId} needs ${task.replicationFactor} workers with tokens, found ${owners.length}`);
+        return false;
+      }
+      const ownerTokens = owners.map(owner => availableTokens.filter(token => token.owner === owner));
+      const nextOwnerToken = owners.map(() => 0);
 
       // Calculate work distribution
-      const workUnits: WorkUnit[] = [];
-      let unitId = 0;
+      const units: Array<typeof workUnits.$inferInsert> = [];
+      let unitIndex = 0;
 
       for (const token of availableTokens) {
-        // Each token gets workUnitsPerToken units assigned
-        for (let i = 0; i < workUnitsPerToken && unitId < workUnitsTotal; i++) {
-          workUnits.push({
-            id: unitId++,
-            tokenId: token.id,
-            workerId: 0, // Will be assigned when work is claimed
-            status: 'pending',
-            input: this.generateWorkUnitInput(task, unitId),
-          });
+        // Each token gets workUnitsPerToken units assigned. The other replicas
+        // of those units go round the following workers' tokens in turn.
+        const ownerIndex = owners.indexOf(token.owner);
+        for (let i = 0; i < workUnitsPerToken && unitIndex < workUnitsTotal; i++) {
+          const input = this.generateWorkUnitInput(task, unitIndex, shards[unitIndex]);
+          units.push({ taskId, unitIndex, replica: 0, tokenId: token.id, input });
+          for (let replica = 1; replica < task.replicationFactor; replica++) {
+            const other = (ownerIndex + replica) % owners.length;
+            const replicaTokens = ownerTokens[other];
+            units.push({
+              taskId,
+              unitIndex,
+              replica,
+              tokenId: replicaTokens[nextOwnerToken[other]++ % replicaTokens.length].id,
+              input,
+            });
+          }
+          unitIndex++;
         }
       }
 
-      const progress: WorkProgress = {
-        total: workUnits.length,
-        completed: 0,
-        verified: 0,
-      };
+      if (!units.length) {
+        log('[ComputationalTaskAgent] No eligible tokens to distribute work to');
+        return false;
+      }
 
-      // Update task with work units
-      await db
-        .update(tasks)
-        .set({
-          workUnitResults: {
-            units: workUnits,
-            progress,
-          },
-          updated_at: new Date(),
-        })
-        .where(eq(tasks.id, taskId));
+      // The (taskId, unitIndex, replica) constraint makes a repeated distribution a no-op
+      // instead of resetting units that workers already hold
+      const inserted = await db
+        .insert(workUnits)
+        .values(units)
+        .onConflictDoNothing()
+        .returning({ id: workUnits.id });
 
-      log('[ComputationalTaskAgent] Work distributed:', {
+      if (!inserted.length) {
+        log(`[ComputationalTaskAgent] Work already distributed for task ${taskId}`);
+        return false;
+      }
+
+      console.log('[ComputationalTaskAgent] Work distributed:', {
         taskId,
-        totalUnits: workUnits.length,
-        tokensUsed: availableTokens.length,
+        totalUnits: unitIndex,
+        replicationFactor: task.replicationFactor,
+        strategy,
+        queued: inserted.length,
+        eligibleWorkers: workers.length,
+        tokensUsed: new Set(units.map(unit => unit.tokenId)).size,
       });
 
       return true;
     } catch (error) {
-      log('[ComputationalTaskAgent] Distribution error:', error);
+      console.error('[ComputationalTaskAgent] Distribution error:', error);
       return false;
     }
   }
 
+  private orderTokens<T extends { id: string; owner: string }>(
+    candidates: T[],
+    workers: Array<{ username: string; memoryMb: number; cpuCores: number; gpuCount: number }>,
+    strategy: ComputationalMetadata['distributionStrategy']
+  ): T[] {
+    const ordered = candidates.slice();
+
+    if (strategy === 'random') {
+      for (let i = ordered.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+      }
+    } else if (strategy === 'priority') {
+      const rank = (token: T) => workers.find(worker => worker.username === token.owner)!;
+      // Array.prototype.sort is stable, so equally capable workers keep token order
+      ordered.sort((a, b) => {
+        const first = rank(a);
+        const second = rank(b);
+        return second.cpuCores - first.cpuCores ||
+          second.memoryMb - first.memoryMb ||
+          second.gpuCount - first.gpuCount;
+      });
+    }
+
+    return ordered;
+  }
+
+  // Tasks with units queued for tokens the worker owns, for workers to
+  // discover what they can claim
+  async getAvailableWork(username: string): Promise<AvailableWork[]> {
+    const rows = await db
+      .select({
+        taskId: tasks.id,
+        title: tasks.title,
+        tokenId: workUnits.tokenId,
+        pendingUnits: sql<number>`count(*)`,
+        workUnitsPerToken: tasks.workUnitsPerToken,
+        computationalMetadata: tasks.computationalMetadata,
+      })
+      .from(workUnits)
+      .innerJoin(tasks, eq(workUnits.taskId, tasks.id))
+      .innerJoin(tokens, eq(workUnits.tokenId, tokens.id))
+      .where(and(
+        eq(workUnits.status, 'pending'),
+        eq(tokens.owner, username),
+        notInArray(tasks.status, ['completed', 'cancelled'])
+      ))
+      .groupBy(tasks.id, workUnits.tokenId)
+      .orderBy(asc(tasks.id), asc(workUnits.tokenId));
+
+    return rows.map(row => ({ ...row, pendingUnits: Number(row.pendingUnits) }));
+  }
+
+  // Locks the next pending unit for the token and skips rows another claim
+  // already holds, so parallel claims each get a different unit without
+  // waiting on one another. Replicas of a unit go to distinct workers. Units
+  // of random-strategy tasks are handed out in no particular order; the
+  // others go in unit order.
   async claimWorkUnit(taskId: number, tokenId: string, workerId: number): Promise<WorkUnit | null> {
     try {
+      const held = alias(workUnits, 'held');
+
       const [task] = await db
-        .select()
+        .select({ creatorId: tasks.creatorId, computationalMetadata: tasks.computationalMetadata })
         .from(tasks)
         .where(eq(tasks.id, taskId))
         .limit(1);
 
-      if (!task?.workUnitResults) return null;
+      if (!task) return null;
 
-      const { units } = task.workUnitResults;
-      const pendingUnit = units.find(
-        unit => unit.tokenId === tokenId && unit.status === 'pending'
-      );
+      const claimOrder = task.computationalMetadata?.distributionStrategy === 'random'
+        ? sql`random()`
+        : asc(workUnits.unitIndex);
 
-      if (!pendingUnit) return null;
+      const claimed = await db.transaction(async (tx) => {
+        const [pendingUnit] = await tx
+          .select({ id: workUnits.id })
+          .from(workUnits)
+          .where(and(
+            eq(workUnits.taskId, taskId),
+            eq(workUnits.tokenId, tokenId),
+            eq(workUnits.status, 'pending'),
+            notExists(
+              tx.select({ id: held.id })
+                .from(held)
+                .where(and(
+                  eq(held.taskId, workUnits.taskId),
+                  eq(held.unitIndex, workUnits.unitIndex),
+                  eq(held.workerId, workerId)
+                ))
+            )
+          ))
+          .orderBy(claimOrder)
+          .limit(1)
+          .for('update', { skipLocked: true });
 
-      // Update unit status
-      pendingUnit.status = 'in_progress';
-      pendingUnit.workerId = workerId;
-      pendingUnit.startedAt = new Date().toISOString();
+        if (!pendingUnit) return null;
 
-      await db
-        .update(tasks)
-        .set({
-          workUnitResults: task.workUnitResults,
-          updated_at: new Date(),
-        })
-        .where(eq(tasks.id, taskId));
+        const [unit] = await tx
+          .update(workUnits)
+          .set({
+            status: 'in_progress',
+            workerId,
+            attempts: sql`${workUnits.attempts} + 1`,
+            leaseExpiresAt: new Date(Date.now() + LEASE_DURATION),
+            lastHeartbeatAt: null,
+            startedAt: new Date(),
+            updated_at: new Date(),
+          })
+          .where(eq(workUnits.id, pendingUnit.id))
+          .returning();
+
+        return unit;
+      });
+
+      if (!claimed) return null;
+
+      await this.publishUnitEvents(taskId, 'claimed', [claimed], task.creatorId);
 
-      log('[ComputationalTaskAgent] Work unit claimed:', {
+      console.log('[ComputationalTaskAgent] Work unit claimed:', {
         taskId,
-        unitId: pendingUnit.id,
+        unitId: claimed.id,
+        unitIndex: claimed.unitIndex,
+        replica: claimed.replica,
         workerId,
         tokenId,
       });
 
-      return pendingUnit;
+      return claimed;
     } catch (error) {
-      log('[ComputationalTaskAgent] Claim error:', error);
+      console.error('[ComputationalTaskAgent] Claim error:', error);
       return null;
     }
   }
 
+  // Extends the lease of a unit the worker still holds. A lapsed lease can't
+  // be renewed, even before the sweeper has requeued the unit.
+  async heartbeat(taskId: number, unitId: number, workerId: number): Promise<WorkUnit | null> {
+    try {
+      const now = new Date();
+      const [unit] = await db
+        .update(workUnits)
+        .set({
+          leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION),
+          lastHeartbeatAt: now,
+          updated_at: now,
+        })
+        .where(and(
+          eq(workUnits.id, unitId),
+          eq(workUnits.taskId, taskId),
+          eq(workUnits.workerId, workerId),
+          eq(workUnits.status, 'in_progress'),
+          gt(workUnits.leaseExpiresAt, now)
+        ))
+        .returning();
+
+      return unit ?? null;
+    } catch (error) {
+      console.error('[ComputationalTaskAgent] Heartbeat error:', error);
+      return null;
+    }
+  }
+
+  // Results are first checked by the creator's validation script, if any; a
+  // result that fails goes back to the queue for another worker. Passing
+  // results complete the worker's replica and are checked against the other
+  // replicas of the same unit. Once a quorum of replicas agree their results are
+  // verified; replicas that disagree with the agreed result are flagged. If
+  // every replica is in without a quorum, a tie-break replica is queued for
+  // another worker, up to replicationFactor extra replicas; after that the
+  // results are all flagged for the creator to review. The unit's replica
+  // rows are locked so concurrent submissions are compared in turn rather
+  // than racing each other.
   async submitWorkResult(
     taskId: number,
     unitId: number,
     workerId: number,
     result: any
-  ): Promise<boolean> {
+  ): Promise<{ unit: WorkUnit; outcome: SubmissionOutcome } | null> {
     try {
       const [task] = await db
         .select()
@@ -165,66 +572,468 @@ export class ComputationalTaskAgent {
         .where(eq(tasks.id, taskId))
         .limit(1);
 
-      if (!task?.workUnitResults) return false;
+      const [target] = await db
+        .select()
+        .from(workUnits)
+        .where(and(eq(workUnits.id, unitId), eq(workUnits.taskId, taskId)))
+        .limit(1);
+
+      if (!task || !target || target.workerId !== workerId || target.status !== 'in_progress') {
+        return null;
+      }
 
-      const { units, progress } = task.workUnitResults;
-      const unit = units.find(u => u.id === unitId && u.workerId === workerId);
+      const validationScript = task.computationalMetadata?.validationScript;
+      if (validationScript) {
+        const validation = await validationSandbox.run(validationScript, target.input, result);
 
-      if (!unit || unit.status !== 'in_progress') return false;
+        await db.insert(validationRuns).values({
+          taskId,
+          workUnitId: unitId,
+          workerId,
+          status: validation.passed ? 'passed' : 'failed',
+          logs: validation.logs,
+          error: validation.error,
+          durationMs: validation.durationMs,
+        });
 
-      // Update unit with result
-      unit.status = 'completed';
-      unit.result = result;
-      unit.completedAt = new Date().toISOString();
-      progress.completed++;
+        if (!validation.passed) {
+          return this.rejectResult(task, target, validation.error);
+        }
+      }
 
-      await db
-        .update(tasks)
-        .set({
-          workUnitResults: task.workUnitResults,
-          updated_at: new Date(),
-        })
-        .where(eq(tasks.id, taskId));
+      const consensus = task.computationalMetadata?.consensus ?? DEFAULT_CONSENSUS;
+      const quorum = getQuorum(task.replicationFactor);
+
+      const outcome = await db.transaction(async (tx) => {
+        const replicas = await tx
+          .select()
+          .from(workUnits)
+          .where(and(eq(workUnits.taskId, taskId), eq(workUnits.unitIndex, target.unitIndex)))
+          .orderBy(asc(workUnits.replica))
+          .for('update');
+
+        const own = replicas.find(replica => replica.id === unitId);
+        if (!own || own.workerId !== workerId || own.status !== 'in_progress') {
+          return null;
+        }
+
+        const now = new Date();
+        const [completed] = await tx
+          .update(workUnits)
+          .set({
+            status: 'completed',
+            result,
+            resultHash: hashResult(result),
+            leaseExpiresAt: null,
+            completedAt: now,
+            updated_at: now,
+          })
+          .where(eq(workUnits.id, unitId))
+          .returning();
+
+        const others = replicas.filter(replica => replica.id !== unitId);
+
+        // A consensus already exists: this replica either matches it or not
+        const agreed = others.find(replica => replica.status === 'verified');
+        if (agreed) {
+          const matches = resultsAgree(agreed, completed, consensus);
+          const [settled] = await tx
+            .update(workUnits)
+            .set(matches ? { status: 'verified', verifiedAt: now } : { flaggedAt: now })
+            .where(eq(workUnits.id, unitId))
+            .returning();
+          return {
+            unit: settled,
+            outcome: (matches ? 'verified' : 'flagged') as SubmissionOutcome,
+            verified: matches ? [settled] : [],
+            flagged: matches ? [] : [settled],
+            queued: [] as WorkUnit[]
+          };
+        }
+
+        const finished = [...others.filter(replica => replica.status === 'completed'), completed];
+        const majority = findConsensus(finished, consensus, quorum);
+        if (!majority) {
+          const none = { verified: [] as WorkUnit[], flagged: [] as WorkUnit[], queued: [] as WorkUnit[] };
+          if (others.some(replica => replica.status === 'pending' || replica.status === 'in_progress')) {
+            return { unit: completed, outcome: 'completed' as SubmissionOutcome, ...none };
+          }
+
+          const tokenId = replicas.length < task.replicationFactor * 2
+            ? await this.findReplicaToken(task, target.unitIndex, [], tx)
+            : null;
+
+          console.warn('[ComputationalTaskAgent] No consensus reached:', {
+            taskId,
+            unitIndex: target.unitIndex,
+            replicas: finished.length,
+            tieBreak: tokenId !== null
+          });
+
+          if (tokenId) {
+            const [tieBreak] = await tx
+              .insert(workUnits)
+              .values({
+                taskId,
+                unitIndex: target.unitIndex,
+                replica: Math.max(...replicas.map(replica => replica.replica)) + 1,
+                tokenId,
+                input: target.input,
+              })
+              .returning();
+            return { unit: completed, outcome: 'completed' as SubmissionOutcome, ...none, queued: [tieBreak] };
+          }
+
+          const flagged = await tx
+            .update(workUnits)
+            .set({ flaggedAt: now, updated_at: now })
+            .where(inArray(workUnits.id, finished.map(replica => replica.id)))
+            .returning();
+          return {
+            unit: flagged.find(replica => replica.id === unitId)!,
+            outcome: 'flagged' as SubmissionOutcome,
+            ...none,
+            flagged
+          };
+        }
+
+        const majorityIds = majority.map(replica => replica.id);
+        const dissentingIds = finished
+          .filter(replica => !majorityIds.includes(replica.id))
+          .map(replica => replica.id);
+
+        const verified = await tx
+          .update(workUnits)
+          .set({ status: 'verified', verifiedAt: now, updated_at: now })
+          .where(inArray(workUnits.id, majorityIds))
+          .returning();
+
+        const flagged = dissentingIds.length
+          ? await tx
+              .update(workUnits)
+              .set({ flaggedAt: now, updated_at: now })
+              .where(inArray(workUnits.id, dissentingIds))
+              .returning()
+          : [];
+
+        const [settled] = await tx
+          .select()
+          .from(workUnits)
+          .where(eq(workUnits.id, unitId));
+
+        return {
+          unit: settled,
+          outcome: (majorityIds.includes(unitId) ? 'verified' : 'flagged') as SubmissionOutcome,
+          verified,
+          flagged,
+          queued: [] as WorkUnit[]
+        };
+      });
+
+      if (!outcome) return null;
+
+      await this.publishUnitEvents(taskId, 'completed', [outcome.unit], task.creatorId);
+      await this.publishUnitEvents(taskId, 'verified', outcome.verified, task.creatorId);
+      await this.publishUnitEvents(taskId, 'queued', outcome.queued, task.creatorId);
+
+      for (const flagged of outcome.flagged) {
+        if (!flagged.workerId) continue;
+        broadcastToUser(flagged.workerId.toString(), 'work_unit_flagged', {
+          taskId,
+          unitId: flagged.id,
+          unitIndex: flagged.unitIndex,
+          title: task.title,
+          timestamp: Date.now()
+        });
+      }
+
+      // Payment failures leave the units uncredited for the next verification
+      // to pick up rather than failing the submission
+      if (outcome.outcome !== 'completed') {
+        try {
+          await unitPayouts.creditVerifiedUnits(task);
+        } catch (error) {
+          console.error('[ComputationalTaskAgent] Unit payout failed:', error);
+        }
+      }
 
-      log('[ComputationalTaskAgent] Work unit completed:', {
+      console.log('[ComputationalTaskAgent] Work unit submitted:', {
         taskId,
         unitId,
+        unitIndex: target.unitIndex,
         workerId,
-        progress,
+        outcome: outcome.outcome,
+        flagged: outcome.flagged.map(unit => unit.id),
       });
 
-      return true;
+      return { unit: outcome.unit, outcome: outcome.outcome };
     } catch (error) {
-      log('[ComputationalTaskAgent] Submission error:', error);
-      return false;
+      console.error('[ComputationalTaskAgent] Submission error:', error);
+      return null;
     }
   }
 
-  private generateWorkUnitInput(task: any, unitId: number): any {
-    // Generate input based on task's computational metadata
-    // This should be customized based on the specific computational task type
+  // The replica moves to another worker's token so the rejected worker can't
+  // claim it again. It fails if no other eligible worker is available.
+  private async rejectResult(
+    task: Task,
+    unit: WorkUnit,
+    reason: string | null
+  ): Promise<{ unit: WorkUnit; outcome: SubmissionOutcome } | null> {
+    const tokenId = await this.findReplicaToken(task, unit.unitIndex, [unit.workerId!]);
+
+    const [requeued] = await db
+      .update(workUnits)
+      .set({
+        status: tokenId ? requeueStatus : 'failed',
+        tokenId: tokenId ?? unit.tokenId,
+        workerId: null,
+        leaseExpiresAt: null,
+        startedAt: null,
+        updated_at: new Date(),
+      })
+      .where(and(
+        eq(workUnits.id, unit.id),
+        eq(workUnits.workerId, unit.workerId!),
+        eq(workUnits.status, 'in_progress')
+      ))
+      .returning();
+
+    if (!requeued) return null;
+
+    broadcastToUser(unit.workerId!.toString(), 'work_unit_rejected', {
+      taskId: task.id,
+      unitId: unit.id,
+      unitIndex: unit.unitIndex,
+      title: task.title,
+      timestamp: Date.now()
+    });
+
+    console.log('[ComputationalTaskAgent] Work result failed validation:', {
+      taskId: task.id,
+      unitId: unit.id,
+      workerId: unit.workerId,
+      reason,
+      status: requeued.status,
+    });
+
+    return { unit: requeued, outcome: 'rejected' };
+  }
+
+  // An active token of an eligible worker with no part in the unit, for
+  // queueing a replica on. Workers who hold one of its replicas, or whose
+  // tokens do, are skipped along with any excluded workers.
+  private async findReplicaToken(
+    task: Task,
+    unitIndex: number,
+    excludedWorkerIds: number[] = [],
+    tx: DbTransaction | typeof db = db
+  ): Promise<string | null> {
+    const replicas = await tx
+      .select({ workerId: workUnits.workerId, owner: tokens.owner })
+      .from(workUnits)
+      .leftJoin(tokens, eq(workUnits.tokenId, tokens.id))
+      .where(and(eq(workUnits.taskId, task.id), eq(workUnits.unitIndex, unitIndex)));
+
+    const workers = (await workerRegistry.getEligibleWorkers(task.computationalMetadata?.resourceRequirements))
+      .filter(worker =>
+        !excludedWorkerIds.includes(worker.userId) &&
+        !replicas.some(replica => replica.workerId === worker.userId || replica.owner === worker.username)
+      );
+    if (!workers.length) return null;
+
+    const [token] = await tx
+      .select({ id: tokens.id })
+      .from(tokens)
+      .where(and(
+        eq(tokens.status, 'active'),
+        inArray(tokens.owner, workers.map(worker => worker.username))
+      ))
+      .orderBy(sql`random()`)
+      .limit(1);
+
+    return token?.id ?? null;
+  }
+
+  // Unit events go to the task's creator and anyone following task:<id>.
+  // Publishing is best effort and never fails the operation it reports on.
+  private async publishUnitEvents(
+    taskId: number,
+    event: WorkUnitEventType,
+    units: Array<Pick<WorkUnit, 'id' | 'unitIndex' | 'replica' | 'workerId' | 'status'>>,
+    creatorId?: number
+  ): Promise<void> {
+    if (!units.length) return;
+
+    try {
+      if (creatorId === undefined) {
+        const [task] = await db
+          .select({ creatorId: tasks.creatorId })
+          .from(tasks)
+          .where(eq(tasks.id, taskId))
+          .limit(1);
+        creatorId = task?.creatorId;
+      }
+
+      const timestamp = Date.now();
+      for (const unit of units) {
+        broadcastToChannel(`task:${taskId}`, 'work_unit_progress', {
+          taskId,
+          event,
+          unitId: unit.id,
+          unitIndex: unit.unitIndex,
+          replica: unit.replica,
+          workerId: unit.workerId,
+          status: unit.status,
+          timestamp
+        }, creatorId !== undefined ? [creatorId.toString()] : []);
+      }
+    } catch (error) {
+      console.error('[ComputationalTaskAgent] Progress publish failed:', error);
+    }
+  }
+
+  // Per-worker results and the completion rate over the last hour, for the
+  // progress dashboard
+  async getTaskActivity(taskId: number): Promise<TaskActivity> {
+    const leaderboard = await db
+      .select({
+        workerId: workUnits.workerId,
+        username: users.username,
+        completed: sql<number>`count(*) filter (where ${workUnits.status} in ('completed', 'verified'))`,
+        verified: sql<number>`count(*) filter (where ${workUnits.status} = 'verified')`,
+        flagged: sql<number>`count(*) filter (where ${workUnits.flaggedAt} is not null)`,
+        averageDurationMs: sql<number | null>`avg(extract(epoch from (${workUnits.completedAt} - ${workUnits.startedAt})) * 1000)`,
+      })
+      .from(workUnits)
+      .innerJoin(users, eq(workUnits.workerId, users.id))
+      .where(and(eq(workUnits.taskId, taskId), isNotNull(workUnits.completedAt)))
+      .groupBy(workUnits.workerId, users.username)
+      .orderBy(desc(sql`count(*) filter (where ${workUnits.status} = 'verified')`), desc(sql`count(*)`))
+      .limit(20);
+
+    const minute = sql<string>`date_trunc('minute', ${workUnits.completedAt})`;
+    const throughput = await db
+      .select({ minute, completed: sql<number>`count(*)` })
+      .from(workUnits)
+      .where(and(
+        eq(workUnits.taskId, taskId),
+        gt(workUnits.completedAt, sql`now() - interval '1 hour'`)
+      ))
+      .groupBy(minute)
+      .orderBy(minute);
+
+    return {
+      leaderboard: leaderboard.map(row => ({
+        workerId: row.workerId!,
+        username: row.username,
+        completed: Number(row.completed),
+        verified: Number(row.verified),
+        flagged: Number(row.flagged),
+        averageDurationMs: row.averageDurationMs === null ? null : Math.round(Number(row.averageDurationMs)),
+      })),
+      throughput: throughput.map(row => ({
+        minute: new Date(row.minute).toISOString(),
+        completed: Number(row.completed),
+      })),
+    };
+  }
+
+  async getValidationRuns(taskId: number, workUnitId?: number) {
+    return db
+      .select()
+      .from(validationRuns)
+      .where(workUnitId
+        ? and(eq(validationRuns.taskId, taskId), eq(validationRuns.workUnitId, workUnitId))
+        : eq(validationRuns.taskId, taskId))
+      .orderBy(desc(validationRuns.id))
+      .limit(200);
+  }
+
+  // Replicas whose results disagreed with the consensus, for the creator to review
+  async getFlaggedResults(taskId: number) {
+    return db
+      .select({
+        id: workUnits.id,
+        unitIndex: workUnits.unitIndex,
+        replica: workUnits.replica,
+        workerId: workUnits.workerId,
+        workerUsername: users.username,
+        result: workUnits.result,
+        resultHash: workUnits.resultHash,
+        flaggedAt: workUnits.flaggedAt,
+      })
+      .from(workUnits)
+      .leftJoin(users, eq(workUnits.workerId, users.id))
+      .where(and(eq(workUnits.taskId, taskId), isNotNull(workUnits.flaggedAt)))
+      .orderBy(asc(workUnits.unitIndex), asc(workUnits.replica));
+  }
+
+  // Units reference their shard rather than embedding it; workers download
+  // it and check the checksum before computing
+  private generateWorkUnitInput(task: Task, unitIndex: number, shard?: DatasetShard): WorkUnitInput | null {
     const { computationalMetadata } = task;
-    if (!computationalMetadata) return null;
+    if (!computationalMetadata && !shard) return null;
 
-    // Example: For a data processing task, might split input data into chunks
     return {
-      unitId,
-      format: computationalMetadata.inputFormat,
-      // Add other task-specific input parameters
+      unitId: unitIndex,
+      format: computationalMetadata?.inputFormat,
+      ...(shard && {
+        shard: {
+          url: `/api/tasks/${task.id}/shards/${unitIndex}`,
+          sha256: shard.sha256,
+          size: shard.size,
+          records: shard.recordCount,
+        },
+      }),
     };
   }
 
   async getTaskProgress(taskId: number): Promise<WorkProgress | null> {
     try {
       const [task] = await db
-        .select()
+        .select({ replicationFactor: tasks.replicationFactor })
         .from(tasks)
         .where(eq(tasks.id, taskId))
         .limit(1);
 
-      return task?.workUnitResults?.progress || null;
+      const [counts] = await db
+        .select({
+          units: sql<number>`count(distinct ${workUnits.unitIndex})`,
+          verifiedUnits: sql<number>`count(distinct ${workUnits.unitIndex}) filter (where ${workUnits.status} = 'verified')`,
+          total: sql<number>`count(*)`,
+          pending: sql<number>`count(*) filter (where ${workUnits.status} = 'pending')`,
+          inProgress: sql<number>`count(*) filter (where ${workUnits.status} = 'in_progress')`,
+          leased: sql<number>`count(*) filter (where ${workUnits.status} = 'in_progress' and ${workUnits.leaseExpiresAt} > now())`,
+          expired: sql<number>`count(*) filter (where ${workUnits.lastExpiredAt} is not null)`,
+          completed: sql<number>`count(*) filter (where ${workUnits.status} in ('completed', 'verified'))`,
+          verified: sql<number>`count(*) filter (where ${workUnits.status} = 'verified')`,
+          failed: sql<number>`count(*) filter (where ${workUnits.status} = 'failed')`,
+          flagged: sql<number>`count(*) filter (where ${workUnits.flaggedAt} is not null)`,
+        })
+        .from(workUnits)
+        .where(eq(workUnits.taskId, taskId));
+
+      if (!task || !counts || Number(counts.total) === 0) return null;
+
+      // Unit counts are per logical unit; the rest count individual replicas
+      return {
+        units: Number(counts.units),
+        verifiedUnits: Number(counts.verifiedUnits),
+        replicationFactor: task.replicationFactor,
+        total: Number(counts.total),
+        pending: Number(counts.pending),
+        inProgress: Number(counts.inProgress),
+        leased: Number(counts.leased),
+        // Units whose lease has lapsed at least once, whatever their state now
+        expired: Number(counts.expired),
+        completed: Number(counts.completed),
+        verified: Number(counts.verified),
+        failed: Number(counts.failed),
+        flagged: Number(counts.flagged),
+      };
     } catch (error) {
-      log('[ComputationalTaskAgent] Progress fetch error:', error);
+      console.error('[ComputationalTaskAgent] Progress fetch error:', error);
       return null;
     }
   }
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Task } from '@db/schema';
+import { validateApplication } from './applicationReview';
+
+const task = { reward: 10 } as Task;
+
+describe('validateApplication', () => {
+  it('trims the pitch and treats the listed reward as no counter-offer', () => {
+    assert.deepEqual(validateApplication(task, '  I can start today  ', undefined), {
+      pitch: 'I can start today',
+      proposedReward: null
+    });
+    assert.deepEqual(validateApplication(task, 'Ready', 10), { pitch: 'Ready', proposedReward: null });
+  });
+
+  it('accepts a lower whole-token counter-offer', () => {
+    assert.deepEqual(validateApplication(task, 'Ready', 7), { pitch: 'Ready', proposedReward: 7 });
+  });
+
+  it('rejects a missing or overlong pitch', () => {
+    assert.ok('error' in validateApplication(task, '   ', undefined));
+    assert.ok('error' in validateApplication(task, 42, undefined));
+    assert.ok('error' in validateApplication(task, 'x'.repeat(2001), undefined));
+  });
+
+  it('rejects counter-offers above the escrowed reward or not in whole tokens', () => {
+    assert.ok('error' in validateApplication(task, 'Ready', 11));
+    assert.ok('error' in validateApplication(task, 'Ready', 0));
+    assert.ok('error' in validateApplication(task, 'Ready', 2.5));
+    assert.ok('error' in validateApplication(task, 'Ready', '7'));
+  });
+});
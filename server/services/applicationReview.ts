@@ -0,0 +1,261 @@
+import { db } from '@db';
+import { taskApplications, tasks, type Task, type TaskApplication } from '@db/schema';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import { blockchainService } from '../blockchain';
+import { acceptanceDeadline } from './taskLifecycle';
+import { broadcastToUser } from '../ws';
+
+const MAX_PITCH_LENGTH = 2000;
+
+// Pitches are free text; counter-offers are whole tokens. The reward is
+// escrowed when the task is created, so a counter-offer can ask for less
+// than the escrowed amount but never more.
+export function validateApplication(
+  task: Task,
+  pitch: unknown,
+  proposedReward: unknown
+): { pitch: string; proposedReward: number | null } | { error: string } {
+  if (typeof pitch !== 'string' || !pitch.trim()) {
+    return { error: 'Please include a short pitch' };
+  }
+  if (pitch.length > MAX_PITCH_LENGTH) {
+    return { error: `Pitches are limited to ${MAX_PITCH_LENGTH} characters` };
+  }
+
+  if (proposedReward === undefined || proposedReward === null || proposedReward === task.reward) {
+    return { pitch: pitch.trim(), proposedReward: null };
+  }
+  if (!Number.isInteger(proposedReward) || (proposedReward as number) < 1) {
+    return { error: 'Counter-offers must be a whole number of tokens' };
+  }
+  if ((proposedReward as number) > task.reward) {
+    return { error: `Counter-offers cannot exceed the escrowed reward of ${task.reward} tokens` };
+  }
+
+  return { pitch: pitch.trim(), proposedReward: proposedReward as number };
+}
+
+export class ApplicationReview {
+  private static instance: ApplicationReview;
+
+  private constructor() {
+    console.log('[ApplicationReview] Initialized');
+  }
+
+  static getInstance(): ApplicationReview {
+    if (!ApplicationReview.instance) {
+      ApplicationReview.instance = new ApplicationReview();
+    }
+    return ApplicationReview.instance;
+  }
+
+  async getApplications(taskId: number): Promise<TaskApplication[]> {
+    return db
+      .select()
+      .from(taskApplications)
+      .where(eq(taskApplications.taskId, taskId))
+      .orderBy(asc(taskApplications.created_at));
+  }
+
+  async getApplication(taskId: number, applicationId: number): Promise<TaskApplication | undefined> {
+    const [application] = await db
+      .select()
+      .from(taskApplications)
+      .where(and(eq(taskApplications.id, applicationId), eq(taskApplications.taskId, taskId)))
+      .limit(1);
+    return application;
+  }
+
+  async findPendingApplication(taskId: number, applicantId: number): Promise<TaskApplication | undefined> {
+    const [application] = await db
+      .select()
+      .from(taskApplications)
+      .where(and(
+        eq(taskApplications.taskId, taskId),
+        eq(taskApplications.applicantId, applicantId),
+        eq(taskApplications.status, 'pending')
+      ))
+      .limit(1);
+    return application;
+  }
+
+  async apply(
+    task: Task,
+    applicantId: number,
+    pitch: string,
+    proposedReward: number | null
+  ): Promise<TaskApplication> {
+    const [application] = await db
+      .insert(taskApplications)
+      .values({
+        taskId: task.id,
+        applicantId,
+        pitch,
+        proposedReward
+      })
+      .returning();
+
+    broadcastToUser(task.creatorId.toString(), 'task_application_received', {
+      taskId: task.id,
+      applicationId: application.id,
+      title: task.title,
+      proposedReward,
+      timestamp: Date.now()
+    });
+
+    console.log('[ApplicationReview] Application submitted:', {
+      taskId: task.id,
+      applicationId: application.id,
+      applicantId,
+      proposedReward,
+      timestamp: new Date().toISOString()
+    });
+
+    return application;
+  }
+
+  // Assigns the applicant as the worker. An accepted counter-offer lowers the
+  // reward and the difference is refunded to the creator straight away; every
+  // other pending application is rejected.
+  async acceptApplication(task: Task, application: TaskApplication): Promise<Task> {
+    const reward = application.proposedReward ?? task.reward;
+    const now = new Date();
+    const deadline = acceptanceDeadline(task, now);
+    if ('error' in deadline) {
+      throw new Error(deadline.error);
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [assignedTask] = await tx
+        .update(tasks)
+        .set({
+          status: 'in_progress',
+          workerId: application.applicantId,
+          reward,
+          acceptedAt: now,
+          completeBy: deadline.completeBy,
+          completionWindow: deadline.completionWindow,
+          updated_at: now
+        })
+        .where(and(eq(tasks.id, task.id), eq(tasks.status, 'open')))
+        .returning();
+
+      if (!assignedTask) {
+        throw new Error('Task is no longer open');
+      }
+
+      const [acceptedApplication] = await tx
+        .update(taskApplications)
+        .set({ status: 'accepted', reviewedAt: now, updated_at: now })
+        .where(and(eq(taskApplications.id, application.id), eq(taskApplications.status, 'pending')))
+        .returning();
+
+      if (!acceptedApplication) {
+        throw new Error('Application is no longer pending');
+      }
+
+      const rejected = await tx
+        .update(taskApplications)
+        .set({ status: 'rejected', reviewedAt: now, updated_at: now })
+        .where(and(
+          eq(taskApplications.taskId, task.id),
+          eq(taskApplications.status, 'pending'),
+          ne(taskApplications.id, application.id)
+        ))
+        .returning();
+
+      const refund = reward < task.reward && task.escrowTransactionId
+        ? await blockchainService.refundEscrow(
+            task.escrowTransactionId,
+            task.creatorId.toString(),
+            task.reward - reward,
+            tx
+          )
+        : null;
+
+      return { task: assignedTask, rejected, refund };
+    });
+
+    if (result.refund) {
+      await blockchainService.finalizeSettlements([result.refund]);
+    }
+
+    broadcastToUser(application.applicantId.toString(), 'task_application_accepted', {
+      taskId: task.id,
+      applicationId: application.id,
+      title: task.title,
+      reward,
+      timestamp: Date.now()
+    });
+
+    for (const rejected of result.rejected) {
+      broadcastToUser(rejected.applicantId.toString(), 'task_application_rejected', {
+        taskId: task.id,
+        applicationId: rejected.id,
+        title: task.title,
+        timestamp: Date.now()
+      });
+    }
+
+    console.log('[ApplicationReview] Application accepted:', {
+      taskId: task.id,
+      applicationId: application.id,
+      workerId: application.applicantId,
+      reward,
+      refundTx: result.refund?.id,
+      rejectedApplications: result.rejected.length,
+      timestamp: now.toISOString()
+    });
+
+    return result.task;
+  }
+
+  async rejectApplication(task: Task, application: TaskApplication): Promise<TaskApplication> {
+    const [rejectedApplication] = await db
+      .update(taskApplications)
+      .set({ status: 'rejected', reviewedAt: new Date(), updated_at: new Date() })
+      .where(and(eq(taskApplications.id, application.id), eq(taskApplications.status, 'pending')))
+      .returning();
+
+    if (!rejectedApplication) {
+      throw new Error('Application is no longer pending');
+    }
+
+    broadcastToUser(application.applicantId.toString(), 'task_application_rejected', {
+      taskId: task.id,
+      applicationId: application.id,
+      title: task.title,
+      timestamp: Date.now()
+    });
+
+    console.log('[ApplicationReview] Application rejected:', {
+      taskId: task.id,
+      applicationId: application.id,
+      timestamp: new Date().toISOString()
+    });
+
+    return rejectedApplication;
+  }
+
+  async withdrawApplication(application: TaskApplication): Promise<TaskApplication> {
+    const [withdrawnApplication] = await db
+      .update(taskApplications)
+      .set({ status: 'withdrawn', updated_at: new Date() })
+      .where(and(eq(taskApplications.id, application.id), eq(taskApplications.status, 'pending')))
+      .returning();
+
+    if (!withdrawnApplication) {
+      throw new Error('Application is no longer pending');
+    }
+
+    console.log('[ApplicationReview] Application withdrawn:', {
+      taskId: application.taskId,
+      applicationId: application.id,
+      timestamp: new Date().toISOString()
+    });
+
+    return withdrawnApplication;
+  }
+}
+
+export const applicationReview = ApplicationReview.getInstance();
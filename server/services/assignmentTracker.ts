@@ -0,0 +1,313 @@
+import { db } from '@db';
+import { taskAssignments, tasks, type Task, type TaskAssignment } from '@db/schema';
+import { and, asc, eq, inArray, ne } from 'drizzle-orm';
+import { blockchainService, type DbTransaction } from '../blockchain';
+import type { TransactionResult } from '../../client/src/lib/blockchain/types';
+import { broadcastToUser } from '../ws';
+
+export const MAX_WORKERS = 100;
+
+// Proof types that don't depend on a single worker's uploaded files
+const MULTI_WORKER_PROOF_TYPES = ['confirmation_approval', 'text_submission'];
+
+const ACTIVE_STATUSES: TaskAssignment['status'][] = ['in_progress', 'pending_verification'];
+
+// Every assignment is paid the same whole number of tokens
+export function validateMaxWorkers(
+  maxWorkers: unknown,
+  reward: number,
+  proofType: string
+): { maxWorkers: number } | { error: string } {
+  if (maxWorkers === undefined || maxWorkers === null || maxWorkers === 1) {
+    return { maxWorkers: 1 };
+  }
+  if (!Number.isInteger(maxWorkers) || (maxWorkers as number) < 1 || (maxWorkers as number) > MAX_WORKERS) {
+    return { error: `Tasks can have between 1 and ${MAX_WORKERS} workers` };
+  }
+  if (Number(reward) % (maxWorkers as number) !== 0) {
+    return { error: `A reward of ${reward} tokens cannot be split evenly between ${maxWorkers} workers` };
+  }
+  if (!MULTI_WORKER_PROOF_TYPES.includes(proofType)) {
+    return { error: 'Multi-worker tasks support confirmation and text proofs only' };
+  }
+  return { maxWorkers: maxWorkers as number };
+}
+
+export function getAssignmentReward(task: Task): number {
+  return task.reward / task.maxWorkers;
+}
+
+export class AssignmentTracker {
+  private static instance: AssignmentTracker;
+
+  private constructor() {
+    console.log('[AssignmentTracker] Initialized');
+  }
+
+  static getInstance(): AssignmentTracker {
+    if (!AssignmentTracker.instance) {
+      AssignmentTracker.instance = new AssignmentTracker();
+    }
+    return AssignmentTracker.instance;
+  }
+
+  async getAssignments(taskId: number): Promise<TaskAssignment[]> {
+    return db
+      .select()
+      .from(taskAssignments)
+      .where(eq(taskAssignments.taskId, taskId))
+      .orderBy(asc(taskAssignments.created_at));
+  }
+
+  async getAssignment(taskId: number, assignmentId: number): Promise<TaskAssignment | undefined> {
+    const [assignment] = await db
+      .select()
+      .from(taskAssignments)
+      .where(and(eq(taskAssignments.id, assignmentId), eq(taskAssignments.taskId, taskId)))
+      .limit(1);
+    return assignment;
+  }
+
+  async countActive(taskId: number, tx: DbTransaction | typeof db = db): Promise<number> {
+    const active = await tx
+      .select({ id: taskAssignments.id })
+      .from(taskAssignments)
+      .where(and(eq(taskAssignments.taskId, taskId), inArray(taskAssignments.status, ACTIVE_STATUSES)));
+    return active.length;
+  }
+
+  // Locks the task row so concurrent claims can't overbook the slots. The
+  // task leaves the board once every slot is taken.
+  async claimSlot(
+    task: Task,
+    workerId: number
+  ): Promise<{ assignment: TaskAssignment; task: Task } | { error: string }> {
+    const result = await db.transaction(async (tx) => {
+      const [lockedTask] = await tx
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, task.id))
+        .for('update');
+
+      if (!lockedTask || lockedTask.status !== 'open') {
+        return { error: 'Task is not available' };
+      }
+
+      const taken = await tx
+        .select({ workerId: taskAssignments.workerId })
+        .from(taskAssignments)
+        .where(and(eq(taskAssignments.taskId, task.id), ne(taskAssignments.status, 'expired')));
+
+      if (taken.some(slot => slot.workerId === workerId)) {
+        return { error: 'You already hold a slot on this task' };
+      }
+
+      if (taken.length >= lockedTask.maxWorkers) {
+        return { error: 'All worker slots are taken' };
+      }
+
+      const [assignment] = await tx
+        .insert(taskAssignments)
+        .values({ taskId: task.id, workerId })
+        .returning();
+
+      const [updatedTask] = await tx
+        .update(tasks)
+        .set({
+          status: taken.length + 1 >= lockedTask.maxWorkers ? 'in_progress' : 'open',
+          updated_at: new Date()
+        })
+        .where(eq(tasks.id, task.id))
+        .returning();
+
+      return { assignment, task: updatedTask };
+    });
+
+    if ('error' in result) {
+      return result;
+    }
+
+    broadcastToUser(task.creatorId.toString(), 'task_slot_claimed', {
+      taskId: task.id,
+      assignmentId: result.assignment.id,
+      title: task.title,
+      slotsFilled: result.task.status === 'in_progress',
+      timestamp: Date.now()
+    });
+
+    console.log('[AssignmentTracker] Slot claimed:', {
+      taskId: task.id,
+      assignmentId: result.assignment.id,
+      workerId,
+      taskStatus: result.task.status,
+      timestamp: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  async submitProof(task: Task, assignment: TaskAssignment, proof: string): Promise<TaskAssignment> {
+    const [updatedAssignment] = await db
+      .update(taskAssignments)
+      .set({
+        status: 'pending_verification',
+        proofSubmitted: proof,
+        rejectedProof: null,
+        submittedAt: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(eq(taskAssignments.id, assignment.id), eq(taskAssignments.status, 'in_progress')))
+      .returning();
+
+    if (!updatedAssignment) {
+      throw new Error('Assignment is not in progress');
+    }
+
+    broadcastToUser(task.creatorId.toString(), 'assignment_submitted', {
+      taskId: task.id,
+      assignmentId: assignment.id,
+      title: task.title,
+      timestamp: Date.now()
+    });
+
+    console.log('[AssignmentTracker] Assignment proof submitted:', {
+      taskId: task.id,
+      assignmentId: assignment.id,
+      workerId: assignment.workerId,
+      timestamp: new Date().toISOString()
+    });
+
+    return updatedAssignment;
+  }
+
+  // Approving an assignment pays out its share of the escrow; the task is
+  // completed once every slot has been verified
+  async verifyAssignment(
+    task: Task,
+    assignment: TaskAssignment,
+    verified: boolean
+  ): Promise<{ assignment: TaskAssignment; task: Task }> {
+    if (verified && !task.escrowTransactionId) {
+      throw new Error('Task has no escrow');
+    }
+
+    const reward = getAssignmentReward(task);
+
+    let release: TransactionResult | null = null;
+    const result = await db.transaction(async (tx) => {
+      const [updatedAssignment] = await tx
+        .update(taskAssignments)
+        .set(verified
+          ? { status: 'completed', verifiedAt: new Date(), updated_at: new Date() }
+          : {
+              status: 'in_progress',
+              proofSubmitted: null,
+              rejectedProof: assignment.proofSubmitted,
+              submittedAt: null,
+              updated_at: new Date()
+            })
+        .where(and(
+          eq(taskAssignments.id, assignment.id),
+          eq(taskAssignments.status, 'pending_verification')
+        ))
+        .returning();
+
+      if (!updatedAssignment) {
+        throw new Error('Assignment is not pending verification');
+      }
+
+      if (!verified) {
+        return { assignment: updatedAssignment, task };
+      }
+
+      // The payout commits with the verification
+      const payout = await blockchainService.releaseEscrow(
+        task.escrowTransactionId!,
+        assignment.workerId.toString(),
+        reward,
+        undefined,
+        tx
+      );
+      release = payout;
+
+      const [paidAssignment] = await tx
+        .update(taskAssignments)
+        .set({ releaseTransactionId: payout.id })
+        .where(eq(taskAssignments.id, assignment.id))
+        .returning();
+
+      const completed = await tx
+        .select({ id: taskAssignments.id })
+        .from(taskAssignments)
+        .where(and(eq(taskAssignments.taskId, task.id), eq(taskAssignments.status, 'completed')));
+
+      if (completed.length < task.maxWorkers) {
+        return { assignment: paidAssignment, task };
+      }
+
+      const [completedTask] = await tx
+        .update(tasks)
+        .set({
+          status: 'completed',
+          updated_at: new Date()
+        })
+        .where(eq(tasks.id, task.id))
+        .returning();
+
+      return { assignment: paidAssignment, task: completedTask };
+    });
+
+    if (release) {
+      await blockchainService.finalizeSettlements([release]);
+    }
+
+    broadcastToUser(assignment.workerId.toString(), verified ? 'assignment_verified' : 'assignment_rejected', {
+      taskId: task.id,
+      assignmentId: assignment.id,
+      title: task.title,
+      reward: verified ? reward : 0,
+      timestamp: Date.now()
+    });
+
+    console.log('[AssignmentTracker] Assignment verification:', {
+      taskId: task.id,
+      assignmentId: assignment.id,
+      verified,
+      taskStatus: result.task.status,
+      timestamp: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  // Workers still in progress when the completion deadline passes lose their
+  // slot; submissions awaiting review are left for the creator
+  async expireInProgress(task: Task): Promise<TaskAssignment[]> {
+    const expired = await db
+      .update(taskAssignments)
+      .set({ status: 'expired', updated_at: new Date() })
+      .where(and(eq(taskAssignments.taskId, task.id), eq(taskAssignments.status, 'in_progress')))
+      .returning();
+
+    for (const assignment of expired) {
+      broadcastToUser(assignment.workerId.toString(), 'assignment_expired', {
+        taskId: task.id,
+        assignmentId: assignment.id,
+        title: task.title,
+        timestamp: Date.now()
+      });
+    }
+
+    if (expired.length) {
+      console.log('[AssignmentTracker] Assignments expired:', {
+        taskId: task.id,
+        assignmentIds: expired.map(a => a.id),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return expired;
+  }
+}
+
+export const assignmentTracker = AssignmentTracker.getInstance();
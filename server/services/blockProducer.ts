@@ -0,0 +1,40 @@
+import { blockchainService } from '../blockchain';
+import { BLOCK_INTERVAL } from '../blockchain/ledger';
+
+// Seals the mempool on a fixed interval. Blocks are also produced early when
+// enough transfers are waiting; that check runs as each transfer is queued.
+export class BlockProducer {
+  private static instance: BlockProducer;
+  private produceInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    console.log('[BlockProducer] Initialized with block interval:', BLOCK_INTERVAL);
+  }
+
+  static getInstance(): BlockProducer {
+    if (!BlockProducer.instance) {
+      BlockProducer.instance = new BlockProducer();
+    }
+    return BlockProducer.instance;
+  }
+
+  start() {
+    if (this.produceInterval) return;
+    this.produceInterval = setInterval(() => this.produce(), BLOCK_INTERVAL);
+    console.log('[BlockProducer] Started');
+  }
+
+  stop() {
+    if (this.produceInterval) {
+      clearInterval(this.produceInterval);
+      this.produceInterval = null;
+    }
+  }
+
+  async produce(): Promise<void> {
+    // produceBlock logs its own failures and skips if a block is in progress
+    await blockchainService.produceBlock();
+  }
+}
+
+export const blockProducer = BlockProducer.getInstance();
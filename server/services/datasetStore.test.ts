@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeResults, shardDataset } from './datasetStore';
+
+function shardsOf(result: ReturnType<typeof shardDataset>) {
+  assert.ok(!('error' in result), 'error' in result ? result.error : '');
+  return result;
+}
+
+describe('shardDataset', () => {
+  it('splits JSONL records evenly, in order', () => {
+    const data = Buffer.from(['{"n":1}', '{"n":2}', '', '{"n":3}', '{"n":4}', '{"n":5}'].join('\n'));
+
+    const { shards, recordCount } = shardsOf(shardDataset('jsonl', data, 2));
+
+    assert.equal(recordCount, 5);
+    assert.deepEqual(shards.map(shard => shard.recordCount), [2, 3]);
+    assert.equal(shards[0].content.toString(), '{"n":1}\n{"n":2}\n');
+    assert.equal(shards[1].content.toString(), '{"n":3}\n{"n":4}\n{"n":5}\n');
+  });
+
+  it('reports the first line that is not JSON', () => {
+    const result = shardDataset('jsonl', Buffer.from('{"n":1}\nnot json\n'), 1);
+
+    assert.deepEqual(result, { error: 'Line 2 is not valid JSON' });
+  });
+
+  it('repeats the CSV header in every shard', () => {
+    const data = Buffer.from('id,value\r\n1,a\r\n2,b\r\n3,c\r\n');
+
+    const { shards, recordCount } = shardsOf(shardDataset('csv', data, 3));
+
+    assert.equal(recordCount, 3);
+    assert.deepEqual(shards.map(shard => shard.content.toString()), [
+      'id,value\n1,a\n',
+      'id,value\n2,b\n',
+      'id,value\n3,c\n',
+    ]);
+  });
+
+  it('needs at least one record per work unit', () => {
+    assert.ok('error' in shardDataset('jsonl', Buffer.from('{}\n{}\n'), 3));
+    assert.ok('error' in shardDataset('csv', Buffer.from('id\n1\n'), 2));
+    assert.ok('error' in shardDataset('ranges', Buffer.from('[[0,2]]'), 3));
+  });
+
+  it('cuts ranges so every shard covers the same number of values', () => {
+    const data = Buffer.from(JSON.stringify([[0, 5], [10, 13], [20, 24]]));
+
+    const { shards, recordCount } = shardsOf(shardDataset('ranges', data, 3));
+
+    assert.equal(recordCount, 12);
+    assert.deepEqual(shards.map(shard => JSON.parse(shard.content.toString())), [
+      [[0, 4]],
+      [[4, 5], [10, 13]],
+      [[20, 24]],
+    ]);
+    assert.deepEqual(shards.map(shard => shard.recordCount), [4, 4, 4]);
+  });
+
+  it('rejects malformed ranges', () => {
+    assert.ok('error' in shardDataset('ranges', Buffer.from('not json'), 1));
+    assert.ok('error' in shardDataset('ranges', Buffer.from('[]'), 1));
+    assert.ok('error' in shardDataset('ranges', Buffer.from('[[5,5]]'), 1));
+    assert.ok('error' in shardDataset('ranges', Buffer.from('[[0,1.5]]'), 1));
+  });
+});
+
+describe('mergeResults', () => {
+  const results = [[{ id: 1, label: 'a' }, { id: 2, label: 'b, c' }], { id: 3, extra: true }];
+
+  it('flattens array results into records, in unit order', () => {
+    assert.deepEqual(JSON.parse(mergeResults('json', results).toString()), [
+      { id: 1, label: 'a' },
+      { id: 2, label: 'b, c' },
+      { id: 3, extra: true },
+    ]);
+  });
+
+  it('writes one JSON record per line', () => {
+    assert.equal(
+      mergeResults('jsonl', [1, [2, 3]]).toString(),
+      '1\n2\n3\n'
+    );
+  });
+
+  it('writes CSV with the union of the records\' columns and quotes where needed', () => {
+    assert.equal(
+      mergeResults('csv', results).toString(),
+      'id,label,extra\n1,a,\n2,"b, c",\n3,,true\n'
+    );
+  });
+});
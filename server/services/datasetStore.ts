@@ -0,0 +1,365 @@
+import { db } from '@db';
+import {
+  datasetShards,
+  taskDatasets,
+  tasks,
+  workUnits,
+  type DatasetShard,
+  type Task,
+  type TaskDataset
+} from '@db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { datasetStorage, type StoredObject } from '../storage';
+
+export const MAX_DATASET_SIZE = 20 * 1024 * 1024; // 20 MB
+export const DATASET_FORMATS = ['jsonl', 'csv', 'ranges'] as const;
+export const OUTPUT_FORMATS = ['json', 'jsonl', 'csv'] as const;
+
+export type DatasetFormat = typeof DATASET_FORMATS[number];
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const FORMAT_CONTENT_TYPES: Record<DatasetFormat | OutputFormat, string> = {
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  ranges: 'application/json; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+interface Shard {
+  content: Buffer;
+  recordCount: number;
+}
+
+export function getFormatContentType(format: DatasetFormat | OutputFormat): string {
+  return FORMAT_CONTENT_TYPES[format];
+}
+
+// Record i of n goes to unit floor(i * units / n), so shard sizes differ by at most one
+function splitEvenly<T>(records: T[], units: number): T[][] {
+  const shards: T[][] = [];
+  for (let unit = 0; unit < units; unit++) {
+    const start = Math.floor((unit * records.length) / units);
+    const end = Math.floor(((unit + 1) * records.length) / units);
+    shards.push(records.slice(start, end));
+  }
+  return shards;
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/).filter(line => line.trim() !== '');
+}
+
+// JSONL and CSV are split on record boundaries (CSV shards repeat the header
+// row; quoted fields spanning lines are not supported). Ranges are a JSON
+// array of half-open [start, end) integer pairs, split so every shard covers
+// the same number of integers.
+export function shardDataset(
+  format: DatasetFormat,
+  data: Buffer,
+  units: number
+): { shards: Shard[]; recordCount: number } | { error: string } {
+  const text = data.toString('utf8');
+
+  if (format === 'jsonl') {
+    const lines = splitLines(text);
+    for (let i = 0; i < lines.length; i++) {
+      try {
+        JSON.parse(lines[i]);
+      } catch {
+        return { error: `Line ${i + 1} is not valid JSON` };
+      }
+    }
+    if (lines.length < units) {
+      return { error: `The dataset has ${lines.length} records but the task needs ${units} work units` };
+    }
+    return {
+      recordCount: lines.length,
+      shards: splitEvenly(lines, units).map(records => ({
+        content: Buffer.from(records.join('\n') + '\n'),
+        recordCount: records.length
+      }))
+    };
+  }
+
+  if (format === 'csv') {
+    const [header, ...rows] = splitLines(text);
+    if (!header) {
+      return { error: 'The CSV file is empty' };
+    }
+    if (rows.length < units) {
+      return { error: `The dataset has ${rows.length} rows but the task needs ${units} work units` };
+    }
+    return {
+      recordCount: rows.length,
+      shards: splitEvenly(rows, units).map(records => ({
+        content: Buffer.from([header, ...records].join('\n') + '\n'),
+        recordCount: records.length
+      }))
+    };
+  }
+
+  let ranges: unknown;
+  try {
+    ranges = JSON.parse(text);
+  } catch {
+    return { error: 'Ranges must be a JSON array of [start, end] pairs' };
+  }
+  if (!Array.isArray(ranges) || !ranges.length || !ranges.every(range =>
+    Array.isArray(range) && range.length === 2 &&
+    Number.isSafeInteger(range[0]) && Number.isSafeInteger(range[1]) && range[0] < range[1]
+  )) {
+    return { error: 'Ranges must be a JSON array of [start, end] integer pairs with start < end' };
+  }
+
+  const pairs = ranges as Array<[number, number]>;
+  const total = pairs.reduce((sum, [start, end]) => sum + (end - start), 0);
+  if (!Number.isSafeInteger(total) || total < units) {
+    return { error: `The ranges cover ${total} values but the task needs ${units} work units` };
+  }
+
+  // Walk the ranges once, cutting them at each shard boundary
+  const shards: Shard[] = [];
+  let rangeIndex = 0;
+  let cursor = pairs[0][0];
+  for (let unit = 0; unit < units; unit++) {
+    let remaining = Math.floor(((unit + 1) * total) / units) - Math.floor((unit * total) / units);
+    const shardRanges: Array<[number, number]> = [];
+    const recordCount = remaining;
+    while (remaining > 0) {
+      const [, end] = pairs[rangeIndex];
+      const take = Math.min(remaining, end - cursor);
+      shardRanges.push([cursor, cursor + take]);
+      cursor += take;
+      remaining -= take;
+      if (cursor === end && rangeIndex + 1 < pairs.length) {
+        rangeIndex++;
+        cursor = pairs[rangeIndex][0];
+      }
+    }
+    shards.push({ content: Buffer.from(JSON.stringify(shardRanges)), recordCount });
+  }
+
+  return { shards, recordCount: total };
+}
+
+function csvValue(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Unit results that are arrays contribute one record per element; anything
+// else is a single record. Records keep unit order.
+export function mergeResults(format: OutputFormat, results: unknown[]): Buffer {
+  const records = results.flatMap(result => Array.isArray(result) ? result : [result]);
+
+  if (format === 'jsonl') {
+    return Buffer.from(records.map(record => JSON.stringify(record)).join('\n') + '\n');
+  }
+
+  if (format === 'csv') {
+    const columns: string[] = [];
+    for (const record of records) {
+      if (record && typeof record === 'object' && !Array.isArray(record)) {
+        Object.keys(record).forEach(key => {
+          if (!columns.includes(key)) columns.push(key);
+        });
+      }
+    }
+    const rows = records.map(record => {
+      if (Array.isArray(record)) return record.map(csvValue).join(',');
+      if (record && typeof record === 'object') {
+        return columns.map(column => csvValue((record as Record<string, unknown>)[column])).join(',');
+      }
+      return csvValue(record);
+    });
+    return Buffer.from([columns.map(csvValue).join(','), ...rows].join('\n') + '\n');
+  }
+
+  return Buffer.from(JSON.stringify(records));
+}
+
+export class DatasetStore {
+  private static instance: DatasetStore;
+
+  private constructor() {
+    console.log('[DatasetStore] Initialized with max dataset size:', MAX_DATASET_SIZE);
+  }
+
+  static getInstance(): DatasetStore {
+    if (!DatasetStore.instance) {
+      DatasetStore.instance = new DatasetStore();
+    }
+    return DatasetStore.instance;
+  }
+
+  // Shards are written before any rows so a failed upload leaves no records;
+  // whatever was stored is cleaned up if a write or the insert fails
+  async saveDataset(
+    task: Task,
+    format: DatasetFormat,
+    originalName: string,
+    data: Buffer
+  ): Promise<{ dataset: TaskDataset } | { error: string }> {
+    if (task.type !== 'computational' || !task.workUnitsTotal) {
+      return { error: 'Datasets can only be attached to computational tasks with work units' };
+    }
+
+    const [distributed] = await db
+      .select({ id: workUnits.id })
+      .from(workUnits)
+      .where(eq(workUnits.taskId, task.id))
+      .limit(1);
+
+    if (distributed) {
+      return { error: 'Work has already been distributed for this task' };
+    }
+
+    const sharded = shardDataset(format, data, task.workUnitsTotal);
+    if ('error' in sharded) {
+      return sharded;
+    }
+
+    const extension = format === 'ranges' ? 'json' : format;
+    const stored: StoredObject[] = [];
+
+    try {
+      const original = await datasetStorage.put(data, extension);
+      stored.push(original);
+      const storedShards: StoredObject[] = [];
+      for (const shard of sharded.shards) {
+        const storedShard = await datasetStorage.put(shard.content, extension);
+        stored.push(storedShard);
+        storedShards.push(storedShard);
+      }
+
+      const dataset = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(taskDatasets)
+          .values({
+            taskId: task.id,
+            format,
+            originalName: originalName.slice(0, 255),
+            storageKey: original.key,
+            size: original.size,
+            sha256: original.sha256,
+            recordCount: sharded.recordCount,
+          })
+          .returning();
+
+        await tx
+          .insert(datasetShards)
+          .values(storedShards.map((stored, unitIndex) => ({
+            datasetId: created.id,
+            taskId: task.id,
+            unitIndex,
+            storageKey: stored.key,
+            size: stored.size,
+            sha256: stored.sha256,
+            recordCount: sharded.shards[unitIndex].recordCount,
+          })));
+
+        // Workers read the input format from the task
+        if (task.computationalMetadata) {
+          await tx
+            .update(tasks)
+            .set({
+              computationalMetadata: { ...task.computationalMetadata, inputFormat: format },
+              updated_at: new Date()
+            })
+            .where(eq(tasks.id, task.id));
+        }
+
+        return created;
+      });
+
+      console.log('[DatasetStore] Dataset sharded:', {
+        taskId: task.id,
+        datasetId: dataset.id,
+        format,
+        records: sharded.recordCount,
+        shards: storedShards.length,
+        timestamp: new Date().toISOString()
+      });
+
+      return { dataset };
+    } catch (error) {
+      await Promise.all(stored.map(object => datasetStorage.delete(object.key)));
+      throw error;
+    }
+  }
+
+  async getDataset(taskId: number): Promise<TaskDataset | undefined> {
+    const [dataset] = await db
+      .select()
+      .from(taskDatasets)
+      .where(eq(taskDatasets.taskId, taskId))
+      .limit(1);
+    return dataset;
+  }
+
+  async getShards(taskId: number): Promise<DatasetShard[]> {
+    return db
+      .select()
+      .from(datasetShards)
+      .where(eq(datasetShards.taskId, taskId))
+      .orderBy(asc(datasetShards.unitIndex));
+  }
+
+  async getShard(taskId: number, unitIndex: number): Promise<DatasetShard | undefined> {
+    const [shard] = await db
+      .select()
+      .from(datasetShards)
+      .where(and(eq(datasetShards.taskId, taskId), eq(datasetShards.unitIndex, unitIndex)))
+      .limit(1);
+    return shard;
+  }
+
+  async readShard(shard: DatasetShard): Promise<Buffer> {
+    return datasetStorage.get(shard.storageKey);
+  }
+
+  // Workers may only fetch shards of units they have claimed
+  async canReadShard(task: Task, unitIndex: number, userId: number): Promise<boolean> {
+    if (task.creatorId === userId) return true;
+
+    const [claimed] = await db
+      .select({ id: workUnits.id })
+      .from(workUnits)
+      .where(and(
+        eq(workUnits.taskId, task.id),
+        eq(workUnits.unitIndex, unitIndex),
+        eq(workUnits.workerId, userId)
+      ))
+      .limit(1);
+    return !!claimed;
+  }
+
+  // Merges the agreed result of every unit in unit order; only available
+  // once every unit has a verified result
+  async buildOutput(task: Task): Promise<{ content: Buffer; format: OutputFormat } | { error: string }> {
+    const verified = await db
+      .selectDistinctOn([workUnits.unitIndex], {
+        unitIndex: workUnits.unitIndex,
+        result: workUnits.result
+      })
+      .from(workUnits)
+      .where(and(eq(workUnits.taskId, task.id), eq(workUnits.status, 'verified')))
+      .orderBy(asc(workUnits.unitIndex), asc(workUnits.replica));
+
+    const total = task.workUnitsTotal ?? 0;
+    if (!total || verified.length < total) {
+      return { error: `${verified.length} of ${total} work units have a verified result` };
+    }
+
+    const declared = task.computationalMetadata?.outputFormat;
+    const format: OutputFormat = (OUTPUT_FORMATS as readonly string[]).includes(declared ?? '')
+      ? declared as OutputFormat
+      : 'json';
+
+    return { content: mergeResults(format, verified.map(unit => unit.result)), format };
+  }
+}
+
+export const datasetStore = DatasetStore.getInstance();
@@ -0,0 +1,216 @@
+import { db } from '@db';
+import { disputes, tasks, type Dispute, type Task } from '@db/schema';
+import { and, eq } from 'drizzle-orm';
+import { blockchainService } from '../blockchain';
+import type { TransactionResult } from '../../client/src/lib/blockchain/types';
+import { broadcastToUser } from '../ws';
+
+export type DisputeParty = 'creator' | 'worker';
+
+export class DisputeArbitration {
+  private static instance: DisputeArbitration;
+
+  private constructor() {
+    console.log('[DisputeArbitration] Initialized');
+  }
+
+  static getInstance(): DisputeArbitration {
+    if (!DisputeArbitration.instance) {
+      DisputeArbitration.instance = new DisputeArbitration();
+    }
+    return DisputeArbitration.instance;
+  }
+
+  // Worker contests a rejected proof; the task is frozen until an arbiter rules
+  async openDispute(task: Task, statement: string, evidence: string[]): Promise<Dispute> {
+    if (!task.workerId) {
+      throw new Error('Task has no assigned worker');
+    }
+    const workerId = task.workerId;
+
+    const dispute = await db.transaction(async (tx) => {
+      const [disputedTask] = await tx
+        .update(tasks)
+        .set({
+          status: 'disputed',
+          cancellationRequestedAt: null,
+          updated_at: new Date()
+        })
+        .where(and(eq(tasks.id, task.id), eq(tasks.status, 'in_progress')))
+        .returning();
+
+      if (!disputedTask) {
+        throw new Error('Task is no longer in progress');
+      }
+
+      const [newDispute] = await tx
+        .insert(disputes)
+        .values({
+          taskId: task.id,
+          creatorId: task.creatorId,
+          workerId,
+          disputedProof: task.rejectedProof,
+          workerStatement: statement,
+          workerEvidence: evidence,
+        })
+        .returning();
+
+      return newDispute;
+    });
+
+    broadcastToUser(task.creatorId.toString(), 'task_disputed', {
+      taskId: task.id,
+      disputeId: dispute.id,
+      title: task.title,
+      timestamp: Date.now()
+    });
+
+    console.log('[DisputeArbitration] Dispute opened:', {
+      disputeId: dispute.id,
+      taskId: task.id,
+      workerId,
+      timestamp: new Date().toISOString()
+    });
+
+    return dispute;
+  }
+
+  async addStatement(
+    dispute: Dispute,
+    party: DisputeParty,
+    statement: string,
+    evidence: string[]
+  ): Promise<Dispute> {
+    const [updatedDispute] = await db
+      .update(disputes)
+      .set(party === 'creator'
+        ? { creatorStatement: statement, creatorEvidence: evidence, updated_at: new Date() }
+        : { workerStatement: statement, workerEvidence: evidence, updated_at: new Date() })
+      .where(and(eq(disputes.id, dispute.id), eq(disputes.status, 'open')))
+      .returning();
+
+    if (!updatedDispute) {
+      throw new Error('Dispute is no longer open');
+    }
+
+    const otherPartyId = party === 'creator' ? dispute.workerId : dispute.creatorId;
+    broadcastToUser(otherPartyId.toString(), 'dispute_statement_added', {
+      disputeId: dispute.id,
+      taskId: dispute.taskId,
+      party,
+      timestamp: Date.now()
+    });
+
+    return updatedDispute;
+  }
+
+  // Splits the escrowed reward: workerShare tokens go to the worker, the rest
+  // is refunded to the creator
+  async resolveDispute(
+    dispute: Dispute,
+    task: Task,
+    arbiterId: number,
+    workerShare: number,
+    notes?: string
+  ): Promise<Dispute> {
+    if (!task.escrowTransactionId) {
+      throw new Error('Task has no escrow to settle');
+    }
+
+    const escrowTotal = await blockchainService.getRemainingEscrow(task.escrowTransactionId);
+    if (workerShare < 0 || workerShare > escrowTotal) {
+      throw new Error(`Worker share must be between 0 and ${escrowTotal} tokens`);
+    }
+
+    const creatorShare = escrowTotal - workerShare;
+    const ruling = creatorShare === 0 ? 'worker' : workerShare === 0 ? 'creator' : 'split';
+
+    console.log('[DisputeArbitration] Resolving dispute:', {
+      disputeId: dispute.id,
+      taskId: task.id,
+      arbiterId,
+      ruling,
+      workerShare,
+      creatorShare
+    });
+
+    // Both payouts commit with the ruling, so a failed refund can't leave the
+    // worker paid on a dispute that is still open
+    const settlements: TransactionResult[] = [];
+    const result = await db.transaction(async (tx) => {
+      const [resolvedDispute] = await tx
+        .update(disputes)
+        .set({
+          status: 'resolved',
+          ruling,
+          workerShare,
+          rulingNotes: notes || null,
+          arbiterId,
+          resolvedAt: new Date(),
+          updated_at: new Date()
+        })
+        .where(and(eq(disputes.id, dispute.id), eq(disputes.status, 'open')))
+        .returning();
+
+      if (!resolvedDispute) {
+        throw new Error('Dispute is no longer open');
+      }
+
+      await tx
+        .update(tasks)
+        .set({
+          status: ruling === 'creator' ? 'cancelled' : 'completed',
+          proofSubmitted: ruling === 'creator' ? null : dispute.disputedProof,
+          rejectedProof: null,
+          updated_at: new Date()
+        })
+        .where(eq(tasks.id, task.id));
+
+      if (workerShare > 0) {
+        settlements.push(await blockchainService.releaseEscrow(
+          task.escrowTransactionId!,
+          dispute.workerId.toString(),
+          workerShare,
+          undefined,
+          tx
+        ));
+      }
+
+      if (creatorShare > 0) {
+        settlements.push(await blockchainService.refundEscrow(
+          task.escrowTransactionId!,
+          dispute.creatorId.toString(),
+          creatorShare,
+          tx
+        ));
+      }
+
+      return resolvedDispute;
+    });
+
+    await blockchainService.finalizeSettlements(settlements);
+
+    const notification = {
+      disputeId: dispute.id,
+      taskId: task.id,
+      title: task.title,
+      ruling,
+      workerShare,
+      creatorShare,
+      timestamp: Date.now()
+    };
+
+    broadcastToUser(dispute.creatorId.toString(), 'dispute_resolved', notification);
+    broadcastToUser(dispute.workerId.toString(), 'dispute_resolved', notification);
+
+    console.log('[DisputeArbitration] Dispute resolved:', {
+      disputeId: dispute.id,
+      ruling,
+      timestamp: new Date().toISOString()
+    });
+
+    return result;
+  }
+}
+
+export const disputeArbitration = DisputeArbitration.getInstance();
@@ -0,0 +1,107 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { db } from '@db';
+import { tasks, tokens, tokenTransactions, users, type Task } from '@db/schema';
+import { blockchainService } from '../blockchain';
+import { applicationReview } from './applicationReview';
+import { ledgerAuditor, type AuditReport } from './ledgerAuditor';
+
+describe('LedgerAuditor escrow checks', () => {
+  let creator: { id: number; username: string };
+  let worker: { id: number; username: string };
+
+  // Mints tokens to the creator and escrows reward of them for a new task
+  async function createEscrowedTask(title: string, reward: number): Promise<Task> {
+    const tokenIds = Array.from({ length: reward }, (_, i) => `audit-test-${title}-${i}`);
+    await db.insert(tokens).values(tokenIds.map(id => ({
+      id,
+      creator: creator.username,
+      owner: creator.username,
+      mintedInBlock: 'audit-test',
+    })));
+    await db.insert(tokenTransactions).values({
+      userId: creator.id,
+      type: 'mint',
+      fromAddress: 'SYSTEM',
+      toAddress: creator.username,
+      tokenIds,
+    });
+
+    const escrow = await blockchainService.createTransaction(creator.username, 'ESCROW', reward);
+    const [task] = await db
+      .insert(tasks)
+      .values({
+        title,
+        description: 'Seeded by the ledger auditor test',
+        type: 'manual',
+        reward,
+        creatorId: creator.id,
+        proofRequired: 'none',
+        assignmentMode: 'application',
+        escrowTransactionId: escrow.id,
+      })
+      .returning();
+    return task;
+  }
+
+  async function escrowDiscrepancies(taskId: number) {
+    const audit = await ledgerAuditor.audit(null);
+    return (audit.report as AuditReport).discrepancies.filter(discrepancy =>
+      discrepancy.subject === taskId.toString() &&
+      (discrepancy.kind === 'escrow_mismatch' || discrepancy.kind === 'stranded_escrow')
+    );
+  }
+
+  before(async () => {
+    // Escrow transfers are booked to the ESCROW account
+    await db.insert(users).values({ username: 'ESCROW', password: 'x' });
+    [creator] = await db
+      .insert(users)
+      .values({ username: 'audit-test-creator', password: 'x' })
+      .returning();
+    [worker] = await db
+      .insert(users)
+      .values({ username: 'audit-test-worker', password: 'x' })
+      .returning();
+  });
+
+  it('expects an open task to hold its whole escrow', async () => {
+    const task = await createEscrowedTask('open', 4);
+
+    assert.deepEqual(await escrowDiscrepancies(task.id), []);
+  });
+
+  it('expects a task with an accepted counter-offer to hold only the lowered reward', async () => {
+    const task = await createEscrowedTask('counter-offer', 5);
+    const application = await applicationReview.apply(task, worker.id, 'I can do it for less', 3);
+    const assigned = await applicationReview.acceptApplication(task, application);
+
+    assert.equal(assigned.reward, 3);
+    assert.equal(await blockchainService.getRemainingEscrow(task.escrowTransactionId!), 3);
+    assert.deepEqual(await escrowDiscrepancies(task.id), []);
+  });
+
+  it('reports escrow that left without the task being settled', async () => {
+    const task = await createEscrowedTask('drained', 3);
+    const [escrow] = await db
+      .select({ tokenIds: tokenTransactions.tokenIds })
+      .from(tokenTransactions)
+      .where(eq(tokenTransactions.id, parseInt(task.escrowTransactionId!)));
+    // A refund that doesn't name the escrow it came from
+    await db.insert(tokenTransactions).values({
+      userId: creator.id,
+      type: 'refund',
+      fromAddress: 'ESCROW',
+      toAddress: creator.username,
+      tokenIds: [escrow.tokenIds![0]],
+    });
+
+    const discrepancies = await escrowDiscrepancies(task.id);
+
+    assert.equal(discrepancies.length, 1);
+    assert.equal(discrepancies[0].kind, 'escrow_mismatch');
+    assert.equal(discrepancies[0].expected, 3);
+    assert.equal(discrepancies[0].actual, 2);
+  });
+});
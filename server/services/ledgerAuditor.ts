@@ -0,0 +1,455 @@
+import { db } from '@db';
+import { ledgerAudits, tasks, tokens, tokenTransactions, users, type LedgerAudit } from '@db/schema';
+import { and, asc, desc, eq, gt, isNull, sql } from 'drizzle-orm';
+import type { DbTransaction } from '../blockchain';
+import { balanceTracker } from './balanceTracker';
+
+const AUDIT_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+const REPLAY_PAGE_SIZE = 1000;
+// Reports list at most this many discrepancies; the rest are only counted
+const MAX_REPORTED_DISCREPANCIES = 1000;
+
+const CLOSED_TASK_STATUSES = ['completed', 'cancelled'];
+
+export type DiscrepancyKind =
+  // Minted minus burned tokens in the ledger differs from the token rows
+  | 'supply_mismatch'
+  // A token first shows up in a non-mint transaction
+  | 'unrecorded_mint'
+  // A token row no transaction ever mentions
+  | 'unrecorded_token'
+  // A token the ledger mentions without a row
+  | 'missing_token'
+  // A transaction moved a token its sender didn't hold at the time
+  | 'invalid_transition'
+  // A token row's owner or status differs from its last transaction
+  | 'token_state_mismatch'
+  // An open task's escrow holds a different number of tokens than it took in
+  // minus what was already paid out or refunded
+  | 'escrow_mismatch'
+  // A completed or cancelled task still has tokens in escrow
+  | 'stranded_escrow'
+  // A token in escrow that no task's escrow transaction holds
+  | 'orphaned_escrow'
+  // A user's stored tokenBalance differs from the ledger
+  | 'balance_mismatch';
+
+// Only token state and stored balances are repaired; the ledger is taken as
+// the source of truth, so everything else needs a person to look at it
+const REPAIRABLE: DiscrepancyKind[] = ['token_state_mismatch', 'balance_mismatch'];
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  // Token id, username, task id or 'supply'
+  subject: string;
+  expected: string | number | null;
+  actual: string | number | null;
+  transactionId?: number;
+  repairable: boolean;
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  transactionsReplayed: number;
+  supply: {
+    minted: number;
+    unrecordedMints: number;
+    burned: number;
+    circulating: number;
+    tokenRows: number;
+  };
+  escrow: {
+    openTasks: number;
+    expected: number;
+    held: number;
+  };
+  discrepancyCount: number;
+  discrepancies: Discrepancy[];
+}
+
+interface TokenState {
+  owner: string;
+  status: 'active' | 'escrow' | 'burned';
+  lastTransactionId: number;
+}
+
+interface Replay {
+  report: AuditReport;
+  tokenStates: Map<string, TokenState>;
+  ledgerBalances: Map<string, number>;
+}
+
+function discrepancyKey(discrepancy: Pick<Discrepancy, 'kind' | 'subject'>): string {
+  return `${discrepancy.kind}:${discrepancy.subject}`;
+}
+
+export class LedgerAuditor {
+  private static instance: LedgerAuditor;
+  private auditInterval: NodeJS.Timeout | null = null;
+  private isAuditing = false;
+
+  private constructor() {
+    console.log('[LedgerAuditor] Initialized with audit interval:', AUDIT_INTERVAL);
+  }
+
+  static getInstance(): LedgerAuditor {
+    if (!LedgerAuditor.instance) {
+      LedgerAuditor.instance = new LedgerAuditor();
+    }
+    return LedgerAuditor.instance;
+  }
+
+  // The scheduled job only reports; repairs wait for an admin
+  start() {
+    if (this.auditInterval) return;
+    this.auditInterval = setInterval(() => this.runScheduledAudit(), AUDIT_INTERVAL);
+    console.log('[LedgerAuditor] Started');
+  }
+
+  stop() {
+    if (this.auditInterval) {
+      clearInterval(this.auditInterval);
+      this.auditInterval = null;
+    }
+  }
+
+  private async runScheduledAudit(): Promise<void> {
+    if (this.isAuditing) return;
+    this.isAuditing = true;
+
+    try {
+      await this.audit(null);
+    } catch (error) {
+      console.error('[LedgerAuditor] Scheduled audit failed:', error);
+    } finally {
+      this.isAuditing = false;
+    }
+  }
+
+  // Replays the ledger and stores the report. The replay reads a single
+  // snapshot, so transfers made while it runs can't skew the comparison.
+  async audit(requestedBy: number | null): Promise<LedgerAudit> {
+    const { report } = await db.transaction(
+      (tx) => this.replay(tx),
+      { isolationLevel: 'repeatable read', accessMode: 'read only' }
+    );
+
+    const [audit] = await db
+      .insert(ledgerAudits)
+      .values({
+        status: report.discrepancyCount ? 'discrepancies' : 'clean',
+        discrepancyCount: report.discrepancyCount,
+        report,
+        requestedBy,
+      })
+      .returning();
+
+    const log = report.discrepancyCount ? console.warn : console.log;
+    log('[LedgerAuditor] Audit complete:', {
+      auditId: audit.id,
+      transactionsReplayed: report.transactionsReplayed,
+      discrepancies: report.discrepancyCount,
+      requestedBy,
+    });
+
+    return audit;
+  }
+
+  async getAudits(limit: number): Promise<LedgerAudit[]> {
+    return db
+      .select()
+      .from(ledgerAudits)
+      .orderBy(desc(ledgerAudits.id))
+      .limit(limit);
+  }
+
+  // Applies the repairable discrepancies of an approved report. The ledger is
+  // replayed again first and only discrepancies that are in both the approved
+  // report and the fresh replay are repaired, so nothing that changed since
+  // the report was reviewed is touched. The replay and the repairs share one
+  // repeatable read transaction: a token or balance that changes after the
+  // replay's snapshot fails the repair instead of being overwritten with a
+  // stale value.
+  async repair(audit: LedgerAudit, adminId: number): Promise<LedgerAudit> {
+    const approved = new Set(
+      (audit.report as AuditReport).discrepancies
+        .filter(discrepancy => discrepancy.repairable)
+        .map(discrepancyKey)
+    );
+
+    let repairs: Discrepancy[] = [];
+    let repaired: LedgerAudit;
+    try {
+      repaired = await db.transaction(async (tx) => {
+        const { report, tokenStates, ledgerBalances } = await this.replay(tx);
+        repairs = report.discrepancies.filter(discrepancy =>
+          discrepancy.repairable && approved.has(discrepancyKey(discrepancy))
+        );
+
+        const [claimed] = await tx
+          .update(ledgerAudits)
+          .set({ status: 'repaired', repairedBy: adminId, repairedAt: new Date(), repairs })
+          .where(and(eq(ledgerAudits.id, audit.id), isNull(ledgerAudits.repairedAt)))
+          .returning();
+
+        if (!claimed) {
+          throw new Error('Audit has already been repaired');
+        }
+
+        // Token rows first, so balances synced afterwards agree with them
+        for (const discrepancy of repairs.filter(repair => repair.kind === 'token_state_mismatch')) {
+          const state = tokenStates.get(discrepancy.subject)!;
+          await tx
+            .update(tokens)
+            .set({ owner: state.owner, status: state.status, updated_at: new Date() })
+            .where(eq(tokens.id, discrepancy.subject));
+        }
+
+        for (const discrepancy of repairs.filter(repair => repair.kind === 'balance_mismatch')) {
+          await tx
+            .update(users)
+            .set({ tokenBalance: ledgerBalances.get(discrepancy.subject) ?? 0, updated_at: new Date() })
+            .where(eq(users.username, discrepancy.subject));
+        }
+
+        return claimed;
+      }, { isolationLevel: 'repeatable read' });
+    } catch (error: any) {
+      // Postgres serialization_failure: a repaired row changed after the replay
+      if (error?.code === '40001') {
+        throw new Error('The ledger changed while repairing; run the repair again');
+      }
+      throw error;
+    }
+
+    repairs
+      .filter(repair => repair.kind === 'balance_mismatch')
+      .forEach(repair => balanceTracker.invalidateCache(repair.subject));
+
+    console.log('[LedgerAuditor] Repairs applied:', {
+      auditId: audit.id,
+      adminId,
+      tokens: repairs.filter(repair => repair.kind === 'token_state_mismatch').length,
+      balances: repairs.filter(repair => repair.kind === 'balance_mismatch').length,
+      skipped: approved.size - repairs.length,
+    });
+
+    return repaired;
+  }
+
+  // Replays every transaction from genesis, in id order, and compares the
+  // result with the token rows, stored balances and open tasks' escrow
+  private async replay(tx: DbTransaction): Promise<Replay> {
+    const discrepancies: Discrepancy[] = [];
+    const report = (discrepancy: Omit<Discrepancy, 'repairable'>) => {
+      discrepancies.push({ ...discrepancy, repairable: REPAIRABLE.includes(discrepancy.kind) });
+    };
+
+    const tokenStates = new Map<string, TokenState>();
+    // Tokens released or refunded per escrow transaction
+    const settledByEscrow = new Map<string, number>();
+    let minted = 0;
+    let unrecordedMints = 0;
+    let burned = 0;
+    let replayed = 0;
+    let lastId = 0;
+
+    while (true) {
+      const page = await tx
+        .select({
+          id: tokenTransactions.id,
+          type: tokenTransactions.type,
+          fromAddress: tokenTransactions.fromAddress,
+          toAddress: tokenTransactions.toAddress,
+          tokenIds: tokenTransactions.tokenIds,
+          metadata: tokenTransactions.metadata,
+        })
+        .from(tokenTransactions)
+        .where(and(gt(tokenTransactions.id, lastId), eq(tokenTransactions.status, 'completed')))
+        .orderBy(asc(tokenTransactions.id))
+        .limit(REPLAY_PAGE_SIZE);
+
+      if (!page.length) break;
+
+      for (const transaction of page) {
+        const from = transaction.fromAddress || 'SYSTEM';
+        const to = transaction.toAddress || '';
+
+        for (const tokenId of transaction.tokenIds ?? []) {
+          const previous = tokenStates.get(tokenId);
+
+          if (transaction.type === 'mint') {
+            if (previous) {
+              report({ kind: 'invalid_transition', subject: tokenId, expected: null, actual: 'minted again', transactionId: transaction.id });
+            } else {
+              minted++;
+            }
+            tokenStates.set(tokenId, { owner: to, status: 'active', lastTransactionId: transaction.id });
+            continue;
+          }
+
+          // Tokens created outside the ledger are assumed to have been
+          // held by the sender of their first transaction
+          if (!previous) {
+            unrecordedMints++;
+            report({ kind: 'unrecorded_mint', subject: tokenId, expected: 'mint', actual: transaction.type, transactionId: transaction.id });
+          }
+
+          const holder = transaction.type === 'release' || transaction.type === 'refund'
+            ? { owner: 'ESCROW', status: 'escrow' }
+            : { owner: from, status: 'active' };
+          if (previous && (previous.owner !== holder.owner || previous.status !== holder.status)) {
+            report({
+              kind: 'invalid_transition',
+              subject: tokenId,
+              expected: `${holder.owner} (${holder.status})`,
+              actual: `${previous.owner} (${previous.status})`,
+              transactionId: transaction.id,
+            });
+          }
+
+          if (transaction.type === 'burn') {
+            burned++;
+            tokenStates.set(tokenId, { owner: previous?.owner ?? from, status: 'burned', lastTransactionId: transaction.id });
+          } else if (transaction.type === 'escrow') {
+            tokenStates.set(tokenId, { owner: 'ESCROW', status: 'escrow', lastTransactionId: transaction.id });
+          } else {
+            tokenStates.set(tokenId, { owner: to, status: 'active', lastTransactionId: transaction.id });
+          }
+        }
+
+        const escrowId = transaction.metadata?.escrowTransactionId;
+        if ((transaction.type === 'release' || transaction.type === 'refund') && escrowId) {
+          settledByEscrow.set(escrowId, (settledByEscrow.get(escrowId) ?? 0) + (transaction.tokenIds?.length ?? 0));
+        }
+      }
+
+      replayed += page.length;
+      lastId = page[page.length - 1].id;
+    }
+
+    // Token rows against their last transaction
+    const rows = await tx
+      .select({ id: tokens.id, owner: tokens.owner, status: tokens.status })
+      .from(tokens);
+
+    const rowIds = new Set<string>();
+    let liveRows = 0;
+    for (const row of rows) {
+      rowIds.add(row.id);
+      if (row.status !== 'burned') liveRows++;
+
+      const state = tokenStates.get(row.id);
+      if (!state) {
+        report({ kind: 'unrecorded_token', subject: row.id, expected: null, actual: `${row.owner} (${row.status})` });
+      } else if (state.owner !== row.owner || state.status !== row.status) {
+        report({
+          kind: 'token_state_mismatch',
+          subject: row.id,
+          expected: `${state.owner} (${state.status})`,
+          actual: `${row.owner} (${row.status})`,
+          transactionId: state.lastTransactionId,
+        });
+      }
+    }
+
+    const ledgerBalances = new Map<string, number>();
+    const escrowedTokens: string[] = [];
+    tokenStates.forEach((state, tokenId) => {
+      if (!rowIds.has(tokenId)) {
+        report({ kind: 'missing_token', subject: tokenId, expected: `${state.owner} (${state.status})`, actual: null, transactionId: state.lastTransactionId });
+      }
+      if (state.status === 'active') {
+        ledgerBalances.set(state.owner, (ledgerBalances.get(state.owner) ?? 0) + 1);
+      } else if (state.status === 'escrow') {
+        escrowedTokens.push(tokenId);
+      }
+    });
+
+    const circulating = minted + unrecordedMints - burned;
+    if (circulating !== liveRows) {
+      report({ kind: 'supply_mismatch', subject: 'supply', expected: circulating, actual: liveRows });
+    }
+
+    // Escrow against the tasks it was taken for
+    const escrowTasks = await tx
+      .select({
+        id: tasks.id,
+        status: tasks.status,
+        escrowTransactionId: tasks.escrowTransactionId,
+        escrowTokenIds: tokenTransactions.tokenIds,
+      })
+      .from(tasks)
+      .innerJoin(tokenTransactions, eq(sql`${tokenTransactions.id}::text`, tasks.escrowTransactionId));
+
+    const claimedEscrow = new Set<string>();
+    let openTasks = 0;
+    let expectedEscrow = 0;
+    let heldEscrow = 0;
+    for (const task of escrowTasks) {
+      const tokenIds = task.escrowTokenIds ?? [];
+      tokenIds.forEach(tokenId => claimedEscrow.add(tokenId));
+      const held = tokenIds.filter(tokenId => tokenStates.get(tokenId)?.status === 'escrow').length;
+
+      if (CLOSED_TASK_STATUSES.includes(task.status)) {
+        if (held) {
+          report({ kind: 'stranded_escrow', subject: task.id.toString(), expected: 0, actual: held });
+        }
+        continue;
+      }
+
+      // Not the reward: an accepted counter-offer lowers it and refunds the
+      // difference, which the settled count already includes
+      const expected = tokenIds.length - (settledByEscrow.get(task.escrowTransactionId!) ?? 0);
+      openTasks++;
+      expectedEscrow += expected;
+      heldEscrow += held;
+      if (held !== expected) {
+        report({ kind: 'escrow_mismatch', subject: task.id.toString(), expected, actual: held });
+      }
+    }
+
+    for (const tokenId of escrowedTokens) {
+      if (!claimedEscrow.has(tokenId)) {
+        report({ kind: 'orphaned_escrow', subject: tokenId, expected: null, actual: 'escrow' });
+      }
+    }
+
+    // Stored balances against the ledger
+    const storedBalances = await tx
+      .select({ username: users.username, tokenBalance: users.tokenBalance })
+      .from(users);
+
+    for (const user of storedBalances) {
+      const expected = ledgerBalances.get(user.username) ?? 0;
+      if (user.tokenBalance !== expected) {
+        report({ kind: 'balance_mismatch', subject: user.username, expected, actual: user.tokenBalance });
+      }
+    }
+
+    return {
+      report: {
+        generatedAt: new Date().toISOString(),
+        transactionsReplayed: replayed,
+        supply: {
+          minted,
+          unrecordedMints,
+          burned,
+          circulating,
+          tokenRows: liveRows,
+        },
+        escrow: {
+          openTasks,
+          expected: expectedEscrow,
+          held: heldEscrow,
+        },
+        discrepancyCount: discrepancies.length,
+        discrepancies: discrepancies.slice(0, MAX_REPORTED_DISCREPANCIES),
+      },
+      tokenStates,
+      ledgerBalances,
+    };
+  }
+}
+
+export const ledgerAuditor = LedgerAuditor.getInstance();
@@ -0,0 +1,204 @@
+import { db } from '@db';
+import { taskMilestones, tasks, type Task, type TaskMilestone } from '@db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { blockchainService } from '../blockchain';
+import type { TransactionResult } from '../../client/src/lib/blockchain/types';
+import { broadcastToUser } from '../ws';
+
+export interface MilestoneSpec {
+  title: string;
+  description?: string;
+  reward: number;
+}
+
+const MAX_MILESTONES = 20;
+
+// Milestone rewards are whole tokens and must add up to the task reward
+export function validateMilestones(
+  milestones: unknown,
+  reward: number
+): { milestones: MilestoneSpec[] } | { error: string } {
+  if (!Array.isArray(milestones) || milestones.length < 2 || milestones.length > MAX_MILESTONES) {
+    return { error: `Milestone tasks need between 2 and ${MAX_MILESTONES} milestones` };
+  }
+
+  const specs: MilestoneSpec[] = [];
+  for (const milestone of milestones) {
+    if (!milestone || typeof milestone.title !== 'string' || !milestone.title.trim()) {
+      return { error: 'Every milestone needs a title' };
+    }
+    if (!Number.isInteger(milestone.reward) || milestone.reward < 1) {
+      return { error: 'Every milestone reward must be at least 1 token' };
+    }
+    specs.push({
+      title: milestone.title.trim(),
+      description: typeof milestone.description === 'string' ? milestone.description : undefined,
+      reward: milestone.reward
+    });
+  }
+
+  const total = specs.reduce((sum, milestone) => sum + milestone.reward, 0);
+  if (total !== Number(reward)) {
+    return { error: `Milestone rewards add up to ${total} tokens but the task reward is ${reward}` };
+  }
+
+  return { milestones: specs };
+}
+
+export class MilestoneTracker {
+  private static instance: MilestoneTracker;
+
+  private constructor() {
+    console.log('[MilestoneTracker] Initialized');
+  }
+
+  static getInstance(): MilestoneTracker {
+    if (!MilestoneTracker.instance) {
+      MilestoneTracker.instance = new MilestoneTracker();
+    }
+    return MilestoneTracker.instance;
+  }
+
+  async getMilestones(taskId: number): Promise<TaskMilestone[]> {
+    return db
+      .select()
+      .from(taskMilestones)
+      .where(eq(taskMilestones.taskId, taskId))
+      .orderBy(asc(taskMilestones.position));
+  }
+
+  async submitProof(task: Task, milestone: TaskMilestone, proof: string): Promise<TaskMilestone> {
+    const [updatedMilestone] = await db
+      .update(taskMilestones)
+      .set({
+        status: 'submitted',
+        proofSubmitted: proof,
+        submittedAt: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(eq(taskMilestones.id, milestone.id), eq(taskMilestones.status, 'pending')))
+      .returning();
+
+    if (!updatedMilestone) {
+      throw new Error('Milestone is not awaiting proof');
+    }
+
+    // Track the latest submission so on-time delivery can be measured
+    await db
+      .update(tasks)
+      .set({ submittedAt: updatedMilestone.submittedAt })
+      .where(eq(tasks.id, task.id));
+
+    broadcastToUser(task.creatorId.toString(), 'milestone_submitted', {
+      taskId: task.id,
+      milestoneId: milestone.id,
+      title: task.title,
+      milestoneTitle: milestone.title,
+      timestamp: Date.now()
+    });
+
+    console.log('[MilestoneTracker] Milestone proof submitted:', {
+      taskId: task.id,
+      milestoneId: milestone.id,
+      workerId: task.workerId,
+      timestamp: new Date().toISOString()
+    });
+
+    return updatedMilestone;
+  }
+
+  // Verifying a milestone pays out its share of the escrow; once every
+  // milestone is verified the task is completed
+  async verifyMilestone(
+    task: Task,
+    milestone: TaskMilestone,
+    verified: boolean
+  ): Promise<{ milestone: TaskMilestone; task: Task }> {
+    if (verified && (!task.escrowTransactionId || !task.workerId)) {
+      throw new Error('Task has no escrow or assigned worker');
+    }
+
+    let release: TransactionResult | null = null;
+    const result = await db.transaction(async (tx) => {
+      const [updatedMilestone] = await tx
+        .update(taskMilestones)
+        .set(verified
+          ? { status: 'verified', verifiedAt: new Date(), updated_at: new Date() }
+          : { status: 'pending', proofSubmitted: null, submittedAt: null, updated_at: new Date() })
+        .where(and(eq(taskMilestones.id, milestone.id), eq(taskMilestones.status, 'submitted')))
+        .returning();
+
+      if (!updatedMilestone) {
+        throw new Error('Milestone is not pending verification');
+      }
+
+      if (!verified) {
+        return { milestone: updatedMilestone, task };
+      }
+
+      // The payout commits with the verification, so a failure below can't
+      // leave the worker paid for a milestone still awaiting verification
+      release = await blockchainService.releaseEscrow(
+        task.escrowTransactionId!,
+        task.workerId!.toString(),
+        milestone.reward,
+        undefined,
+        tx
+      );
+
+      const [paidMilestone] = await tx
+        .update(taskMilestones)
+        .set({ releaseTransactionId: release.id })
+        .where(eq(taskMilestones.id, milestone.id))
+        .returning();
+
+      const milestones = await tx
+        .select({ status: taskMilestones.status })
+        .from(taskMilestones)
+        .where(eq(taskMilestones.taskId, task.id));
+
+      if (!milestones.every(m => m.status === 'verified')) {
+        return { milestone: paidMilestone, task };
+      }
+
+      const [completedTask] = await tx
+        .update(tasks)
+        .set({
+          status: 'completed',
+          updated_at: new Date()
+        })
+        .where(eq(tasks.id, task.id))
+        .returning();
+
+      return { milestone: paidMilestone, task: completedTask };
+    });
+
+    if (release) {
+      await blockchainService.finalizeSettlements([release]);
+    }
+
+    if (task.workerId) {
+      broadcastToUser(task.workerId.toString(), verified ? 'milestone_verified' : 'milestone_rejected', {
+        taskId: task.id,
+        milestoneId: milestone.id,
+        title: task.title,
+        milestoneTitle: milestone.title,
+        reward: verified ? milestone.reward : 0,
+        taskCompleted: result.task.status === 'completed',
+        timestamp: Date.now()
+      });
+    }
+
+    console.log('[MilestoneTracker] Milestone verification:', {
+      taskId: task.id,
+      milestoneId: milestone.id,
+      verified,
+      taskStatus: result.task.status,
+      timestamp: new Date().toISOString()
+    });
+
+    return result;
+  }
+}
+
+export const milestoneTracker = MilestoneTracker.getInstance();
@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import { db } from '@db';
+import { blocks, tokenTransactions, tokenTransfers, users, type TokenTransfer } from '@db/schema';
+import { and, eq, gt, ne, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { blockchainService } from '../blockchain';
+import { broadcastToUser } from '../ws';
+
+export const DAILY_TRANSFER_LIMIT = 1000; // tokens per sender per 24 hours
+export const MAX_TRANSFER_MEMO_LENGTH = 140;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export interface TransferRequest {
+  recipient: string;
+  amount: number;
+  memo: string | null;
+}
+
+export interface TransferReceipt {
+  id: number;
+  status: TokenTransfer['status'];
+  from: string;
+  to: string;
+  amount: number;
+  memo: string | null;
+  transactionId: string | null;
+  blockHash: string | null;
+  created_at: Date;
+  completedAt: Date | null;
+}
+
+export interface TransferUsage {
+  limit: number;
+  sent: number;
+  remaining: number;
+}
+
+export function validateTransfer(body: any): TransferRequest | { error: string } {
+  const { to, amount, memo } = body ?? {};
+
+  if (typeof to !== 'string' || !to.trim()) {
+    return { error: 'Recipient username is required' };
+  }
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return { error: 'Amount must be a positive whole number of tokens' };
+  }
+
+  if (memo !== undefined && memo !== null && typeof memo !== 'string') {
+    return { error: 'Memo must be text' };
+  }
+
+  const trimmedMemo = typeof memo === 'string' ? memo.trim() : '';
+  if (trimmedMemo.length > MAX_TRANSFER_MEMO_LENGTH) {
+    return { error: `Memo can be at most ${MAX_TRANSFER_MEMO_LENGTH} characters` };
+  }
+
+  return { recipient: to.trim(), amount, memo: trimmedMemo || null };
+}
+
+export function validateIdempotencyKey(key: unknown): string | { error: string } {
+  if (typeof key !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return { error: 'Idempotency-Key must be 8-64 letters, digits, dashes or underscores' };
+  }
+  return key;
+}
+
+export class PeerTransfers {
+  private static instance: PeerTransfers;
+
+  private constructor() {
+    console.log('[PeerTransfers] Initialized with daily limit:', DAILY_TRANSFER_LIMIT);
+  }
+
+  static getInstance(): PeerTransfers {
+    if (!PeerTransfers.instance) {
+      PeerTransfers.instance = new PeerTransfers();
+    }
+    return PeerTransfers.instance;
+  }
+
+  async findRecipient(username: string): Promise<{ id: number; username: string } | null> {
+    const [recipient] = await db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(eq(users.username, username))
+      .limit(1);
+
+    return recipient ?? null;
+  }
+
+  // Sends still pending or queued count towards the limit, so parallel
+  // requests can't overrun it; rejected ones don't
+  async getUsage(senderId: number): Promise<TransferUsage> {
+    const [{ sent }] = await db
+      .select({ sent: sql<number>`coalesce(sum(${tokenTransfers.amount}), 0)` })
+      .from(tokenTransfers)
+      .where(and(
+        eq(tokenTransfers.senderId, senderId),
+        ne(tokenTransfers.status, 'rejected'),
+        gt(tokenTransfers.created_at, sql`now() - interval '24 hours'`)
+      ));
+
+    return {
+      limit: DAILY_TRANSFER_LIMIT,
+      sent: Number(sent),
+      remaining: Math.max(DAILY_TRANSFER_LIMIT - Number(sent), 0),
+    };
+  }
+
+  // A retry with the same idempotency key gets the original receipt back
+  // instead of sending again. Reusing a key for a different send is refused;
+  // without a key every call is a new send. The transfer row, the ledger move
+  // and the row's final status commit together, so a failed or interrupted
+  // send leaves nothing behind.
+  async send(
+    sender: { id: number; username: string },
+    recipient: { id: number; username: string },
+    transfer: TransferRequest,
+    key: string | null
+  ): Promise<{ receipt: TransferReceipt; replayed: boolean } | { error: string; code: string }> {
+    const idempotencyKey = key ?? randomUUID();
+    const outcome = await db.transaction(async (tx) => {
+      // Serializes a sender's sends so the limit check and reservation agree
+      await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, sender.id))
+        .for('update');
+
+      const [existing] = await tx
+        .select()
+        .from(tokenTransfers)
+        .where(and(
+          eq(tokenTransfers.senderId, sender.id),
+          eq(tokenTransfers.idempotencyKey, idempotencyKey)
+        ))
+        .limit(1);
+
+      if (existing) {
+        return { existing };
+      }
+
+      const [{ sent }] = await tx
+        .select({ sent: sql<number>`coalesce(sum(${tokenTransfers.amount}), 0)` })
+        .from(tokenTransfers)
+        .where(and(
+          eq(tokenTransfers.senderId, sender.id),
+          ne(tokenTransfers.status, 'rejected'),
+          gt(tokenTransfers.created_at, sql`now() - interval '24 hours'`)
+        ));
+
+      if (Number(sent) + transfer.amount > DAILY_TRANSFER_LIMIT) {
+        return { remaining: Math.max(DAILY_TRANSFER_LIMIT - Number(sent), 0) };
+      }
+
+      const [created] = await tx
+        .insert(tokenTransfers)
+        .values({
+          senderId: sender.id,
+          recipientId: recipient.id,
+          amount: transfer.amount,
+          memo: transfer.memo,
+          idempotencyKey,
+        })
+        .returning();
+
+      const result = await blockchainService.createTransaction(
+        sender.username,
+        recipient.username,
+        transfer.amount,
+        { memo: transfer.memo ?? undefined, transferId: created.id },
+        tx
+      );
+
+      // In mempool mode the block producer completes the transfer and
+      // notifies the recipient once it is sealed
+      await tx
+        .update(tokenTransfers)
+        .set(result.queued
+          ? { status: 'queued' }
+          : { status: 'completed', transactionId: parseInt(result.id), completedAt: new Date() })
+        .where(eq(tokenTransfers.id, created.id));
+
+      return { created, result };
+    });
+
+    if (outcome.existing) {
+      const existing = outcome.existing;
+      if (existing.recipientId !== recipient.id || existing.amount !== transfer.amount || existing.memo !== transfer.memo) {
+        return { error: 'Idempotency key was already used for a different transfer', code: 'IDEMPOTENCY_CONFLICT' };
+      }
+      return { receipt: (await this.loadReceipt(existing.id))!.receipt, replayed: true };
+    }
+
+    if (!outcome.created) {
+      return {
+        error: `Daily transfer limit of ${DAILY_TRANSFER_LIMIT} tokens reached; ${outcome.remaining} left today`,
+        code: 'TRANSFER_LIMIT_EXCEEDED'
+      };
+    }
+
+    const { created, result } = outcome;
+    await blockchainService.finalizeSettlements([result]);
+
+    if (result.queued) {
+      console.log('[PeerTransfers] Transfer queued:', {
+        transferId: created.id,
+        mempoolEntryId: result.id,
+        from: sender.username,
+        to: recipient.username,
+        amount: transfer.amount
+      });
+
+      return { receipt: (await this.loadReceipt(created.id))!.receipt, replayed: false };
+    }
+
+    broadcastToUser(recipient.id.toString(), 'tokens_received', {
+      transferId: created.id,
+      from: sender.username,
+      amount: transfer.amount,
+      memo: transfer.memo,
+      timestamp: Date.now()
+    });
+
+    console.log('[PeerTransfers] Transfer completed:', {
+      transferId: created.id,
+      transactionId: result.id,
+      from: sender.username,
+      to: recipient.username,
+      amount: transfer.amount
+    });
+
+    return { receipt: (await this.loadReceipt(created.id))!.receipt, replayed: false };
+  }
+
+  // Receipts are visible to the sender and the recipient only
+  async getReceipt(transferId: number, userId: number): Promise<TransferReceipt | null> {
+    const loaded = await this.loadReceipt(transferId);
+    if (!loaded || (loaded.senderId !== userId && loaded.recipientId !== userId)) {
+      return null;
+    }
+    return loaded.receipt;
+  }
+
+  private async loadReceipt(
+    transferId: number
+  ): Promise<{ receipt: TransferReceipt; senderId: number; recipientId: number } | null> {
+    const sender = alias(users, 'sender');
+    const recipient = alias(users, 'recipient');
+
+    const [receipt] = await db
+      .select({
+        id: tokenTransfers.id,
+        status: tokenTransfers.status,
+        senderId: tokenTransfers.senderId,
+        recipientId: tokenTransfers.recipientId,
+        from: sender.username,
+        to: recipient.username,
+        amount: tokenTransfers.amount,
+        memo: tokenTransfers.memo,
+        transactionId: tokenTransfers.transactionId,
+        // Transfers sealed after they completed only have the block's hash
+        blockHash: sql<string | null>`coalesce(${tokenTransfers.blockHash}, ${blocks.hash})`,
+        created_at: tokenTransfers.created_at,
+        completedAt: tokenTransfers.completedAt,
+      })
+      .from(tokenTransfers)
+      .innerJoin(sender, eq(tokenTransfers.senderId, sender.id))
+      .innerJoin(recipient, eq(tokenTransfers.recipientId, recipient.id))
+      .leftJoin(tokenTransactions, eq(tokenTransfers.transactionId, tokenTransactions.id))
+      .leftJoin(blocks, eq(tokenTransactions.blockId, blocks.id))
+      .where(eq(tokenTransfers.id, transferId))
+      .limit(1);
+
+    if (!receipt) return null;
+
+    const { senderId, recipientId, ...rest } = receipt;
+    return {
+      receipt: { ...rest, transactionId: rest.transactionId?.toString() ?? null },
+      senderId,
+      recipientId
+    };
+  }
+}
+
+export const peerTransfers = PeerTransfers.getInstance();
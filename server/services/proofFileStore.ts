@@ -0,0 +1,192 @@
+import { db } from '@db';
+import { proofFiles, type ProofFile, type Task } from '@db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { proofStorage } from '../storage';
+
+export const MAX_PROOF_FILES = 5;
+export const MAX_PROOF_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+export interface UploadedProofFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+type UploadProofType = 'image_upload' | 'code_submission';
+
+const IMAGE_SIGNATURES: Record<string, { extension: string; matches: (data: Buffer) => boolean }> = {
+  'image/png': {
+    extension: 'png',
+    matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  },
+  'image/jpeg': {
+    extension: 'jpg',
+    matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff
+  },
+  'image/gif': {
+    extension: 'gif',
+    matches: data => data.subarray(0, 6).toString('ascii').startsWith('GIF8')
+  },
+  'image/webp': {
+    extension: 'webp',
+    matches: data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP'
+  },
+};
+
+const CODE_EXTENSIONS = [
+  'txt', 'md', 'json', 'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java',
+  'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh', 'sql', 'html', 'css', 'yml', 'yaml',
+];
+
+const CODE_MAX_SIZE = 1024 * 1024; // 1 MB
+
+export function acceptsProofFiles(proofType: string): proofType is UploadProofType {
+  return proofType === 'image_upload' || proofType === 'code_submission';
+}
+
+function getExtension(filename: string): string {
+  const match = /\.([a-z0-9]+)$/i.exec(filename);
+  return match ? match[1].toLowerCase() : '';
+}
+
+// Checks the declared type against the actual bytes; the client-supplied
+// MIME type alone is not trusted
+function validateProofFile(
+  proofType: UploadProofType,
+  file: UploadedProofFile
+): { extension: string; mimeType: string } | { error: string } {
+  if (proofType === 'image_upload') {
+    const signature = IMAGE_SIGNATURES[file.mimetype];
+    if (!signature) {
+      return { error: `${file.originalname}: only PNG, JPEG, GIF and WebP images are accepted` };
+    }
+    if (!signature.matches(file.buffer)) {
+      return { error: `${file.originalname}: file contents do not match ${file.mimetype}` };
+    }
+    return { extension: signature.extension, mimeType: file.mimetype };
+  }
+
+  const extension = getExtension(file.originalname);
+  if (!CODE_EXTENSIONS.includes(extension)) {
+    return { error: `${file.originalname}: unsupported source file type` };
+  }
+  if (file.size > CODE_MAX_SIZE) {
+    return { error: `${file.originalname}: source files are limited to 1 MB` };
+  }
+  if (file.buffer.includes(0)) {
+    return { error: `${file.originalname}: binary files are not accepted as code` };
+  }
+  return { extension, mimeType: 'text/plain; charset=utf-8' };
+}
+
+export class ProofFileStore {
+  private static instance: ProofFileStore;
+
+  private constructor() {
+    console.log('[ProofFileStore] Initialized with limits:', {
+      maxFiles: MAX_PROOF_FILES,
+      maxFileSize: MAX_PROOF_FILE_SIZE
+    });
+  }
+
+  static getInstance(): ProofFileStore {
+    if (!ProofFileStore.instance) {
+      ProofFileStore.instance = new ProofFileStore();
+    }
+    return ProofFileStore.instance;
+  }
+
+  // Validates every file before anything is written so a bad upload leaves no partial state.
+  // The limit is per uploader, so files left by a previous worker on a
+  // reopened task don't count against the next one.
+  async saveFiles(
+    task: Task,
+    uploaderId: number,
+    files: UploadedProofFile[]
+  ): Promise<{ files: ProofFile[] } | { error: string }> {
+    if (!acceptsProofFiles(task.proofType)) {
+      return { error: `Tasks with proof type ${task.proofType} do not accept files` };
+    }
+
+    const existing = (await this.listFiles(task.id)).filter(record => record.uploaderId === uploaderId);
+    if (existing.length + files.length > MAX_PROOF_FILES) {
+      return { error: `You can upload at most ${MAX_PROOF_FILES} proof files for a task` };
+    }
+
+    const validated: Array<{ file: UploadedProofFile; extension: string; mimeType: string }> = [];
+    for (const file of files) {
+      const result = validateProofFile(task.proofType, file);
+      if ('error' in result) {
+        return result;
+      }
+      validated.push({ file, ...result });
+    }
+
+    const saved: ProofFile[] = [];
+    for (const { file, extension, mimeType } of validated) {
+      const stored = await proofStorage.put(file.buffer, extension);
+
+      // Re-uploading identical content returns the existing record
+      const duplicate = existing.find(record => record.sha256 === stored.sha256);
+      if (duplicate) {
+        await proofStorage.delete(stored.key);
+        saved.push(duplicate);
+        continue;
+      }
+
+      const [record] = await db
+        .insert(proofFiles)
+        .values({
+          taskId: task.id,
+          uploaderId,
+          storageKey: stored.key,
+          originalName: file.originalname.slice(0, 255),
+          mimeType,
+          size: stored.size,
+          sha256: stored.sha256,
+        })
+        .returning();
+
+      existing.push(record);
+      saved.push(record);
+    }
+
+    console.log('[ProofFileStore] Proof files saved:', {
+      taskId: task.id,
+      uploaderId,
+      files: saved.map(f => ({ id: f.id, name: f.originalName, size: f.size })),
+      timestamp: new Date().toISOString()
+    });
+
+    return { files: saved };
+  }
+
+  async listFiles(taskId: number): Promise<ProofFile[]> {
+    return db
+      .select()
+      .from(proofFiles)
+      .where(eq(proofFiles.taskId, taskId))
+      .orderBy(asc(proofFiles.created_at));
+  }
+
+  async getFile(taskId: number, fileId: number): Promise<ProofFile | undefined> {
+    const [file] = await db
+      .select()
+      .from(proofFiles)
+      .where(and(eq(proofFiles.id, fileId), eq(proofFiles.taskId, taskId)))
+      .limit(1);
+    return file;
+  }
+
+  async readContent(file: ProofFile): Promise<Buffer> {
+    return proofStorage.get(file.storageKey);
+  }
+
+  async deleteFile(file: ProofFile): Promise<void> {
+    await db.delete(proofFiles).where(eq(proofFiles.id, file.id));
+    await proofStorage.delete(file.storageKey);
+  }
+}
+
+export const proofFileStore = ProofFileStore.getInstance();
@@ -0,0 +1,244 @@
+import { db } from '@db';
+import {
+  disputes,
+  taskAssignments,
+  taskRatings,
+  tasks,
+  users,
+  type Task,
+  type TaskRating
+} from '@db/schema';
+import { and, desc, eq, inArray, isNotNull, or, sql } from 'drizzle-orm';
+import { broadcastToUser } from '../ws';
+
+const MAX_COMMENT_LENGTH = 1000;
+const RECENT_RATINGS = 10;
+
+export interface RateableParty {
+  userId: number;
+  role: 'creator' | 'worker';
+}
+
+export interface ReputationStats {
+  tasksCreated: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  completionRate: number | null;
+  onTimeRate: number | null;
+  disputeRate: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+export function validateRating(
+  score: unknown,
+  comment: unknown
+): { score: number; comment: string | null } | { error: string } {
+  if (!Number.isInteger(score) || (score as number) < 1 || (score as number) > 5) {
+    return { error: 'Ratings must be a whole number from 1 to 5' };
+  }
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    return { error: 'Comment must be text' };
+  }
+  if (typeof comment === 'string' && comment.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` };
+  }
+  return { score: score as number, comment: typeof comment === 'string' && comment.trim() ? comment.trim() : null };
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+export class ReputationTracker {
+  private static instance: ReputationTracker;
+
+  private constructor() {
+    console.log('[ReputationTracker] Initialized');
+  }
+
+  static getInstance(): ReputationTracker {
+    if (!ReputationTracker.instance) {
+      ReputationTracker.instance = new ReputationTracker();
+    }
+    return ReputationTracker.instance;
+  }
+
+  // Creators rate the workers who took part and workers rate the creator.
+  // Ratings open once the task has finished, whichever way it ended.
+  async getRateableParties(task: Task, raterId: number): Promise<RateableParty[]> {
+    if (task.status !== 'completed' && task.status !== 'cancelled') {
+      return [];
+    }
+
+    const workerIds = task.maxWorkers > 1
+      ? (await db
+          .select({ workerId: taskAssignments.workerId })
+          .from(taskAssignments)
+          .where(eq(taskAssignments.taskId, task.id)))
+          .map(assignment => assignment.workerId)
+      : task.workerId ? [task.workerId] : [];
+
+    if (raterId === task.creatorId) {
+      return workerIds
+        .filter((id, index) => workerIds.indexOf(id) === index)
+        .map(userId => ({ userId, role: 'worker' as const }));
+    }
+
+    return workerIds.includes(raterId) ? [{ userId: task.creatorId, role: 'creator' }] : [];
+  }
+
+  async getTaskRatings(taskId: number): Promise<TaskRating[]> {
+    return db
+      .select()
+      .from(taskRatings)
+      .where(eq(taskRatings.taskId, taskId))
+      .orderBy(desc(taskRatings.created_at));
+  }
+
+  async rate(
+    task: Task,
+    raterId: number,
+    ratee: RateableParty,
+    score: number,
+    comment: string | null
+  ): Promise<TaskRating | null> {
+    const [rating] = await db
+      .insert(taskRatings)
+      .values({
+        taskId: task.id,
+        raterId,
+        rateeId: ratee.userId,
+        rateeRole: ratee.role,
+        score,
+        comment
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    // Already rated this party for this task
+    if (!rating) {
+      return null;
+    }
+
+    broadcastToUser(ratee.userId.toString(), 'rating_received', {
+      taskId: task.id,
+      title: task.title,
+      score,
+      timestamp: Date.now()
+    });
+
+    console.log('[ReputationTracker] Rating recorded:', {
+      taskId: task.id,
+      raterId,
+      rateeId: ratee.userId,
+      score,
+      timestamp: new Date().toISOString()
+    });
+
+    return rating;
+  }
+
+  // Stats are derived from task history on demand rather than stored, so
+  // they can't drift from the tasks they describe
+  async getStats(userId: number): Promise<ReputationStats> {
+    const workedTasks = await db
+      .select({ status: tasks.status, completeBy: tasks.completeBy, submittedAt: tasks.submittedAt })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workerId, userId),
+        eq(tasks.maxWorkers, 1),
+        inArray(tasks.status, ['completed', 'cancelled'])
+      ));
+
+    const workedAssignments = await db
+      .select({
+        status: taskAssignments.status,
+        completeBy: tasks.completeBy,
+        submittedAt: taskAssignments.submittedAt
+      })
+      .from(taskAssignments)
+      .innerJoin(tasks, eq(taskAssignments.taskId, tasks.id))
+      .where(and(
+        eq(taskAssignments.workerId, userId),
+        inArray(taskAssignments.status, ['completed', 'expired'])
+      ));
+
+    const finished = [...workedTasks, ...workedAssignments];
+    const completed = finished.filter(work => work.status === 'completed');
+    const timed = completed.filter(work => work.completeBy && work.submittedAt);
+    const onTime = timed.filter(work => work.submittedAt! <= work.completeBy!);
+
+    const [created] = await db
+      .select({
+        total: sql<number>`count(*)`,
+        finishedWithWorker: sql<number>`count(*) filter (where ${tasks.status} in ('completed', 'disputed') or (${tasks.status} = 'cancelled' and ${tasks.workerId} is not null))`
+      })
+      .from(tasks)
+      .where(eq(tasks.creatorId, userId));
+
+    const [disputeCount] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(disputes)
+      .where(or(eq(disputes.creatorId, userId), eq(disputes.workerId, userId)));
+
+    const [ratings] = await db
+      .select({
+        average: sql<string | null>`avg(${taskRatings.score})`,
+        count: sql<number>`count(*)`
+      })
+      .from(taskRatings)
+      .where(eq(taskRatings.rateeId, userId));
+
+    const average = ratings?.average !== null && ratings?.average !== undefined
+      ? Math.round(Number(ratings.average) * 100) / 100
+      : null;
+
+    return {
+      tasksCreated: Number(created?.total ?? 0),
+      tasksCompleted: completed.length,
+      tasksFailed: finished.length - completed.length,
+      completionRate: ratio(completed.length, finished.length),
+      onTimeRate: ratio(onTime.length, timed.length),
+      disputeRate: ratio(
+        Number(disputeCount?.count ?? 0),
+        finished.length + Number(created?.finishedWithWorker ?? 0)
+      ),
+      averageRating: average,
+      ratingCount: Number(ratings?.count ?? 0)
+    };
+  }
+
+  async getProfile(userId: number) {
+    const [user] = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        role: users.role,
+        skills: users.skills,
+        created_at: users.created_at
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return null;
+    }
+
+    const stats = await this.getStats(userId);
+
+    const recentRatings = await db.query.taskRatings.findMany({
+      where: and(eq(taskRatings.rateeId, userId), isNotNull(taskRatings.comment)),
+      orderBy: [desc(taskRatings.created_at)],
+      limit: RECENT_RATINGS,
+      with: {
+        rater: { columns: { id: true, username: true } }
+      }
+    });
+
+    return { ...user, stats, recentRatings };
+  }
+}
+
+export const reputationTracker = ReputationTracker.getInstance();
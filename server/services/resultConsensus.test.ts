@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canonicalize,
+  findConsensus,
+  getQuorum,
+  hashResult,
+  resultsAgree,
+  validateConsensusConfig,
+  MAX_REPLICATION_FACTOR,
+  type ReplicaResult,
+} from './resultConsensus';
+
+function replica(worker: string, result: unknown): ReplicaResult & { worker: string } {
+  return { worker, result, resultHash: hashResult(result) };
+}
+
+describe('canonicalize and hashResult', () => {
+  it('ignores object key order', () => {
+    assert.equal(canonicalize({ b: 1, a: [2, { d: 3, c: 4 }] }), canonicalize({ a: [2, { c: 4, d: 3 }], b: 1 }));
+    assert.equal(hashResult({ b: 1, a: 2 }), hashResult({ a: 2, b: 1 }));
+  });
+
+  it('keeps array order', () => {
+    assert.notEqual(hashResult([1, 2]), hashResult([2, 1]));
+  });
+});
+
+describe('resultsAgree', () => {
+  it('compares exact results by value', () => {
+    const config = { comparator: 'exact' as const };
+    assert.equal(resultsAgree(replica('a', { x: 1 }), replica('b', { x: 1 }), config), true);
+    assert.equal(resultsAgree(replica('a', { x: 1 }), replica('b', { x: 1.0000001 }), config), false);
+  });
+
+  it('compares hashed results by their hashes only', () => {
+    const config = { comparator: 'hash' as const };
+    assert.equal(resultsAgree(replica('a', 1), replica('b', 1), config), true);
+    assert.equal(resultsAgree({ result: 1, resultHash: null }, { result: 1, resultHash: null }, config), false);
+  });
+
+  it('lets numbers within the tolerance agree, however deeply nested', () => {
+    const config = { comparator: 'tolerance' as const, tolerance: 0.01 };
+    assert.equal(resultsAgree(replica('a', { v: [1.001, 2] }), replica('b', { v: [1.005, 2] }), config), true);
+    assert.equal(resultsAgree(replica('a', { v: [1, 2] }), replica('b', { v: [1.02, 2] }), config), false);
+    assert.equal(resultsAgree(replica('a', { v: 1 }), replica('b', { w: 1 }), config), false);
+  });
+});
+
+describe('findConsensus', () => {
+  const exact = { comparator: 'exact' as const };
+
+  it('returns the group that reaches the quorum', () => {
+    const results = [replica('a', 1), replica('b', 2), replica('c', 2)];
+
+    const agreed = findConsensus(results, exact, getQuorum(3));
+
+    assert.deepEqual(agreed?.map(result => result.worker), ['b', 'c']);
+  });
+
+  it('returns null when no group reaches the quorum', () => {
+    const results = [replica('a', 1), replica('b', 2), replica('c', 3)];
+
+    assert.equal(findConsensus(results, exact, getQuorum(3)), null);
+  });
+
+  it('compares tolerance results against the first member of a group', () => {
+    const config = { comparator: 'tolerance' as const, tolerance: 1 };
+    // 2.8 is within 1 of 1.9 but not of 1, the group's first member
+    const results = [replica('a', 1), replica('b', 1.9), replica('c', 2.8)];
+
+    assert.deepEqual(findConsensus(results, config, 2)?.map(result => result.worker), ['a', 'b']);
+    assert.equal(findConsensus(results, config, 3), null);
+  });
+});
+
+describe('getQuorum', () => {
+  it('is a strict majority of the replicas', () => {
+    assert.deepEqual([1, 2, 3, 4, 5].map(getQuorum), [1, 2, 2, 3, 3]);
+  });
+});
+
+describe('validateConsensusConfig', () => {
+  it('defaults to one replica compared exactly', () => {
+    assert.deepEqual(validateConsensusConfig(undefined, undefined), {
+      replicationFactor: 1,
+      consensus: { comparator: 'exact' }
+    });
+  });
+
+  it('rejects replication factors out of range', () => {
+    assert.ok('error' in validateConsensusConfig(0, null));
+    assert.ok('error' in validateConsensusConfig(MAX_REPLICATION_FACTOR + 1, null));
+    assert.ok('error' in validateConsensusConfig(2.5, null));
+  });
+
+  it('fills in the default tolerance and rejects negative ones', () => {
+    const validated = validateConsensusConfig(3, { comparator: 'tolerance' });
+    assert.ok(!('error' in validated));
+    assert.equal(validated.consensus.comparator, 'tolerance');
+    assert.ok(validated.consensus.tolerance! > 0);
+
+    assert.ok('error' in validateConsensusConfig(3, { comparator: 'tolerance', tolerance: -1 }));
+    assert.ok('error' in validateConsensusConfig(3, { comparator: 'fuzzy' }));
+  });
+});
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+
+export type ResultComparator = 'exact' | 'hash' | 'tolerance';
+
+export interface ConsensusConfig {
+  comparator: ResultComparator;
+  tolerance?: number;
+}
+
+export const MAX_REPLICATION_FACTOR = 9;
+const DEFAULT_TOLERANCE = 1e-6;
+
+export const DEFAULT_CONSENSUS: ConsensusConfig = { comparator: 'exact' };
+
+// Object keys are sorted so two workers serialising the same value in a
+// different key order still agree
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashResult(result: unknown): string {
+  return createHash('sha256').update(canonicalize(result)).digest('hex');
+}
+
+function withinTolerance(a: unknown, b: unknown, tolerance: number): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= tolerance;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => withinTolerance(item, b[index], tolerance));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a as Record<string, unknown>).sort();
+    const otherKeys = Object.keys(b as Record<string, unknown>).sort();
+    return keys.length === otherKeys.length &&
+      keys.every((key, index) => key === otherKeys[index] &&
+        withinTolerance((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], tolerance));
+  }
+  return canonicalize(a) === canonicalize(b);
+}
+
+export interface ReplicaResult {
+  result: unknown;
+  resultHash: string | null;
+}
+
+export function resultsAgree(a: ReplicaResult, b: ReplicaResult, config: ConsensusConfig): boolean {
+  switch (config.comparator) {
+    case 'hash':
+      return !!a.resultHash && a.resultHash === b.resultHash;
+    case 'tolerance':
+      return withinTolerance(a.result, b.result, config.tolerance ?? DEFAULT_TOLERANCE);
+    default:
+      return canonicalize(a.result) === canonicalize(b.result);
+  }
+}
+
+// Groups results that agree with each other and returns the first group to
+// reach the quorum. Tolerance comparison isn't transitive, so each result is
+// compared against the first member of a group.
+export function findConsensus<T extends ReplicaResult>(
+  results: T[],
+  config: ConsensusConfig,
+  quorum: number
+): T[] | null {
+  const groups: T[][] = [];
+  for (const result of results) {
+    const group = groups.find(candidate => resultsAgree(candidate[0], result, config));
+    if (group) {
+      group.push(result);
+    } else {
+      groups.push([result]);
+    }
+  }
+  return groups.find(group => group.length >= quorum) ?? null;
+}
+
+export function getQuorum(replicationFactor: number): number {
+  return Math.floor(replicationFactor / 2) + 1;
+}
+
+export function validateConsensusConfig(
+  replicationFactor: unknown,
+  consensus: unknown
+): { replicationFactor: number; consensus: ConsensusConfig } | { error: string } {
+  const factor = replicationFactor ?? 1;
+  if (!Number.isInteger(factor) || (factor as number) < 1 || (factor as number) > MAX_REPLICATION_FACTOR) {
+    return { error: `Replication factor must be between 1 and ${MAX_REPLICATION_FACTOR}` };
+  }
+
+  if (consensus === undefined || consensus === null) {
+    return { replicationFactor: factor as number, consensus: DEFAULT_CONSENSUS };
+  }
+
+  const { comparator, tolerance } = consensus as Partial<ConsensusConfig>;
+  if (comparator !== 'exact' && comparator !== 'hash' && comparator !== 'tolerance') {
+    return { error: 'Comparator must be exact, hash or tolerance' };
+  }
+  if (comparator === 'tolerance' && tolerance !== undefined &&
+    (typeof tolerance !== 'number' || !Number.isFinite(tolerance) || tolerance < 0)) {
+    return { error: 'Tolerance must be a non-negative number' };
+  }
+
+  return {
+    replicationFactor: factor as number,
+    consensus: comparator === 'tolerance' ? { comparator, tolerance: tolerance ?? DEFAULT_TOLERANCE } : { comparator }
+  };
+}
@@ -0,0 +1,272 @@
+import { db } from '@db';
+import { categories, taskAssignments, taskRatings, tasks, users, type Category } from '@db/schema';
+import { and, asc, desc, eq, inArray, ne, notInArray, sql } from 'drizzle-orm';
+
+export const MAX_TASK_TAGS = 10;
+export const MAX_SKILLS = 20;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9+#.-]{0,31}$/;
+const RECOMMENDATION_CANDIDATES = 200;
+
+// Curated top-level categories and their subcategories. Seeded on startup;
+// new entries can be appended but slugs must never change.
+const CATEGORY_TREE: Array<{ slug: string; name: string; children: Array<{ slug: string; name: string }> }> = [
+  {
+    slug: 'data',
+    name: 'Data',
+    children: [
+      { slug: 'data-labeling', name: 'Labeling & Annotation' },
+      { slug: 'data-entry', name: 'Data Entry' },
+      { slug: 'data-research', name: 'Research' },
+    ],
+  },
+  {
+    slug: 'software',
+    name: 'Software',
+    children: [
+      { slug: 'software-development', name: 'Development' },
+      { slug: 'software-testing', name: 'Testing & QA' },
+      { slug: 'software-review', name: 'Code Review' },
+    ],
+  },
+  {
+    slug: 'content',
+    name: 'Content',
+    children: [
+      { slug: 'content-writing', name: 'Writing' },
+      { slug: 'content-translation', name: 'Translation' },
+      { slug: 'content-design', name: 'Design' },
+    ],
+  },
+  {
+    slug: 'compute',
+    name: 'Compute',
+    children: [
+      { slug: 'compute-ml', name: 'Machine Learning' },
+      { slug: 'compute-rendering', name: 'Rendering' },
+      { slug: 'compute-batch', name: 'Batch Processing' },
+    ],
+  },
+  {
+    slug: 'other',
+    name: 'Other',
+    children: [],
+  },
+];
+
+// Tags and skills share one vocabulary so they can be matched directly
+export function normalizeTags(value: unknown, max: number, label = 'tags'): { tags: string[] } | { error: string } {
+  if (value === undefined || value === null) {
+    return { tags: [] };
+  }
+  if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) {
+    return { error: `${label} must be a list of strings` };
+  }
+
+  const tags: string[] = [];
+  for (const raw of value as string[]) {
+    const tag = raw.trim().toLowerCase().replace(/\s+/g, '-');
+    if (!tag) continue;
+    if (!TAG_PATTERN.test(tag)) {
+      return { error: `"${raw}" is not a valid tag; use letters, numbers, and - + # .` };
+    }
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+
+  if (tags.length > max) {
+    return { error: `At most ${max} ${label} are allowed` };
+  }
+  return { tags };
+}
+
+export interface CategoryNode extends Category {
+  children: Category[];
+}
+
+export class TaskCatalog {
+  private static instance: TaskCatalog;
+
+  private constructor() {
+    console.log('[TaskCatalog] Initialized');
+  }
+
+  static getInstance(): TaskCatalog {
+    if (!TaskCatalog.instance) {
+      TaskCatalog.instance = new TaskCatalog();
+    }
+    return TaskCatalog.instance;
+  }
+
+  async seedCategories(): Promise<void> {
+    for (let index = 0; index < CATEGORY_TREE.length; index++) {
+      const parent = CATEGORY_TREE[index];
+      await db
+        .insert(categories)
+        .values({ slug: parent.slug, name: parent.name, position: index })
+        .onConflictDoNothing();
+
+      const [parentRow] = await db
+        .select({ id: categories.id })
+        .from(categories)
+        .where(eq(categories.slug, parent.slug))
+        .limit(1);
+
+      if (parent.children.length) {
+        await db
+          .insert(categories)
+          .values(parent.children.map((child, childIndex) => ({
+            slug: child.slug,
+            name: child.name,
+            parentId: parentRow.id,
+            position: childIndex
+          })))
+          .onConflictDoNothing();
+      }
+    }
+
+    console.log('[TaskCatalog] Categories seeded:', {
+      topLevel: CATEGORY_TREE.length,
+      total: CATEGORY_TREE.reduce((sum, parent) => sum + 1 + parent.children.length, 0)
+    });
+  }
+
+  async getCategoryTree(): Promise<CategoryNode[]> {
+    const rows = await db
+      .select()
+      .from(categories)
+      .orderBy(asc(categories.position), asc(categories.id));
+
+    return rows
+      .filter(category => category.parentId === null)
+      .map(parent => ({
+        ...parent,
+        children: rows.filter(category => category.parentId === parent.id)
+      }));
+  }
+
+  async getCategory(categoryId: number): Promise<Category | undefined> {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(eq(categories.id, categoryId))
+      .limit(1);
+    return category;
+  }
+
+  // Filtering by a top-level category includes its subcategories
+  async getCategoryIds(categoryId: number): Promise<number[]> {
+    const children = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.parentId, categoryId));
+    return [categoryId, ...children.map(child => child.id)];
+  }
+
+  async getPopularTags(limit: number): Promise<Array<{ tag: string; count: number }>> {
+    const rows = await db
+      .select({
+        tag: sql<string>`unnest(${tasks.tags})`.as('tag'),
+      })
+      .from(tasks)
+      .where(eq(tasks.status, 'open'))
+      .as('open_tags');
+
+    const popular = await db
+      .select({ tag: rows.tag, count: sql<number>`count(*)` })
+      .from(rows)
+      .groupBy(rows.tag)
+      .orderBy(desc(sql`count(*)`), asc(rows.tag))
+      .limit(limit);
+
+    return popular.map(row => ({ tag: row.tag, count: Number(row.count) }));
+  }
+
+  async getSkills(userId: number): Promise<string[]> {
+    const [user] = await db
+      .select({ skills: users.skills })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    return user?.skills ?? [];
+  }
+
+  async updateSkills(userId: number, skills: string[]): Promise<string[]> {
+    const [user] = await db
+      .update(users)
+      .set({ skills, updated_at: new Date() })
+      .where(eq(users.id, userId))
+      .returning({ skills: users.skills });
+
+    console.log('[TaskCatalog] Skills updated:', { userId, skills });
+    return user.skills;
+  }
+
+  // Ranks open tasks for a worker. Skill overlap dominates; reward and the
+  // creator's average rating break ties between similarly matched tasks.
+  // Creators without ratings are treated as average (3 stars).
+  async getRecommendations(userId: number, limit: number) {
+    const skills = await this.getSkills(userId);
+
+    const heldSlots = db
+      .select({ taskId: taskAssignments.taskId })
+      .from(taskAssignments)
+      .where(eq(taskAssignments.workerId, userId));
+
+    const candidates = await db.query.tasks.findMany({
+      where: and(
+        eq(tasks.status, 'open'),
+        ne(tasks.creatorId, userId),
+        notInArray(tasks.id, heldSlots)
+      ),
+      // Tasks sharing at least one skill are fetched first so an older match
+      // isn't crowded out of the candidate window by newer unrelated tasks
+      orderBy: skills.length
+        ? [desc(sql`${tasks.tags} && array[${sql.join(skills.map(skill => sql`${skill}`), sql`, `)}]::text[]`), desc(tasks.id)]
+        : [desc(tasks.id)],
+      limit: RECOMMENDATION_CANDIDATES,
+      with: {
+        creator: { columns: { id: true, username: true } },
+        category: true
+      }
+    });
+
+    if (!candidates.length) {
+      return [];
+    }
+
+    const creatorIds = candidates
+      .map(task => task.creatorId)
+      .filter((id, index, all) => all.indexOf(id) === index);
+
+    const creatorRatings = await db
+      .select({
+        rateeId: taskRatings.rateeId,
+        average: sql<string>`avg(${taskRatings.score})`
+      })
+      .from(taskRatings)
+      .where(and(inArray(taskRatings.rateeId, creatorIds), eq(taskRatings.rateeRole, 'creator')))
+      .groupBy(taskRatings.rateeId);
+
+    const maxReward = Math.max(...candidates.map(task => task.reward));
+
+    const ranked = candidates.map(task => {
+      const matchedSkills = task.tags.filter(tag => skills.includes(tag));
+      const rating = creatorRatings.find(row => row.rateeId === task.creatorId);
+      const skillScore = skills.length ? matchedSkills.length / Math.min(skills.length, Math.max(task.tags.length, 1)) : 0;
+      const rewardScore = task.reward / maxReward;
+      const reputationScore = (rating ? Number(rating.average) : 3) / 5;
+
+      return {
+        ...task,
+        matchedSkills,
+        score: Math.round((0.6 * Math.min(skillScore, 1) + 0.25 * rewardScore + 0.15 * reputationScore) * 1000) / 1000
+      };
+    });
+
+    return ranked
+      .sort((a, b) => b.score - a.score || b.id - a.id)
+      .slice(0, limit);
+  }
+}
+
+export const taskCatalog = TaskCatalog.getInstance();
@@ -0,0 +1,152 @@
+import { db } from '@db';
+import { tasks, type Task } from '@db/schema';
+import { and, eq, gt, inArray, isNotNull, lt } from 'drizzle-orm';
+import { taskLifecycle } from './taskLifecycle';
+import { assignmentTracker } from './assignmentTracker';
+
+const SWEEP_INTERVAL = 60000; // 1 minute
+
+export class TaskDeadlineScheduler {
+  private static instance: TaskDeadlineScheduler;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private isSweeping = false;
+
+  private constructor() {
+    console.log('[TaskDeadlineScheduler] Initialized with sweep interval:', SWEEP_INTERVAL);
+  }
+
+  static getInstance(): TaskDeadlineScheduler {
+    if (!TaskDeadlineScheduler.instance) {
+      TaskDeadlineScheduler.instance = new TaskDeadlineScheduler();
+    }
+    return TaskDeadlineScheduler.instance;
+  }
+
+  start() {
+    if (this.sweepInterval) return;
+    this.sweepInterval = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    console.log('[TaskDeadlineScheduler] Started');
+  }
+
+  stop() {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  async sweep(): Promise<void> {
+    // Skip if the previous sweep is still refunding escrow
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      const now = new Date();
+
+      const overdueTasks = await db
+        .select()
+        .from(tasks)
+        .where(and(
+          eq(tasks.status, 'in_progress'),
+          eq(tasks.maxWorkers, 1),
+          isNotNull(tasks.completeBy),
+          lt(tasks.completeBy, now)
+        ));
+
+      for (const task of overdueTasks) {
+        await this.handleOverdueTask(task, now);
+      }
+
+      // Multi-worker tasks stay open while slots remain, so check both statuses
+      const overdueMultiWorkerTasks = await db
+        .select()
+        .from(tasks)
+        .where(and(
+          inArray(tasks.status, ['open', 'in_progress']),
+          gt(tasks.maxWorkers, 1),
+          isNotNull(tasks.completeBy),
+          lt(tasks.completeBy, now)
+        ));
+
+      for (const task of overdueMultiWorkerTasks) {
+        await this.handleOverdueMultiWorkerTask(task);
+      }
+
+      const expiredTasks = await db
+        .select()
+        .from(tasks)
+        .where(and(
+          eq(tasks.status, 'open'),
+          isNotNull(tasks.acceptBy),
+          lt(tasks.acceptBy, now)
+        ));
+
+      for (const task of expiredTasks) {
+        await this.expireTask(task);
+      }
+
+      if (overdueTasks.length || overdueMultiWorkerTasks.length || expiredTasks.length) {
+        console.log('[TaskDeadlineScheduler] Sweep complete:', {
+          overdue: overdueTasks.length,
+          overdueMultiWorker: overdueMultiWorkerTasks.length,
+          expired: expiredTasks.length,
+          timestamp: now.toISOString()
+        });
+      }
+    } catch (error) {
+      console.error('[TaskDeadlineScheduler] Sweep failed:', error);
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  private async handleOverdueTask(task: Task, now: Date) {
+    try {
+      // Nobody else may accept the task once its accept window has closed,
+      // so there is no point reopening it
+      if (task.acceptBy && task.acceptBy < now) {
+        await taskLifecycle.cancelTask(task, 'deadline_expired');
+      } else {
+        await taskLifecycle.reopenTask(task);
+      }
+    } catch (error) {
+      console.error('[TaskDeadlineScheduler] Failed to handle overdue task:', {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Once the completion deadline passes no further work can be paid for.
+  // The task is cancelled when the last pending submission has been reviewed.
+  private async handleOverdueMultiWorkerTask(task: Task) {
+    try {
+      await assignmentTracker.expireInProgress(task);
+      if (await assignmentTracker.countActive(task.id) === 0) {
+        await taskLifecycle.cancelTask(task, 'deadline_expired');
+      }
+    } catch (error) {
+      console.error('[TaskDeadlineScheduler] Failed to handle overdue multi-worker task:', {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async expireTask(task: Task) {
+    try {
+      // Workers who already hold a slot keep working until the completion deadline
+      if (task.maxWorkers > 1 && await assignmentTracker.countActive(task.id) > 0) {
+        return;
+      }
+      await taskLifecycle.cancelTask(task, 'deadline_expired');
+    } catch (error) {
+      console.error('[TaskDeadlineScheduler] Failed to expire task:', {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+export const taskDeadlineScheduler = TaskDeadlineScheduler.getInstance();
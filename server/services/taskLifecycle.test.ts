@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Task } from '@db/schema';
+import { acceptanceDeadline } from './taskLifecycle';
+
+const now = new Date('2024-06-01T12:00:00Z');
+
+function task(completeBy: Date | null, completionWindow: number | null): Task {
+  return { completeBy, completionWindow } as Task;
+}
+
+describe('acceptanceDeadline', () => {
+  it('leaves a task without a deadline open-ended', () => {
+    assert.deepEqual(acceptanceDeadline(task(null, null), now), { completeBy: null, completionWindow: null });
+  });
+
+  it('holds the first worker to the creator\'s deadline and records the window left', () => {
+    const completeBy = new Date('2024-06-02T12:00:00Z');
+
+    assert.deepEqual(acceptanceDeadline(task(completeBy, null), now), {
+      completeBy,
+      completionWindow: 24 * 60 * 60
+    });
+  });
+
+  it('gives a later worker the recorded window from when they accept', () => {
+    assert.deepEqual(acceptanceDeadline(task(null, 3600), now), {
+      completeBy: new Date('2024-06-01T13:00:00Z'),
+      completionWindow: 3600
+    });
+  });
+
+  it('refuses a task whose deadline has passed', () => {
+    assert.ok('error' in acceptanceDeadline(task(now, null), now));
+    assert.ok('error' in acceptanceDeadline(task(new Date('2024-05-31T12:00:00Z'), null), now));
+  });
+});
@@ -0,0 +1,261 @@
+import { db } from '@db';
+import { taskApplications, taskMilestones, tasks, type Task } from '@db/schema';
+import { and, eq } from 'drizzle-orm';
+import { blockchainService } from '../blockchain';
+import { assignmentTracker } from './assignmentTracker';
+import { broadcastToUser } from '../ws';
+
+export type CancellationReason = 'creator_cancelled' | 'mutual_agreement' | 'deadline_expired';
+
+// Deadline fields for a worker accepting the task now. The first worker is
+// held to the creator's completeBy; later workers get the window it left them.
+export function acceptanceDeadline(
+  task: Task,
+  now: Date
+): { completeBy: Date | null; completionWindow: number | null } | { error: string } {
+  if (task.completionWindow !== null) {
+    return {
+      completeBy: new Date(now.getTime() + task.completionWindow * 1000),
+      completionWindow: task.completionWindow
+    };
+  }
+
+  if (!task.completeBy) {
+    return { completeBy: null, completionWindow: null };
+  }
+
+  if (task.completeBy <= now) {
+    return { error: 'The completion deadline for this task has passed' };
+  }
+
+  return {
+    completeBy: task.completeBy,
+    completionWindow: Math.floor((task.completeBy.getTime() - now.getTime()) / 1000)
+  };
+}
+
+export class TaskLifecycle {
+  private static instance: TaskLifecycle;
+
+  private constructor() {
+    console.log('[TaskLifecycle] Initialized');
+  }
+
+  static getInstance(): TaskLifecycle {
+    if (!TaskLifecycle.instance) {
+      TaskLifecycle.instance = new TaskLifecycle();
+    }
+    return TaskLifecycle.instance;
+  }
+
+  // Cancels the task and returns any escrowed tokens to the creator
+  async cancelTask(task: Task, reason: CancellationReason): Promise<Task> {
+    console.log('[TaskLifecycle] Cancelling task:', {
+      taskId: task.id,
+      status: task.status,
+      reason,
+      escrowTx: task.escrowTransactionId
+    });
+
+    const result = await db.transaction(async (tx) => {
+      // Slot claims lock the task row too, so no worker can join a
+      // multi-worker task between this check and the cancellation
+      if (task.maxWorkers > 1) {
+        await tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.id, task.id)).for('update');
+        if (await assignmentTracker.countActive(task.id, tx) > 0) {
+          throw new Error('Workers are still assigned to this task');
+        }
+      }
+
+      // Guard on the status we validated against so concurrent updates can't be overwritten
+      const [cancelledTask] = await tx
+        .update(tasks)
+        .set({
+          status: 'cancelled',
+          cancellationRequestedAt: null,
+          updated_at: new Date()
+        })
+        .where(and(eq(tasks.id, task.id), eq(tasks.status, task.status)))
+        .returning();
+
+      if (!cancelledTask) {
+        throw new Error('Task status changed before it could be cancelled');
+      }
+
+      await tx
+        .update(taskApplications)
+        .set({ status: 'rejected', reviewedAt: new Date(), updated_at: new Date() })
+        .where(and(eq(taskApplications.taskId, task.id), eq(taskApplications.status, 'pending')));
+
+      // Milestone or dispute payouts may already have drained part of the
+      // escrow. The refund commits with the cancellation, or not at all.
+      const remainingEscrow = task.escrowTransactionId
+        ? await blockchainService.getRemainingEscrow(task.escrowTransactionId, tx)
+        : 0;
+
+      const refund = task.escrowTransactionId && remainingEscrow > 0
+        ? await blockchainService.refundEscrow(
+            task.escrowTransactionId,
+            task.creatorId.toString(),
+            undefined,
+            tx
+          )
+        : null;
+
+      return { task: cancelledTask, refund };
+    });
+
+    if (result.refund) {
+      await blockchainService.finalizeSettlements([result.refund]);
+    }
+
+    const notification = {
+      taskId: task.id,
+      title: task.title,
+      reason,
+      refundTransactionId: result.refund?.id,
+      refundedTokens: result.refund?.tokenIds.length ?? 0,
+      timestamp: Date.now()
+    };
+
+    broadcastToUser(task.creatorId.toString(), 'task_cancelled', notification);
+    if (task.workerId) {
+      broadcastToUser(task.workerId.toString(), 'task_cancelled', notification);
+    }
+
+    console.log('[TaskLifecycle] Task cancelled:', {
+      taskId: task.id,
+      refundTx: result.refund?.id,
+      timestamp: new Date().toISOString()
+    });
+
+    return result.task;
+  }
+
+  // Removes an overdue worker and puts the task back on the board. The
+  // deadline is cleared until the next worker accepts and gets the same
+  // amount of time the previous one had.
+  async reopenTask(task: Task): Promise<Task> {
+    const now = new Date();
+    // Tasks accepted before completion windows were stored
+    const completionWindow = task.completionWindow ?? (task.completeBy && task.acceptedAt
+      ? Math.floor((task.completeBy.getTime() - task.acceptedAt.getTime()) / 1000)
+      : null);
+
+    const reopenedTask = await db.transaction(async (tx) => {
+      const [updatedTask] = await tx
+        .update(tasks)
+        .set({
+          status: 'open',
+          workerId: null,
+          acceptedAt: null,
+          cancellationRequestedAt: null,
+          completeBy: null,
+          completionWindow,
+          updated_at: now
+        })
+        .where(and(eq(tasks.id, task.id), eq(tasks.status, 'in_progress')))
+        .returning();
+
+      // Unreviewed milestone proofs belong to the departing worker
+      if (updatedTask) {
+        await tx
+          .update(taskMilestones)
+          .set({
+            status: 'pending',
+            proofSubmitted: null,
+            submittedAt: null,
+            updated_at: now
+          })
+          .where(and(eq(taskMilestones.taskId, task.id), eq(taskMilestones.status, 'submitted')));
+      }
+
+      return updatedTask;
+    });
+
+    if (!reopenedTask) {
+      throw new Error('Task is no longer in progress');
+    }
+
+    const notification = {
+      taskId: task.id,
+      title: task.title,
+      previousWorkerId: task.workerId,
+      completionWindow: reopenedTask.completionWindow,
+      timestamp: Date.now()
+    };
+
+    broadcastToUser(task.creatorId.toString(), 'task_reopened', notification);
+    if (task.workerId) {
+      broadcastToUser(task.workerId.toString(), 'task_reopened', notification);
+    }
+
+    console.log('[TaskLifecycle] Task reopened:', {
+      taskId: task.id,
+      previousWorkerId: task.workerId,
+      completionWindow: reopenedTask.completionWindow,
+      timestamp: now.toISOString()
+    });
+
+    return reopenedTask;
+  }
+
+  // Asks the assigned worker to agree to cancelling an in-progress task
+  async requestCancellation(task: Task): Promise<Task> {
+    const [updatedTask] = await db
+      .update(tasks)
+      .set({
+        cancellationRequestedAt: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(eq(tasks.id, task.id), eq(tasks.status, 'in_progress')))
+      .returning();
+
+    if (!updatedTask) {
+      throw new Error('Task is no longer in progress');
+    }
+
+    if (task.workerId) {
+      broadcastToUser(task.workerId.toString(), 'task_cancellation_requested', {
+        taskId: task.id,
+        title: task.title,
+        timestamp: Date.now()
+      });
+    }
+
+    console.log('[TaskLifecycle] Cancellation requested:', {
+      taskId: task.id,
+      workerId: task.workerId,
+      timestamp: new Date().toISOString()
+    });
+
+    return updatedTask;
+  }
+
+  async declineCancellation(task: Task): Promise<Task> {
+    const [updatedTask] = await db
+      .update(tasks)
+      .set({
+        cancellationRequestedAt: null,
+        updated_at: new Date()
+      })
+      .where(eq(tasks.id, task.id))
+      .returning();
+
+    broadcastToUser(task.creatorId.toString(), 'task_cancellation_declined', {
+      taskId: task.id,
+      title: task.title,
+      timestamp: Date.now()
+    });
+
+    console.log('[TaskLifecycle] Cancellation declined:', {
+      taskId: task.id,
+      workerId: task.workerId,
+      timestamp: new Date().toISOString()
+    });
+
+    return updatedTask;
+  }
+}
+
+export const taskLifecycle = TaskLifecycle.getInstance();
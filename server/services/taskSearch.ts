@@ -0,0 +1,285 @@
+import { db } from '@db';
+import { taskAssignments, tasks, type Task } from '@db/schema';
+import { and, asc, desc, eq, gt, gte, inArray, lt, lte, ne, or, sql, type SQL } from 'drizzle-orm';
+import { MAX_TASK_TAGS, normalizeTags, taskCatalog } from './taskCatalog';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 200;
+
+const SORT_ORDERS = ['newest', 'oldest', 'reward_desc', 'reward_asc'] as const;
+type TaskSort = typeof SORT_ORDERS[number];
+
+type TaskStatus = Task['status'];
+
+export interface TaskSearchParams {
+  statuses?: TaskStatus[];
+  type?: Task['type'];
+  proofType?: Task['proofType'];
+  minReward?: number;
+  maxReward?: number;
+  creatorId?: number;
+  excludeCreatorId?: number;
+  assigneeId?: number;
+  participantId?: number;
+  categoryId?: number;
+  tags?: string[];
+  search?: string;
+  sort: TaskSort;
+  limit: number;
+  cursor?: { id: number; reward: number };
+}
+
+function parseId(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// The cursor encodes the last row of the previous page; it is opaque to clients
+function encodeCursor(task: Task): string {
+  return Buffer.from(JSON.stringify({ id: task.id, reward: task.reward })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { id: number; reward: number } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(decoded?.id) && Number.isInteger(decoded?.reward) ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+// Query string values arrive as strings (or arrays when repeated); anything
+// unrecognised is rejected rather than silently ignored
+export function parseTaskSearch(query: Record<string, unknown>): { params: TaskSearchParams } | { error: string } {
+  const single = (key: string): string | undefined => {
+    const value = query[key];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+
+  const params: TaskSearchParams = { sort: 'newest', limit: DEFAULT_PAGE_SIZE };
+
+  const status = single('status');
+  if (status) {
+    const statuses = status.split(',');
+    if (!statuses.every(s => (tasks.status.enumValues as readonly string[]).includes(s))) {
+      return { error: `status must be one of ${tasks.status.enumValues.join(', ')}` };
+    }
+    params.statuses = statuses as TaskStatus[];
+  }
+
+  const type = single('type');
+  if (type) {
+    if (!(tasks.type.enumValues as readonly string[]).includes(type)) {
+      return { error: `type must be one of ${tasks.type.enumValues.join(', ')}` };
+    }
+    params.type = type as Task['type'];
+  }
+
+  const proofType = single('proofType');
+  if (proofType) {
+    if (!(tasks.proofType.enumValues as readonly string[]).includes(proofType)) {
+      return { error: `proofType must be one of ${tasks.proofType.enumValues.join(', ')}` };
+    }
+    params.proofType = proofType as Task['proofType'];
+  }
+
+  for (const key of ['minReward', 'maxReward'] as const) {
+    const value = single(key);
+    if (value === undefined) continue;
+    const reward = Number(value);
+    if (!Number.isInteger(reward) || reward < 0) {
+      return { error: `${key} must be a non-negative whole number` };
+    }
+    params[key] = reward;
+  }
+
+  for (const key of ['creatorId', 'excludeCreatorId', 'assigneeId', 'participantId'] as const) {
+    const id = parseId(single(key));
+    if (id === null) {
+      return { error: `${key} must be a user ID` };
+    }
+    params[key] = id;
+  }
+
+  const categoryId = parseId(single('categoryId'));
+  if (categoryId === null) {
+    return { error: 'categoryId must be a category ID' };
+  }
+  params.categoryId = categoryId;
+
+  const tags = single('tags');
+  if (tags) {
+    const validation = normalizeTags(tags.split(','), MAX_TASK_TAGS);
+    if ('error' in validation) {
+      return { error: validation.error };
+    }
+    params.tags = validation.tags;
+  }
+
+  const search = single('q');
+  if (search) {
+    if (search.length > MAX_SEARCH_LENGTH) {
+      return { error: `Search terms are limited to ${MAX_SEARCH_LENGTH} characters` };
+    }
+    params.search = search.trim();
+  }
+
+  const sort = single('sort');
+  if (sort) {
+    if (!(SORT_ORDERS as readonly string[]).includes(sort)) {
+      return { error: `sort must be one of ${SORT_ORDERS.join(', ')}` };
+    }
+    params.sort = sort as TaskSort;
+  }
+
+  const limit = single('limit');
+  if (limit) {
+    const size = Number(limit);
+    if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    params.limit = size;
+  }
+
+  const cursor = single('cursor');
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      return { error: 'Invalid cursor' };
+    }
+    params.cursor = decoded;
+  }
+
+  return { params };
+}
+
+export class TaskSearch {
+  private static instance: TaskSearch;
+
+  private constructor() {
+    console.log('[TaskSearch] Initialized with page size:', DEFAULT_PAGE_SIZE);
+  }
+
+  static getInstance(): TaskSearch {
+    if (!TaskSearch.instance) {
+      TaskSearch.instance = new TaskSearch();
+    }
+    return TaskSearch.instance;
+  }
+
+  private assignedTo(userId: number): SQL {
+    return or(
+      eq(tasks.workerId, userId),
+      inArray(
+        tasks.id,
+        db.select({ taskId: taskAssignments.taskId })
+          .from(taskAssignments)
+          .where(eq(taskAssignments.workerId, userId))
+      )
+    )!;
+  }
+
+  private buildConditions(params: TaskSearchParams, categoryIds: number[]): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (params.statuses?.length) conditions.push(inArray(tasks.status, params.statuses));
+    if (params.type) conditions.push(eq(tasks.type, params.type));
+    if (params.proofType) conditions.push(eq(tasks.proofType, params.proofType));
+    if (params.minReward !== undefined) conditions.push(gte(tasks.reward, params.minReward));
+    if (params.maxReward !== undefined) conditions.push(lte(tasks.reward, params.maxReward));
+    if (params.creatorId) conditions.push(eq(tasks.creatorId, params.creatorId));
+    if (params.excludeCreatorId) conditions.push(ne(tasks.creatorId, params.excludeCreatorId));
+    if (params.assigneeId) conditions.push(this.assignedTo(params.assigneeId));
+    if (params.participantId) {
+      conditions.push(or(eq(tasks.creatorId, params.participantId), this.assignedTo(params.participantId))!);
+    }
+    if (categoryIds.length) conditions.push(inArray(tasks.categoryId, categoryIds));
+
+    // Tasks must carry every requested tag; @> is served by tasks_tags_idx
+    if (params.tags?.length) {
+      conditions.push(sql`${tasks.tags} @> array[${sql.join(params.tags.map(tag => sql`${tag}`), sql`, `)}]::text[]`);
+    }
+
+    // Must match the expression of tasks_search_idx for the index to be used
+    if (params.search) {
+      conditions.push(sql`to_tsvector('english', ${tasks.title} || ' ' || ${tasks.description}) @@ websearch_to_tsquery('english', ${params.search})`);
+    }
+
+    // Ids are assigned in creation order, so they double as the tie-breaker
+    // and as the sort key for newest/oldest
+    const { cursor } = params;
+    if (cursor) {
+      switch (params.sort) {
+        case 'newest':
+          conditions.push(lt(tasks.id, cursor.id));
+          break;
+        case 'oldest':
+          conditions.push(gt(tasks.id, cursor.id));
+          break;
+        case 'reward_desc':
+          conditions.push(or(
+            lt(tasks.reward, cursor.reward),
+            and(eq(tasks.reward, cursor.reward), lt(tasks.id, cursor.id))
+          )!);
+          break;
+        case 'reward_asc':
+          conditions.push(or(
+            gt(tasks.reward, cursor.reward),
+            and(eq(tasks.reward, cursor.reward), gt(tasks.id, cursor.id))
+          )!);
+          break;
+      }
+    }
+
+    return conditions;
+  }
+
+  private orderBy(sort: TaskSort): SQL[] {
+    switch (sort) {
+      case 'oldest':
+        return [asc(tasks.id)];
+      case 'reward_desc':
+        return [desc(tasks.reward), desc(tasks.id)];
+      case 'reward_asc':
+        return [asc(tasks.reward), asc(tasks.id)];
+      default:
+        return [desc(tasks.id)];
+    }
+  }
+
+  async search(params: TaskSearchParams) {
+    // A top-level category also matches tasks filed under its subcategories
+    const categoryIds = params.categoryId ? await taskCatalog.getCategoryIds(params.categoryId) : [];
+    const conditions = this.buildConditions(params, categoryIds);
+
+    // Fetch one extra row to find out whether another page exists
+    const rows = await db.query.tasks.findMany({
+      where: conditions.length ? and(...conditions) : undefined,
+      orderBy: this.orderBy(params.sort),
+      limit: params.limit + 1,
+      with: {
+        creator: { columns: { id: true, username: true } },
+        worker: { columns: { id: true, username: true } },
+        category: true,
+        milestones: {
+          orderBy: (milestones, { asc }) => [asc(milestones.position)]
+        },
+        assignments: {
+          orderBy: (assignments, { asc }) => [asc(assignments.created_at)],
+          with: {
+            worker: { columns: { id: true, username: true } }
+          }
+        }
+      }
+    });
+
+    const page = rows.slice(0, params.limit);
+    const nextCursor = rows.length > params.limit ? encodeCursor(page[page.length - 1]) : null;
+
+    return { tasks: page, nextCursor };
+  }
+}
+
+export const taskSearch = TaskSearch.getInstance();
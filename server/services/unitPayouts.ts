@@ -0,0 +1,164 @@
+import { db } from '@db';
+import { workCredits, workUnits, type Task, type WorkCredit } from '@db/schema';
+import { and, asc, eq, isNull, sql } from 'drizzle-orm';
+import { blockchainService } from '../blockchain';
+import type { TransactionResult } from '../../client/src/lib/blockchain/types';
+import { broadcastToUser } from '../ws';
+
+interface Payout {
+  workerId: number;
+  unitId: number;
+  transactionId: string;
+}
+
+export class UnitPayouts {
+  private static instance: UnitPayouts;
+
+  private constructor() {
+    console.log('[UnitPayouts] Initialized');
+  }
+
+  static getInstance(): UnitPayouts {
+    if (!UnitPayouts.instance) {
+      UnitPayouts.instance = new UnitPayouts();
+    }
+    return UnitPayouts.instance;
+  }
+
+  // Credits every verified replica of the task that hasn't been counted yet
+  // and releases one escrowed token each time a worker's credit reaches
+  // another workUnitsPerToken units. Each release is linked to the unit that
+  // completed the token. Releases commit with the crediting, so a failed
+  // release leaves the units uncredited for the next call to pick up. Once
+  // the escrow runs out, credit still accumulates but nothing more is paid,
+  // so paidTokens can fall behind.
+  async creditVerifiedUnits(task: Task): Promise<Payout[]> {
+    const perToken = task.workUnitsPerToken;
+    if (!perToken || !task.escrowTransactionId) {
+      return [];
+    }
+
+    const releases: TransactionResult[] = [];
+    const payouts = await db.transaction(async (tx) => {
+      const now = new Date();
+      const credited = await tx
+        .update(workUnits)
+        .set({ creditedAt: now })
+        .where(and(
+          eq(workUnits.taskId, task.id),
+          eq(workUnits.status, 'verified'),
+          isNull(workUnits.creditedAt)
+        ))
+        .returning({ id: workUnits.id, workerId: workUnits.workerId, verifiedAt: workUnits.verifiedAt });
+
+      credited.sort((a, b) => (a.verifiedAt?.getTime() ?? 0) - (b.verifiedAt?.getTime() ?? 0) || a.id - b.id);
+
+      const workerIds = credited
+        .map(unit => unit.workerId)
+        .filter((id, index, all): id is number => id !== null && all.indexOf(id) === index);
+
+      let remaining = workerIds.length
+        ? await blockchainService.getRemainingEscrow(task.escrowTransactionId!, tx)
+        : 0;
+
+      const paid: Payout[] = [];
+      for (const workerId of workerIds) {
+        const units = credited.filter(unit => unit.workerId === workerId);
+
+        await tx
+          .insert(workCredits)
+          .values({ taskId: task.id, workerId })
+          .onConflictDoNothing();
+
+        const [credit] = await tx
+          .update(workCredits)
+          .set({
+            creditedUnits: sql`${workCredits.creditedUnits} + ${units.length}`,
+            updated_at: now
+          })
+          .where(and(eq(workCredits.taskId, task.id), eq(workCredits.workerId, workerId)))
+          .returning();
+
+        // A token is earned by each unit that brings the worker's credit to
+        // another multiple of workUnitsPerToken
+        const previousUnits = credit.creditedUnits - units.length;
+        const payUnits = units
+          .filter((_unit, index) => (previousUnits + index + 1) % perToken === 0)
+          .map(unit => unit.id);
+
+        const affordable = payUnits.slice(0, Math.max(remaining, 0));
+        for (const unitId of affordable) {
+          const release = await blockchainService.releaseEscrow(
+            task.escrowTransactionId!,
+            workerId.toString(),
+            1,
+            { taskId: task.id, unitId },
+            tx
+          );
+          releases.push(release);
+          paid.push({ workerId, unitId, transactionId: release.id });
+        }
+        remaining -= affordable.length;
+
+        if (affordable.length < payUnits.length) {
+          console.warn('[UnitPayouts] Escrow exhausted, credit left unpaid:', {
+            taskId: task.id,
+            workerId,
+            unpaidTokens: payUnits.length - affordable.length
+          });
+        }
+
+        if (affordable.length) {
+          await tx
+            .update(workCredits)
+            .set({ paidTokens: sql`${workCredits.paidTokens} + ${affordable.length}`, updated_at: now })
+            .where(eq(workCredits.id, credit.id));
+        }
+      }
+
+      return paid;
+    });
+
+    await blockchainService.finalizeSettlements(releases);
+
+    for (const payout of payouts) {
+      broadcastToUser(payout.workerId.toString(), 'work_unit_paid', {
+        taskId: task.id,
+        unitId: payout.unitId,
+        title: task.title,
+        amount: 1,
+        transactionId: payout.transactionId,
+        timestamp: Date.now()
+      });
+    }
+
+    if (payouts.length) {
+      console.log('[UnitPayouts] Tokens released for verified units:', {
+        taskId: task.id,
+        payouts: payouts.map(payout => ({ workerId: payout.workerId, unitId: payout.unitId })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return payouts;
+  }
+
+  async getCredit(taskId: number, workerId: number): Promise<WorkCredit | undefined> {
+    const [credit] = await db
+      .select()
+      .from(workCredits)
+      .where(and(eq(workCredits.taskId, taskId), eq(workCredits.workerId, workerId)))
+      .limit(1);
+    return credit;
+  }
+
+  async getCredits(taskId: number): Promise<WorkCredit[]> {
+    return db
+      .select()
+      .from(workCredits)
+      .where(eq(workCredits.taskId, taskId))
+      .orderBy(asc(workCredits.workerId));
+  }
+}
+
+export const unitPayouts = UnitPayouts.getInstance();
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validationSandbox } from './validationSandbox';
+
+describe('ValidationSandbox.run', () => {
+  it('passes a result the script returns true for', async () => {
+    const outcome = await validationSandbox.run(
+      'console.log("checking", input.unit); return result.value === input.unit * 2;',
+      { unit: 21 },
+      { value: 42 }
+    );
+
+    assert.equal(outcome.passed, true);
+    assert.deepEqual(outcome.logs, ['checking 21']);
+    assert.equal(outcome.error, null);
+  });
+
+  it('fails a result the script returns anything but true for', async () => {
+    const outcome = await validationSandbox.run('return 1;', null, null);
+
+    assert.equal(outcome.passed, false);
+    assert.equal(outcome.error, null);
+  });
+
+  it('fails a script that calls fetch', async () => {
+    const outcome = await validationSandbox.run(
+      'fetch("http://127.0.0.1:1/"); return true;',
+      null,
+      null
+    );
+
+    assert.equal(outcome.passed, false);
+    assert.match(outcome.error ?? '', /fetch is not defined/);
+  });
+
+  it('gives the script no network, module or process access', async () => {
+    const outcome = await validationSandbox.run(
+      'return [' +
+      '  typeof fetch, typeof require, typeof process, typeof WebSocket,' +
+      '  typeof XMLHttpRequest, typeof globalThis.fetch, typeof module, typeof Buffer' +
+      '].every(type => type === "undefined");',
+      null,
+      null
+    );
+
+    assert.equal(outcome.passed, true);
+    assert.equal(outcome.error, null);
+  });
+
+  it('blocks reaching the host through the Function constructor', async () => {
+    const outcome = await validationSandbox.run(
+      'return (() => {}).constructor("return process")() !== undefined;',
+      null,
+      null
+    );
+
+    assert.equal(outcome.passed, false);
+    assert.match(outcome.error ?? '', /Code generation from strings disallowed/);
+  });
+
+  it('stops a script that runs past the timeout', async () => {
+    const outcome = await validationSandbox.run('while (true) {}', null, null);
+
+    assert.equal(outcome.passed, false);
+    assert.match(outcome.error ?? '', /timed out/);
+  });
+});
@@ -0,0 +1,199 @@
+import { spawn } from 'child_process';
+
+export const VALIDATION_TIMEOUT = 2000; // ms of script execution per run
+const MEMORY_LIMIT_MB = 64;
+const MAX_OUTPUT_BYTES = 256 * 1024;
+const MAX_LOG_LINES = 100;
+const MAX_CONCURRENT_RUNS = 2;
+// Allowance for the child process to start and report back
+const STARTUP_GRACE = 3000;
+
+export interface ValidationOutcome {
+  passed: boolean;
+  logs: string[];
+  error: string | null;
+  durationMs: number;
+}
+
+// Runs inside the child process. The creator's script is evaluated in a vm
+// context with a null-prototype global and string code generation disabled,
+// and only primitives (JSON text) cross into it. A fresh context has just the
+// language built-ins, so the script has no fetch, require, process or other
+// way to reach the network, the filesystem or the child's globals. The child
+// is also started under Node's permission model, which bars the filesystem,
+// child processes and worker threads but not the network, with a capped heap,
+// and is killed if it outlives the timeout.
+const RUNNER_SOURCE = `
+const vm = require('vm');
+let raw = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => { raw += chunk; });
+process.stdin.on('end', () => {
+  const { script, input, result, timeout, maxLogLines } = JSON.parse(raw);
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false }
+  });
+  context.__input = input;
+  context.__result = result;
+  context.__maxLogLines = maxLogLines;
+  const wrapped = [
+    'const __logs = [];',
+    'const __format = value => typeof value === "string" ? value : JSON.stringify(value);',
+    'const __log = (...args) => { if (__logs.length < __maxLogLines) __logs.push(args.map(__format).join(" ").slice(0, 1000)); };',
+    'const console = { log: __log, info: __log, warn: __log, error: __log };',
+    'let __passed = false, __error = null;',
+    'try {',
+    '  __passed = (function (input, result) {',
+    script,
+    '  })(JSON.parse(__input), JSON.parse(__result)) === true;',
+    '} catch (error) { __error = String(error && error.message || error); }',
+    'JSON.stringify({ passed: __passed, logs: __logs, error: __error });'
+  ].join('\\n');
+  let output;
+  try {
+    output = vm.runInContext(wrapped, context, { timeout });
+  } catch (error) {
+    output = JSON.stringify({ passed: false, logs: [], error: String(error && error.message || error) });
+  }
+  process.stdout.write(output);
+});
+`;
+
+// Node 20 only knows the experimental spelling of the flag
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission')
+  ? '--permission'
+  : '--experimental-permission';
+
+export class ValidationSandbox {
+  private static instance: ValidationSandbox;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  private constructor() {
+    console.log('[ValidationSandbox] Initialized:', {
+      timeout: VALIDATION_TIMEOUT,
+      memoryLimitMb: MEMORY_LIMIT_MB,
+      maxConcurrentRuns: MAX_CONCURRENT_RUNS
+    });
+  }
+
+  static getInstance(): ValidationSandbox {
+    if (!ValidationSandbox.instance) {
+      ValidationSandbox.instance = new ValidationSandbox();
+    }
+    return ValidationSandbox.instance;
+  }
+
+  // The script is the body of a function receiving (input, result); the
+  // result passes only if it returns exactly true
+  async run(script: string, input: unknown, result: unknown): Promise<ValidationOutcome> {
+    await this.acquire();
+    try {
+      return await this.execute(script, input, result);
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < MAX_CONCURRENT_RUNS) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // Hands the slot straight to the next waiting run, if any
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+
+  private execute(script: string, input: unknown, result: unknown): Promise<ValidationOutcome> {
+    const startedAt = Date.now();
+
+    return new Promise((resolve) => {
+      const child = spawn(process.execPath, [
+        `--max-old-space-size=${MEMORY_LIMIT_MB}`,
+        PERMISSION_FLAG,
+        '--no-warnings',
+        '-e',
+        RUNNER_SOURCE
+      ], {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: {}
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+
+      const finish = (outcome: Omit<ValidationOutcome, 'durationMs'>) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(killTimer);
+        resolve({ ...outcome, durationMs: Date.now() - startedAt });
+      };
+
+      const killTimer = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish({ passed: false, logs: [], error: 'Validation timed out' });
+      }, VALIDATION_TIMEOUT + STARTUP_GRACE);
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString('utf8');
+        if (stdout.length > MAX_OUTPUT_BYTES) {
+          child.kill('SIGKILL');
+          finish({ passed: false, logs: [], error: 'Validation produced too much output' });
+        }
+      });
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (stderr.length < MAX_OUTPUT_BYTES) stderr += chunk.toString('utf8');
+      });
+
+      child.on('error', (error) => {
+        finish({ passed: false, logs: [], error: `Sandbox failed to start: ${error.message}` });
+      });
+
+      child.on('close', (code, signal) => {
+        if (code !== 0) {
+          // A heap overflow aborts the child rather than throwing in the script
+          const reason = /heap out of memory/i.test(stderr)
+            ? 'Validation exceeded the memory limit'
+            : `Validation process exited with ${signal ?? `code ${code}`}`;
+          finish({ passed: false, logs: [], error: reason });
+          return;
+        }
+
+        try {
+          const parsed = JSON.parse(stdout);
+          finish({
+            passed: parsed.passed === true,
+            logs: Array.isArray(parsed.logs) ? parsed.logs.map(String) : [],
+            error: parsed.error ?? null
+          });
+        } catch {
+          finish({ passed: false, logs: [], error: 'Validation returned malformed output' });
+        }
+      });
+
+      child.stdin.on('error', () => {
+        // The child may exit before reading its input; 'close' reports why
+      });
+      child.stdin.end(JSON.stringify({
+        script,
+        input: JSON.stringify(input ?? null),
+        result: JSON.stringify(result ?? null),
+        timeout: VALIDATION_TIMEOUT,
+        maxLogLines: MAX_LOG_LINES
+      }));
+    });
+  }
+}
+
+export const validationSandbox = ValidationSandbox.getInstance();
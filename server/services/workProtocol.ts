@@ -0,0 +1,129 @@
+import type { Task, WorkCredit, WorkerProfile, WorkUnit } from '@db/schema';
+
+// Request and response shapes of the work unit routes, shared by the server
+// and the worker CLI. This module must stay free of runtime imports so
+// workers can load it without a database.
+
+// Workers must heartbeat within the lease or the unit goes back to the queue
+export const LEASE_DURATION = 5 * 60 * 1000; // 5 minutes
+// A unit whose lease lapses on its final attempt is marked failed
+export const MAX_ATTEMPTS = 3;
+
+// Dates arrive as ISO strings once a row has been through JSON
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+
+export type ComputationalMetadata = NonNullable<Task['computationalMetadata']>;
+
+export type SubmissionOutcome = 'completed' | 'verified' | 'flagged' | 'rejected';
+
+export interface ShardReference {
+  url: string;
+  sha256: string;
+  size: number;
+  records: number;
+}
+
+export interface WorkUnitInput {
+  unitId: number;
+  format?: string;
+  shard?: ShardReference;
+}
+
+export interface WorkProgress {
+  units: number;
+  verifiedUnits: number;
+  replicationFactor: number;
+  total: number;
+  pending: number;
+  inProgress: number;
+  leased: number;
+  expired: number;
+  completed: number;
+  verified: number;
+  failed: number;
+  flagged: number;
+}
+
+// A task with units queued for one of the worker's tokens
+export interface AvailableWork {
+  taskId: number;
+  title: string;
+  tokenId: string;
+  pendingUnits: number;
+  workUnitsPerToken: number | null;
+  computationalMetadata: ComputationalMetadata | null;
+}
+
+export type WorkerProfileRequest = Pick<WorkerProfile, 'memoryMb' | 'cpuCores'> &
+  Partial<Pick<WorkerProfile, 'gpuCount' | 'status'>>;
+
+export type RegisteredWorkerProfile = Serialized<WorkerProfile>;
+
+export interface ClaimRequest {
+  tokenId: string;
+}
+
+export type ClaimedWorkUnit = Serialized<WorkUnit>;
+
+export interface SubmitRequest {
+  result: unknown;
+}
+
+export interface SubmitResponse {
+  message: string;
+  outcome: Exclude<SubmissionOutcome, 'rejected'>;
+  unit: ClaimedWorkUnit;
+}
+
+export interface HeartbeatResponse {
+  unitId: number;
+  leaseExpiresAt: string;
+}
+
+export interface WorkerEarnings {
+  workUnitsPerToken: number;
+  creditedUnits: number;
+  paidTokens: number;
+  unitsTowardsNextToken: number;
+}
+
+export interface CreatorEarnings {
+  workUnitsPerToken: number;
+  credits: Array<Serialized<WorkCredit>>;
+}
+
+export interface ApiError {
+  message: string;
+  code: string;
+}
+
+export type WorkUnitEventType = 'queued' | 'claimed' | 'completed' | 'verified' | 'expired';
+
+// Published on the task:<id> WebSocket channel as work_unit_progress
+export interface WorkUnitEvent {
+  taskId: number;
+  event: WorkUnitEventType;
+  unitId: number;
+  unitIndex: number;
+  replica: number;
+  workerId: number | null;
+  status: WorkUnit['status'];
+  timestamp: number;
+}
+
+export interface WorkerActivity {
+  workerId: number;
+  username: string;
+  completed: number;
+  verified: number;
+  flagged: number;
+  averageDurationMs: number | null;
+}
+
+export interface TaskActivity {
+  leaderboard: WorkerActivity[];
+  // Replicas completed per minute over the last hour, oldest first
+  throughput: Array<{ minute: string; completed: number }>;
+}
@@ -0,0 +1,141 @@
+import { db } from '@db';
+import { users, workerProfiles, type Task, type WorkerProfile } from '@db/schema';
+import { and, eq, gte } from 'drizzle-orm';
+
+const MAX_MEMORY_MB = 4 * 1024 * 1024; // 4 TB
+const MAX_CPU_CORES = 1024;
+const MAX_GPU_COUNT = 64;
+
+type ResourceRequirements = NonNullable<NonNullable<Task['computationalMetadata']>['resourceRequirements']>;
+
+export interface WorkerCapabilities {
+  memoryMb: number;
+  cpuCores: number;
+  gpuCount: number;
+  status: 'active' | 'paused';
+}
+
+function isCount(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+export function validateWorkerProfile(body: {
+  memoryMb?: unknown;
+  cpuCores?: unknown;
+  gpuCount?: unknown;
+  status?: unknown;
+}): WorkerCapabilities | { error: string } {
+  if (!isCount(body.memoryMb, 1, MAX_MEMORY_MB)) {
+    return { error: 'Memory must be a whole number of megabytes' };
+  }
+  if (!isCount(body.cpuCores, 1, MAX_CPU_CORES)) {
+    return { error: `CPU cores must be between 1 and ${MAX_CPU_CORES}` };
+  }
+  const gpuCount = body.gpuCount ?? 0;
+  if (!isCount(gpuCount, 0, MAX_GPU_COUNT)) {
+    return { error: `GPU count must be between 0 and ${MAX_GPU_COUNT}` };
+  }
+  const status = body.status ?? 'active';
+  if (status !== 'active' && status !== 'paused') {
+    return { error: 'Status must be active or paused' };
+  }
+  return { memoryMb: body.memoryMb, cpuCores: body.cpuCores, gpuCount, status };
+}
+
+// Memory is in megabytes and CPU in cores, matching worker profiles
+export function validateResourceRequirements(value: unknown): ResourceRequirements | undefined | { error: string } {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    return { error: 'Resource requirements must be an object' };
+  }
+
+  const { minMemory = 0, minCpu = 0, gpuRequired = false } = value as Partial<ResourceRequirements>;
+  if (!isCount(minMemory, 0, MAX_MEMORY_MB)) {
+    return { error: 'Minimum memory must be a whole number of megabytes' };
+  }
+  if (!isCount(minCpu, 0, MAX_CPU_CORES)) {
+    return { error: `Minimum CPU must be between 0 and ${MAX_CPU_CORES} cores` };
+  }
+  if (typeof gpuRequired !== 'boolean') {
+    return { error: 'GPU required must be true or false' };
+  }
+  return { minMemory, minCpu, gpuRequired };
+}
+
+// Paused profiles never qualify, whatever their hardware
+export function meetsRequirements(profile: WorkerProfile | undefined, requirements?: ResourceRequirements): boolean {
+  if (!profile || profile.status !== 'active') return false;
+  if (!requirements) return true;
+  return profile.memoryMb >= requirements.minMemory &&
+    profile.cpuCores >= requirements.minCpu &&
+    (!requirements.gpuRequired || profile.gpuCount > 0);
+}
+
+export class WorkerRegistry {
+  private static instance: WorkerRegistry;
+
+  private constructor() {
+    console.log('[WorkerRegistry] Initialized');
+  }
+
+  static getInstance(): WorkerRegistry {
+    if (!WorkerRegistry.instance) {
+      WorkerRegistry.instance = new WorkerRegistry();
+    }
+    return WorkerRegistry.instance;
+  }
+
+  async getProfile(userId: number): Promise<WorkerProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(workerProfiles)
+      .where(eq(workerProfiles.userId, userId))
+      .limit(1);
+    return profile;
+  }
+
+  async saveProfile(userId: number, capabilities: WorkerCapabilities): Promise<WorkerProfile> {
+    const [profile] = await db
+      .insert(workerProfiles)
+      .values({ userId, ...capabilities })
+      .onConflictDoUpdate({
+        target: workerProfiles.userId,
+        set: { ...capabilities, updated_at: new Date() }
+      })
+      .returning();
+
+    console.log('[WorkerRegistry] Profile saved:', { userId, ...capabilities });
+    return profile;
+  }
+
+  // Opted-in workers able to run the task, keyed by username since that is
+  // how tokens record their owner
+  async getEligibleWorkers(requirements?: ResourceRequirements) {
+    const conditions = [eq(workerProfiles.status, 'active')];
+    if (requirements) {
+      conditions.push(
+        gte(workerProfiles.memoryMb, requirements.minMemory),
+        gte(workerProfiles.cpuCores, requirements.minCpu)
+      );
+      if (requirements.gpuRequired) {
+        conditions.push(gte(workerProfiles.gpuCount, 1));
+      }
+    }
+
+    return db
+      .select({
+        userId: workerProfiles.userId,
+        username: users.username,
+        memoryMb: workerProfiles.memoryMb,
+        cpuCores: workerProfiles.cpuCores,
+        gpuCount: workerProfiles.gpuCount,
+      })
+      .from(workerProfiles)
+      .innerJoin(users, eq(workerProfiles.userId, users.id))
+      .where(and(...conditions));
+  }
+}
+
+export const workerRegistry = WorkerRegistry.getInstance();
@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  sha256: string;
+}
+
+// Storage backends only deal in opaque keys so the database never holds
+// backend-specific paths
+export interface StorageBackend {
+  put(data: Buffer, extension?: string): Promise<StoredObject>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements StorageBackend {
+  constructor(private readonly baseDir: string) {
+    console.log('[Storage] Using local disk storage:', baseDir);
+  }
+
+  private resolveKey(key: string): string {
+    // Keys are generated by put(); reject anything that could escape the base dir
+    if (!/^[a-f0-9]{2}\/[a-f0-9]{32}(\.[a-z0-9]+)?$/.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.baseDir, key);
+  }
+
+  async put(data: Buffer, extension?: string): Promise<StoredObject> {
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    const name = randomBytes(16).toString('hex');
+    const suffix = extension && /^[a-z0-9]+$/.test(extension) ? `.${extension}` : '';
+    const key = `${name.slice(0, 2)}/${name}${suffix}`;
+    const filePath = this.resolveKey(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data, { flag: 'wx' });
+
+    return { key, size: data.length, sha256 };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+}
+
+export const proofStorage: StorageBackend = new LocalDiskStorage(
+  process.env.PROOF_STORAGE_DIR || path.resolve(process.cwd(), 'uploads', 'proofs')
+);
+
+export const datasetStorage: StorageBackend = new LocalDiskStorage(
+  process.env.DATASET_STORAGE_DIR || path.resolve(process.cwd(), 'uploads', 'datasets')
+);
@@ -1,5 +1,5 @@
 import type { Server } from "http";
-import type { Request } from "express";
+import type { Request, RequestHandler, Response } from "express";
 import { log } from "./vite";
 import { balanceTracker } from './services/balanceTracker';
 import { WebSocketServer, WebSocket } from 'ws';
@@ -14,6 +14,8 @@ interface ClientConnection {
   isAlive: boolean;
   connectionAttempts: number;
   sessionId: string;
+  // Channels the client asked to follow, e.g. task:12 for a task's progress
+  subscriptions: string[];
 }
 
 interface WebSocketMessage {
@@ -29,8 +31,13 @@ class WebSocketManager {
   private pingInterval: NodeJS.Timeout;
   private static readonly PING_INTERVAL = 30000; // 30 seconds
   private static readonly WS_PATH = '/api/ws';
+  private static readonly CHANNEL_PATTERN = /^task:\d+$/;
+  private static readonly MAX_SUBSCRIPTIONS = 20;
+  private static readonly MAX_CONNECTIONS_PER_USER = 10;
+  // Matches the client's check; evicted tabs stay disconnected
+  private static readonly EVICTED_CLOSE_CODE = 4001;
 
-  constructor(server: Server) {
+  constructor(server: Server, private readonly sessionMiddleware?: RequestHandler) {
     try {
       log('[WebSocket] Initializing WebSocket server');
 
@@ -71,12 +78,21 @@ class WebSocketManager {
 
         log(`[WebSocket] Upgrade request for ${url.pathname}`);
 
-        // Get user ID from session if available
-        const userId = (request as any).session?.passport?.user?.id;
+        // Upgrades bypass Express, so the session is loaded here. Passport
+        // keeps the logged-in user's id in it.
+        const upgrade = () => {
+          const userId = (request as any).session?.passport?.user;
 
-        wsServer.handleUpgrade(request, socket, head, (ws) => {
-          this.handleConnection(ws, userId);
-        });
+          wsServer!.handleUpgrade(request, socket, head, (ws) => {
+            this.handleConnection(ws, userId !== undefined ? String(userId) : undefined);
+          });
+        };
+
+        if (this.sessionMiddleware) {
+          this.sessionMiddleware(request, {} as Response, upgrade);
+        } else {
+          upgrade();
+        }
       } catch (error) {
         log(`[WebSocket] Upgrade error: ${error instanceof Error ? error.message : String(error)}`);
         socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
@@ -89,14 +105,18 @@ class WebSocketManager {
     const sessionId = Math.random().toString(36).substring(2);
     log(`[WebSocket] New connection: ${sessionId}${userId ? ` for user ${userId}` : ''}`);
 
-    // Clean up existing connections for this user
+    // Every tab keeps its own connection and broadcasts reach all of them.
+    // Past the limit the user's oldest connection gives way; its tab is told
+    // not to reconnect, so tabs can't keep evicting each other.
     if (userId) {
-      for (const [oldSessionId, connection] of this.connections.entries()) {
-        if (connection.userId === userId) {
-          connection.ws.close(1000, 'New connection established');
-          this.connections.delete(oldSessionId);
-        }
-      }
+      const existing = Array.from(this.connections.values())
+        .filter(connection => connection.userId === userId);
+      existing
+        .slice(0, Math.max(existing.length - WebSocketManager.MAX_CONNECTIONS_PER_USER + 1, 0))
+        .forEach(connection => {
+          connection.ws.close(WebSocketManager.EVICTED_CLOSE_CODE, 'Too many connections');
+          this.connections.delete(connection.sessionId);
+        });
     }
 
     const connection: ClientConnection = {
@@ -105,7 +125,8 @@ class WebSocketManager {
       lastPing: Date.now(),
       isAlive: true,
       connectionAttempts: 0,
-      sessionId
+      sessionId,
+      subscriptions: []
     };
 
     this.connections.set(sessionId, connection);
@@ -134,6 +155,8 @@ class WebSocketManager {
         const message = JSON.parse(data.toString());
         if (message.type === 'ping') {
           this.sendMessage(ws, { type: 'pong' });
+        } else if (message.type === 'subscribe' || message.type === 'unsubscribe') {
+          this.handleSubscription(sessionId, message.type, message.data?.channel);
         }
       } catch (error) {
         log(`[WebSocket] Message parsing error: ${error instanceof Error ? error.message : String(error)}`);
@@ -150,6 +173,24 @@ class WebSocketManager {
     });
   }
 
+  private handleSubscription(sessionId: string, type: 'subscribe' | 'unsubscribe', channel: unknown) {
+    const connection = this.connections.get(sessionId);
+    if (!connection || typeof channel !== 'string' || !WebSocketManager.CHANNEL_PATTERN.test(channel)) {
+      return;
+    }
+
+    if (type === 'unsubscribe') {
+      connection.subscriptions = connection.subscriptions.filter(subscription => subscription !== channel);
+      return;
+    }
+
+    if (!connection.subscriptions.includes(channel) &&
+      connection.subscriptions.length < WebSocketManager.MAX_SUBSCRIPTIONS) {
+      connection.subscriptions.push(channel);
+    }
+    this.sendMessage(connection.ws, { type: 'subscribed', data: { channel } });
+  }
+
   private handleClose(sessionId: string) {
     const connection = this.connections.get(sessionId);
     if (connection) {
@@ -192,6 +233,18 @@ class WebSocketManager {
     });
   }
 
+  // Sends to everyone subscribed to the channel and to the given users, once
+  // per connection
+  public broadcastToChannel(channel: string, type: string, data: any, userIds: string[] = []) {
+    this.connections.forEach(connection => {
+      const subscribed = connection.subscriptions.includes(channel) ||
+        (!!connection.userId && userIds.includes(connection.userId));
+      if (subscribed && connection.ws.readyState === WebSocket.OPEN) {
+        this.sendMessage(connection.ws, { type, data });
+      }
+    });
+  }
+
   public cleanup() {
     clearInterval(this.pingInterval);
     this.connections.forEach(connection => {
@@ -205,11 +258,11 @@ class WebSocketManager {
   }
 }
 
-export function setupWebSocket(server: Server) {
+export function setupWebSocket(server: Server, sessionMiddleware?: RequestHandler) {
   if (wsManager) {
     wsManager.cleanup();
   }
-  wsManager = new WebSocketManager(server);
+  wsManager = new WebSocketManager(server, sessionMiddleware);
   return wsServer;
 }
 
@@ -219,4 +272,12 @@ export function broadcastToUser(userId: string, type: string, data: any) {
     return;
   }
   wsManager.broadcastToUser(userId, type, data);
-}
\ No newline at end of file
+}
+
+export function broadcastToChannel(channel: string, type: string, data: any, userIds: string[] = []) {
+  if (!wsManager) {
+    log('[WebSocket] Cannot broadcast: WebSocket manager not initialized');
+    return;
+  }
+  wsManager.broadcastToChannel(channel, type, data, userIds);
+}
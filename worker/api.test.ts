@@ -0,0 +1,118 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { db } from '@db';
+import { tasks, tokens, users } from '@db/schema';
+import { setupAuth } from '../server/auth';
+import { computationalTaskAgent } from '../server/services/ComputationalTaskAgent';
+import { WorkApiClient } from './api';
+
+const MIN_MEMORY = 4_000;
+
+// Drives the server's routes, on an ephemeral port, the way the worker does.
+// The task and token are seeded straight into the database.
+describe('WorkApiClient against the server', () => {
+  const username = 'api-test-worker';
+  const password = 'api-test-password';
+  const tokenId = 'api-test-token';
+  let server: Server;
+  let baseUrl: string;
+  let taskId: number;
+  let api: WorkApiClient;
+
+  before(async () => {
+    // The routes load the payments module, which needs a key; nothing here
+    // reaches Stripe
+    process.env.STRIPE_SECRET_KEY ??= 'sk_test_unused';
+    const { registerRoutes } = await import('../server/routes');
+
+    const app = express();
+    app.use(express.json());
+    setupAuth(app);
+    server = registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const register = await fetch(new URL('/api/register', baseUrl), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+    assert.equal(register.status, 200, await register.text());
+
+    api = new WorkApiClient(baseUrl);
+    await api.login(username, password);
+    await api.registerProfile({ memoryMb: MIN_MEMORY, cpuCores: 2 });
+
+    const [creator] = await db
+      .insert(users)
+      .values({ username: 'api-test-creator', password: 'x' })
+      .returning();
+
+    await db.insert(tokens).values({ id: tokenId, creator: username, owner: username, mintedInBlock: 'api-test' });
+
+    const [task] = await db
+      .insert(tasks)
+      .values({
+        title: 'Work API test',
+        description: 'Seeded by the WorkApiClient test',
+        type: 'computational',
+        reward: 1,
+        creatorId: creator.id,
+        proofRequired: 'none',
+        workUnitsTotal: 2,
+        workUnitsPerToken: 2,
+        computationalMetadata: {
+          inputFormat: 'json',
+          outputFormat: 'json',
+          estimatedTimePerUnit: 60,
+          distributionStrategy: 'sequential',
+          resourceRequirements: { minMemory: MIN_MEMORY, minCpu: 1, gpuRequired: false },
+        },
+      })
+      .returning();
+    taskId = task.id;
+
+    assert.equal(await computationalTaskAgent.distributeWork(task.id), true);
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('lists the seeded task as available work for the token', async () => {
+    const work = await api.getAvailableWork();
+    const seeded = work.find(entry => entry.taskId === taskId);
+
+    assert.ok(seeded, 'seeded task is not listed');
+    assert.equal(seeded.tokenId, tokenId);
+    assert.equal(seeded.pendingUnits, 2);
+  });
+
+  it('claims, heartbeats and submits every unit', async () => {
+    for (let i = 0; i < 2; i++) {
+      const unit = await api.claim(taskId, tokenId);
+      assert.ok(unit, `claim ${i + 1} returned no unit`);
+      assert.equal(unit.status, 'in_progress');
+
+      const heartbeat = await api.heartbeat(taskId, unit.id);
+      assert.equal(heartbeat.unitId, unit.id);
+      assert.ok(new Date(heartbeat.leaseExpiresAt) > new Date());
+
+      // With one replica per unit a passing result is verified straight away
+      assert.equal(await api.submit(taskId, unit.id, { unit: unit.unitIndex, value: 42 }), 'verified');
+    }
+
+    assert.equal(await api.claim(taskId, tokenId), null);
+  });
+
+  it('reports earnings, with nothing paid on a task without escrow', async () => {
+    const earnings = await api.getEarnings(taskId);
+
+    assert.equal(earnings.workUnitsPerToken, 2);
+    assert.equal(earnings.creditedUnits, 0);
+    assert.equal(earnings.paidTokens, 0);
+  });
+});
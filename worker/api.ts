@@ -0,0 +1,122 @@
+import type {
+  ApiError,
+  AvailableWork,
+  ClaimRequest,
+  ClaimedWorkUnit,
+  HeartbeatResponse,
+  RegisteredWorkerProfile,
+  SubmissionOutcome,
+  SubmitRequest,
+  SubmitResponse,
+  WorkerEarnings,
+  WorkerProfileRequest
+} from '../server/services/workProtocol';
+
+export class WorkApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WorkApiError';
+  }
+}
+
+// Talks to the work unit routes with a session cookie, the same way the
+// browser does
+export class WorkApiClient {
+  private cookie = '';
+
+  constructor(private readonly baseUrl: string) {}
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(new URL(path, this.baseUrl), {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(this.cookie && { Cookie: this.cookie })
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let error: Partial<ApiError> = {};
+      try {
+        error = JSON.parse(text);
+      } catch {
+        error = { message: text };
+      }
+      throw new WorkApiError(response.status, error.code ?? 'HTTP_ERROR', error.message || response.statusText);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  async login(username: string, password: string): Promise<void> {
+    const response = await fetch(new URL('/api/login', this.baseUrl), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+
+    if (!response.ok) {
+      throw new WorkApiError(response.status, 'LOGIN_FAILED', await response.text());
+    }
+
+    this.cookie = response.headers.getSetCookie()
+      .map(cookie => cookie.split(';')[0])
+      .join('; ');
+  }
+
+  registerProfile(profile: WorkerProfileRequest) {
+    return this.request<RegisteredWorkerProfile>('PUT', '/api/workers/me/profile', profile);
+  }
+
+  getAvailableWork() {
+    return this.request<AvailableWork[]>('GET', '/api/workers/me/work');
+  }
+
+  // Resolves to null when another worker got there first
+  async claim(taskId: number, tokenId: string): Promise<ClaimedWorkUnit | null> {
+    try {
+      return await this.request<ClaimedWorkUnit>('POST', `/api/tasks/${taskId}/claim`, { tokenId } satisfies ClaimRequest);
+    } catch (error) {
+      if (error instanceof WorkApiError && error.code === 'NO_WORK_AVAILABLE') return null;
+      throw error;
+    }
+  }
+
+  heartbeat(taskId: number, unitId: number) {
+    return this.request<HeartbeatResponse>('POST', `/api/tasks/${taskId}/units/${unitId}/heartbeat`);
+  }
+
+  async submit(taskId: number, unitId: number, result: unknown): Promise<SubmissionOutcome> {
+    try {
+      const response = await this.request<SubmitResponse>(
+        'POST',
+        `/api/tasks/${taskId}/units/${unitId}/submit`,
+        { result } satisfies SubmitRequest
+      );
+      return response.outcome;
+    } catch (error) {
+      if (error instanceof WorkApiError && error.code === 'VALIDATION_FAILED') return 'rejected';
+      throw error;
+    }
+  }
+
+  getEarnings(taskId: number) {
+    return this.request<WorkerEarnings>('GET', `/api/tasks/${taskId}/earnings`);
+  }
+
+  async fetchShard(url: string): Promise<Buffer> {
+    const response = await fetch(new URL(url, this.baseUrl), {
+      headers: this.cookie ? { Cookie: this.cookie } : {}
+    });
+    if (!response.ok) {
+      throw new WorkApiError(response.status, 'SHARD_FETCH_FAILED', await response.text());
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
@@ -0,0 +1,66 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ClaimedWorkUnit, ComputationalMetadata, WorkUnitInput } from '../server/services/workProtocol';
+
+export interface ExecutorContext {
+  taskId: number;
+  unit: ClaimedWorkUnit;
+  metadata: ComputationalMetadata | null;
+  // Contents of the unit's dataset shard, already checked against its checksum
+  shard: Buffer | null;
+  // Aborted when the lease is lost; the result would be refused anyway
+  signal: AbortSignal;
+}
+
+// An executor module default-exports (or exports as `execute`) a function
+// computing the result of one work unit
+export type Executor = (input: WorkUnitInput | null, context: ExecutorContext) => unknown | Promise<unknown>;
+
+// Executor specs are `path` for the fallback executor or `taskId=path` for
+// one task
+export function parseExecutorSpecs(specs: string[]): Record<string, string> | { error: string } {
+  const paths: Record<string, string> = {};
+  for (const spec of specs) {
+    const match = /^(?:(\d+)=)?(.+)$/.exec(spec);
+    if (!match) {
+      return { error: `Invalid executor "${spec}"; use path or taskId=path` };
+    }
+    const key = match[1] ?? '*';
+    if (paths[key]) {
+      return { error: `More than one executor given for ${key === '*' ? 'all tasks' : `task ${key}`}` };
+    }
+    paths[key] = match[2];
+  }
+  return paths;
+}
+
+export class ExecutorRegistry {
+  private loaded: Record<string, Promise<Executor>> = {};
+
+  constructor(private readonly paths: Record<string, string>) {}
+
+  handles(taskId: number): boolean {
+    return !!(this.paths[taskId] ?? this.paths['*']);
+  }
+
+  // Modules are imported once and shared by every unit of the task
+  get(taskId: number): Promise<Executor> {
+    const path = this.paths[taskId] ?? this.paths['*'];
+    if (!path) {
+      return Promise.reject(new Error(`No executor configured for task ${taskId}`));
+    }
+    if (!this.loaded[path]) {
+      this.loaded[path] = loadExecutor(path);
+    }
+    return this.loaded[path];
+  }
+}
+
+async function loadExecutor(path: string): Promise<Executor> {
+  const module = await import(pathToFileURL(resolve(path)).href);
+  const execute = module.default ?? module.execute;
+  if (typeof execute !== 'function') {
+    throw new Error(`${path} must export an executor function as default or "execute"`);
+  }
+  return execute as Executor;
+}
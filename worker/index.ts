@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import { cpus, totalmem } from 'os';
+import { parseArgs } from 'util';
+import { LEASE_DURATION, type AvailableWork, type ClaimedWorkUnit, type WorkUnitInput } from '../server/services/workProtocol';
+import { WorkApiClient, WorkApiError } from './api';
+import { ExecutorRegistry, parseExecutorSpecs } from './executors';
+
+const HEARTBEAT_INTERVAL = LEASE_DURATION / 3;
+
+const USAGE = `Usage: npm run worker -- --username <name> --executor [taskId=]<module> [options]
+
+Claims computational work units for your tokens, runs them with a local
+executor module and submits the results.
+
+Options:
+  --server <url>          Server to work for (default: $WORKER_SERVER or http://localhost:5000)
+  --username <name>       Account to log in as (default: $WORKER_USERNAME)
+  --password <password>   Password (default: $WORKER_PASSWORD)
+  --executor <spec>       Executor module, for all tasks or taskId=module for one; repeatable
+  --task <id>             Only work on this task; repeatable
+  --concurrency <n>       Units to run at once (default: 1)
+  --memory <mb>           Memory to advertise (default: this machine's)
+  --cpus <n>              CPU cores to advertise (default: this machine's)
+  --gpus <n>              GPUs to advertise (default: 0)
+  --poll-interval <s>     Seconds between checks when there is no work (default: 10)
+  --report-interval <s>   Seconds between throughput reports (default: 60)
+  --once                  Exit once no work is left instead of polling
+  --help                  Show this message`;
+
+interface Stats {
+  startedAt: number;
+  submitted: number;
+  verified: number;
+  flagged: number;
+  rejected: number;
+  errors: number;
+  leasesLost: number;
+  windowStart: number;
+  windowSubmitted: number;
+  tasks: number[];
+}
+
+function parseCount(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a whole number`);
+  }
+  return parsed;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class Worker {
+  private stopping = false;
+  private stats: Stats;
+
+  constructor(
+    private readonly api: WorkApiClient,
+    private readonly executors: ExecutorRegistry,
+    private readonly options: { tasks: number[]; pollInterval: number; once: boolean }
+  ) {
+    const now = Date.now();
+    this.stats = {
+      startedAt: now,
+      submitted: 0,
+      verified: 0,
+      flagged: 0,
+      rejected: 0,
+      errors: 0,
+      leasesLost: 0,
+      windowStart: now,
+      windowSubmitted: 0,
+      tasks: []
+    };
+  }
+
+  stop() {
+    this.stopping = true;
+  }
+
+  private async findWork(): Promise<AvailableWork[]> {
+    const available = await this.api.getAvailableWork();
+    return available.filter(work =>
+      this.executors.handles(work.taskId) &&
+      (!this.options.tasks.length || this.options.tasks.includes(work.taskId))
+    );
+  }
+
+  // Each loop claims one unit at a time; parallel loops are safe because
+  // the server never hands the same unit to two claims
+  async run(): Promise<void> {
+    while (!this.stopping) {
+      let claimed: { work: AvailableWork; unit: ClaimedWorkUnit } | null = null;
+
+      try {
+        for (const work of await this.findWork()) {
+          const unit = await this.api.claim(work.taskId, work.tokenId);
+          if (unit) {
+            claimed = { work, unit };
+            break;
+          }
+        }
+      } catch (error) {
+        this.stats.errors++;
+        console.error('[Worker] Failed to fetch work:', error instanceof Error ? error.message : error);
+      }
+
+      if (!claimed) {
+        if (this.options.once) return;
+        await sleep(this.options.pollInterval);
+        continue;
+      }
+
+      await this.process(claimed.work, claimed.unit);
+    }
+  }
+
+  private async process(work: AvailableWork, unit: ClaimedWorkUnit): Promise<void> {
+    const lease = new AbortController();
+    const heartbeat = setInterval(async () => {
+      try {
+        await this.api.heartbeat(work.taskId, unit.id);
+      } catch (error) {
+        if (error instanceof WorkApiError && error.code === 'LEASE_EXPIRED') {
+          lease.abort();
+        } else {
+          console.warn('[Worker] Heartbeat failed:', { taskId: work.taskId, unitId: unit.id, error: String(error) });
+        }
+      }
+    }, HEARTBEAT_INTERVAL);
+
+    try {
+      const input = unit.input as WorkUnitInput | null;
+      const shard = input?.shard ? await this.api.fetchShard(input.shard.url) : null;
+      if (input?.shard && createHash('sha256').update(shard!).digest('hex') !== input.shard.sha256) {
+        throw new Error(`Shard for unit ${unit.unitIndex} failed its checksum`);
+      }
+
+      const execute = await this.executors.get(work.taskId);
+      const startedAt = Date.now();
+      const result = await execute(input, {
+        taskId: work.taskId,
+        unit,
+        metadata: work.computationalMetadata,
+        shard,
+        signal: lease.signal
+      });
+
+      if (lease.signal.aborted) {
+        this.stats.leasesLost++;
+        console.warn('[Worker] Lease lost before submitting:', { taskId: work.taskId, unitId: unit.id });
+        return;
+      }
+
+      const outcome = await this.api.submit(work.taskId, unit.id, result);
+      this.stats.submitted++;
+      this.stats.windowSubmitted++;
+      if (outcome === 'verified') this.stats.verified++;
+      if (outcome === 'flagged') this.stats.flagged++;
+      if (outcome === 'rejected') this.stats.rejected++;
+      if (!this.stats.tasks.includes(work.taskId)) this.stats.tasks.push(work.taskId);
+
+      console.log('[Worker] Unit submitted:', {
+        taskId: work.taskId,
+        unitIndex: unit.unitIndex,
+        replica: unit.replica,
+        outcome,
+        durationMs: Date.now() - startedAt
+      });
+    } catch (error) {
+      // The unit is left to its lease, which requeues it for another attempt
+      this.stats.errors++;
+      console.error('[Worker] Unit failed:', {
+        taskId: work.taskId,
+        unitId: unit.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  async report(): Promise<void> {
+    const now = Date.now();
+    const minutes = (now - this.stats.windowStart) / 60000;
+
+    let paidTokens = 0;
+    for (const taskId of this.stats.tasks) {
+      try {
+        paidTokens += (await this.api.getEarnings(taskId)).paidTokens;
+      } catch {
+        // Earnings are informational; the next report tries again
+      }
+    }
+
+    console.log('[Worker] Throughput:', {
+      unitsPerMinute: minutes > 0 ? Math.round((this.stats.windowSubmitted / minutes) * 100) / 100 : 0,
+      submitted: this.stats.submitted,
+      verified: this.stats.verified,
+      flagged: this.stats.flagged,
+      rejected: this.stats.rejected,
+      errors: this.stats.errors,
+      leasesLost: this.stats.leasesLost,
+      tokensEarned: paidTokens,
+      uptimeSeconds: Math.round((now - this.stats.startedAt) / 1000)
+    });
+
+    this.stats.windowStart = now;
+    this.stats.windowSubmitted = 0;
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      server: { type: 'string', default: process.env.WORKER_SERVER ?? 'http://localhost:5000' },
+      username: { type: 'string', default: process.env.WORKER_USERNAME },
+      password: { type: 'string', default: process.env.WORKER_PASSWORD },
+      executor: { type: 'string', multiple: true, default: [] },
+      task: { type: 'string', multiple: true, default: [] },
+      concurrency: { type: 'string' },
+      memory: { type: 'string' },
+      cpus: { type: 'string' },
+      gpus: { type: 'string' },
+      'poll-interval': { type: 'string' },
+      'report-interval': { type: 'string' },
+      once: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!values.username || !values.password) {
+    throw new Error('A username and password are required (--username, --password or WORKER_PASSWORD)');
+  }
+
+  const executorPaths = parseExecutorSpecs(values.executor ?? []);
+  if ('error' in executorPaths) {
+    throw new Error(executorPaths.error);
+  }
+  if (!Object.keys(executorPaths).length) {
+    throw new Error('At least one --executor is required');
+  }
+
+  const tasks = (values.task ?? []).map(task => parseCount(task, 0, 'task'));
+  const concurrency = Math.max(1, parseCount(values.concurrency, 1, 'concurrency'));
+  const pollInterval = parseCount(values['poll-interval'], 10, 'poll-interval') * 1000;
+  const reportInterval = parseCount(values['report-interval'], 60, 'report-interval') * 1000;
+
+  const api = new WorkApiClient(values.server!);
+  await api.login(values.username, values.password);
+
+  const profile = await api.registerProfile({
+    memoryMb: parseCount(values.memory, Math.floor(totalmem() / (1024 * 1024)), 'memory'),
+    cpuCores: parseCount(values.cpus, cpus().length, 'cpus'),
+    gpuCount: parseCount(values.gpus, 0, 'gpus'),
+    status: 'active'
+  });
+
+  console.log('[Worker] Registered:', {
+    server: values.server,
+    username: values.username,
+    memoryMb: profile.memoryMb,
+    cpuCores: profile.cpuCores,
+    gpuCount: profile.gpuCount,
+    concurrency
+  });
+
+  const worker = new Worker(api, new ExecutorRegistry(executorPaths), {
+    tasks,
+    pollInterval,
+    once: values.once ?? false
+  });
+
+  // The first signal lets running units finish; a second exits immediately
+  let interrupted = false;
+  process.on('SIGINT', () => {
+    if (interrupted) process.exit(130);
+    interrupted = true;
+    console.log('[Worker] Stopping after the current units finish');
+    worker.stop();
+  });
+
+  const reporter = setInterval(() => worker.report(), reportInterval);
+  try {
+    await Promise.all(Array.from({ length: concurrency }, () => worker.run()));
+  } finally {
+    clearInterval(reporter);
+    await worker.report();
+  }
+}
+
+main().catch(error => {
+  console.error('[Worker]', error instanceof Error ? error.message : error);
+  process.exit(1);
+});